@@ -1,12 +1,31 @@
 import type { NextConfig } from 'next';
 
+type RemotePattern = NonNullable<NonNullable<NextConfig['images']>['remotePatterns']>[number];
+
+/**
+ * Allow images from a self-hosted S3 server (e.g. MinIO over plain http)
+ */
+function s3RemotePatterns(): RemotePattern[] {
+  const publicUrl = process.env.S3_PUBLIC_URL || process.env.S3_ENDPOINT;
+  if (!publicUrl) return [];
+
+  const { protocol, hostname, port } = new URL(publicUrl);
+  return [{
+    protocol: protocol.replace(':', '') as 'http' | 'https',
+    hostname,
+    port,
+  }];
+}
+
 const nextConfig: NextConfig = {
+  serverExternalPackages: ['better-sqlite3'],
   images: {
     remotePatterns: [
       {
         protocol: 'https',
         hostname: '**',
       },
+      ...s3RemotePatterns(),
     ],
   },
   experimental: {
@@ -17,4 +36,3 @@ const nextConfig: NextConfig = {
 };
 
 export default nextConfig;
-
@@ -0,0 +1,251 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { ArrowLeft, BookImage, Pencil, Trash2 } from 'lucide-react';
+import { AnimatedBackground } from '@/components/background';
+import {
+  GalleryGrid,
+  PhotoViewerModal,
+  AlbumEditorModal,
+} from '@/components/gallery';
+import { ConfirmDialog, GlassCard, GlassButton } from '@/components/ui';
+import { AuthGuard } from '@/components/auth/AuthGuard';
+import { useAlbum } from '@/hooks/useAlbums';
+import { useBackground } from '@/context/BackgroundContext';
+import { useGalleryStore } from '@/stores/galleryStore';
+import type { Photo, PhotoFrame } from '@/types/photo';
+
+/**
+ * Album Page
+ * 
+ * Shows one album's photos in the album's own order, with controls for
+ * editing the album, taking photos out of it and deleting it.
+ */
+function AlbumContent({ albumId }: { albumId: string }) {
+  const router = useRouter();
+  const {
+    album,
+    photos,
+    isLoading,
+    notFound,
+    updateAlbum,
+    reorderPhotos,
+    removePhoto,
+    toggleFavorite,
+    deleteAlbum,
+  } = useAlbum(albumId);
+  const { tagColors } = useGalleryStore();
+  
+  const { type, url, gradient, color, blurIntensity, overlayOpacity } = useBackground();
+  
+  // UI state
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [viewingPhoto, setViewingPhoto] = useState<PhotoFrame | null>(null);
+  const [photoToRemove, setPhotoToRemove] = useState<Photo | null>(null);
+  const [isRemoving, setIsRemoving] = useState(false);
+  const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  
+  // Confirm taking a photo out of the album
+  const handleConfirmRemove = useCallback(async () => {
+    if (!photoToRemove) return;
+    
+    setIsRemoving(true);
+    await removePhoto(photoToRemove.id);
+    setIsRemoving(false);
+    
+    // Close viewer if removing the viewed photo
+    if (viewingPhoto?.id === photoToRemove.id) {
+      setViewingPhoto(null);
+    }
+    setPhotoToRemove(null);
+  }, [photoToRemove, removePhoto, viewingPhoto]);
+  
+  // Confirm deleting the album
+  const handleConfirmDelete = useCallback(async () => {
+    setIsDeleting(true);
+    const deleted = await deleteAlbum();
+    setIsDeleting(false);
+    
+    if (deleted) {
+      router.push('/gallery');
+    } else {
+      setIsDeleteConfirmOpen(false);
+    }
+  }, [deleteAlbum, router]);
+  
+  // Step through the album in the viewer
+  const handleStep = useCallback((offset: -1 | 1) => {
+    if (!viewingPhoto) return;
+    const next = photos[photos.findIndex((p) => p.id === viewingPhoto.id) + offset];
+    if (next) {
+      setViewingPhoto(next);
+    }
+  }, [viewingPhoto, photos]);
+  
+  // Favorite from the grid or viewer
+  const handleFavorite = useCallback((photo: Photo) => {
+    toggleFavorite(photo as PhotoFrame);
+    if (viewingPhoto?.id === photo.id) {
+      setViewingPhoto({ ...viewingPhoto, isFavorite: !photo.isFavorite });
+    }
+  }, [toggleFavorite, viewingPhoto]);
+  
+  return (
+    <div className="min-h-screen">
+      {/* Background */}
+      <AnimatedBackground
+        type={type}
+        url={url}
+        gradient={gradient}
+        color={color}
+        blurIntensity={blurIntensity}
+        overlayOpacity={overlayOpacity}
+      />
+      
+      {/* Main Content */}
+      <main className="relative z-10 max-w-7xl mx-auto px-4 py-6 space-y-6">
+        {/* Header */}
+        <GlassCard
+          blur="medium"
+          opacity={70}
+          rounded="xl"
+          hoverEffect="none"
+          className="p-4 md:p-5"
+        >
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div className="flex items-center gap-3 min-w-0">
+              <Link
+                href="/gallery"
+                className="p-2 rounded-full text-blush-600 hover:bg-white/60 transition-colors flex-shrink-0"
+                title="Back to gallery"
+              >
+                <ArrowLeft size={20} />
+              </Link>
+              <div className="min-w-0">
+                <h1 className="text-lg sm:text-2xl font-display font-bold flex items-center gap-2">
+                  <BookImage className="w-5 h-5 text-blush-400 flex-shrink-0" />
+                  <span className="gradient-text truncate">
+                    {album?.title ?? (notFound ? 'Album not found' : 'Loading...')}
+                  </span>
+                </h1>
+                {album && (
+                  <p className="text-sm text-gray-500">
+                    {album.photoCount} {album.photoCount === 1 ? 'photo' : 'photos'}
+                    {album.description && <> · {album.description}</>}
+                  </p>
+                )}
+              </div>
+            </div>
+            
+            {album && (
+              <div className="flex items-center gap-2">
+                <GlassButton
+                  variant="secondary"
+                  size="sm"
+                  leftIcon={<Pencil size={14} />}
+                  onClick={() => setIsEditorOpen(true)}
+                >
+                  Edit Album
+                </GlassButton>
+                <GlassButton
+                  variant="danger"
+                  size="sm"
+                  leftIcon={<Trash2 size={14} />}
+                  onClick={() => setIsDeleteConfirmOpen(true)}
+                >
+                  Delete
+                </GlassButton>
+              </div>
+            )}
+          </div>
+        </GlassCard>
+        
+        {/* Photo Grid */}
+        {notFound ? (
+          <p className="text-center text-gray-600 py-12">
+            This album no longer exists. <Link href="/gallery" className="text-blush-600 underline">Back to the gallery</Link>
+          </p>
+        ) : (
+          <GalleryGrid
+            photos={photos}
+            isLoading={isLoading}
+            editable
+            tagColors={tagColors}
+            onPhotoClick={(photo) => setViewingPhoto(photo as PhotoFrame)}
+            onPhotoDelete={setPhotoToRemove}
+            onPhotoFavorite={handleFavorite}
+            reorderable
+            onReorder={reorderPhotos}
+            emptyTitle="This album is empty"
+            emptyDescription="Add photos to it from the photo editor in the gallery"
+          />
+        )}
+      </main>
+      
+      {/* Album Editor */}
+      {album && (
+        <AlbumEditorModal
+          isOpen={isEditorOpen}
+          onClose={() => setIsEditorOpen(false)}
+          album={album}
+          photos={photos}
+          onSave={updateAlbum}
+        />
+      )}
+      
+      {/* Photo Viewer Modal */}
+      <PhotoViewerModal
+        isOpen={!!viewingPhoto}
+        onClose={() => setViewingPhoto(null)}
+        photo={viewingPhoto}
+        photos={photos}
+        onPrevious={() => handleStep(-1)}
+        onNext={() => handleStep(1)}
+        onDelete={setPhotoToRemove}
+        onFavorite={handleFavorite}
+      />
+      
+      {/* Remove From Album Confirmation */}
+      <ConfirmDialog
+        isOpen={!!photoToRemove}
+        onClose={() => setPhotoToRemove(null)}
+        onConfirm={handleConfirmRemove}
+        title="Remove from Album?"
+        message="The photo stays in the gallery and in any other albums."
+        confirmText="Remove"
+        cancelText="Cancel"
+        variant="warning"
+        isLoading={isRemoving}
+      />
+      
+      {/* Delete Album Confirmation */}
+      <ConfirmDialog
+        isOpen={isDeleteConfirmOpen}
+        onClose={() => setIsDeleteConfirmOpen(false)}
+        onConfirm={handleConfirmDelete}
+        title="Delete Album?"
+        message="The album will be deleted. Its photos stay in the gallery."
+        confirmText="Delete Album"
+        cancelText="Cancel"
+        variant="danger"
+        isLoading={isDeleting}
+      />
+    </div>
+  );
+}
+
+/**
+ * Album Page with Auth Guard
+ */
+export default function AlbumPage() {
+  const { id } = useParams<{ id: string }>();
+  
+  return (
+    <AuthGuard>
+      <AlbumContent albumId={id} />
+    </AuthGuard>
+  );
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { createBackupStream } from '@/lib/backup';
+import type { ApiResponse } from '@/types/photo';
+
+/**
+ * GET /api/admin/backup
+ * 
+ * Stream a zip with all photo metadata, media and a checksum manifest
+ */
+export async function GET(): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const filename = `irm-gallery-backup-${new Date().toISOString().slice(0, 10)}.zip`;
+    
+    return new NextResponse(createBackupStream(), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error creating backup:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to create backup' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getStorageDriver } from '@/lib/storage';
+import type { ApiResponse } from '@/types/photo';
+import type { InvalidPhotoRecord } from '@/types/storage';
+
+/**
+ * GET /api/admin/invalid-photos
+ * 
+ * List stored photo records that failed validation and are hidden
+ * from the gallery
+ */
+export async function GET(): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const { photos } = getStorageDriver();
+    const invalid = photos.listInvalid ? await photos.listInvalid() : [];
+    
+    return NextResponse.json<ApiResponse<InvalidPhotoRecord[]>>({
+      success: true,
+      data: invalid,
+    });
+  } catch (error) {
+    console.error('Error checking photo records:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to check photo records' },
+      { status: 500 }
+    );
+  }
+}
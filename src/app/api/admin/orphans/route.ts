@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { sweepOrphanedMedia } from '@/lib/mediaSweeper';
+import type { ApiResponse } from '@/types/photo';
+import type { OrphanSweepResult } from '@/types/storage';
+
+/**
+ * Run a sweep on behalf of a signed-in user
+ */
+async function handleSweep(dryRun: boolean): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const result = await sweepOrphanedMedia({ dryRun });
+    
+    return NextResponse.json<ApiResponse<OrphanSweepResult>>({
+      success: true,
+      data: result,
+      message: dryRun
+        ? `Found ${result.orphans.length} orphaned files`
+        : `Deleted ${result.deleted.length} orphaned files`,
+    });
+  } catch (error) {
+    console.error('Error sweeping orphaned media:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to sweep orphaned media' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/admin/orphans
+ * 
+ * List uploads that no photo references
+ */
+export async function GET(): Promise<NextResponse> {
+  return handleSweep(true);
+}
+
+/**
+ * DELETE /api/admin/orphans
+ * 
+ * Delete uploads that no photo references
+ */
+export async function DELETE(): Promise<NextResponse> {
+  return handleSweep(false);
+}
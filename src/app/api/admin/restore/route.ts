@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { restoreBackup, BackupValidationError } from '@/lib/backup';
+import type { ApiResponse } from '@/types/photo';
+import type { RestoreResult } from '@/types/storage';
+
+/**
+ * POST /api/admin/restore
+ * 
+ * Restore a backup zip, sent either as the raw request body or as the
+ * "file" field of a multipart form
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    let archive: Uint8Array;
+    
+    if (request.headers.get('content-type')?.startsWith('multipart/form-data')) {
+      const formData = await request.formData();
+      const file = formData.get('file') as File | null;
+      
+      if (!file) {
+        return NextResponse.json<ApiResponse<null>>(
+          { success: false, error: 'No file provided' },
+          { status: 400 }
+        );
+      }
+      archive = new Uint8Array(await file.arrayBuffer());
+    } else {
+      archive = new Uint8Array(await request.arrayBuffer());
+    }
+    
+    const result = await restoreBackup(archive);
+    
+    return NextResponse.json<ApiResponse<RestoreResult>>({
+      success: true,
+      data: result,
+      message: `Restored ${result.photos} photos`,
+    });
+  } catch (error) {
+    if (error instanceof BackupValidationError) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Invalid backup', message: error.message },
+        { status: 400 }
+      );
+    }
+    
+    console.error('Error restoring backup:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to restore backup' },
+      { status: 500 }
+    );
+  }
+}
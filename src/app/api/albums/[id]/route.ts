@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import {
+  deleteAlbum,
+  getAlbumWithPhotos,
+  updateAlbum,
+  InvalidAlbumPhotosError,
+} from '@/lib/albumStorage';
+import { updateAlbumSchema } from '@/lib/validation/albumSchemas';
+import type { AlbumSummary, ApiResponse, PhotoFrame } from '@/types/photo';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/albums/[id]
+ * 
+ * Fetch an album and its photos in album order (trashed photos left out)
+ */
+export async function GET(
+  request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const { id } = await context.params;
+    const result = await getAlbumWithPhotos(id);
+    
+    if (!result) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Album not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json<ApiResponse<{ album: AlbumSummary; photos: PhotoFrame[] }>>({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error('Error fetching album:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to fetch album' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/albums/[id]
+ * 
+ * Update an album's details, cover or photo order
+ */
+export async function PUT(
+  request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const { id } = await context.params;
+    
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = updateAlbumSchema.safeParse(body);
+    
+    if (!validationResult.success) {
+      return NextResponse.json<ApiResponse<null>>(
+        {
+          success: false,
+          error: 'Invalid album data',
+          message: validationResult.error.errors[0]?.message,
+        },
+        { status: 400 }
+      );
+    }
+    
+    const album = await updateAlbum(id, validationResult.data);
+    
+    if (!album) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Album not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json<ApiResponse<AlbumSummary>>({
+      success: true,
+      data: album,
+      message: 'Album updated successfully',
+    });
+  } catch (error) {
+    if (error instanceof InvalidAlbumPhotosError) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+    
+    console.error('Error updating album:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to update album' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/albums/[id]
+ * 
+ * Delete an album; its photos stay in the gallery
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const { id } = await context.params;
+    const deleted = await deleteAlbum(id);
+    
+    if (!deleted) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Album not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json<ApiResponse<null>>({
+      success: true,
+      message: 'Album deleted successfully',
+    });
+  } catch (error) {
+    console.error('Error deleting album:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to delete album' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { createAlbum, getAllAlbums, InvalidAlbumPhotosError } from '@/lib/albumStorage';
+import { createAlbumSchema } from '@/lib/validation/albumSchemas';
+import type { AlbumSummary, ApiResponse } from '@/types/photo';
+
+/**
+ * GET /api/albums
+ * 
+ * List every album with its photo count and cover
+ */
+export async function GET(): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const albums = await getAllAlbums();
+    
+    return NextResponse.json<ApiResponse<AlbumSummary[]>>({
+      success: true,
+      data: albums,
+    });
+  } catch (error) {
+    console.error('Error fetching albums:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to fetch albums' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/albums
+ * 
+ * Create a new album
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    // Parse request body
+    const body = await request.json();
+    const validationResult = createAlbumSchema.safeParse(body);
+    
+    if (!validationResult.success) {
+      return NextResponse.json<ApiResponse<null>>(
+        {
+          success: false,
+          error: 'Invalid album data',
+          message: validationResult.error.errors[0]?.message,
+        },
+        { status: 400 }
+      );
+    }
+    
+    // Create album
+    const album = await createAlbum(validationResult.data);
+    
+    return NextResponse.json<ApiResponse<AlbumSummary>>({
+      success: true,
+      data: album,
+      message: 'Album created successfully',
+    }, { status: 201 });
+  } catch (error) {
+    if (error instanceof InvalidAlbumPhotosError) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+    
+    console.error('Error creating album:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to create album' },
+      { status: 500 }
+    );
+  }
+}
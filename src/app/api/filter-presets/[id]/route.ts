@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions, getSessionUserId } from '@/lib/auth';
+import {
+  deleteFilterPreset,
+  DuplicatePresetNameError,
+  renameFilterPreset,
+} from '@/lib/filterPresetStorage';
+import { updateFilterPresetSchema } from '@/lib/validation/filterPresetSchemas';
+import type { ApiResponse, FilterPreset } from '@/types/photo';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PUT /api/filter-presets/[id]
+ * 
+ * Rename one of the signed-in user's presets
+ */
+export async function PUT(
+  request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    const userId = session && getSessionUserId(session);
+    if (!userId) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const { id } = await context.params;
+    
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = updateFilterPresetSchema.safeParse(body);
+    
+    if (!validationResult.success) {
+      return NextResponse.json<ApiResponse<null>>(
+        {
+          success: false,
+          error: 'Invalid preset data',
+          message: validationResult.error.errors[0]?.message,
+        },
+        { status: 400 }
+      );
+    }
+    
+    const preset = await renameFilterPreset(userId, id, validationResult.data.name);
+    
+    if (!preset) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Preset not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json<ApiResponse<FilterPreset>>({
+      success: true,
+      data: preset,
+      message: 'Preset renamed successfully',
+    });
+  } catch (error) {
+    if (error instanceof DuplicatePresetNameError) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: error.message },
+        { status: 409 }
+      );
+    }
+    
+    console.error('Error renaming filter preset:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to rename preset' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/filter-presets/[id]
+ * 
+ * Delete one of the signed-in user's presets
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    const userId = session && getSessionUserId(session);
+    if (!userId) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const { id } = await context.params;
+    const deleted = await deleteFilterPreset(userId, id);
+    
+    if (!deleted) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Preset not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json<ApiResponse<null>>({
+      success: true,
+      message: 'Preset deleted successfully',
+    });
+  } catch (error) {
+    console.error('Error deleting filter preset:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to delete preset' },
+      { status: 500 }
+    );
+  }
+}
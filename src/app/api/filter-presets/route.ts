@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions, getSessionUserId } from '@/lib/auth';
+import {
+  createFilterPreset,
+  DuplicatePresetNameError,
+  listFilterPresets,
+} from '@/lib/filterPresetStorage';
+import { createFilterPresetSchema } from '@/lib/validation/filterPresetSchemas';
+import type { FilterPreset, ApiResponse } from '@/types/photo';
+
+/**
+ * GET /api/filter-presets
+ * 
+ * List the signed-in user's filter presets
+ */
+export async function GET(): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    const userId = session && getSessionUserId(session);
+    if (!userId) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const presets = await listFilterPresets(userId);
+    
+    return NextResponse.json<ApiResponse<FilterPreset[]>>({
+      success: true,
+      data: presets,
+    });
+  } catch (error) {
+    console.error('Error fetching filter presets:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to fetch filter presets' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/filter-presets
+ * 
+ * Save filters and a sort as a named preset for the signed-in user
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    const userId = session && getSessionUserId(session);
+    if (!userId) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    // Parse request body
+    const body = await request.json();
+    const validationResult = createFilterPresetSchema.safeParse(body);
+    
+    if (!validationResult.success) {
+      return NextResponse.json<ApiResponse<null>>(
+        {
+          success: false,
+          error: 'Invalid preset data',
+          message: validationResult.error.errors[0]?.message,
+        },
+        { status: 400 }
+      );
+    }
+    
+    // Create preset
+    const preset = await createFilterPreset(userId, validationResult.data);
+    
+    return NextResponse.json<ApiResponse<FilterPreset>>({
+      success: true,
+      data: preset,
+      message: 'Preset saved successfully',
+    }, { status: 201 });
+  } catch (error) {
+    if (error instanceof DuplicatePresetNameError) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: error.message },
+        { status: 409 }
+      );
+    }
+    
+    console.error('Error creating filter preset:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to save preset' },
+      { status: 500 }
+    );
+  }
+}
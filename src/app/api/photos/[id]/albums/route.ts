@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { setPhotoAlbums } from '@/lib/albumStorage';
+import { photoAlbumsSchema } from '@/lib/validation/albumSchemas';
+import type { AlbumSummary, ApiResponse } from '@/types/photo';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PUT /api/photos/[id]/albums
+ * 
+ * Set which albums contain a photo. Returns every album.
+ */
+export async function PUT(
+  request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const { id } = await context.params;
+    
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = photoAlbumsSchema.safeParse(body);
+    
+    if (!validationResult.success) {
+      return NextResponse.json<ApiResponse<null>>(
+        {
+          success: false,
+          error: 'Invalid album list',
+          message: validationResult.error.errors[0]?.message,
+        },
+        { status: 400 }
+      );
+    }
+    
+    const albums = await setPhotoAlbums(id, validationResult.data.albumIds);
+    
+    if (!albums) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Photo not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json<ApiResponse<AlbumSummary[]>>({
+      success: true,
+      data: albums,
+      message: 'Albums updated successfully',
+    });
+  } catch (error) {
+    console.error('Error updating photo albums:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to update photo albums' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { restorePhoto } from '@/lib/photoStorage';
+import { photoEtag } from '@/lib/etag';
+import type { ApiResponse } from '@/types/photo';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/photos/[id]/restore
+ * 
+ * Move a photo out of the trash
+ */
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const { id } = await context.params;
+    const photo = await restorePhoto(id);
+    
+    if (!photo) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Photo not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({
+      success: true,
+      data: photo,
+      message: 'Photo restored',
+    }, { headers: { ETag: photoEtag(photo) } });
+  } catch (error) {
+    console.error('Error restoring photo:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to restore photo' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,14 +1,45 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import { getPhotoById, updatePhoto, deletePhoto } from '@/lib/photoStorage';
+import {
+  getPhotoById,
+  updatePhoto,
+  deletePhoto,
+  permanentlyDeletePhoto,
+  PhotoVersionConflictError,
+} from '@/lib/photoStorage';
 import { updatePhotoSchema } from '@/lib/validation/photoSchemas';
-import type { ApiResponse } from '@/types/photo';
+import { photoEtag, parseIfMatch } from '@/lib/etag';
+import type { ApiResponse, PhotoFrame } from '@/types/photo';
 
 interface RouteContext {
   params: Promise<{ id: string }>;
 }
 
+/**
+ * Response for a write whose If-Match no longer matches
+ */
+function conflictResponse(current: PhotoFrame): NextResponse {
+  return NextResponse.json<ApiResponse<PhotoFrame>>(
+    {
+      success: false,
+      error: 'Photo was modified by someone else',
+      data: current,
+    },
+    { status: 409, headers: { ETag: photoEtag(current) } }
+  );
+}
+
+/**
+ * Response for a malformed If-Match header
+ */
+function invalidIfMatchResponse(): NextResponse {
+  return NextResponse.json<ApiResponse<null>>(
+    { success: false, error: 'Invalid If-Match header' },
+    { status: 400 }
+  );
+}
+
 /**
  * GET /api/photos/[id]
  * 
@@ -41,7 +72,7 @@ export async function GET(
     return NextResponse.json({
       success: true,
       data: photo,
-    });
+    }, { headers: { ETag: photoEtag(photo) } });
   } catch (error) {
     console.error('Error fetching photo:', error);
     return NextResponse.json<ApiResponse<null>>(
@@ -72,6 +103,11 @@ export async function PUT(
     
     const { id } = await context.params;
     
+    const expectedVersion = parseIfMatch(request.headers.get('If-Match'));
+    if (expectedVersion === null) {
+      return invalidIfMatchResponse();
+    }
+    
     // Check if photo exists
     const existingPhoto = await getPhotoById(id);
     if (!existingPhoto) {
@@ -96,22 +132,36 @@ export async function PUT(
       );
     }
     
-    // Transform null values to undefined for compatibility
-    const updateData = {
-      ...validationResult.data,
-      description: validationResult.data.description ?? undefined,
-      dateTaken: validationResult.data.dateTaken ?? undefined,
-    };
+    // Only fields present in the body change; null clears a field
+    const { description, dateTaken, ...fields } = validationResult.data;
+    const updateData: Parameters<typeof updatePhoto>[1] = { ...fields };
+    if ('description' in validationResult.data) {
+      updateData.description = description ?? undefined;
+    }
+    if ('dateTaken' in validationResult.data) {
+      updateData.dateTaken = dateTaken ?? undefined;
+    }
     
     // Update photo
-    const updatedPhoto = await updatePhoto(id, updateData);
+    const updatedPhoto = await updatePhoto(id, updateData, expectedVersion);
+    
+    if (!updatedPhoto) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Photo not found' },
+        { status: 404 }
+      );
+    }
     
     return NextResponse.json({
       success: true,
       data: updatedPhoto,
       message: 'Photo updated successfully',
-    });
+    }, { headers: { ETag: photoEtag(updatedPhoto) } });
   } catch (error) {
+    if (error instanceof PhotoVersionConflictError) {
+      return conflictResponse(error.current);
+    }
+    
     console.error('Error updating photo:', error);
     return NextResponse.json<ApiResponse<null>>(
       { success: false, error: 'Failed to update photo' },
@@ -123,7 +173,8 @@ export async function PUT(
 /**
  * DELETE /api/photos/[id]
  * 
- * Delete a photo
+ * Move a photo to the trash, or delete it and its media for good
+ * with ?permanent=true
  */
 export async function DELETE(
   request: NextRequest,
@@ -141,6 +192,11 @@ export async function DELETE(
     
     const { id } = await context.params;
     
+    const expectedVersion = parseIfMatch(request.headers.get('If-Match'));
+    if (expectedVersion === null) {
+      return invalidIfMatchResponse();
+    }
+    
     // Check if photo exists
     const existingPhoto = await getPhotoById(id);
     if (!existingPhoto) {
@@ -150,8 +206,12 @@ export async function DELETE(
       );
     }
     
+    const permanent = new URL(request.url).searchParams.get('permanent') === 'true';
+    
     // Delete photo
-    const deleted = await deletePhoto(id);
+    const deleted = permanent
+      ? await permanentlyDeletePhoto(id, expectedVersion)
+      : await deletePhoto(id, expectedVersion);
     
     if (!deleted) {
       return NextResponse.json<ApiResponse<null>>(
@@ -160,14 +220,15 @@ export async function DELETE(
       );
     }
     
-    // TODO: Also delete the image file from /public/uploads
-    // This would require tracking the original file path
-    
     return NextResponse.json({
       success: true,
-      message: 'Photo deleted successfully',
+      message: permanent ? 'Photo deleted successfully' : 'Photo moved to trash',
     });
   } catch (error) {
+    if (error instanceof PhotoVersionConflictError) {
+      return conflictResponse(error.current);
+    }
+    
     console.error('Error deleting photo:', error);
     return NextResponse.json<ApiResponse<null>>(
       { success: false, error: 'Failed to delete photo' },
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { batchUpdatePhotos } from '@/lib/photoStorage';
+import { photoBatchSchema } from '@/lib/validation/photoSchemas';
+import type { ApiResponse, PhotoBatchResult } from '@/types/photo';
+
+/**
+ * POST /api/photos/batch
+ * 
+ * Apply one operation to many photos in a single write: add or remove
+ * tags, set the favorite flag, frame color or date taken, or move photos
+ * to or out of the trash. Responds with one result per distinct photo ID.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    // Parse request body
+    const body = await request.json();
+    const validationResult = photoBatchSchema.safeParse(body);
+    
+    if (!validationResult.success) {
+      return NextResponse.json<ApiResponse<null>>(
+        {
+          success: false,
+          error: 'Invalid batch operation',
+          message: validationResult.error.errors[0]?.message,
+        },
+        { status: 400 }
+      );
+    }
+    
+    const { ids, operation } = validationResult.data;
+    const results = await batchUpdatePhotos(ids, operation);
+    
+    return NextResponse.json<ApiResponse<PhotoBatchResult[]>>({
+      success: true,
+      data: results,
+    });
+  } catch (error) {
+    console.error('Error applying batch operation:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to update photos' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { createPhotos } from '@/lib/photoStorage';
+import { bulkCreatePhotosSchema } from '@/lib/validation/photoSchemas';
+import type { ApiResponse, PhotoFrame } from '@/types/photo';
+
+/**
+ * POST /api/photos/bulk
+ * 
+ * Create many photos in a single write, in the given order; used once an
+ * upload queue has finished. Either every photo is created or none is.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    // Parse request body
+    const body = await request.json();
+    const validationResult = bulkCreatePhotosSchema.safeParse(body);
+    
+    if (!validationResult.success) {
+      return NextResponse.json<ApiResponse<null>>(
+        {
+          success: false,
+          error: 'Invalid photo data',
+          message: validationResult.error.errors[0]?.message,
+        },
+        { status: 400 }
+      );
+    }
+    
+    const photos = await createPhotos(validationResult.data.photos);
+    
+    return NextResponse.json<ApiResponse<PhotoFrame[]>>({
+      success: true,
+      data: photos,
+      message: `${photos.length} photos created successfully`,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating photos:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to create photos' },
+      { status: 500 }
+    );
+  }
+}
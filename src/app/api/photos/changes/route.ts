@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getPhotoChanges } from '@/lib/photoStorage';
+import { photoChangesQuerySchema } from '@/lib/validation/photoSchemas';
+import type { ApiResponse, PhotoChanges } from '@/types/photo';
+
+/**
+ * GET /api/photos/changes?since=<cursor>
+ * 
+ * Photos created, updated and deleted since a cursor. The first cursor
+ * comes from GET /api/photos; each response carries the next one.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const { searchParams } = new URL(request.url);
+    const queryResult = photoChangesQuerySchema.safeParse(Object.fromEntries(searchParams));
+    
+    if (!queryResult.success) {
+      return NextResponse.json<ApiResponse<null>>(
+        {
+          success: false,
+          error: 'Invalid query parameters',
+          message: queryResult.error.errors[0]?.message,
+        },
+        { status: 400 }
+      );
+    }
+    
+    const changes = await getPhotoChanges(queryResult.data.since);
+    
+    return NextResponse.json<ApiResponse<PhotoChanges>>({
+      success: true,
+      data: changes,
+    });
+  } catch (error) {
+    console.error('Error fetching photo changes:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to fetch photo changes' },
+      { status: 500 }
+    );
+  }
+}
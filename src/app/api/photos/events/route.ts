@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getChangeCursor, getPhotoChanges } from '@/lib/photoStorage';
+import { subscribePhotoEvents } from '@/lib/photoEvents';
+import type { ApiResponse, PhotoEvent } from '@/types/photo';
+
+/**
+ * How often the change log is checked for writes made by other server
+ * processes, which never reach this process's subscribers
+ */
+const CATCH_UP_INTERVAL = 5000; // 5 seconds
+
+/**
+ * Comment sent regularly so proxies don't close an idle connection
+ */
+const KEEP_ALIVE_INTERVAL = 25000; // 25 seconds
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/photos/events?since=<cursor>
+ * 
+ * Server-Sent Events stream of gallery changes. Sends:
+ * - `ready` with the current cursor once connected
+ * - `photo` with a PhotoEvent for every change made through this server
+ * - `changes` with PhotoChanges picked up from the change log, starting
+ *   at `since`; `reset: true` means the client must reload everything
+ * 
+ * `photo` events arrive instantly, `changes` within a few seconds. Both
+ * may describe the same change, so clients should apply them idempotently.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const since = new URL(request.url).searchParams.get('since');
+    let cursor = since || await getChangeCursor();
+    
+    const encoder = new TextEncoder();
+    let cleanup: (() => void) | null = null;
+    
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let closed = false;
+        let catchingUp = false;
+        
+        const send = (event: string, data: unknown) => {
+          if (!closed) {
+            controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+          }
+        };
+        
+        const catchUp = async () => {
+          if (closed || catchingUp) return;
+          catchingUp = true;
+          
+          try {
+            const changes = await getPhotoChanges(cursor);
+            const hasChanges = changes.reset ||
+              changes.created.length + changes.updated.length + changes.deleted.length > 0;
+            
+            cursor = changes.cursor;
+            if (hasChanges) {
+              send('changes', changes);
+            }
+          } catch (error) {
+            console.error('Error reading photo changes for event stream:', error);
+          } finally {
+            catchingUp = false;
+          }
+        };
+        
+        const unsubscribe = subscribePhotoEvents((event: PhotoEvent) => {
+          send('photo', event);
+        });
+        const catchUpTimer = setInterval(catchUp, CATCH_UP_INTERVAL);
+        const keepAliveTimer = setInterval(() => {
+          if (!closed) {
+            controller.enqueue(encoder.encode(': keep-alive\n\n'));
+          }
+        }, KEEP_ALIVE_INTERVAL);
+        
+        cleanup = () => {
+          if (closed) return;
+          closed = true;
+          unsubscribe();
+          clearInterval(catchUpTimer);
+          clearInterval(keepAliveTimer);
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the runtime
+          }
+        };
+        request.signal.addEventListener('abort', () => cleanup?.());
+        
+        send('ready', { cursor });
+        
+        // Deliver anything the client missed before connecting
+        if (since) {
+          void catchUp();
+        }
+      },
+      cancel() {
+        cleanup?.();
+      },
+    });
+    
+    return new NextResponse(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        // Stop nginx from buffering the stream
+        'X-Accel-Buffering': 'no',
+      },
+    });
+  } catch (error) {
+    console.error('Error opening photo event stream:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to open event stream' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { reorderPhotos } from '@/lib/photoStorage';
+import { reorderPhotosSchema } from '@/lib/validation/photoSchemas';
+import type { ApiResponse } from '@/types/photo';
+
+/**
+ * POST /api/photos/reorder
+ * 
+ * Set a manual order for some photos, as shown by the `custom` sort. The
+ * listed photos swap the positions they hold between them, so a filtered
+ * or partly loaded list can be reordered on its own. Responds with the
+ * new position of every photo that moved.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    // Parse request body
+    const body = await request.json();
+    const validationResult = reorderPhotosSchema.safeParse(body);
+    
+    if (!validationResult.success) {
+      return NextResponse.json<ApiResponse<null>>(
+        {
+          success: false,
+          error: 'Invalid photo order',
+          message: validationResult.error.errors[0]?.message,
+        },
+        { status: 400 }
+      );
+    }
+    
+    const positions = await reorderPhotos(validationResult.data.ids);
+    
+    return NextResponse.json<ApiResponse<Record<string, number>>>({
+      success: true,
+      data: positions,
+    });
+  } catch (error) {
+    console.error('Error reordering photos:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to reorder photos' },
+      { status: 500 }
+    );
+  }
+}
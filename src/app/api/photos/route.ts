@@ -1,14 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import { getAllPhotos, createPhoto, getAllTags } from '@/lib/photoStorage';
+import {
+  getPhotoPage,
+  createPhoto,
+  getAllTags,
+  getChangeCursor,
+  purgeExpiredTrashIfDue,
+  InvalidPageCursorError,
+} from '@/lib/photoStorage';
+import { getTagColors } from '@/lib/tagStorage';
 import { createPhotoSchema, photoQuerySchema } from '@/lib/validation/photoSchemas';
 import type { PhotoFilters, PhotoSortOption, ApiResponse } from '@/types/photo';
 
 /**
  * GET /api/photos
  * 
- * Fetch all photos with optional filtering and sorting
+ * Fetch a page of photos with optional filtering and sorting. Pass the
+ * returned `nextCursor` as `after` to get the next page.
  */
 export async function GET(request: NextRequest): Promise<NextResponse> {
   try {
@@ -30,7 +39,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
         { 
           success: false, 
           error: 'Invalid query parameters',
-          message: queryResult.error.message,
+          message: queryResult.error.errors[0]?.message,
         },
         { status: 400 }
       );
@@ -49,35 +58,61 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       filters.tags = query.tags.split(',').map((t) => t.trim());
     }
     
+    if (query.tagMode) {
+      filters.tagMode = query.tagMode;
+    }
+    
+    if (query.excludeTags) {
+      filters.excludedTags = query.excludeTags.split(',').map((t) => t.trim());
+    }
+    
     if (query.favoritesOnly === 'true') {
       filters.favoritesOnly = true;
     }
     
-    // Fetch photos
-    const photos = await getAllPhotos(filters, query.sort as PhotoSortOption);
+    if (query.trashed === 'true') {
+      filters.trashed = true;
+    }
+    
+    if (query.from || query.to) {
+      filters.dateRange = { from: query.from, to: query.to };
+    }
     
-    // Get all tags for filter suggestions
-    const allTags = await getAllTags();
+    // Drop photos whose trash retention has expired
+    await purgeExpiredTrashIfDue();
     
-    // Pagination
-    const page = parseInt(query.page, 10);
-    const limit = parseInt(query.limit, 10);
-    const startIndex = (page - 1) * limit;
-    const endIndex = startIndex + limit;
-    const paginatedPhotos = photos.slice(startIndex, endIndex);
+    // Sync position for GET /api/photos/changes, taken before the list
+    const cursor = await getChangeCursor();
+    
+    // Fetch photos
+    const page = await getPhotoPage(filters, query.sort as PhotoSortOption, {
+      after: query.after,
+      limit: query.limit,
+    });
+    
+    // Get all tags and their colors for filter suggestions
+    const [allTags, tagColors] = await Promise.all([getAllTags(), getTagColors()]);
     
     return NextResponse.json({
       success: true,
       data: {
-        photos: paginatedPhotos,
-        total: photos.length,
-        page,
-        limit,
-        totalPages: Math.ceil(photos.length / limit),
+        photos: page.photos,
+        total: page.total,
+        limit: query.limit,
+        nextCursor: page.nextCursor,
         allTags,
+        tagColors,
+        cursor,
       },
     });
   } catch (error) {
+    if (error instanceof InvalidPageCursorError) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+    
     console.error('Error fetching photos:', error);
     return NextResponse.json<ApiResponse<null>>(
       { success: false, error: 'Failed to fetch photos' },
@@ -0,0 +1,195 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getChangeCursor, InvalidPageCursorError } from '@/lib/photoStorage';
+import {
+  deleteSmartAlbum,
+  getSmartAlbumPage,
+  updateSmartAlbum,
+} from '@/lib/smartAlbumStorage';
+import {
+  smartAlbumPageQuerySchema,
+  updateSmartAlbumSchema,
+} from '@/lib/validation/smartAlbumSchemas';
+import type { ApiResponse, SmartAlbumSummary } from '@/types/photo';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/smart-albums/[id]
+ * 
+ * Fetch a smart album and a page of the photos it matches right now.
+ * Pass the returned `nextCursor` as `after` to get the next page, and
+ * `cursor` to GET /api/photos/changes to learn when to fetch again.
+ */
+export async function GET(
+  request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    // Parse query parameters
+    const { searchParams } = new URL(request.url);
+    const queryResult = smartAlbumPageQuerySchema.safeParse(Object.fromEntries(searchParams));
+    
+    if (!queryResult.success) {
+      return NextResponse.json<ApiResponse<null>>(
+        {
+          success: false,
+          error: 'Invalid query parameters',
+          message: queryResult.error.errors[0]?.message,
+        },
+        { status: 400 }
+      );
+    }
+    
+    const { id } = await context.params;
+    
+    // Sync position for GET /api/photos/changes, taken before the page
+    const cursor = await getChangeCursor();
+    const result = await getSmartAlbumPage(id, queryResult.data);
+    
+    if (!result) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Smart album not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({
+      success: true,
+      data: {
+        smartAlbum: result.smartAlbum,
+        photos: result.page.photos,
+        total: result.page.total,
+        limit: queryResult.data.limit,
+        nextCursor: result.page.nextCursor,
+        cursor,
+      },
+    });
+  } catch (error) {
+    if (error instanceof InvalidPageCursorError) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+    
+    console.error('Error fetching smart album:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to fetch smart album' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/smart-albums/[id]
+ * 
+ * Update a smart album's details, filters or sort
+ */
+export async function PUT(
+  request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const { id } = await context.params;
+    
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = updateSmartAlbumSchema.safeParse(body);
+    
+    if (!validationResult.success) {
+      return NextResponse.json<ApiResponse<null>>(
+        {
+          success: false,
+          error: 'Invalid smart album data',
+          message: validationResult.error.errors[0]?.message,
+        },
+        { status: 400 }
+      );
+    }
+    
+    const smartAlbum = await updateSmartAlbum(id, validationResult.data);
+    
+    if (!smartAlbum) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Smart album not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json<ApiResponse<SmartAlbumSummary>>({
+      success: true,
+      data: smartAlbum,
+      message: 'Smart album updated successfully',
+    });
+  } catch (error) {
+    console.error('Error updating smart album:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to update smart album' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/smart-albums/[id]
+ * 
+ * Delete a smart album; no photos are touched
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const { id } = await context.params;
+    const deleted = await deleteSmartAlbum(id);
+    
+    if (!deleted) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Smart album not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json<ApiResponse<null>>({
+      success: true,
+      message: 'Smart album deleted successfully',
+    });
+  } catch (error) {
+    console.error('Error deleting smart album:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to delete smart album' },
+      { status: 500 }
+    );
+  }
+}
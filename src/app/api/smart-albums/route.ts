@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { createSmartAlbum, getAllSmartAlbums } from '@/lib/smartAlbumStorage';
+import { createSmartAlbumSchema } from '@/lib/validation/smartAlbumSchemas';
+import type { SmartAlbumSummary, ApiResponse } from '@/types/photo';
+
+/**
+ * GET /api/smart-albums
+ * 
+ * List every smart album with the number of photos it currently matches
+ */
+export async function GET(): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const smartAlbums = await getAllSmartAlbums();
+    
+    return NextResponse.json<ApiResponse<SmartAlbumSummary[]>>({
+      success: true,
+      data: smartAlbums,
+    });
+  } catch (error) {
+    console.error('Error fetching smart albums:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to fetch smart albums' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/smart-albums
+ * 
+ * Create a new smart album from filters and a sort
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    // Parse request body
+    const body = await request.json();
+    const validationResult = createSmartAlbumSchema.safeParse(body);
+    
+    if (!validationResult.success) {
+      return NextResponse.json<ApiResponse<null>>(
+        {
+          success: false,
+          error: 'Invalid smart album data',
+          message: validationResult.error.errors[0]?.message,
+        },
+        { status: 400 }
+      );
+    }
+    
+    // Create smart album
+    const smartAlbum = await createSmartAlbum(validationResult.data);
+    
+    return NextResponse.json<ApiResponse<SmartAlbumSummary>>({
+      success: true,
+      data: smartAlbum,
+      message: 'Smart album created successfully',
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating smart album:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to create smart album' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { listTags, mergeTags, TagNotFoundError } from '@/lib/tagStorage';
+import { mergeTagsSchema, tagNameSchema } from '@/lib/validation/tagSchemas';
+import type { ApiResponse } from '@/types/photo';
+import type { TagChangeResult } from '@/types/tag';
+
+interface RouteContext {
+  params: Promise<{ tag: string }>;
+}
+
+/**
+ * POST /api/tags/[tag]/merge
+ * 
+ * Replace the given source tags with this tag on every photo, smart
+ * album and filter preset
+ */
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const paramResult = tagNameSchema.safeParse((await context.params).tag);
+    if (!paramResult.success) {
+      return NextResponse.json<ApiResponse<null>>(
+        {
+          success: false,
+          error: 'Invalid tag',
+          message: paramResult.error.errors[0]?.message,
+        },
+        { status: 400 }
+      );
+    }
+    const tag = paramResult.data;
+    
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = mergeTagsSchema.safeParse(body);
+    
+    if (!validationResult.success) {
+      return NextResponse.json<ApiResponse<null>>(
+        {
+          success: false,
+          error: 'Invalid merge request',
+          message: validationResult.error.errors[0]?.message,
+        },
+        { status: 400 }
+      );
+    }
+    
+    const updated = await mergeTags(validationResult.data.sources, tag);
+    
+    return NextResponse.json<ApiResponse<TagChangeResult>>({
+      success: true,
+      data: { updated, tags: await listTags() },
+      message: `Merged into #${tag}`,
+    });
+  } catch (error) {
+    if (error instanceof TagNotFoundError) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+    
+    console.error('Error merging tags:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to merge tags' },
+      { status: 500 }
+    );
+  }
+}
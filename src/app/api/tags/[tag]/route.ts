@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { deleteTag, listTags, renameTag, setTagColor, TagNotFoundError } from '@/lib/tagStorage';
+import { tagNameSchema, updateTagSchema } from '@/lib/validation/tagSchemas';
+import type { ApiResponse } from '@/types/photo';
+import type { TagChangeResult } from '@/types/tag';
+
+interface RouteContext {
+  params: Promise<{ tag: string }>;
+}
+
+/**
+ * PATCH /api/tags/[tag]
+ * 
+ * Rename a tag on every photo and/or change its color. Renaming onto an
+ * existing tag merges the two. Smart albums and filter presets follow
+ * the new name.
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const paramResult = tagNameSchema.safeParse((await context.params).tag);
+    if (!paramResult.success) {
+      return NextResponse.json<ApiResponse<null>>(
+        {
+          success: false,
+          error: 'Invalid tag',
+          message: paramResult.error.errors[0]?.message,
+        },
+        { status: 400 }
+      );
+    }
+    const tag = paramResult.data;
+    
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = updateTagSchema.safeParse(body);
+    
+    if (!validationResult.success) {
+      return NextResponse.json<ApiResponse<null>>(
+        {
+          success: false,
+          error: 'Invalid tag data',
+          message: validationResult.error.errors[0]?.message,
+        },
+        { status: 400 }
+      );
+    }
+    
+    const { name, color } = validationResult.data;
+    let updated = 0;
+    
+    if (name !== undefined && name !== tag) {
+      updated = await renameTag(tag, name);
+    }
+    if (color !== undefined) {
+      await setTagColor(name ?? tag, color);
+    }
+    
+    return NextResponse.json<ApiResponse<TagChangeResult>>({
+      success: true,
+      data: { updated, tags: await listTags() },
+      message: 'Tag updated successfully',
+    });
+  } catch (error) {
+    if (error instanceof TagNotFoundError) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+    
+    console.error('Error updating tag:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to update tag' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/tags/[tag]
+ * 
+ * Remove a tag from every photo, including those in the trash, and from
+ * smart album and filter preset filters
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const paramResult = tagNameSchema.safeParse((await context.params).tag);
+    if (!paramResult.success) {
+      return NextResponse.json<ApiResponse<null>>(
+        {
+          success: false,
+          error: 'Invalid tag',
+          message: paramResult.error.errors[0]?.message,
+        },
+        { status: 400 }
+      );
+    }
+    const tag = paramResult.data;
+    const updated = await deleteTag(tag);
+    
+    return NextResponse.json<ApiResponse<TagChangeResult>>({
+      success: true,
+      data: { updated, tags: await listTags() },
+      message: 'Tag deleted successfully',
+    });
+  } catch (error) {
+    if (error instanceof TagNotFoundError) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+    
+    console.error('Error deleting tag:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to delete tag' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { listTags } from '@/lib/tagStorage';
+import type { ApiResponse } from '@/types/photo';
+import type { TagSummary } from '@/types/tag';
+
+/**
+ * GET /api/tags
+ * 
+ * List every tag in use with its photo count and color
+ */
+export async function GET(): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const tags = await listTags();
+    
+    return NextResponse.json<ApiResponse<TagSummary[]>>({
+      success: true,
+      data: tags,
+    });
+  } catch (error) {
+    console.error('Error listing tags:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to list tags' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,89 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
-import { promises as fs } from 'fs';
-import path from 'path';
-import { v4 as uuidv4 } from 'uuid';
 import { authOptions } from '@/lib/auth';
+import { deleteUnusedMedia, MediaInUseError, MediaRecentlyUploadedError } from '@/lib/media';
+import { forgetImageVariants, getImageVariantIndex, storeImage } from '@/lib/imageVariants';
+import { STORAGE_CONFIG } from '@/config/storage';
+import { UPLOAD_CONFIG, ALLOWED_UPLOAD_TYPES } from '@/config/upload';
 import type { ApiResponse } from '@/types/photo';
 
-/**
- * Check if we have Vercel Blob token
- */
-const HAS_BLOB_TOKEN = !!process.env.BLOB_READ_WRITE_TOKEN;
-
-/**
- * Local upload directory
- */
-const LOCAL_UPLOAD_DIR = path.join(process.cwd(), 'public', 'uploads');
-
-/**
- * Allowed file types for upload
- */
-const ALLOWED_TYPES = [
-  'image/jpeg',
-  'image/png',
-  'image/webp',
-  'image/gif',
-];
-
-/**
- * Maximum file size (10MB)
- */
-const MAX_FILE_SIZE = 10 * 1024 * 1024;
-
-/**
- * Get file extension from MIME type
- */
-function getExtension(mimeType: string): string {
-  const extensions: Record<string, string> = {
-    'image/jpeg': '.jpg',
-    'image/png': '.png',
-    'image/webp': '.webp',
-    'image/gif': '.gif',
-  };
-  return extensions[mimeType] || '.jpg';
-}
-
-/**
- * Ensure local upload directory exists
- */
-async function ensureLocalUploadDir(): Promise<void> {
-  try {
-    await fs.access(LOCAL_UPLOAD_DIR);
-  } catch {
-    await fs.mkdir(LOCAL_UPLOAD_DIR, { recursive: true });
-  }
-}
-
-/**
- * Upload to local filesystem
- */
-async function uploadLocal(file: File, filename: string): Promise<string> {
-  await ensureLocalUploadDir();
-  
-  const filepath = path.join(LOCAL_UPLOAD_DIR, filename);
-  const bytes = await file.arrayBuffer();
-  const buffer = Buffer.from(bytes);
-  
-  await fs.writeFile(filepath, buffer);
-  
-  return `/uploads/${filename}`;
-}
-
-/**
- * Upload to Vercel Blob
- */
-async function uploadBlob(file: File, filename: string): Promise<string> {
-  const { put } = await import('@vercel/blob');
-  
-  const blob = await put(filename, file, {
-    access: 'public',
-    addRandomSuffix: false,
-  });
-  
-  return blob.url;
-}
-
 /**
  * POST /api/upload
  * 
@@ -112,7 +35,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     }
     
     // Validate file type
-    if (!ALLOWED_TYPES.includes(file.type)) {
+    if (!ALLOWED_UPLOAD_TYPES.includes(file.type)) {
       return NextResponse.json<ApiResponse<null>>(
         { 
           success: false, 
@@ -123,30 +46,29 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     }
     
     // Validate file size
-    if (file.size > MAX_FILE_SIZE) {
+    if (file.size > UPLOAD_CONFIG.maxFileSize) {
       return NextResponse.json<ApiResponse<null>>(
         { 
           success: false, 
-          error: 'File too large. Maximum size is 10MB' 
+          error: 'File too large. Maximum size is 10MB; use an upload session for larger files' 
         },
         { status: 400 }
       );
     }
     
-    // Generate unique filename
-    const extension = getExtension(file.type);
-    const filename = `${uuidv4()}${extension}`;
-    
-    // Upload based on environment
-    const url = HAS_BLOB_TOKEN 
-      ? await uploadBlob(file, filename)
-      : await uploadLocal(file, filename);
+    // Store under the content hash with resized copies; identical files share them
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const { url, filename, hash, deduplicated, variants } = await storeImage(
+      buffer,
+      file.type,
+      UPLOAD_CONFIG.extensions[file.type] || '.jpg'
+    );
     
     return NextResponse.json({
       success: true,
-      data: { url, filename },
-      message: 'File uploaded successfully',
-    }, { status: 201 });
+      data: { url, filename, hash, deduplicated, variants },
+      message: deduplicated ? 'File already uploaded' : 'File uploaded successfully',
+    }, { status: deduplicated ? 200 : 201 });
   } catch (error) {
     console.error('Error uploading file:', error);
     return NextResponse.json<ApiResponse<null>>(
@@ -159,7 +81,9 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
 /**
  * DELETE /api/upload
  * 
- * Delete an uploaded file
+ * Delete an uploaded file no photo uses, and its resized copies. Files
+ * uploaded within the last hour are kept, since a photo being saved may
+ * be about to use them.
  */
 export async function DELETE(request: NextRequest): Promise<NextResponse> {
   try {
@@ -173,46 +97,50 @@ export async function DELETE(request: NextRequest): Promise<NextResponse> {
     }
     
     const { searchParams } = new URL(request.url);
+    const filename = searchParams.get('filename');
+    
+    // Security: prevent path traversal
+    if (filename && (filename.includes('..') || filename.includes('/') || filename.includes('\\'))) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Invalid filename' },
+        { status: 400 }
+      );
+    }
     
-    if (HAS_BLOB_TOKEN) {
-      // Delete from Vercel Blob
-      const url = searchParams.get('url');
-      if (!url) {
-        return NextResponse.json<ApiResponse<null>>(
-          { success: false, error: 'URL is required' },
-          { status: 400 }
-        );
-      }
-      
-      const { del } = await import('@vercel/blob');
-      await del(url);
-    } else {
-      // Delete from local filesystem
-      const filename = searchParams.get('filename');
-      if (!filename) {
-        return NextResponse.json<ApiResponse<null>>(
-          { success: false, error: 'Filename is required' },
-          { status: 400 }
-        );
-      }
-      
-      // Security: prevent path traversal
-      if (filename.includes('..') || filename.includes('/') || filename.includes('\\')) {
-        return NextResponse.json<ApiResponse<null>>(
-          { success: false, error: 'Invalid filename' },
-          { status: 400 }
-        );
-      }
-      
-      const filepath = path.join(LOCAL_UPLOAD_DIR, filename);
-      await fs.unlink(filepath);
+    // Local uploads may still be addressed by filename
+    const url = searchParams.get('url')
+      || (filename ? `${STORAGE_CONFIG.fs.publicPath}/${filename}` : null);
+    
+    if (!url) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'URL is required' },
+        { status: 400 }
+      );
+    }
+    
+    // Uploads are shared between photos with identical files
+    const copies = ((await getImageVariantIndex())[url] ?? []).map((variant) => variant.url);
+    const deleted = await deleteUnusedMedia(url, copies);
+    if (!deleted) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'File not found' },
+        { status: 404 }
+      );
     }
+    await forgetImageVariants([url]);
     
     return NextResponse.json({
       success: true,
       message: 'File deleted successfully',
     });
   } catch (error) {
+    if (error instanceof MediaInUseError || error instanceof MediaRecentlyUploadedError) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: error.message },
+        { status: 409 }
+      );
+    }
+    
     console.error('Error deleting file:', error);
     return NextResponse.json<ApiResponse<null>>(
       { success: false, error: 'Failed to delete file' },
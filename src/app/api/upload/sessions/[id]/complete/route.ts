@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import {
+  completeUploadSession,
+  UploadSessionNotFoundError,
+  IncompleteUploadError,
+} from '@/lib/uploadSessions';
+import type { ApiResponse } from '@/types/photo';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/upload/sessions/[id]/complete
+ * 
+ * Join the parts of a chunked upload and store the file. Responds like
+ * POST /api/upload; if parts are missing, responds 409 with their indexes.
+ */
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const { id } = await context.params;
+    const { url, filename, hash, deduplicated, variants } = await completeUploadSession(id);
+    
+    return NextResponse.json({
+      success: true,
+      data: { url, filename, hash, deduplicated, variants },
+      message: deduplicated ? 'File already uploaded' : 'File uploaded successfully',
+    }, { status: deduplicated ? 200 : 201 });
+  } catch (error) {
+    if (error instanceof UploadSessionNotFoundError) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Upload session not found' },
+        { status: 404 }
+      );
+    }
+    if (error instanceof IncompleteUploadError) {
+      return NextResponse.json<ApiResponse<{ missingParts: number[] }>>(
+        { success: false, error: error.message, data: { missingParts: error.missingParts } },
+        { status: 409 }
+      );
+    }
+    
+    console.error('Error completing upload session:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to complete upload' },
+      { status: 500 }
+    );
+  }
+}
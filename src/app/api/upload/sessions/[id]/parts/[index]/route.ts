@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import {
+  getExpectedPartSize,
+  getUploadSession,
+  writeUploadPart,
+  UploadSessionNotFoundError,
+  InvalidUploadPartError,
+} from '@/lib/uploadSessions';
+import type { ApiResponse } from '@/types/photo';
+import type { UploadSession } from '@/types/upload';
+
+interface RouteContext {
+  params: Promise<{ id: string; index: string }>;
+}
+
+/**
+ * Read a request body, giving up as soon as it grows past `limit` bytes
+ * @returns The body, or null if it is too large
+ */
+async function readBodyUpTo(request: NextRequest, limit: number): Promise<Buffer | null> {
+  if (!request.body) {
+    return Buffer.alloc(0);
+  }
+  
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return Buffer.concat(chunks);
+    }
+    
+    received += value.length;
+    if (received > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+}
+
+/**
+ * PUT /api/upload/sessions/[id]/parts/[index]
+ * 
+ * Store one part of a chunked upload, sent as the raw request body.
+ * Parts may arrive in any order, and sending a part again replaces it.
+ * A body larger than the part is refused with 413 without being read
+ * past the part size.
+ */
+export async function PUT(
+  request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const { id, index } = await context.params;
+    if (!/^\d+$/.test(index)) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Invalid part index' },
+        { status: 400 }
+      );
+    }
+    
+    const existing = await getUploadSession(id);
+    if (!existing) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Upload session not found' },
+        { status: 404 }
+      );
+    }
+    
+    const expected = getExpectedPartSize(existing, Number(index));
+    const tooLarge = () => NextResponse.json<ApiResponse<null>>(
+      { success: false, error: `Part ${index} must be ${expected} bytes` },
+      { status: 413 }
+    );
+    
+    const declared = Number(request.headers.get('content-length'));
+    if (declared > expected) {
+      return tooLarge();
+    }
+    
+    const data = await readBodyUpTo(request, expected);
+    if (!data) {
+      return tooLarge();
+    }
+    
+    const uploadSession = await writeUploadPart(id, Number(index), data);
+    
+    return NextResponse.json<ApiResponse<UploadSession>>({
+      success: true,
+      data: uploadSession,
+    });
+  } catch (error) {
+    if (error instanceof UploadSessionNotFoundError) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Upload session not found' },
+        { status: 404 }
+      );
+    }
+    if (error instanceof InvalidUploadPartError) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+    
+    console.error('Error storing upload part:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to store upload part' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getUploadSession, abortUploadSession } from '@/lib/uploadSessions';
+import type { ApiResponse } from '@/types/photo';
+import type { UploadSession } from '@/types/upload';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/upload/sessions/[id]
+ * 
+ * Fetch an upload session with the parts received so far, so an
+ * interrupted upload can resume
+ */
+export async function GET(
+  request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const { id } = await context.params;
+    const uploadSession = await getUploadSession(id);
+    
+    if (!uploadSession) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Upload session not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json<ApiResponse<UploadSession>>({
+      success: true,
+      data: uploadSession,
+    });
+  } catch (error) {
+    console.error('Error fetching upload session:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to fetch upload session' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/upload/sessions/[id]
+ * 
+ * Abort an upload and discard its parts
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const { id } = await context.params;
+    const aborted = await abortUploadSession(id);
+    
+    if (!aborted) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Upload session not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json<ApiResponse<null>>({
+      success: true,
+      message: 'Upload aborted',
+    });
+  } catch (error) {
+    console.error('Error aborting upload session:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to abort upload' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { createUploadSession } from '@/lib/uploadSessions';
+import { createUploadSessionSchema } from '@/lib/validation/uploadSchemas';
+import type { ApiResponse } from '@/types/photo';
+import type { UploadSession } from '@/types/upload';
+
+/**
+ * POST /api/upload/sessions
+ * 
+ * Start a chunked upload. The response gives the part size and count;
+ * send each part to /api/upload/sessions/[id]/parts/[index], then
+ * complete the session to get the uploaded file.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    // Parse request body
+    const body = await request.json();
+    const validationResult = createUploadSessionSchema.safeParse(body);
+    
+    if (!validationResult.success) {
+      return NextResponse.json<ApiResponse<null>>(
+        {
+          success: false,
+          error: 'Invalid upload',
+          message: validationResult.error.errors[0]?.message,
+        },
+        { status: 400 }
+      );
+    }
+    
+    const uploadSession = await createUploadSession(validationResult.data);
+    
+    return NextResponse.json<ApiResponse<UploadSession>>({
+      success: true,
+      data: uploadSession,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error starting upload session:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to start upload' },
+      { status: 500 }
+    );
+  }
+}
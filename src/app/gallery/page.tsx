@@ -1,6 +1,7 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { AnimatePresence } from 'framer-motion';
 import { useSession, signOut } from 'next-auth/react';
 import { AnimatedBackground } from '@/components/background';
 import { 
@@ -8,14 +9,54 @@ import {
   GalleryFilters, 
   GalleryGrid, 
   PhotoEditorModal,
-  PhotoViewerModal 
+  PhotoViewerModal,
+  PhotoConflictDialog,
+  TagManagerModal,
+  AlbumNav,
+  SmartAlbumEditorModal,
+  BulkActionToolbar,
+  UploadQueueModal,
 } from '@/components/gallery';
 import { SettingsModal } from '@/components/settings/SettingsModal';
 import { ConfirmDialog, Confetti } from '@/components/ui';
 import { AuthGuard } from '@/components/auth/AuthGuard';
 import { usePhotos } from '@/hooks/usePhotos';
+import { useAlbums, getPhotoAlbumIds } from '@/hooks/useAlbums';
+import { useSmartAlbums } from '@/hooks/useSmartAlbums';
 import { useBackground } from '@/context/BackgroundContext';
-import type { Photo, PhotoFrame, CreatePhotoInput, UpdatePhotoInput } from '@/types/photo';
+import type {
+  Photo,
+  PhotoFrame,
+  CreatePhotoInput,
+  CreateSmartAlbumInput,
+  UpdatePhotoInput,
+} from '@/types/photo';
+
+/**
+ * Wait after a photo change before re-evaluating smart albums
+ */
+const SMART_ALBUM_REFRESH_DELAY = 1000;
+
+/**
+ * Gap between downloads, so the browser doesn't drop any
+ */
+const DOWNLOAD_INTERVAL = 250;
+
+/**
+ * Download photos one after another
+ */
+function downloadPhotos(photos: Photo[]) {
+  photos.forEach((photo, index) => {
+    setTimeout(() => {
+      const link = document.createElement('a');
+      link.href = photo.imageUrl;
+      link.download = `${photo.title || 'photo'}.jpg`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    }, index * DOWNLOAD_INTERVAL);
+  });
+}
 
 /**
  * Gallery Page
@@ -31,13 +72,30 @@ function GalleryContent() {
     sortOption,
     isLoading,
     allTags,
+    tagColors,
     totalCount,
     filteredCount,
-    isPolling,
+    hasMore,
+    isLoadingMore,
+    loadMore,
+    loadAllPhotos,
+    isSyncing,
+    conflict,
     addPhoto,
+    addPhotos,
     updatePhoto,
+    resolveConflict,
     deletePhoto,
+    deletePhotoForever,
+    restorePhoto,
     toggleFavorite,
+    addTagsToPhotos,
+    removeTagsFromPhotos,
+    setPhotosFavorite,
+    setPhotosFrameColor,
+    deletePhotos,
+    restorePhotos,
+    reorderPhotos,
     setFilters,
     setSortOption,
     refreshPhotos,
@@ -46,12 +104,19 @@ function GalleryContent() {
     pollingInterval: 15000, // Refresh every 15 seconds
   });
   
+  const { albums, createAlbum, addPhotosToAlbum, setPhotoAlbums, refreshAlbums } = useAlbums();
+  const { smartAlbums, createSmartAlbum, refreshSmartAlbums } = useSmartAlbums();
+  
   const { type, url, gradient, color, blurIntensity, overlayOpacity } = useBackground();
   
   // UI state
   const [isEditorOpen, setIsEditorOpen] = useState(false);
   const [isViewerOpen, setIsViewerOpen] = useState(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isTagManagerOpen, setIsTagManagerOpen] = useState(false);
+  const [isSmartAlbumEditorOpen, setIsSmartAlbumEditorOpen] = useState(false);
+  const [isUploadQueueOpen, setIsUploadQueueOpen] = useState(false);
+  const [uploadFiles, setUploadFiles] = useState<File[]>([]);
   const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
   const [editingPhoto, setEditingPhoto] = useState<PhotoFrame | null>(null);
   const [viewingPhoto, setViewingPhoto] = useState<PhotoFrame | null>(null);
@@ -59,6 +124,22 @@ function GalleryContent() {
   const [isDeleting, setIsDeleting] = useState(false);
   const [showConfetti, setShowConfetti] = useState(false);
   
+  // Selection mode state
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const [isBulkBusy, setIsBulkBusy] = useState(false);
+  const [isBulkDeleteConfirmOpen, setIsBulkDeleteConfirmOpen] = useState(false);
+  
+  // Browsing the trash instead of the gallery
+  const isTrashView = !!filters.trashed;
+  
+  // Selected photos that are still shown (filters may have hidden some)
+  const selectedPhotos = useMemo(
+    () => photos.filter((photo) => selectedIds.has(photo.id)),
+    [photos, selectedIds]
+  );
+  const selectedPhotoIds = useMemo(() => selectedPhotos.map((photo) => photo.id), [selectedPhotos]);
+  
   // Get user nickname from session
   const userName = (session?.user as { nickname?: string })?.nickname || session?.user?.name || undefined;
   
@@ -68,6 +149,14 @@ function GalleryContent() {
     setIsEditorOpen(true);
   }, []);
   
+  // Open the upload queue, with files dropped on the editor if any
+  const handleUploadMany = useCallback((files: File[] = []) => {
+    setIsEditorOpen(false);
+    setEditingPhoto(null);
+    setUploadFiles(files);
+    setIsUploadQueueOpen(true);
+  }, []);
+  
   // Handle photo click - open viewer
   const handlePhotoClick = useCallback((photo: Photo) => {
     setViewingPhoto(photo as PhotoFrame);
@@ -93,7 +182,11 @@ function GalleryContent() {
     if (!photoToDelete) return;
     
     setIsDeleting(true);
-    await deletePhoto(photoToDelete.id);
+    if (isTrashView) {
+      await deletePhotoForever(photoToDelete.id);
+    } else {
+      await deletePhoto(photoToDelete.id);
+    }
     setIsDeleting(false);
     setIsDeleteConfirmOpen(false);
     setPhotoToDelete(null);
@@ -103,29 +196,72 @@ function GalleryContent() {
       setIsViewerOpen(false);
       setViewingPhoto(null);
     }
-  }, [photoToDelete, deletePhoto, viewingPhoto]);
+  }, [photoToDelete, isTrashView, deletePhoto, deletePhotoForever, viewingPhoto]);
+  
+  // Handle restore from the trash
+  const handlePhotoRestore = useCallback(async (photo: Photo) => {
+    await restorePhoto(photo.id);
+    
+    // Close viewer if restoring the viewed photo
+    if (viewingPhoto?.id === photo.id) {
+      setIsViewerOpen(false);
+      setViewingPhoto(null);
+    }
+  }, [restorePhoto, viewingPhoto]);
   
   // Handle photo favorite toggle
   const handlePhotoFavorite = useCallback((photo: Photo) => {
     toggleFavorite(photo as PhotoFrame);
   }, [toggleFavorite]);
   
+  // Move a saved photo into the albums chosen in the editor
+  const saveAlbumChoice = useCallback(async (photoId: string, albumIds?: string[]) => {
+    if (!albumIds) return;
+    
+    const current = getPhotoAlbumIds(albums, photoId);
+    const isUnchanged = current.length === albumIds.length && current.every((id) => albumIds.includes(id));
+    if (!isUnchanged) {
+      await setPhotoAlbums(photoId, albumIds);
+    }
+  }, [albums, setPhotoAlbums]);
+  
+  // Create an album from the album strip or the editor
+  const handleCreateAlbum = useCallback((title: string) => createAlbum({ title }), [createAlbum]);
+  
+  // Save a smart album, starting from the current filters
+  const handleSaveSmartAlbum = useCallback(async (data: CreateSmartAlbumInput) => {
+    return !!(await createSmartAlbum(data));
+  }, [createSmartAlbum]);
+  
+  // Re-evaluate smart album counts and covers once photos settle after a change
+  useEffect(() => {
+    const timer = setTimeout(refreshSmartAlbums, SMART_ALBUM_REFRESH_DELAY);
+    return () => clearTimeout(timer);
+  }, [photos, refreshSmartAlbums]);
+  
   // Handle save from editor
   const handleSavePhoto = useCallback(async (
     data: CreatePhotoInput | UpdatePhotoInput,
-    imageUrl?: string
+    imageUrl?: string,
+    albumIds?: string[]
   ) => {
     const wasFirstPhoto = totalCount === 0;
     
     if (editingPhoto) {
-      // Update existing photo
-      await updatePhoto(editingPhoto.id, data as UpdatePhotoInput);
+      // Update existing photo (guarded by the version it was opened at)
+      const updated = await updatePhoto(editingPhoto.id, data as UpdatePhotoInput, editingPhoto);
+      if (updated) {
+        await saveAlbumChoice(updated.id, albumIds);
+      }
     } else if (imageUrl) {
       // Create new photo
       const newPhoto = await addPhoto({
         ...data as CreatePhotoInput,
         imageUrl,
       });
+      if (newPhoto) {
+        await saveAlbumChoice(newPhoto.id, albumIds);
+      }
       
       // Show confetti for first photo or randomly for others
       if (newPhoto && (wasFirstPhoto || Math.random() > 0.7)) {
@@ -135,7 +271,7 @@ function GalleryContent() {
     }
     setIsEditorOpen(false);
     setEditingPhoto(null);
-  }, [editingPhoto, addPhoto, updatePhoto, totalCount]);
+  }, [editingPhoto, addPhoto, updatePhoto, saveAlbumChoice, totalCount]);
   
   // Handle delete from editor
   const handleDeleteFromEditor = useCallback(async (photoId: string) => {
@@ -150,6 +286,60 @@ function GalleryContent() {
     setEditingPhoto(null);
   }, []);
   
+  // Leave selection mode
+  const handleStopSelecting = useCallback(() => {
+    setIsSelecting(false);
+    setSelectedIds(new Set());
+  }, []);
+  
+  // Leave selection mode on Escape, and when switching to or from the trash
+  useEffect(() => {
+    if (!isSelecting) return;
+    
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') handleStopSelecting();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isSelecting, handleStopSelecting]);
+  
+  useEffect(() => {
+    handleStopSelecting();
+  }, [isTrashView, handleStopSelecting]);
+  
+  // Run a bulk action, blocking the toolbar until it finishes
+  const runBulkAction = useCallback(async (action: () => Promise<unknown>) => {
+    setIsBulkBusy(true);
+    try {
+      await action();
+    } finally {
+      setIsBulkBusy(false);
+    }
+  }, []);
+  
+  // Select every photo matching the filters, loading the rest first
+  const handleSelectAll = useCallback(() => runBulkAction(async () => {
+    const all = await loadAllPhotos();
+    setSelectedIds(new Set(all.map((photo) => photo.id)));
+  }), [runBulkAction, loadAllPhotos]);
+  
+  // Move the selection to the trash once confirmed
+  const handleConfirmBulkDelete = useCallback(() => runBulkAction(async () => {
+    const results = await deletePhotos(selectedPhotoIds);
+    setIsBulkDeleteConfirmOpen(false);
+    if (results) {
+      setSelectedIds(new Set());
+    }
+  }), [runBulkAction, deletePhotos, selectedPhotoIds]);
+  
+  // Restore the selection from the trash
+  const handleBulkRestore = useCallback(() => runBulkAction(async () => {
+    const results = await restorePhotos(selectedPhotoIds);
+    if (results) {
+      setSelectedIds(new Set());
+    }
+  }), [runBulkAction, restorePhotos, selectedPhotoIds]);
+  
   // Handle logout
   const handleLogout = useCallback(async () => {
     await signOut({ callbackUrl: '/login' });
@@ -197,13 +387,30 @@ function GalleryContent() {
         <GalleryHeader
           userName={userName}
           photoCount={totalCount}
-          isSyncing={isPolling}
+          isSyncing={isSyncing}
           onAddPhoto={handleAddPhoto}
+          onUploadMany={() => handleUploadMany()}
+          onManageTags={() => setIsTagManagerOpen(true)}
+          onSelectPhotos={isSelecting ? undefined : () => setIsSelecting(true)}
           onSettings={() => setIsSettingsOpen(true)}
           onLogout={handleLogout}
-          onRefresh={refreshPhotos}
+          onRefresh={() => {
+            refreshPhotos();
+            refreshAlbums();
+            refreshSmartAlbums();
+          }}
         />
         
+        {/* Albums */}
+        {!isTrashView && (
+          <AlbumNav
+            albums={albums}
+            smartAlbums={smartAlbums}
+            onCreateAlbum={handleCreateAlbum}
+            onNewSmartAlbum={() => setIsSmartAlbumEditorOpen(true)}
+          />
+        )}
+        
         {/* Filters */}
         <GalleryFilters
           filters={filters}
@@ -220,13 +427,47 @@ function GalleryContent() {
           photos={photos}
           isLoading={isLoading}
           editable
+          tagColors={tagColors}
           onPhotoClick={handlePhotoClick}
-          onPhotoEdit={handlePhotoEdit}
+          onPhotoEdit={isTrashView ? undefined : handlePhotoEdit}
           onPhotoDelete={handlePhotoDelete}
           onPhotoFavorite={handlePhotoFavorite}
+          onPhotoRestore={isTrashView ? handlePhotoRestore : undefined}
+          hasMore={hasMore}
+          isLoadingMore={isLoadingMore}
+          onLoadMore={loadMore}
+          selectable={isSelecting}
+          selectedIds={selectedIds}
+          onSelectionChange={setSelectedIds}
+          reorderable={sortOption === 'custom' && !isTrashView && !isSelecting}
+          onReorder={reorderPhotos}
         />
       </main>
       
+      {/* Bulk Actions */}
+      <AnimatePresence>
+        {isSelecting && (
+          <BulkActionToolbar
+            selectedCount={selectedPhotos.length}
+            isTrashView={isTrashView}
+            isBusy={isBulkBusy}
+            availableTags={allTags}
+            tagColors={tagColors}
+            albums={albums}
+            onSelectAll={handleSelectAll}
+            onClose={handleStopSelecting}
+            onAddTags={(tags) => runBulkAction(() => addTagsToPhotos(selectedPhotoIds, tags))}
+            onRemoveTags={(tags) => runBulkAction(() => removeTagsFromPhotos(selectedPhotoIds, tags))}
+            onSetFavorite={(isFavorite) => runBulkAction(() => setPhotosFavorite(selectedPhotoIds, isFavorite))}
+            onSetFrameColor={(frameColor) => runBulkAction(() => setPhotosFrameColor(selectedPhotoIds, frameColor))}
+            onAddToAlbum={(albumId) => runBulkAction(() => addPhotosToAlbum(albumId, selectedPhotoIds))}
+            onDownload={() => downloadPhotos(selectedPhotos)}
+            onDelete={() => setIsBulkDeleteConfirmOpen(true)}
+            onRestore={handleBulkRestore}
+          />
+        )}
+      </AnimatePresence>
+      
       {/* Photo Editor Modal */}
       <PhotoEditorModal
         isOpen={isEditorOpen}
@@ -235,6 +476,23 @@ function GalleryContent() {
         onSave={handleSavePhoto}
         onDelete={handleDeleteFromEditor}
         availableTags={allTags}
+        tagColors={tagColors}
+        albums={albums}
+        onCreateAlbum={handleCreateAlbum}
+        onUploadMany={handleUploadMany}
+      />
+      
+      {/* Upload Queue */}
+      <UploadQueueModal
+        isOpen={isUploadQueueOpen}
+        onClose={() => {
+          setIsUploadQueueOpen(false);
+          setUploadFiles([]);
+        }}
+        files={uploadFiles}
+        availableTags={allTags}
+        tagColors={tagColors}
+        onCreatePhotos={addPhotos}
       />
       
       {/* Photo Viewer Modal */}
@@ -245,11 +503,17 @@ function GalleryContent() {
         photos={photos}
         onPrevious={handlePreviousPhoto}
         onNext={handleNextPhoto}
-        onEdit={handlePhotoEdit}
+        onEdit={isTrashView ? undefined : handlePhotoEdit}
         onDelete={handlePhotoDelete}
         onFavorite={handlePhotoFavorite}
       />
       
+      {/* Edit Conflict Dialog */}
+      <PhotoConflictDialog
+        conflict={conflict}
+        onResolve={resolveConflict}
+      />
+      
       {/* Delete Confirmation Dialog */}
       <ConfirmDialog
         isOpen={isDeleteConfirmOpen}
@@ -258,14 +522,46 @@ function GalleryContent() {
           setPhotoToDelete(null);
         }}
         onConfirm={handleConfirmDelete}
-        title="Delete Photo?"
-        message="This action cannot be undone. The photo will be permanently deleted."
-        confirmText="Delete"
+        title={isTrashView ? 'Delete Forever?' : 'Delete Photo?'}
+        message={isTrashView
+          ? 'This action cannot be undone. The photo will be permanently deleted.'
+          : 'The photo will be moved to the trash. You can restore it from there.'}
+        confirmText={isTrashView ? 'Delete Forever' : 'Delete'}
         cancelText="Cancel"
         variant="danger"
         isLoading={isDeleting}
       />
       
+      {/* Bulk Delete Confirmation Dialog */}
+      <ConfirmDialog
+        isOpen={isBulkDeleteConfirmOpen}
+        onClose={() => setIsBulkDeleteConfirmOpen(false)}
+        onConfirm={handleConfirmBulkDelete}
+        title={selectedPhotos.length === 1 ? 'Delete 1 Photo?' : `Delete ${selectedPhotos.length} Photos?`}
+        message="The selected photos will be moved to the trash. You can restore them from there."
+        confirmText="Delete"
+        cancelText="Cancel"
+        variant="danger"
+        isLoading={isBulkBusy}
+      />
+      
+      {/* Tag Manager */}
+      <TagManagerModal
+        isOpen={isTagManagerOpen}
+        onClose={() => setIsTagManagerOpen(false)}
+        onPhotosChanged={refreshPhotos}
+      />
+      
+      {/* New Smart Album */}
+      <SmartAlbumEditorModal
+        isOpen={isSmartAlbumEditorOpen}
+        onClose={() => setIsSmartAlbumEditorOpen(false)}
+        initialFilters={filters}
+        initialSort={sortOption}
+        availableTags={allTags}
+        onSave={handleSaveSmartAlbum}
+      />
+      
       {/* Settings Modal */}
       <SettingsModal
         isOpen={isSettingsOpen}
@@ -1,6 +1,7 @@
 import type { Metadata, Viewport } from 'next';
 import { Quicksand, Caveat } from 'next/font/google';
 import { Providers } from '@/components/providers/Providers';
+import 'react-day-picker/style.css';
 import '@/styles/globals.css';
 
 /**
@@ -0,0 +1,269 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { ArrowLeft, Images, Pencil, Sparkles, Trash2 } from 'lucide-react';
+import { AnimatedBackground } from '@/components/background';
+import {
+  GalleryGrid,
+  PhotoViewerModal,
+  SmartAlbumEditorModal,
+} from '@/components/gallery';
+import { Badge, ConfirmDialog, GlassCard, GlassButton } from '@/components/ui';
+import { AuthGuard } from '@/components/auth/AuthGuard';
+import { useSmartAlbum } from '@/hooks/useSmartAlbums';
+import { useBackground } from '@/context/BackgroundContext';
+import { useGalleryStore } from '@/stores/galleryStore';
+import type { Photo, PhotoFilters, PhotoFrame, SmartAlbumSummary } from '@/types/photo';
+
+/**
+ * Short labels for the parts of a smart album's query
+ */
+function describeFilters(filters: PhotoFilters): string[] {
+  const parts: string[] = [];
+  
+  if (filters.search) {
+    parts.push(`“${filters.search}”`);
+  }
+  if (filters.tags?.length) {
+    const tags = filters.tags.map((tag) => `#${tag}`);
+    parts.push(filters.tagMode === 'all' ? `all of ${tags.join(' ')}` : tags.join(' or '));
+  }
+  if (filters.excludedTags?.length) {
+    parts.push(`not ${filters.excludedTags.map((tag) => `#${tag}`).join(' ')}`);
+  }
+  if (filters.favoritesOnly) {
+    parts.push('♥ favorites');
+  }
+  const { from, to } = filters.dateRange ?? {};
+  if (from || to) {
+    parts.push(from && to ? `${from} – ${to}` : from ? `from ${from}` : `until ${to}`);
+  }
+  
+  return parts;
+}
+
+/**
+ * Smart Album Page
+ * 
+ * Shows the photos currently matching a smart album's query. The list
+ * is re-evaluated regularly, so it follows photos as they change.
+ */
+function SmartAlbumContent({ smartAlbumId }: { smartAlbumId: string }) {
+  const router = useRouter();
+  const {
+    smartAlbum,
+    photos,
+    isLoading,
+    isLoadingMore,
+    hasMore,
+    notFound,
+    loadMore,
+    updateSmartAlbum,
+    toggleFavorite,
+    deleteSmartAlbum,
+  } = useSmartAlbum(smartAlbumId);
+  const { allTags, tagColors, setFilters, setSortOption } = useGalleryStore();
+  
+  const { type, url, gradient, color, blurIntensity, overlayOpacity } = useBackground();
+  
+  // UI state
+  const [editingSmartAlbum, setEditingSmartAlbum] = useState<SmartAlbumSummary | null>(null);
+  const [viewingPhoto, setViewingPhoto] = useState<PhotoFrame | null>(null);
+  const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  
+  // Confirm deleting the smart album
+  const handleConfirmDelete = useCallback(async () => {
+    setIsDeleting(true);
+    const deleted = await deleteSmartAlbum();
+    setIsDeleting(false);
+    
+    if (deleted) {
+      router.push('/gallery');
+    } else {
+      setIsDeleteConfirmOpen(false);
+    }
+  }, [deleteSmartAlbum, router]);
+  
+  // Browse the same query in the gallery, where photos can be edited
+  const handleOpenInGallery = useCallback(() => {
+    if (!smartAlbum) return;
+    
+    setFilters(smartAlbum.filters);
+    setSortOption(smartAlbum.sort);
+    router.push('/gallery');
+  }, [smartAlbum, setFilters, setSortOption, router]);
+  
+  // Step through the album in the viewer
+  const handleStep = useCallback((offset: -1 | 1) => {
+    if (!viewingPhoto) return;
+    const next = photos[photos.findIndex((p) => p.id === viewingPhoto.id) + offset];
+    if (next) {
+      setViewingPhoto(next);
+    }
+  }, [viewingPhoto, photos]);
+  
+  // Favorite from the grid or viewer
+  const handleFavorite = useCallback((photo: Photo) => {
+    toggleFavorite(photo as PhotoFrame);
+    if (viewingPhoto?.id === photo.id) {
+      setViewingPhoto({ ...viewingPhoto, isFavorite: !photo.isFavorite });
+    }
+  }, [toggleFavorite, viewingPhoto]);
+  
+  return (
+    <div className="min-h-screen">
+      {/* Background */}
+      <AnimatedBackground
+        type={type}
+        url={url}
+        gradient={gradient}
+        color={color}
+        blurIntensity={blurIntensity}
+        overlayOpacity={overlayOpacity}
+      />
+      
+      {/* Main Content */}
+      <main className="relative z-10 max-w-7xl mx-auto px-4 py-6 space-y-6">
+        {/* Header */}
+        <GlassCard
+          blur="medium"
+          opacity={70}
+          rounded="xl"
+          hoverEffect="none"
+          className="p-4 md:p-5"
+        >
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div className="flex items-center gap-3 min-w-0">
+              <Link
+                href="/gallery"
+                className="p-2 rounded-full text-blush-600 hover:bg-white/60 transition-colors flex-shrink-0"
+                title="Back to gallery"
+              >
+                <ArrowLeft size={20} />
+              </Link>
+              <div className="min-w-0">
+                <h1 className="text-lg sm:text-2xl font-display font-bold flex items-center gap-2">
+                  <Sparkles className="w-5 h-5 text-blush-400 flex-shrink-0" />
+                  <span className="gradient-text truncate">
+                    {smartAlbum?.title ?? (notFound ? 'Smart album not found' : 'Loading...')}
+                  </span>
+                </h1>
+                {smartAlbum && (
+                  <>
+                    <p className="text-sm text-gray-500">
+                      {smartAlbum.photoCount} {smartAlbum.photoCount === 1 ? 'photo' : 'photos'}
+                      {smartAlbum.description && <> · {smartAlbum.description}</>}
+                    </p>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {describeFilters(smartAlbum.filters).map((part) => (
+                        <Badge key={part} variant="rose" pill>{part}</Badge>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </div>
+            </div>
+            
+            {smartAlbum && (
+              <div className="flex items-center gap-2">
+                <GlassButton
+                  variant="secondary"
+                  size="sm"
+                  leftIcon={<Images size={14} />}
+                  onClick={handleOpenInGallery}
+                >
+                  Open in Gallery
+                </GlassButton>
+                <GlassButton
+                  variant="secondary"
+                  size="sm"
+                  leftIcon={<Pencil size={14} />}
+                  onClick={() => setEditingSmartAlbum(smartAlbum)}
+                >
+                  Edit
+                </GlassButton>
+                <GlassButton
+                  variant="danger"
+                  size="sm"
+                  leftIcon={<Trash2 size={14} />}
+                  onClick={() => setIsDeleteConfirmOpen(true)}
+                >
+                  Delete
+                </GlassButton>
+              </div>
+            )}
+          </div>
+        </GlassCard>
+        
+        {/* Photo Grid */}
+        {notFound ? (
+          <p className="text-center text-gray-600 py-12">
+            This smart album no longer exists. <Link href="/gallery" className="text-blush-600 underline">Back to the gallery</Link>
+          </p>
+        ) : (
+          <GalleryGrid
+            photos={photos}
+            isLoading={isLoading}
+            tagColors={tagColors}
+            onPhotoClick={(photo) => setViewingPhoto(photo as PhotoFrame)}
+            onPhotoFavorite={handleFavorite}
+            hasMore={hasMore}
+            isLoadingMore={isLoadingMore}
+            onLoadMore={loadMore}
+            emptyTitle="No photos match yet"
+            emptyDescription="Photos show up here as soon as they match this smart album"
+          />
+        )}
+      </main>
+      
+      {/* Smart Album Editor */}
+      <SmartAlbumEditorModal
+        isOpen={!!editingSmartAlbum}
+        onClose={() => setEditingSmartAlbum(null)}
+        smartAlbum={editingSmartAlbum}
+        availableTags={allTags}
+        onSave={(data) => updateSmartAlbum({ ...data, description: data.description ?? null })}
+      />
+      
+      {/* Photo Viewer Modal */}
+      <PhotoViewerModal
+        isOpen={!!viewingPhoto}
+        onClose={() => setViewingPhoto(null)}
+        photo={viewingPhoto}
+        photos={photos}
+        onPrevious={() => handleStep(-1)}
+        onNext={() => handleStep(1)}
+        onFavorite={handleFavorite}
+      />
+      
+      {/* Delete Smart Album Confirmation */}
+      <ConfirmDialog
+        isOpen={isDeleteConfirmOpen}
+        onClose={() => setIsDeleteConfirmOpen(false)}
+        onConfirm={handleConfirmDelete}
+        title="Delete Smart Album?"
+        message="Only the saved query is deleted. No photos are touched."
+        confirmText="Delete Smart Album"
+        cancelText="Cancel"
+        variant="danger"
+        isLoading={isDeleting}
+      />
+    </div>
+  );
+}
+
+/**
+ * Smart Album Page with Auth Guard
+ */
+export default function SmartAlbumPage() {
+  const { id } = useParams<{ id: string }>();
+  
+  return (
+    <AuthGuard>
+      <SmartAlbumContent smartAlbumId={id} />
+    </AuthGuard>
+  );
+}
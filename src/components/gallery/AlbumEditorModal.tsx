@@ -0,0 +1,265 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Image from 'next/image';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Save, ChevronLeft, ChevronRight, Star } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { GlassCard } from '@/components/ui/GlassCard';
+import { GlassButton } from '@/components/ui/GlassButton';
+import { GlassInput } from '@/components/ui/GlassInput';
+import { GlassTextarea } from '@/components/ui/GlassTextarea';
+import type { AlbumSummary, PhotoFrame, UpdateAlbumInput } from '@/types/photo';
+
+/**
+ * Props for AlbumEditorModal component
+ */
+interface AlbumEditorModalProps {
+  /** Whether modal is open */
+  isOpen: boolean;
+  /** Called when modal should close */
+  onClose: () => void;
+  /** Album to edit */
+  album: AlbumSummary;
+  /** The album's photos in album order */
+  photos: PhotoFrame[];
+  /** Called with the changes; resolves to whether they were saved */
+  onSave: (data: UpdateAlbumInput) => Promise<boolean>;
+}
+
+/**
+ * Move an item one place earlier or later
+ */
+function moveItem<T>(items: T[], index: number, offset: -1 | 1): T[] {
+  const target = index + offset;
+  if (target < 0 || target >= items.length) {
+    return items;
+  }
+  
+  const next = [...items];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
+
+/**
+ * AlbumEditorModal Component
+ * 
+ * Edits an album's title and description, picks its cover photo and
+ * arranges the photo order.
+ */
+export function AlbumEditorModal({
+  isOpen,
+  onClose,
+  album,
+  photos,
+  onSave,
+}: AlbumEditorModalProps) {
+  const [title, setTitle] = useState(album.title);
+  const [description, setDescription] = useState(album.description ?? '');
+  const [coverPhotoId, setCoverPhotoId] = useState(album.coverPhotoId);
+  const [order, setOrder] = useState(photos);
+  const [isSaving, setIsSaving] = useState(false);
+  
+  // Start over from the album each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setTitle(album.title);
+      setDescription(album.description ?? '');
+      setCoverPhotoId(album.coverPhotoId);
+      setOrder(photos);
+    }
+  }, [isOpen, album, photos]);
+  
+  const trimmedTitle = title.trim();
+  
+  // Save the changes and close
+  const handleSave = async () => {
+    if (!trimmedTitle) return;
+    
+    // Trashed photos are not shown but keep their album membership
+    const shownIds = order.map((p) => p.id);
+    const hiddenIds = album.photoIds.filter((id) => !shownIds.includes(id));
+    
+    setIsSaving(true);
+    const saved = await onSave({
+      title: trimmedTitle,
+      description: description.trim() || null,
+      // Only a picked cover is sent, so one already gone can't fail the save
+      coverPhotoId: coverPhotoId === album.coverPhotoId ? undefined : coverPhotoId ?? null,
+      photoIds: [...shownIds, ...hiddenIds],
+    });
+    setIsSaving(false);
+    
+    if (saved) {
+      onClose();
+    }
+  };
+  
+  // Handle escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen) {
+        onClose();
+      }
+    };
+    
+    window.addEventListener('keydown', handleEscape);
+    return () => window.removeEventListener('keydown', handleEscape);
+  }, [isOpen, onClose]);
+  
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="absolute inset-0 bg-black/40 backdrop-blur-sm"
+          />
+          
+          {/* Modal */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.9, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.9, y: 20 }}
+            transition={{ type: 'spring', duration: 0.5 }}
+            className="relative w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+          >
+            <GlassCard
+              blur="heavy"
+              opacity={40}
+              rounded="2xl"
+              className="p-6"
+            >
+              {/* Header */}
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-2xl font-display font-bold gradient-text">
+                  Edit Album
+                </h2>
+                <button
+                  onClick={onClose}
+                  className={cn(
+                    'p-2 rounded-full',
+                    'hover:bg-white/20 transition-colors'
+                  )}
+                >
+                  <X className="w-5 h-5 text-gray-600" />
+                </button>
+              </div>
+              
+              <div className="space-y-4">
+                <GlassInput
+                  label="Title"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  maxLength={100}
+                  error={trimmedTitle ? undefined : 'Title is required'}
+                />
+                
+                <GlassTextarea
+                  label="Description"
+                  placeholder="What is this album about?"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  maxLength={500}
+                  showCount
+                />
+                
+                {/* Cover and order */}
+                {order.length > 0 && (
+                  <div>
+                    <p className="text-sm font-medium text-gray-700 mb-1">
+                      Cover & order
+                    </p>
+                    <p className="text-xs text-gray-500 mb-3">
+                      Click a photo to make it the cover, use the arrows to move it.
+                    </p>
+                    <div className="grid grid-cols-3 sm:grid-cols-4 gap-3">
+                      {order.map((photo, index) => {
+                        const isCover = photo.id === (coverPhotoId ?? order[0]?.id);
+                        return (
+                          <div key={photo.id} className="space-y-1">
+                            <button
+                              type="button"
+                              onClick={() => setCoverPhotoId(photo.id)}
+                              className={cn(
+                                'relative block w-full aspect-square rounded-lg overflow-hidden',
+                                'bg-cream-100 transition-all',
+                                isCover ? 'ring-2 ring-blush-400' : 'hover:ring-2 hover:ring-white/60'
+                              )}
+                              title={isCover ? 'Cover photo' : 'Use as cover'}
+                            >
+                              <Image
+                                src={photo.imageUrl}
+                                alt={photo.title}
+                                fill
+                                className="object-cover"
+                                sizes="120px"
+                              />
+                              {isCover && (
+                                <span className="absolute top-1 left-1 p-1 rounded-full bg-white/90">
+                                  <Star size={12} className="fill-amber-400 text-amber-400" />
+                                </span>
+                              )}
+                            </button>
+                            <div className="flex items-center justify-between">
+                              <button
+                                type="button"
+                                onClick={() => setOrder(moveItem(order, index, -1))}
+                                disabled={index === 0}
+                                className="p-1 rounded text-gray-600 hover:bg-white/40 disabled:opacity-30"
+                                title="Move earlier"
+                              >
+                                <ChevronLeft size={14} />
+                              </button>
+                              <span className="text-xs text-gray-500">{index + 1}</span>
+                              <button
+                                type="button"
+                                onClick={() => setOrder(moveItem(order, index, 1))}
+                                disabled={index === order.length - 1}
+                                className="p-1 rounded text-gray-600 hover:bg-white/40 disabled:opacity-30"
+                                title="Move later"
+                              >
+                                <ChevronRight size={14} />
+                              </button>
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+              </div>
+              
+              {/* Actions */}
+              <div className="flex items-center justify-end gap-3 pt-4 mt-6 border-t border-white/20">
+                <GlassButton
+                  type="button"
+                  variant="ghost"
+                  onClick={onClose}
+                >
+                  Cancel
+                </GlassButton>
+                <GlassButton
+                  variant="primary"
+                  leftIcon={<Save size={18} />}
+                  onClick={handleSave}
+                  isLoading={isSaving}
+                  loadingText="Saving..."
+                  disabled={!trimmedTitle}
+                >
+                  Save Album
+                </GlassButton>
+              </div>
+            </GlassCard>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
+
+export default AlbumEditorModal;
@@ -0,0 +1,220 @@
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { BookImage, FolderPlus, Sparkles, X } from 'lucide-react';
+import { GlassCard } from '@/components/ui/GlassCard';
+import { cn } from '@/lib/utils';
+import type { AlbumSummary, SmartAlbumSummary } from '@/types/photo';
+
+/**
+ * Props for AlbumNav component
+ */
+interface AlbumNavProps {
+  /** Albums to list */
+  albums: AlbumSummary[];
+  /** Smart albums to list after the albums */
+  smartAlbums?: SmartAlbumSummary[];
+  /** Creates an album from a title */
+  onCreateAlbum?: (title: string) => Promise<AlbumSummary | null>;
+  /** Called when a new smart album is requested */
+  onNewSmartAlbum?: () => void;
+  /** Additional className */
+  className?: string;
+}
+
+/**
+ * Link to an album page showing the cover, title and photo count
+ */
+function AlbumLink({
+  href,
+  title,
+  photoCount,
+  coverUrl,
+  isSmart = false,
+}: {
+  href: string;
+  title: string;
+  photoCount: number;
+  coverUrl?: string;
+  isSmart?: boolean;
+}) {
+  const Icon = isSmart ? Sparkles : BookImage;
+  
+  return (
+    <motion.div
+      whileHover={{ y: -2 }}
+      className="flex-shrink-0"
+    >
+      <Link
+        href={href}
+        className={cn(
+          'flex items-center gap-2 pr-3 rounded-lg',
+          'bg-white/50 hover:bg-white/80 transition-colors'
+        )}
+      >
+        <div className="relative w-10 h-10 rounded-l-lg overflow-hidden bg-cream-100">
+          {coverUrl ? (
+            <Image
+              src={coverUrl}
+              alt=""
+              fill
+              className="object-cover"
+              sizes="40px"
+            />
+          ) : (
+            <Icon size={16} className="absolute inset-0 m-auto text-blush-300" />
+          )}
+          {isSmart && coverUrl && (
+            <Sparkles size={12} className="absolute bottom-0.5 right-0.5 text-white drop-shadow" />
+          )}
+        </div>
+        <div className="min-w-0">
+          <p className="text-sm font-medium text-gray-700 truncate max-w-[140px]">
+            {title}
+          </p>
+          <p className="text-xs text-gray-500">
+            {photoCount} {photoCount === 1 ? 'photo' : 'photos'}
+          </p>
+        </div>
+      </Link>
+    </motion.div>
+  );
+}
+
+/**
+ * AlbumNav Component
+ * 
+ * Scrollable strip of album and smart album covers linking to each
+ * album's page, with buttons for starting new ones.
+ */
+export function AlbumNav({
+  albums,
+  smartAlbums = [],
+  onCreateAlbum,
+  onNewSmartAlbum,
+  className,
+}: AlbumNavProps) {
+  const [isCreating, setIsCreating] = useState(false);
+  const [title, setTitle] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  
+  // Create the album and close the field
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!title.trim() || !onCreateAlbum) return;
+    
+    setIsSaving(true);
+    const album = await onCreateAlbum(title.trim());
+    setIsSaving(false);
+    
+    if (album) {
+      setTitle('');
+      setIsCreating(false);
+    }
+  };
+  
+  if (albums.length === 0 && smartAlbums.length === 0 && !onCreateAlbum && !onNewSmartAlbum) {
+    return null;
+  }
+  
+  return (
+    <GlassCard
+      blur="medium"
+      opacity={60}
+      rounded="xl"
+      hoverEffect="none"
+      className={cn('p-3', className)}
+    >
+      <nav aria-label="Albums" className="flex items-center gap-3 overflow-x-auto">
+        <span className="flex items-center gap-1.5 text-sm font-medium text-blush-600 flex-shrink-0">
+          <BookImage size={16} />
+          Albums
+        </span>
+        
+        {albums.map((album) => (
+          <AlbumLink
+            key={album.id}
+            href={`/albums/${album.id}`}
+            title={album.title}
+            photoCount={album.photoCount}
+            coverUrl={album.coverUrl}
+          />
+        ))}
+        
+        {smartAlbums.map((smartAlbum) => (
+          <AlbumLink
+            key={smartAlbum.id}
+            href={`/smart-albums/${smartAlbum.id}`}
+            title={smartAlbum.title}
+            photoCount={smartAlbum.photoCount}
+            coverUrl={smartAlbum.coverUrl}
+            isSmart
+          />
+        ))}
+        
+        {onCreateAlbum && (
+          isCreating ? (
+            <form onSubmit={handleSubmit} className="flex items-center gap-1 flex-shrink-0">
+              <input
+                type="text"
+                autoFocus
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                onKeyDown={(e) => e.key === 'Escape' && setIsCreating(false)}
+                placeholder="Album title..."
+                maxLength={100}
+                disabled={isSaving}
+                className={cn(
+                  'w-40 px-3 py-1.5 rounded-lg text-sm',
+                  'bg-white/60 border border-blush-100',
+                  'placeholder:text-gray-400 text-gray-700',
+                  'focus:outline-none focus:ring-2 focus:ring-blush-300'
+                )}
+              />
+              <button
+                type="button"
+                onClick={() => setIsCreating(false)}
+                className="p-1.5 rounded-lg text-gray-500 hover:bg-white/60 transition-colors"
+                title="Cancel"
+              >
+                <X size={14} />
+              </button>
+            </form>
+          ) : (
+            <button
+              onClick={() => setIsCreating(true)}
+              className={cn(
+                'flex items-center gap-1.5 px-3 py-2 rounded-lg flex-shrink-0',
+                'text-sm text-blush-600 border border-dashed border-blush-300',
+                'hover:bg-white/60 transition-colors'
+              )}
+            >
+              <FolderPlus size={14} />
+              New album
+            </button>
+          )
+        )}
+        
+        {onNewSmartAlbum && (
+          <button
+            onClick={onNewSmartAlbum}
+            className={cn(
+              'flex items-center gap-1.5 px-3 py-2 rounded-lg flex-shrink-0',
+              'text-sm text-blush-600 border border-dashed border-blush-300',
+              'hover:bg-white/60 transition-colors'
+            )}
+            title="Save a query as a smart album"
+          >
+            <Sparkles size={14} />
+            Smart album
+          </button>
+        )}
+      </nav>
+    </GlassCard>
+  );
+}
+
+export default AlbumNav;
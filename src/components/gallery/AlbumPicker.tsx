@@ -0,0 +1,149 @@
+'use client';
+
+import { useState, type KeyboardEvent } from 'react';
+import { Check, FolderPlus } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { AlbumSummary } from '@/types/photo';
+
+/**
+ * Props for AlbumPicker component
+ */
+interface AlbumPickerProps {
+  /** Albums to choose from */
+  albums: AlbumSummary[];
+  /** IDs of the chosen albums */
+  value: string[];
+  /** Called when the choice changes */
+  onChange: (albumIds: string[]) => void;
+  /** Creates an album from a title; hides the "New album" field when missing */
+  onCreateAlbum?: (title: string) => Promise<AlbumSummary | null>;
+  /** Label text */
+  label?: string;
+}
+
+/**
+ * AlbumPicker Component
+ * 
+ * Toggle chips for putting a photo into albums, with an inline field
+ * for creating a new album that is chosen right away.
+ * 
+ * @example
+ * ```tsx
+ * <AlbumPicker
+ *   albums={albums}
+ *   value={albumIds}
+ *   onChange={setAlbumIds}
+ *   onCreateAlbum={(title) => createAlbum({ title })}
+ * />
+ * ```
+ */
+export function AlbumPicker({
+  albums,
+  value,
+  onChange,
+  onCreateAlbum,
+  label = 'Albums',
+}: AlbumPickerProps) {
+  const [newTitle, setNewTitle] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  
+  // Toggle an album in or out of the choice
+  const toggleAlbum = (albumId: string) => {
+    onChange(value.includes(albumId)
+      ? value.filter((id) => id !== albumId)
+      : [...value, albumId]);
+  };
+  
+  // Create an album and choose it
+  const createAlbum = async () => {
+    const title = newTitle.trim();
+    if (!title || !onCreateAlbum || isCreating) return;
+    
+    setIsCreating(true);
+    const album = await onCreateAlbum(title);
+    setIsCreating(false);
+    
+    if (album) {
+      onChange([...value, album.id]);
+      setNewTitle('');
+    }
+  };
+  
+  // Create on Enter without submitting the surrounding form
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      createAlbum();
+    }
+  };
+  
+  return (
+    <div className="w-full">
+      <label className="text-sm font-medium text-gray-700 mb-2 block">
+        {label}
+      </label>
+      
+      {albums.length > 0 ? (
+        <div className="flex flex-wrap gap-2 mb-2">
+          {albums.map((album) => {
+            const isChosen = value.includes(album.id);
+            return (
+              <button
+                key={album.id}
+                type="button"
+                onClick={() => toggleAlbum(album.id)}
+                aria-pressed={isChosen}
+                className={cn(
+                  'inline-flex items-center gap-1 px-3 py-1 rounded-full text-sm',
+                  'transition-all duration-200',
+                  isChosen
+                    ? 'bg-blush-100 text-blush-700 ring-1 ring-blush-300'
+                    : 'bg-white/30 text-gray-600 hover:bg-white/50'
+                )}
+              >
+                {isChosen && <Check size={12} />}
+                {album.title}
+              </button>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500 mb-2">No albums yet</p>
+      )}
+      
+      {onCreateAlbum && (
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={newTitle}
+            onChange={(e) => setNewTitle(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="New album..."
+            maxLength={100}
+            className={cn(
+              'flex-1 min-w-0 px-3 py-1.5 rounded-lg text-sm',
+              'bg-white/30 border border-white/40',
+              'placeholder:text-gray-400 text-gray-700',
+              'focus:outline-none focus:ring-2 focus:ring-blush-300'
+            )}
+          />
+          <button
+            type="button"
+            onClick={createAlbum}
+            disabled={!newTitle.trim() || isCreating}
+            className={cn(
+              'p-1.5 rounded-lg text-blush-600',
+              'hover:bg-white/40 transition-colors',
+              'disabled:opacity-40 disabled:cursor-not-allowed'
+            )}
+            title="Create album"
+          >
+            <FolderPlus size={18} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default AlbumPicker;
@@ -0,0 +1,372 @@
+'use client';
+
+import { useState, type ReactNode } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  ArchiveRestore,
+  BookImage,
+  CheckCheck,
+  Download,
+  Frame,
+  Heart,
+  HeartOff,
+  Tag,
+  Trash2,
+  X,
+} from 'lucide-react';
+import { GlassButton } from '@/components/ui/GlassButton';
+import { TagInput } from '@/components/ui/TagInput';
+import { cn } from '@/lib/utils';
+import type { AlbumSummary, FrameColor } from '@/types/photo';
+import type { TagColorMap } from '@/types/tag';
+
+/**
+ * Frame colors with a swatch for each
+ */
+const FRAME_COLORS: { value: FrameColor; label: string; swatch: string }[] = [
+  { value: 'white', label: 'White', swatch: 'bg-white' },
+  { value: 'cream', label: 'Cream', swatch: 'bg-cream-100' },
+  { value: 'pink', label: 'Pink', swatch: 'bg-blush-100' },
+  { value: 'lavender', label: 'Lavender', swatch: 'bg-lavender-100' },
+  { value: 'mint', label: 'Mint', swatch: 'bg-sage-100' },
+  { value: 'peach', label: 'Peach', swatch: 'bg-peach-100' },
+];
+
+/**
+ * Popover menus of the toolbar
+ */
+type ToolbarMenu = 'tags' | 'frame' | 'album';
+
+/**
+ * Props for BulkActionToolbar component
+ */
+interface BulkActionToolbarProps {
+  /** Number of photos selected */
+  selectedCount: number;
+  /** Whether the selection is in the trash */
+  isTrashView?: boolean;
+  /** Whether an action is running */
+  isBusy?: boolean;
+  /** Tags to suggest */
+  availableTags?: string[];
+  /** Assigned tag colors */
+  tagColors?: TagColorMap;
+  /** Albums photos can be added to */
+  albums?: AlbumSummary[];
+  /** Called to select every photo matching the filters */
+  onSelectAll: () => void;
+  /** Called to leave selection mode */
+  onClose: () => void;
+  /** Called with tags to add to the selection */
+  onAddTags: (tags: string[]) => Promise<unknown>;
+  /** Called with tags to remove from the selection */
+  onRemoveTags: (tags: string[]) => Promise<unknown>;
+  /** Called to favorite or unfavorite the selection */
+  onSetFavorite: (isFavorite: boolean) => void;
+  /** Called with a frame color for the selection */
+  onSetFrameColor: (frameColor: FrameColor) => void;
+  /** Called with an album to add the selection to */
+  onAddToAlbum: (albumId: string) => void;
+  /** Called to download the selection */
+  onDownload: () => void;
+  /** Called to move the selection to the trash */
+  onDelete: () => void;
+  /** Called to restore the selection from the trash */
+  onRestore: () => void;
+}
+
+/**
+ * A popover above a toolbar button
+ */
+function ToolbarPopover({ children, className }: { children: ReactNode; className?: string }) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 8, x: '-50%' }}
+      animate={{ opacity: 1, y: 0, x: '-50%' }}
+      exit={{ opacity: 0, y: 8, x: '-50%' }}
+      className={cn(
+        'absolute left-1/2 bottom-full mb-2 z-50',
+        'p-2 bg-white/95 backdrop-blur-md rounded-lg',
+        'border border-blush-100 shadow-lg',
+        className
+      )}
+    >
+      {children}
+    </motion.div>
+  );
+}
+
+/**
+ * BulkActionToolbar Component
+ * 
+ * Floating bar shown while photos are selected, with actions that apply
+ * to the whole selection at once.
+ */
+export function BulkActionToolbar({
+  selectedCount,
+  isTrashView = false,
+  isBusy = false,
+  availableTags = [],
+  tagColors,
+  albums = [],
+  onSelectAll,
+  onClose,
+  onAddTags,
+  onRemoveTags,
+  onSetFavorite,
+  onSetFrameColor,
+  onAddToAlbum,
+  onDownload,
+  onDelete,
+  onRestore,
+}: BulkActionToolbarProps) {
+  const [openMenu, setOpenMenu] = useState<ToolbarMenu | null>(null);
+  const [tags, setTags] = useState<string[]>([]);
+  
+  const hasSelection = selectedCount > 0;
+  const disabled = !hasSelection || isBusy;
+  
+  // Open a menu, or close it if it is open
+  const toggleMenu = (menu: ToolbarMenu) => {
+    setOpenMenu(openMenu === menu ? null : menu);
+  };
+  
+  // Apply the entered tags, then start over
+  const applyTags = async (apply: (tags: string[]) => Promise<unknown>) => {
+    await apply(tags);
+    setTags([]);
+    setOpenMenu(null);
+  };
+  
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 40 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 40 }}
+      className="fixed bottom-4 inset-x-0 z-40 flex justify-center px-4 pointer-events-none"
+    >
+      {/* Click outside to close menus */}
+      {openMenu && (
+        <div
+          className="fixed inset-0 pointer-events-auto"
+          onClick={() => setOpenMenu(null)}
+        />
+      )}
+      
+      {/* Not a GlassCard: it clips the menus that open above the bar */}
+      <div
+        className={cn(
+          'relative p-2 rounded-[2rem] pointer-events-auto',
+          'bg-[var(--glass-bg)] backdrop-blur-xl',
+          'border border-blush-200/30 dark:border-blush-400/20 shadow-cute-lg'
+        )}
+      >
+        <div className="flex flex-wrap items-center justify-center gap-1.5">
+          {/* Count */}
+          <span className="px-2 text-sm font-medium text-blush-700 whitespace-nowrap">
+            {selectedCount} selected
+          </span>
+          
+          <GlassButton
+            variant="ghost"
+            size="sm"
+            leftIcon={<CheckCheck size={14} />}
+            onClick={onSelectAll}
+            disabled={isBusy}
+            title="Select every photo matching the filters"
+          >
+            <span className="hidden sm:inline">All</span>
+          </GlassButton>
+          
+          {isTrashView ? (
+            <GlassButton
+              variant="secondary"
+              size="sm"
+              leftIcon={<ArchiveRestore size={14} />}
+              onClick={onRestore}
+              disabled={disabled}
+            >
+              Restore
+            </GlassButton>
+          ) : (
+            <>
+              {/* Tags */}
+              <div className="relative">
+                <GlassButton
+                  variant={openMenu === 'tags' ? 'primary' : 'secondary'}
+                  size="sm"
+                  leftIcon={<Tag size={14} />}
+                  onClick={() => toggleMenu('tags')}
+                  disabled={disabled}
+                >
+                  <span className="hidden sm:inline">Tags</span>
+                </GlassButton>
+                <AnimatePresence>
+                  {openMenu === 'tags' && (
+                    <ToolbarPopover className="w-72 space-y-2">
+                      <TagInput
+                        value={tags}
+                        onChange={setTags}
+                        suggestions={availableTags}
+                        colors={tagColors}
+                        placeholder="Tags to add or remove..."
+                      />
+                      <div className="flex gap-2">
+                        <GlassButton
+                          variant="primary"
+                          size="sm"
+                          className="flex-1"
+                          onClick={() => applyTags(onAddTags)}
+                          disabled={tags.length === 0 || isBusy}
+                        >
+                          Add
+                        </GlassButton>
+                        <GlassButton
+                          variant="secondary"
+                          size="sm"
+                          className="flex-1"
+                          onClick={() => applyTags(onRemoveTags)}
+                          disabled={tags.length === 0 || isBusy}
+                        >
+                          Remove
+                        </GlassButton>
+                      </div>
+                    </ToolbarPopover>
+                  )}
+                </AnimatePresence>
+              </div>
+              
+              {/* Favorites */}
+              <GlassButton
+                variant="secondary"
+                size="icon"
+                onClick={() => onSetFavorite(true)}
+                disabled={disabled}
+                aria-label="Add to favorites"
+                title="Add to favorites"
+              >
+                <Heart size={14} />
+              </GlassButton>
+              <GlassButton
+                variant="secondary"
+                size="icon"
+                onClick={() => onSetFavorite(false)}
+                disabled={disabled}
+                aria-label="Remove from favorites"
+                title="Remove from favorites"
+              >
+                <HeartOff size={14} />
+              </GlassButton>
+              
+              {/* Frame color */}
+              <div className="relative">
+                <GlassButton
+                  variant={openMenu === 'frame' ? 'primary' : 'secondary'}
+                  size="icon"
+                  onClick={() => toggleMenu('frame')}
+                  disabled={disabled}
+                  aria-label="Frame color"
+                  title="Frame color"
+                >
+                  <Frame size={14} />
+                </GlassButton>
+                <AnimatePresence>
+                  {openMenu === 'frame' && (
+                    <ToolbarPopover className="flex gap-1.5">
+                      {FRAME_COLORS.map((option) => (
+                        <button
+                          key={option.value}
+                          onClick={() => {
+                            onSetFrameColor(option.value);
+                            setOpenMenu(null);
+                          }}
+                          title={option.label}
+                          className={cn(
+                            'w-7 h-7 rounded-full border border-blush-200 shadow-sm',
+                            'hover:scale-110 transition-transform',
+                            option.swatch
+                          )}
+                        />
+                      ))}
+                    </ToolbarPopover>
+                  )}
+                </AnimatePresence>
+              </div>
+              
+              {/* Album */}
+              <div className="relative">
+                <GlassButton
+                  variant={openMenu === 'album' ? 'primary' : 'secondary'}
+                  size="sm"
+                  leftIcon={<BookImage size={14} />}
+                  onClick={() => toggleMenu('album')}
+                  disabled={disabled}
+                >
+                  <span className="hidden sm:inline">Album</span>
+                </GlassButton>
+                <AnimatePresence>
+                  {openMenu === 'album' && (
+                    <ToolbarPopover className="w-56 max-h-64 overflow-y-auto px-0 py-1.5">
+                      {albums.length === 0 && (
+                        <p className="px-3 py-1.5 text-xs text-gray-500">No albums yet</p>
+                      )}
+                      {albums.map((album) => (
+                        <button
+                          key={album.id}
+                          onClick={() => {
+                            onAddToAlbum(album.id);
+                            setOpenMenu(null);
+                          }}
+                          className="w-full px-3 py-1.5 text-left text-sm text-blush-600 hover:bg-blush-50/50 truncate"
+                        >
+                          {album.title}
+                        </button>
+                      ))}
+                    </ToolbarPopover>
+                  )}
+                </AnimatePresence>
+              </div>
+              
+              {/* Download */}
+              <GlassButton
+                variant="secondary"
+                size="icon"
+                onClick={onDownload}
+                disabled={disabled}
+                aria-label="Download"
+                title="Download"
+              >
+                <Download size={14} />
+              </GlassButton>
+              
+              {/* Delete */}
+              <GlassButton
+                variant="danger"
+                size="icon"
+                onClick={onDelete}
+                disabled={disabled}
+                aria-label="Move to trash"
+                title="Move to trash"
+              >
+                <Trash2 size={14} />
+              </GlassButton>
+            </>
+          )}
+          
+          {/* Done */}
+          <GlassButton
+            variant="ghost"
+            size="icon"
+            onClick={onClose}
+            aria-label="Done selecting"
+            title="Done selecting (Esc)"
+          >
+            <X size={16} />
+          </GlassButton>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
+
+export default BulkActionToolbar;
@@ -0,0 +1,206 @@
+'use client';
+
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { CalendarRange, X } from 'lucide-react';
+import { DayPicker, type DateRange } from 'react-day-picker';
+import {
+  endOfMonth,
+  endOfYear,
+  format,
+  isValid,
+  parseISO,
+  startOfMonth,
+  startOfYear,
+  subDays,
+  subYears,
+} from 'date-fns';
+import { GlassButton } from '@/components/ui/GlassButton';
+import { cn } from '@/lib/utils';
+import type { PhotoFilters } from '@/types/photo';
+
+/**
+ * Date range as stored in PhotoFilters (YYYY-MM-DD, inclusive)
+ */
+type DayRange = NonNullable<PhotoFilters['dateRange']>;
+
+/**
+ * Props for DateRangeFilter component
+ */
+interface DateRangeFilterProps {
+  /** Current range */
+  value?: PhotoFilters['dateRange'];
+  /** Called with the new range, or undefined when cleared */
+  onChange: (range: PhotoFilters['dateRange']) => void;
+}
+
+/**
+ * Format a date as YYYY-MM-DD
+ */
+const toDay = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/**
+ * Parse a YYYY-MM-DD day, ignoring anything malformed
+ */
+function fromDay(day?: string): Date | undefined {
+  if (!day) return undefined;
+  const date = parseISO(day);
+  return isValid(date) ? date : undefined;
+}
+
+/**
+ * The most recent June-August that has ended
+ */
+function getLastSummer(today: Date): DayRange {
+  const year = today.getMonth() >= 8 ? today.getFullYear() : today.getFullYear() - 1;
+  return { from: `${year}-06-01`, to: `${year}-08-31` };
+}
+
+/**
+ * Quick picks, computed relative to today
+ */
+const PRESETS: { label: string; getRange: (today: Date) => DayRange }[] = [
+  { label: 'Last 30 days', getRange: (today) => ({ from: toDay(subDays(today, 29)), to: toDay(today) }) },
+  { label: 'This month', getRange: (today) => ({ from: toDay(startOfMonth(today)), to: toDay(endOfMonth(today)) }) },
+  { label: 'This year', getRange: (today) => ({ from: toDay(startOfYear(today)), to: toDay(endOfYear(today)) }) },
+  { label: 'Last summer', getRange: getLastSummer },
+  {
+    label: 'Last year',
+    getRange: (today) => ({
+      from: toDay(startOfYear(subYears(today, 1))),
+      to: toDay(endOfYear(subYears(today, 1))),
+    }),
+  },
+];
+
+/**
+ * Short label for a range, e.g. "Jun 1 – Aug 31, 2025"
+ */
+function formatRange({ from, to }: DayRange): string {
+  const start = fromDay(from);
+  const end = fromDay(to);
+  
+  if (start && end) {
+    return start.getFullYear() === end.getFullYear()
+      ? `${format(start, 'MMM d')} – ${format(end, 'MMM d, yyyy')}`
+      : `${format(start, 'MMM d, yyyy')} – ${format(end, 'MMM d, yyyy')}`;
+  }
+  if (start) return `From ${format(start, 'MMM d, yyyy')}`;
+  if (end) return `Until ${format(end, 'MMM d, yyyy')}`;
+  return 'Dates';
+}
+
+/**
+ * DateRangeFilter Component
+ * 
+ * Filter-bar button with a calendar popover for choosing the range of
+ * dates taken, plus presets like "This year" and "Last summer".
+ */
+export function DateRangeFilter({ value, onChange }: DateRangeFilterProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const isActive = !!(value?.from || value?.to);
+  
+  const selected: DateRange | undefined = isActive
+    ? { from: fromDay(value?.from), to: fromDay(value?.to) }
+    : undefined;
+  
+  // Update from the calendar
+  const handleSelect = (range: DateRange | undefined) => {
+    if (!range?.from && !range?.to) {
+      onChange(undefined);
+      return;
+    }
+    onChange({
+      from: range.from ? toDay(range.from) : undefined,
+      to: range.to ? toDay(range.to) : undefined,
+    });
+  };
+  
+  // Apply a preset and close
+  const applyPreset = (preset: (typeof PRESETS)[number]) => {
+    onChange(preset.getRange(new Date()));
+    setIsOpen(false);
+  };
+  
+  return (
+    <div className="relative">
+      <GlassButton
+        variant={isActive ? 'primary' : 'secondary'}
+        size="sm"
+        leftIcon={<CalendarRange size={14} />}
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        <span className="hidden sm:inline">{isActive ? formatRange(value!) : 'Dates'}</span>
+      </GlassButton>
+      
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+            className={cn(
+              'absolute left-0 sm:left-auto sm:right-0 top-full mt-1 z-50',
+              'flex flex-col sm:flex-row gap-2 p-3',
+              'bg-white/95 backdrop-blur-md rounded-lg',
+              'border border-blush-100 shadow-lg'
+            )}
+          >
+            {/* Presets */}
+            <div className="flex sm:flex-col flex-wrap gap-1 sm:min-w-[120px]">
+              {PRESETS.map((preset) => (
+                <button
+                  key={preset.label}
+                  onClick={() => applyPreset(preset)}
+                  className={cn(
+                    'px-2.5 py-1.5 rounded-md text-left text-sm',
+                    'text-blush-600 hover:bg-blush-50 transition-colors'
+                  )}
+                >
+                  {preset.label}
+                </button>
+              ))}
+              {isActive && (
+                <button
+                  onClick={() => {
+                    onChange(undefined);
+                    setIsOpen(false);
+                  }}
+                  className={cn(
+                    'flex items-center gap-1 px-2.5 py-1.5 rounded-md text-sm',
+                    'text-gray-500 hover:bg-gray-50 transition-colors'
+                  )}
+                >
+                  <X size={12} />
+                  Clear dates
+                </button>
+              )}
+            </div>
+            
+            {/* Calendar */}
+            <DayPicker
+              mode="range"
+              selected={selected}
+              onSelect={handleSelect}
+              defaultMonth={selected?.to ?? selected?.from}
+              captionLayout="dropdown"
+              startMonth={new Date(1990, 0)}
+              endMonth={endOfYear(new Date())}
+              className="gallery-day-picker text-sm"
+            />
+          </motion.div>
+        )}
+      </AnimatePresence>
+      
+      {/* Click outside to close */}
+      {isOpen && (
+        <div
+          className="fixed inset-0 z-40"
+          onClick={() => setIsOpen(false)}
+        />
+      )}
+    </div>
+  );
+}
+
+export default DateRangeFilter;
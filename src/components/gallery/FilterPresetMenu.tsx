@@ -0,0 +1,282 @@
+'use client';
+
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Bookmark, Check, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { GlassButton } from '@/components/ui/GlassButton';
+import { useFilterPresets } from '@/hooks/useFilterPresets';
+import { cn } from '@/lib/utils';
+import type { FilterPreset, PhotoFilters, PhotoSortOption } from '@/types/photo';
+
+/**
+ * Props for FilterPresetMenu component
+ */
+interface FilterPresetMenuProps {
+  /** Current filter values */
+  filters: PhotoFilters;
+  /** Called with a preset's filters when it is applied */
+  onFiltersChange: (filters: PhotoFilters) => void;
+  /** Current sort option */
+  sortOption: PhotoSortOption;
+  /** Called with a preset's sort when it is applied */
+  onSortChange: (sort: PhotoSortOption) => void;
+}
+
+/**
+ * Comparable form of filters and a sort, ignoring the trash flag and
+ * the order of tags
+ */
+function presetKey(filters: PhotoFilters, sort: PhotoSortOption): string {
+  return JSON.stringify([
+    filters.search || '',
+    [...(filters.tags ?? [])].sort(),
+    filters.tagMode ?? 'any',
+    [...(filters.excludedTags ?? [])].sort(),
+    !!filters.favoritesOnly,
+    filters.dateRange?.from ?? '',
+    filters.dateRange?.to ?? '',
+    sort,
+  ]);
+}
+
+/**
+ * FilterPresetMenu Component
+ * 
+ * Filter-bar dropdown for saving the current filters and sort under a
+ * name, and for applying, renaming and deleting saved presets.
+ */
+export function FilterPresetMenu({
+  filters,
+  onFiltersChange,
+  sortOption,
+  onSortChange,
+}: FilterPresetMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  
+  // Presets are re-read on every open so changes from other devices show up
+  const { presets, isLoading, createPreset, renamePreset, deletePreset } = useFilterPresets({
+    enabled: isOpen,
+  });
+  
+  const currentKey = presetKey(filters, sortOption);
+  const activePreset = presets.find((p) => presetKey(p.filters, p.sort) === currentKey);
+  
+  // Close and forget any half-finished edits
+  const close = () => {
+    setIsOpen(false);
+    setRenamingId(null);
+    setConfirmDeleteId(null);
+  };
+  
+  // Apply a preset's filters and sort
+  const applyPreset = (preset: FilterPreset) => {
+    onFiltersChange(preset.filters);
+    onSortChange(preset.sort);
+    close();
+  };
+  
+  // Save the current filters and sort
+  const handleSave = async () => {
+    const name = newName.trim();
+    if (!name) return;
+    
+    const { trashed: _trashed, ...savedFilters } = filters;
+    const preset = await createPreset({ name, filters: savedFilters, sort: sortOption });
+    if (preset) {
+      setNewName('');
+    }
+  };
+  
+  // Start renaming a preset in place
+  const startRename = (preset: FilterPreset) => {
+    setConfirmDeleteId(null);
+    setRenamingId(preset.id);
+    setRenameValue(preset.name);
+  };
+  
+  // Finish renaming, skipping the request if nothing changed
+  const handleRename = async (preset: FilterPreset) => {
+    const name = renameValue.trim();
+    if (name && name !== preset.name && !(await renamePreset(preset.id, name))) {
+      return;
+    }
+    setRenamingId(null);
+  };
+  
+  return (
+    <div className="relative">
+      <GlassButton
+        variant={activePreset ? 'primary' : 'secondary'}
+        size="sm"
+        leftIcon={<Bookmark size={14} className={cn(activePreset && 'fill-current')} />}
+        onClick={() => (isOpen ? close() : setIsOpen(true))}
+      >
+        <span className="hidden sm:inline truncate max-w-[120px]">
+          {activePreset?.name ?? 'Presets'}
+        </span>
+      </GlassButton>
+      
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+            className={cn(
+              'absolute left-0 sm:left-auto sm:right-0 top-full mt-1 z-50',
+              'w-64 py-1.5',
+              'bg-white/95 backdrop-blur-md rounded-lg',
+              'border border-blush-100 shadow-lg'
+            )}
+          >
+            {/* Saved presets */}
+            <div className="max-h-64 overflow-y-auto">
+              {presets.length === 0 && (
+                <p className="px-3 py-2 text-xs text-gray-500">
+                  {isLoading ? 'Loading presets...' : 'No presets yet. Save the current filters below.'}
+                </p>
+              )}
+              
+              {presets.map((preset) => {
+                const isActive = preset.id === activePreset?.id;
+                
+                if (renamingId === preset.id) {
+                  return (
+                    <div key={preset.id} className="flex items-center gap-1 px-2 py-1">
+                      <input
+                        autoFocus
+                        value={renameValue}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleRename(preset);
+                          if (e.key === 'Escape') setRenamingId(null);
+                        }}
+                        maxLength={50}
+                        className={cn(
+                          'flex-1 min-w-0 px-2 py-1 rounded-md text-sm',
+                          'bg-cream-50 border border-blush-200 text-blush-700',
+                          'focus:outline-none focus:ring-1 focus:ring-blush-300'
+                        )}
+                      />
+                      <button
+                        onClick={() => handleRename(preset)}
+                        className="p-1 rounded-md text-blush-600 hover:bg-blush-50"
+                        title="Save name"
+                      >
+                        <Check size={14} />
+                      </button>
+                      <button
+                        onClick={() => setRenamingId(null)}
+                        className="p-1 rounded-md text-gray-500 hover:bg-gray-50"
+                        title="Cancel"
+                      >
+                        <X size={14} />
+                      </button>
+                    </div>
+                  );
+                }
+                
+                if (confirmDeleteId === preset.id) {
+                  return (
+                    <div key={preset.id} className="flex items-center gap-1 px-3 py-1.5 text-sm">
+                      <span className="flex-1 truncate text-gray-600">Delete “{preset.name}”?</span>
+                      <button
+                        onClick={() => deletePreset(preset.id)}
+                        className="px-2 py-0.5 rounded-md text-xs font-medium text-white bg-red-400 hover:bg-red-500"
+                      >
+                        Delete
+                      </button>
+                      <button
+                        onClick={() => setConfirmDeleteId(null)}
+                        className="px-2 py-0.5 rounded-md text-xs text-gray-500 hover:bg-gray-50"
+                      >
+                        Keep
+                      </button>
+                    </div>
+                  );
+                }
+                
+                return (
+                  <div
+                    key={preset.id}
+                    className={cn(
+                      'group flex items-center',
+                      isActive ? 'bg-blush-50' : 'hover:bg-blush-50/50'
+                    )}
+                  >
+                    <button
+                      onClick={() => applyPreset(preset)}
+                      className={cn(
+                        'flex-1 min-w-0 px-3 py-1.5 text-left text-sm truncate',
+                        isActive ? 'text-blush-700 font-medium' : 'text-blush-600'
+                      )}
+                    >
+                      {preset.name}
+                    </button>
+                    <button
+                      onClick={() => startRename(preset)}
+                      className="p-1 rounded-md text-blush-400 hover:text-blush-600 sm:opacity-0 group-hover:opacity-100"
+                      title="Rename"
+                    >
+                      <Pencil size={12} />
+                    </button>
+                    <button
+                      onClick={() => {
+                        setRenamingId(null);
+                        setConfirmDeleteId(preset.id);
+                      }}
+                      className="p-1 mr-1.5 rounded-md text-blush-400 hover:text-red-500 sm:opacity-0 group-hover:opacity-100"
+                      title="Delete"
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+            
+            {/* Save current */}
+            <div className="flex items-center gap-1 px-2 pt-1.5 mt-1 border-t border-blush-100/70">
+              <input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleSave();
+                }}
+                placeholder="Save current as..."
+                maxLength={50}
+                className={cn(
+                  'flex-1 min-w-0 px-2 py-1 rounded-md text-sm',
+                  'bg-cream-50 border border-blush-100 text-blush-700 placeholder:text-blush-300',
+                  'focus:outline-none focus:ring-1 focus:ring-blush-300'
+                )}
+              />
+              <button
+                onClick={handleSave}
+                disabled={!newName.trim()}
+                className="p-1.5 rounded-md text-blush-600 hover:bg-blush-50 disabled:opacity-40"
+                title="Save preset"
+              >
+                <Plus size={14} />
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+      
+      {/* Click outside to close */}
+      {isOpen && (
+        <div
+          className="fixed inset-0 z-40"
+          onClick={close}
+        />
+      )}
+    </div>
+  );
+}
+
+export default FilterPresetMenu;
@@ -2,12 +2,14 @@
 
 import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Search, X, Heart, SortAsc, Tag } from 'lucide-react';
+import { Search, X, Heart, SortAsc, Tag, Trash2 } from 'lucide-react';
 import { GlassCard } from '@/components/ui/GlassCard';
 import { GlassInput } from '@/components/ui/GlassInput';
 import { GlassButton } from '@/components/ui/GlassButton';
 import { cn } from '@/lib/utils';
-import type { PhotoFilters, PhotoSortOption } from '@/types/photo';
+import { DateRangeFilter } from './DateRangeFilter';
+import { FilterPresetMenu } from './FilterPresetMenu';
+import type { PhotoFilters, PhotoSortOption, TagMatchMode } from '@/types/photo';
 
 /**
  * Sort option labels
@@ -20,8 +22,15 @@ const SORT_OPTIONS: { value: PhotoSortOption; label: string }[] = [
   { value: 'title-asc', label: 'Title (A-Z)' },
   { value: 'title-desc', label: 'Title (Z-A)' },
   { value: 'favorites-first', label: 'Favorites First' },
+  { value: 'relevance', label: 'Best Match' },
+  { value: 'custom', label: 'Custom Order' },
 ];
 
+/**
+ * Sort used when no search is active
+ */
+const DEFAULT_SORT: PhotoSortOption = 'dateAdded-desc';
+
 /**
  * Props for GalleryFilters component
  */
@@ -40,6 +49,8 @@ interface GalleryFiltersProps {
   totalCount?: number;
   /** Filtered photo count */
   filteredCount?: number;
+  /** Whether to offer the trash toggle */
+  showTrash?: boolean;
   /** Additional className */
   className?: string;
 }
@@ -57,6 +68,7 @@ export function GalleryFilters({
   availableTags = [],
   totalCount = 0,
   filteredCount,
+  showTrash = true,
   className,
 }: GalleryFiltersProps) {
   const [isExpanded, setIsExpanded] = useState(false);
@@ -66,11 +78,20 @@ export function GalleryFilters({
   const hasActiveFilters = 
     !!filters.search || 
     (filters.tags && filters.tags.length > 0) || 
-    filters.favoritesOnly;
+    (filters.excludedTags && filters.excludedTags.length > 0) ||
+    filters.favoritesOnly ||
+    filters.trashed ||
+    !!(filters.dateRange?.from || filters.dateRange?.to);
   
-  // Update search
+  // Update search, switching to best-match order while searching
   const handleSearchChange = (value: string) => {
     onFiltersChange({ ...filters, search: value || undefined });
+    
+    if (value && !filters.search && sortOption === DEFAULT_SORT) {
+      onSortChange('relevance');
+    } else if (!value && sortOption === 'relevance') {
+      onSortChange(DEFAULT_SORT);
+    }
   };
   
   // Toggle favorites filter
@@ -78,13 +99,39 @@ export function GalleryFilters({
     onFiltersChange({ ...filters, favoritesOnly: !filters.favoritesOnly });
   };
   
-  // Toggle tag filter
-  const toggleTag = (tag: string) => {
-    const currentTags = filters.tags || [];
-    const newTags = currentTags.includes(tag)
-      ? currentTags.filter(t => t !== tag)
-      : [...currentTags, tag];
-    onFiltersChange({ ...filters, tags: newTags.length > 0 ? newTags : undefined });
+  // Update date range
+  const handleDateRangeChange = (dateRange: PhotoFilters['dateRange']) => {
+    onFiltersChange({ ...filters, dateRange });
+  };
+  
+  // Toggle trash view
+  const toggleTrash = () => {
+    onFiltersChange({ ...filters, trashed: filters.trashed ? undefined : true });
+  };
+  
+  // Cycle a tag chip: off -> include -> exclude -> off
+  const cycleTag = (tag: string) => {
+    const included = filters.tags || [];
+    const excluded = filters.excludedTags || [];
+    let newIncluded = included.filter(t => t !== tag);
+    let newExcluded = excluded.filter(t => t !== tag);
+    
+    if (included.includes(tag)) {
+      newExcluded = [...newExcluded, tag];
+    } else if (!excluded.includes(tag)) {
+      newIncluded = [...newIncluded, tag];
+    }
+    
+    onFiltersChange({
+      ...filters,
+      tags: newIncluded.length > 0 ? newIncluded : undefined,
+      excludedTags: newExcluded.length > 0 ? newExcluded : undefined,
+    });
+  };
+  
+  // Switch between matching any or all included tags
+  const setTagMode = (tagMode: TagMatchMode) => {
+    onFiltersChange({ ...filters, tagMode: tagMode === 'all' ? 'all' : undefined });
   };
   
   // Clear all filters
@@ -108,7 +155,8 @@ export function GalleryFilters({
           <div className="flex-1 min-w-[160px] max-w-xs">
             <GlassInput
               type="text"
-              placeholder="Search..."
+              placeholder="Search... e.g. tag:beach"
+              title='Operators: tag:name, -tag:name, fav:true, before:2024-06, after:2023, "phrase", -word'
               leftIcon={<Search size={16} />}
               value={filters.search || ''}
               onChange={(e) => handleSearchChange(e.target.value)}
@@ -132,6 +180,24 @@ export function GalleryFilters({
             <span className="sm:hidden">♥</span>
           </GlassButton>
           
+          {/* Date range */}
+          <DateRangeFilter
+            value={filters.dateRange}
+            onChange={handleDateRangeChange}
+          />
+          
+          {/* Trash toggle */}
+          {showTrash && (
+            <GlassButton
+              variant={filters.trashed ? 'primary' : 'secondary'}
+              size="sm"
+              leftIcon={<Trash2 size={14} />}
+              onClick={toggleTrash}
+            >
+              <span className="hidden sm:inline">Trash</span>
+            </GlassButton>
+          )}
+          
           {/* Sort dropdown */}
           <div className="relative">
             <GlassButton
@@ -180,6 +246,14 @@ export function GalleryFilters({
             </AnimatePresence>
           </div>
           
+          {/* Saved presets */}
+          <FilterPresetMenu
+            filters={filters}
+            onFiltersChange={onFiltersChange}
+            sortOption={sortOption}
+            onSortChange={onSortChange}
+          />
+          
           {/* Tags toggle */}
           {availableTags.length > 0 && (
             <GlassButton
@@ -215,22 +289,48 @@ export function GalleryFilters({
               className="overflow-hidden"
             >
               <div className="pt-2 border-t border-blush-100/50">
+                {/* Match mode */}
+                <div className="flex items-center gap-2 mb-2 text-xs text-blush-500/80">
+                  <span>Match</span>
+                  <div className="flex rounded-full bg-cream-100/70 p-0.5">
+                    {(['any', 'all'] as TagMatchMode[]).map((mode) => (
+                      <button
+                        key={mode}
+                        onClick={() => setTagMode(mode)}
+                        className={cn(
+                          'px-2.5 py-0.5 rounded-full font-medium transition-colors',
+                          (filters.tagMode ?? 'any') === mode
+                            ? 'bg-blush-200 text-blush-700'
+                            : 'text-blush-600 hover:bg-cream-200/70'
+                        )}
+                      >
+                        {mode === 'any' ? 'Any tag' : 'All tags'}
+                      </button>
+                    ))}
+                  </div>
+                  <span className="hidden sm:inline">Click a tag again to exclude it</span>
+                </div>
+                
                 <div className="flex flex-wrap gap-1.5">
                   {availableTags.map((tag) => {
-                    const isSelected = filters.tags?.includes(tag);
+                    const isIncluded = filters.tags?.includes(tag);
+                    const isExcluded = filters.excludedTags?.includes(tag);
                     return (
                       <button
                         key={tag}
-                        onClick={() => toggleTag(tag)}
+                        onClick={() => cycleTag(tag)}
+                        title={isIncluded ? 'Click to exclude' : isExcluded ? 'Click to clear' : 'Click to include'}
                         className={cn(
                           'px-2.5 py-1 rounded-full text-xs font-medium',
                           'transition-all duration-200 truncate max-w-[120px]',
-                          isSelected
+                          isIncluded
                             ? 'bg-blush-200 text-blush-700 ring-1 ring-blush-300'
-                            : 'bg-cream-100/70 text-blush-600 hover:bg-cream-200/70'
+                            : isExcluded
+                              ? 'bg-gray-100 text-gray-500 line-through ring-1 ring-gray-300'
+                              : 'bg-cream-100/70 text-blush-600 hover:bg-cream-200/70'
                         )}
                       >
-                        #{tag}
+                        {isExcluded ? '−' : '#'}{tag}
                       </button>
                     );
                   })}
@@ -1,10 +1,15 @@
 'use client';
 
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
 import { PolaroidFrame } from './PolaroidFrame';
 import { GalleryEmptyState } from './GalleryEmptyState';
 import { GalleryLoadingSkeleton } from './GalleryLoadingSkeleton';
-import type { Photo } from '@/types/photo';
+import { useMarqueeSelection } from '@/hooks/useMarqueeSelection';
+import type { Photo, PhotoFrame } from '@/types/photo';
+import type { TagColorMap } from '@/types/tag';
 import { cn } from '@/lib/utils';
 
 /**
@@ -17,6 +22,8 @@ interface GalleryGridProps {
   isLoading?: boolean;
   /** Whether the gallery is editable */
   editable?: boolean;
+  /** Assigned tag colors */
+  tagColors?: TagColorMap;
   /** Called when a photo is clicked */
   onPhotoClick?: (photo: Photo) => void;
   /** Called when edit is clicked */
@@ -25,6 +32,28 @@ interface GalleryGridProps {
   onPhotoDelete?: (photo: Photo) => void;
   /** Called when favorite is toggled */
   onPhotoFavorite?: (photo: Photo) => void;
+  /** Called when restore is clicked (trash view) */
+  onPhotoRestore?: (photo: Photo) => void;
+  /** Whether more photos can be loaded */
+  hasMore?: boolean;
+  /** Whether more photos are loading */
+  isLoadingMore?: boolean;
+  /** Called when the user scrolls near the end of the grid */
+  onLoadMore?: () => void;
+  /** Whether clicks pick photos instead of opening them */
+  selectable?: boolean;
+  /** IDs of the picked photos */
+  selectedIds?: ReadonlySet<string>;
+  /** Called with the new set of picked photo IDs */
+  onSelectionChange?: (ids: Set<string>) => void;
+  /** Whether photos can be dragged or moved into a new order */
+  reorderable?: boolean;
+  /** Called with every shown photo ID in the new order */
+  onReorder?: (orderedIds: string[]) => void;
+  /** Empty state title */
+  emptyTitle?: string;
+  /** Empty state description */
+  emptyDescription?: string;
   /** Additional className */
   className?: string;
 }
@@ -42,22 +71,185 @@ const containerVariants = {
   },
 };
 
+/**
+ * How far below the viewport the next page starts loading
+ */
+const LOAD_MORE_MARGIN = '600px';
+
+/**
+ * Selection used when none is given
+ */
+const NO_SELECTION: ReadonlySet<string> = new Set();
+
+/**
+ * Direction of a keyboard move
+ */
+type MoveDirection = 'earlier' | 'later';
+
 /**
  * GalleryGrid Component
  * 
  * A responsive grid layout for displaying polaroid photos
- * with smooth staggered animations.
+ * with smooth staggered animations. Loads further pages as the
+ * user scrolls towards the end.
+ * 
+ * In selection mode a click toggles a photo, Shift-click picks the
+ * range from the last clicked photo, and dragging across the grid
+ * draws a marquee (hold Shift, Ctrl or Cmd to add to the selection).
+ * 
+ * When reorderable, photos can be dragged onto another photo's place, or
+ * moved one step with the arrow buttons or Alt + arrow keys.
  */
 export function GalleryGrid({
   photos,
   isLoading = false,
   editable = false,
+  tagColors,
   onPhotoClick,
   onPhotoEdit,
   onPhotoDelete,
   onPhotoFavorite,
+  onPhotoRestore,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
+  selectable = false,
+  selectedIds = NO_SELECTION,
+  onSelectionChange,
+  reorderable = false,
+  onReorder,
+  emptyTitle,
+  emptyDescription,
   className,
 }: GalleryGridProps) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+  
+  // Last photo clicked in selection mode, where Shift-click ranges start
+  const anchorIdRef = useRef<string | null>(null);
+  
+  // Selection when a marquee drag started, kept for additive drags
+  const dragBaseRef = useRef<ReadonlySet<string>>(NO_SELECTION);
+  
+  const { marquee, onPointerDown } = useMarqueeSelection(gridRef, {
+    enabled: selectable && !!onSelectionChange,
+    idAttribute: 'data-photo-id',
+    onStart: (additive) => {
+      dragBaseRef.current = additive ? selectedIds : NO_SELECTION;
+    },
+    onSelect: (ids) => onSelectionChange?.(new Set([...dragBaseRef.current, ...ids])),
+  });
+  
+  // Toggle a photo, or pick a range with Shift held
+  const handleSelectClick = useCallback((photo: Photo, event: React.MouseEvent) => {
+    const next = new Set(selectedIds);
+    const anchorIndex = photos.findIndex((p) => p.id === anchorIdRef.current);
+    
+    if (event.shiftKey && anchorIndex !== -1) {
+      const index = photos.findIndex((p) => p.id === photo.id);
+      const [from, to] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex];
+      photos.slice(from, to + 1).forEach((p) => next.add(p.id));
+    } else if (next.has(photo.id)) {
+      next.delete(photo.id);
+    } else {
+      next.add(photo.id);
+    }
+    
+    anchorIdRef.current = photo.id;
+    onSelectionChange?.(next);
+  }, [photos, selectedIds, onSelectionChange]);
+  
+  // Photo being dragged, and the photo whose place it would take
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  
+  // Screen reader announcement of the last keyboard move
+  const [announcement, setAnnouncement] = useState('');
+  
+  // Move button to focus again once a keyboard move has rendered
+  const pendingFocusRef = useRef<{ id: string; direction: MoveDirection } | null>(null);
+  
+  const canReorder = reorderable && !!onReorder;
+  
+  // Move a photo to another index and report the new order
+  const movePhoto = useCallback((id: string, toIndex: number) => {
+    const ids = photos.map((p) => p.id);
+    const fromIndex = ids.indexOf(id);
+    if (fromIndex === -1 || toIndex < 0 || toIndex >= ids.length || fromIndex === toIndex) {
+      return false;
+    }
+    
+    ids.splice(fromIndex, 1);
+    ids.splice(toIndex, 0, id);
+    onReorder?.(ids);
+    return true;
+  }, [photos, onReorder]);
+  
+  // Move a photo one step from the keyboard or the move buttons
+  const stepPhoto = useCallback((photo: Photo, direction: MoveDirection) => {
+    const index = photos.findIndex((p) => p.id === photo.id);
+    const toIndex = direction === 'earlier' ? index - 1 : index + 1;
+    
+    if (movePhoto(photo.id, toIndex)) {
+      pendingFocusRef.current = { id: photo.id, direction };
+      setAnnouncement(`Moved "${photo.title}" to position ${toIndex + 1} of ${photos.length}`);
+    }
+  }, [photos, movePhoto]);
+  
+  // Handle Alt + arrow keys on a photo
+  const handleReorderKeyDown = useCallback((photo: Photo, event: React.KeyboardEvent) => {
+    if (!event.altKey) return;
+    
+    if (event.key === 'ArrowLeft' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      stepPhoto(photo, 'earlier');
+    } else if (event.key === 'ArrowRight' || event.key === 'ArrowDown') {
+      event.preventDefault();
+      stepPhoto(photo, 'later');
+    }
+  }, [stepPhoto]);
+  
+  // Drop the dragged photo in place of the target
+  const handleDrop = useCallback((target: Photo, event: React.DragEvent) => {
+    event.preventDefault();
+    if (draggingId) {
+      movePhoto(draggingId, photos.findIndex((p) => p.id === target.id));
+    }
+    setDraggingId(null);
+    setDropTargetId(null);
+  }, [draggingId, photos, movePhoto]);
+  
+  // Keep focus on the move button after the photo moved
+  useEffect(() => {
+    const pending = pendingFocusRef.current;
+    if (!pending) return;
+    
+    pendingFocusRef.current = null;
+    const wrapper = gridRef.current?.querySelector(`[data-photo-id="${CSS.escape(pending.id)}"]`);
+    const button = wrapper?.querySelector<HTMLButtonElement>(`[data-move="${pending.direction}"]`);
+    (button && !button.disabled ? button : wrapper?.querySelector<HTMLButtonElement>('[data-move]'))?.focus();
+  }, [photos]);
+  
+  // Load the next page when the end of the grid comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || isLoadingMore || !onLoadMore) {
+      return;
+    }
+    
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMore();
+        }
+      },
+      { rootMargin: LOAD_MORE_MARGIN }
+    );
+    observer.observe(sentinel);
+    
+    return () => observer.disconnect();
+  }, [hasMore, isLoadingMore, onLoadMore, photos.length]);
+  
   // Show loading skeleton
   if (isLoading) {
     return <GalleryLoadingSkeleton count={8} />;
@@ -65,47 +257,136 @@ export function GalleryGrid({
   
   // Show empty state
   if (photos.length === 0) {
-    return <GalleryEmptyState />;
+    return <GalleryEmptyState title={emptyTitle} description={emptyDescription} />;
   }
   
   return (
-    <motion.div
-      variants={containerVariants}
-      initial="hidden"
-      animate="visible"
-      className={cn(
-        // Responsive grid with proper gaps
-        'grid gap-4 sm:gap-6 md:gap-8',
-        // Responsive columns - adapts to screen size
-        'grid-cols-2 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5',
-        // Prevent overflow
-        'w-full max-w-full overflow-hidden',
-        // Add padding for rotated cards
-        'py-4',
-        className
-      )}
-    >
-      <AnimatePresence mode="popLayout">
-        {photos.map((photo, index) => (
+    <>
+      <div
+        ref={gridRef}
+        onPointerDown={onPointerDown}
+        className={cn('relative', selectable && 'select-none')}
+      >
+        <motion.div
+          variants={containerVariants}
+          initial="hidden"
+          animate="visible"
+          className={cn(
+            // Responsive grid with proper gaps
+            'grid gap-4 sm:gap-6 md:gap-8',
+            // Responsive columns - adapts to screen size
+            'grid-cols-2 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5',
+            // Prevent overflow
+            'w-full max-w-full overflow-hidden',
+            // Add padding for rotated cards
+            'py-4',
+            className
+          )}
+        >
+          <AnimatePresence mode="popLayout">
+            {photos.map((photo, index) => (
+              <div
+                key={photo.id}
+                data-photo-id={photo.id}
+                draggable={canReorder}
+                onDragStart={canReorder ? (e) => {
+                  e.dataTransfer.effectAllowed = 'move';
+                  e.dataTransfer.setData('text/plain', photo.id);
+                  setDraggingId(photo.id);
+                } : undefined}
+                onDragOver={canReorder ? (e) => {
+                  if (!draggingId) return;
+                  e.preventDefault();
+                  e.dataTransfer.dropEffect = 'move';
+                  setDropTargetId(photo.id);
+                } : undefined}
+                onDrop={canReorder ? (e) => handleDrop(photo, e) : undefined}
+                onDragEnd={canReorder ? () => {
+                  setDraggingId(null);
+                  setDropTargetId(null);
+                } : undefined}
+                onKeyDown={canReorder ? (e) => handleReorderKeyDown(photo, e) : undefined}
+                className={cn(
+                  'relative group flex justify-center items-start rounded-lg',
+                  canReorder && 'cursor-grab',
+                  draggingId === photo.id && 'opacity-50',
+                  dropTargetId === photo.id && draggingId !== photo.id &&
+                    'outline-dashed outline-2 outline-offset-4 outline-blush-300'
+                )}
+              >
+                <PolaroidFrame
+                  photo={photo}
+                  size="md"
+                  editable={editable}
+                  frameColor={(photo as Partial<PhotoFrame>).frameColor}
+                  decoration={index % 4 === 0 ? 'tape' : index % 4 === 2 ? 'pin' : 'none'}
+                  tagColors={tagColors}
+                  selectable={selectable}
+                  selected={selectedIds.has(photo.id)}
+                  onClick={selectable ? handleSelectClick : onPhotoClick}
+                  onEdit={onPhotoEdit}
+                  onDelete={onPhotoDelete}
+                  onFavorite={onPhotoFavorite}
+                  onRestore={onPhotoRestore}
+                  animationDelay={Math.min(index * 0.04, 0.4)}
+                />
+                
+                {/* Keyboard move controls */}
+                {canReorder && (
+                  <div
+                    className={cn(
+                      'absolute -bottom-3 left-1/2 -translate-x-1/2 z-20 flex gap-1',
+                      'opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity'
+                    )}
+                  >
+                    <button
+                      data-move="earlier"
+                      onClick={() => stepPhoto(photo, 'earlier')}
+                      disabled={index === 0}
+                      aria-label={`Move "${photo.title}" earlier`}
+                      title="Move earlier (Alt + ←)"
+                      className="p-1 rounded-full bg-white/90 shadow-md text-blush-500 hover:bg-blush-50 disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                      <ChevronLeft size={14} />
+                    </button>
+                    <button
+                      data-move="later"
+                      onClick={() => stepPhoto(photo, 'later')}
+                      disabled={index === photos.length - 1}
+                      aria-label={`Move "${photo.title}" later`}
+                      title="Move later (Alt + →)"
+                      className="p-1 rounded-full bg-white/90 shadow-md text-blush-500 hover:bg-blush-50 disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                      <ChevronRight size={14} />
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </AnimatePresence>
+        </motion.div>
+        
+        {/* Marquee */}
+        {marquee && (
           <div
-            key={photo.id}
-            className="flex justify-center items-start"
-          >
-            <PolaroidFrame
-              photo={photo}
-              size="md"
-              editable={editable}
-              decoration={index % 4 === 0 ? 'tape' : index % 4 === 2 ? 'pin' : 'none'}
-              onClick={onPhotoClick}
-              onEdit={onPhotoEdit}
-              onDelete={onPhotoDelete}
-              onFavorite={onPhotoFavorite}
-              animationDelay={Math.min(index * 0.04, 0.4)}
-            />
-          </div>
-        ))}
-      </AnimatePresence>
-    </motion.div>
+            className="absolute z-30 pointer-events-none rounded-md border-2 border-blush-400 bg-blush-200/25"
+            style={marquee}
+          />
+        )}
+        
+        {/* Reorder announcements */}
+        <p className="sr-only" aria-live="polite">
+          {announcement}
+        </p>
+      </div>
+      
+      {/* Infinite scroll trigger */}
+      {hasMore && (
+        <div ref={sentinelRef} className="flex justify-center py-8">
+          {isLoadingMore && <LoadingSpinner size="md" label="Loading more photos..." />}
+        </div>
+      )}
+    </>
   );
 }
 
@@ -1,7 +1,7 @@
 'use client';
 
 import { motion } from 'framer-motion';
-import { Plus, Settings, LogOut, Camera, Sparkles, RefreshCw, Wifi } from 'lucide-react';
+import { Plus, Settings, LogOut, Camera, Sparkles, RefreshCw, Wifi, Tags, CheckSquare, Images } from 'lucide-react';
 import { GlassCard } from '@/components/ui/GlassCard';
 import { GlassButton } from '@/components/ui/GlassButton';
 import { cn } from '@/lib/utils';
@@ -18,6 +18,12 @@ interface GalleryHeaderProps {
   isSyncing?: boolean;
   /** Called when add photo is clicked */
   onAddPhoto?: () => void;
+  /** Called when upload many is clicked */
+  onUploadMany?: () => void;
+  /** Called when tag management is clicked */
+  onManageTags?: () => void;
+  /** Called when select photos is clicked */
+  onSelectPhotos?: () => void;
   /** Called when settings is clicked */
   onSettings?: () => void;
   /** Called when logout is clicked */
@@ -38,6 +44,9 @@ export function GalleryHeader({
   photoCount = 0,
   isSyncing = false,
   onAddPhoto,
+  onUploadMany,
+  onManageTags,
+  onSelectPhotos,
   onSettings,
   onLogout,
   onRefresh,
@@ -144,6 +153,45 @@ export function GalleryHeader({
             </GlassButton>
           )}
           
+          {/* Upload Many */}
+          {onUploadMany && (
+            <GlassButton
+              variant="secondary"
+              size="icon"
+              onClick={onUploadMany}
+              aria-label="Upload many photos"
+              title="Upload many photos"
+            >
+              <Images size={16} />
+            </GlassButton>
+          )}
+          
+          {/* Select */}
+          {onSelectPhotos && (
+            <GlassButton
+              variant="secondary"
+              size="icon"
+              onClick={onSelectPhotos}
+              aria-label="Select photos"
+              title="Select photos"
+            >
+              <CheckSquare size={16} />
+            </GlassButton>
+          )}
+          
+          {/* Tags */}
+          {onManageTags && (
+            <GlassButton
+              variant="secondary"
+              size="icon"
+              onClick={onManageTags}
+              aria-label="Manage tags"
+              title="Manage tags"
+            >
+              <Tags size={16} />
+            </GlassButton>
+          )}
+          
           {/* Settings */}
           {onSettings && (
             <GlassButton
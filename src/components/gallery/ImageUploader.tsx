@@ -1,30 +1,20 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import Image from 'next/image';
 import { useDropzone } from 'react-dropzone';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Upload, X, Image as ImageIcon, Loader2, Check, AlertCircle } from 'lucide-react';
-import { cn, formatFileSize, isValidFileType } from '@/lib/utils';
+import { cn } from '@/lib/utils';
+import {
+  ACCEPTED_IMAGE_TYPES,
+  abandonUpload,
+  getImageFileError,
+  uploadImage,
+  UploadAbortedError,
+} from '@/lib/uploadClient';
 import { GlassButton } from '@/components/ui/GlassButton';
 
-/**
- * Accepted file types for upload
- */
-const ACCEPTED_TYPES = {
-  'image/jpeg': ['.jpg', '.jpeg'],
-  'image/png': ['.png'],
-  'image/webp': ['.webp'],
-  'image/gif': ['.gif'],
-};
-
-const ACCEPTED_MIME_TYPES = Object.keys(ACCEPTED_TYPES);
-
-/**
- * Maximum file size (10MB)
- */
-const MAX_FILE_SIZE = 10 * 1024 * 1024;
-
 /**
  * Upload status
  */
@@ -40,6 +30,8 @@ interface ImageUploaderProps {
   onUploadError?: (error: string) => void;
   /** Called when image is removed */
   onRemove?: () => void;
+  /** Called instead of uploading when several files or a folder are dropped */
+  onFilesSelected?: (files: File[]) => void;
   /** Initial image URL (for editing) */
   initialImage?: string;
   /** Whether uploader is disabled */
@@ -65,6 +57,7 @@ export function ImageUploader({
   onUploadComplete,
   onUploadError,
   onRemove,
+  onFilesSelected,
   initialImage,
   disabled = false,
   className,
@@ -74,24 +67,29 @@ export function ImageUploader({
   const [progress, setProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
   
+  // Running upload, stopped on remove or unmount
+  const uploadRef = useRef<AbortController | null>(null);
+  useEffect(() => () => uploadRef.current?.abort(), []);
+  
+  // File not yet uploaded, so removing it can discard its parts
+  const pendingFileRef = useRef<File | null>(null);
+  
   // Handle file drop
   const onDrop = useCallback(async (acceptedFiles: File[]) => {
-    const file = acceptedFiles[0];
-    if (!file) return;
-    
-    // Validate file type
-    if (!isValidFileType(file, ACCEPTED_MIME_TYPES)) {
-      const errorMsg = 'Please upload a valid image (JPEG, PNG, WebP, or GIF)';
-      setError(errorMsg);
-      onUploadError?.(errorMsg);
+    // Several files go to the upload queue instead
+    if (acceptedFiles.length > 1 && onFilesSelected) {
+      onFilesSelected(acceptedFiles);
       return;
     }
     
-    // Validate file size
-    if (file.size > MAX_FILE_SIZE) {
-      const errorMsg = `File too large. Maximum size is ${formatFileSize(MAX_FILE_SIZE)}`;
-      setError(errorMsg);
-      onUploadError?.(errorMsg);
+    const file = acceptedFiles[0];
+    if (!file) return;
+    
+    // Validate type and size
+    const validationError = getImageFileError(file);
+    if (validationError) {
+      setError(validationError);
+      onUploadError?.(validationError);
       return;
     }
     
@@ -106,53 +104,51 @@ export function ImageUploader({
     setStatus('uploading');
     setProgress(0);
     
+    const controller = new AbortController();
+    uploadRef.current = controller;
+    pendingFileRef.current = file;
+    
     try {
-      const formData = new FormData();
-      formData.append('file', file);
-      
-      // Simulate progress (actual progress would come from XMLHttpRequest)
-      const progressInterval = setInterval(() => {
-        setProgress((prev) => Math.min(prev + 10, 90));
-      }, 200);
-      
-      const response = await fetch('/api/upload', {
-        method: 'POST',
-        body: formData,
+      const url = await uploadImage(file, {
+        signal: controller.signal,
+        onProgress: (loaded, total) => setProgress(Math.round((loaded / total) * 100)),
       });
       
-      clearInterval(progressInterval);
-      
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error || 'Upload failed');
-      }
-      
-      const result = await response.json();
-      
-      setProgress(100);
+      pendingFileRef.current = null;
       setStatus('success');
-      // API returns { data: { url } } structure
-      onUploadComplete(result.data?.url || result.url);
+      onUploadComplete(url);
       
       // Clean up object URL
       URL.revokeObjectURL(objectUrl);
     } catch (err) {
+      if (err instanceof UploadAbortedError) return;
+      
       const errorMsg = err instanceof Error ? err.message : 'Upload failed';
       setError(errorMsg);
       setStatus('error');
       onUploadError?.(errorMsg);
+    } finally {
+      if (uploadRef.current === controller) {
+        uploadRef.current = null;
+      }
     }
-  }, [onUploadComplete, onUploadError]);
+  }, [onUploadComplete, onUploadError, onFilesSelected]);
   
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: ACCEPTED_TYPES,
-    maxFiles: 1,
+    accept: ACCEPTED_IMAGE_TYPES,
+    maxFiles: onFilesSelected ? 0 : 1,
+    multiple: !!onFilesSelected,
     disabled: disabled || status === 'uploading',
   });
   
   // Handle remove
   const handleRemove = () => {
+    uploadRef.current?.abort();
+    if (pendingFileRef.current) {
+      abandonUpload(pendingFileRef.current);
+      pendingFileRef.current = null;
+    }
     if (preview && preview.startsWith('blob:')) {
       URL.revokeObjectURL(preview);
     }
@@ -266,7 +262,9 @@ export function ImageUploader({
               {/* Text */}
               <div>
                 <p className="font-medium text-gray-700 dark:text-gray-200">
-                  {isDragActive ? 'Drop your image here' : 'Drag & drop an image'}
+                  {isDragActive
+                    ? `Drop your ${onFilesSelected ? 'photos' : 'image'} here`
+                    : onFilesSelected ? 'Drag & drop images or a folder' : 'Drag & drop an image'}
                 </p>
                 <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
                   or click to browse
@@ -275,7 +273,7 @@ export function ImageUploader({
               
               {/* File type hint */}
               <p className="text-xs text-gray-400">
-                JPEG, PNG, WebP, GIF • Max 10MB
+                JPEG, PNG, WebP, GIF • Max 100MB
               </p>
               
               {/* Browse button */}
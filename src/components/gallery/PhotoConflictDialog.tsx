@@ -0,0 +1,172 @@
+'use client';
+
+import { motion, AnimatePresence } from 'framer-motion';
+import { GitMerge, X } from 'lucide-react';
+import { GlassCard } from '@/components/ui/GlassCard';
+import { GlassButton } from '@/components/ui/GlassButton';
+import { cn } from '@/lib/utils';
+import type { PhotoConflict, PhotoConflictResolution, PhotoFrame } from '@/types/photo';
+
+/**
+ * Props for PhotoConflictDialog component
+ */
+interface PhotoConflictDialogProps {
+  /** Pending conflict (dialog is open while set) */
+  conflict: PhotoConflict | null;
+  /** Called with the chosen resolution */
+  onResolve: (resolution: PhotoConflictResolution) => void;
+}
+
+/**
+ * Labels for editable fields
+ */
+const FIELD_LABELS: Partial<Record<keyof PhotoFrame, string>> = {
+  title: 'Title',
+  description: 'Description',
+  dateTaken: 'Date taken',
+  tags: 'Tags',
+  isFavorite: 'Favorite',
+  frameColor: 'Frame color',
+};
+
+/**
+ * Format a field value for display
+ */
+function formatValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.map((tag) => `#${tag}`).join(' ') : '—';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+  return value ? String(value) : '—';
+}
+
+/**
+ * PhotoConflictDialog Component
+ *
+ * Shown when an edit is rejected because someone else saved the photo
+ * first. Lets the user keep the other version, merge, or overwrite it.
+ */
+export function PhotoConflictDialog({ conflict, onResolve }: PhotoConflictDialogProps) {
+  // Fields this user edited, with both versions side by side
+  const rows = conflict
+    ? (Object.keys(FIELD_LABELS) as (keyof PhotoFrame)[])
+        .filter((field) => field in conflict.changes)
+        .map((field) => ({
+          field,
+          label: FIELD_LABELS[field]!,
+          mine: conflict.changes[field as keyof typeof conflict.changes],
+          theirs: conflict.current[field],
+        }))
+        .filter((row) => formatValue(row.mine) !== formatValue(row.theirs))
+    : [];
+
+  return (
+    <AnimatePresence>
+      {conflict && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={() => onResolve('keep-theirs')}
+            className="absolute inset-0 bg-black/40 backdrop-blur-sm"
+          />
+
+          {/* Dialog */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.9, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.9, y: 20 }}
+            transition={{ type: 'spring', duration: 0.4 }}
+            className="relative w-full max-w-md"
+          >
+            <GlassCard
+              blur="heavy"
+              opacity={50}
+              rounded="2xl"
+              className="p-6"
+            >
+              {/* Close button */}
+              <button
+                onClick={() => onResolve('keep-theirs')}
+                className="absolute top-4 right-4 p-1 rounded-full hover:bg-white/20 transition-colors"
+              >
+                <X size={18} className="text-gray-500" />
+              </button>
+
+              {/* Icon */}
+              <div className="w-12 h-12 rounded-full mx-auto mb-4 flex items-center justify-center bg-amber-100">
+                <GitMerge className="w-6 h-6 text-amber-500" />
+              </div>
+
+              {/* Content */}
+              <div className="text-center mb-4">
+                <h3 className="text-lg font-semibold text-gray-800 mb-2">
+                  Someone else edited this photo
+                </h3>
+                <p className="text-gray-500 text-sm">
+                  &ldquo;{conflict.current.title}&rdquo; changed while you were editing it.
+                  Merge keeps their other changes; overwrite replaces everything you submitted.
+                </p>
+              </div>
+
+              {/* Field comparison */}
+              {rows.length > 0 && (
+                <div className="mb-6 space-y-2 max-h-56 overflow-y-auto">
+                  {rows.map((row) => (
+                    <div
+                      key={row.field}
+                      className="rounded-lg bg-white/40 px-3 py-2 text-sm"
+                    >
+                      <div className="font-medium text-gray-700">{row.label}</div>
+                      <div className="grid grid-cols-2 gap-2 mt-1 text-xs">
+                        <div className="truncate">
+                          <span className="text-gray-400">Yours: </span>
+                          <span className="text-blush-700">{formatValue(row.mine)}</span>
+                        </div>
+                        <div className="truncate">
+                          <span className="text-gray-400">Theirs: </span>
+                          <span className="text-gray-700">{formatValue(row.theirs)}</span>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Actions */}
+              <div className={cn('flex gap-2', rows.length === 0 && 'mt-6')}>
+                <GlassButton
+                  variant="secondary"
+                  fullWidth
+                  onClick={() => onResolve('keep-theirs')}
+                >
+                  Keep theirs
+                </GlassButton>
+                <GlassButton
+                  variant="secondary"
+                  fullWidth
+                  onClick={() => onResolve('merge')}
+                >
+                  Merge
+                </GlassButton>
+                <GlassButton
+                  variant="primary"
+                  fullWidth
+                  onClick={() => onResolve('overwrite')}
+                >
+                  Overwrite
+                </GlassButton>
+              </div>
+            </GlassCard>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
+
+export default PhotoConflictDialog;
@@ -13,8 +13,11 @@ import { GlassButton } from '@/components/ui/GlassButton';
 import { GlassInput } from '@/components/ui/GlassInput';
 import { GlassTextarea } from '@/components/ui/GlassTextarea';
 import { TagInput } from '@/components/ui/TagInput';
+import { getPhotoAlbumIds } from '@/hooks/useAlbums';
 import { ImageUploader } from './ImageUploader';
-import type { Photo, CreatePhotoInput, UpdatePhotoInput } from '@/types/photo';
+import { AlbumPicker } from './AlbumPicker';
+import type { AlbumSummary, Photo, CreatePhotoInput, UpdatePhotoInput } from '@/types/photo';
+import type { TagColorMap } from '@/types/tag';
 
 /**
  * Form validation schema
@@ -39,12 +42,24 @@ interface PhotoEditorModalProps {
   onClose: () => void;
   /** Photo to edit (null for new photo) */
   photo?: Photo | null;
-  /** Called when photo is saved */
-  onSave: (data: CreatePhotoInput | UpdatePhotoInput, imageUrl?: string) => Promise<void>;
+  /** Called when photo is saved, with the chosen album IDs when albums are shown */
+  onSave: (
+    data: CreatePhotoInput | UpdatePhotoInput,
+    imageUrl?: string,
+    albumIds?: string[]
+  ) => Promise<void>;
   /** Called when photo is deleted */
   onDelete?: (photoId: string) => Promise<void>;
   /** Available tags for suggestions */
   availableTags?: string[];
+  /** Assigned tag colors */
+  tagColors?: TagColorMap;
+  /** Albums to offer in the album picker (hidden when missing) */
+  albums?: AlbumSummary[];
+  /** Creates an album from the picker */
+  onCreateAlbum?: (title: string) => Promise<AlbumSummary | null>;
+  /** Called with the files when several are dropped on a new photo */
+  onUploadMany?: (files: File[]) => void;
 }
 
 /**
@@ -70,6 +85,10 @@ export function PhotoEditorModal({
   onSave,
   onDelete,
   availableTags = [],
+  tagColors,
+  albums,
+  onCreateAlbum,
+  onUploadMany,
 }: PhotoEditorModalProps) {
   const isEditing = !!photo;
   
@@ -99,6 +118,9 @@ export function PhotoEditorModal({
   // Track uploaded image URL separately
   const [uploadedImageUrl, setUploadedImageUrl] = useState<string>(photo?.imageUrl || '');
   
+  // Albums the photo will be in after saving
+  const [albumIds, setAlbumIds] = useState<string[]>([]);
+  
   // Reset form when photo changes
   useEffect(() => {
     if (photo) {
@@ -122,6 +144,11 @@ export function PhotoEditorModal({
     }
   }, [photo, reset]);
   
+  // Start from the albums the photo is already in
+  useEffect(() => {
+    setAlbumIds(photo && albums ? getPhotoAlbumIds(albums, photo.id) : []);
+  }, [photo, albums]);
+  
   // Handle form submission
   const onSubmit = async (data: PhotoFormData) => {
     if (!uploadedImageUrl && !isEditing) {
@@ -133,7 +160,8 @@ export function PhotoEditorModal({
         ...data,
         imageUrl: uploadedImageUrl,
       },
-      isEditing ? undefined : uploadedImageUrl
+      isEditing ? undefined : uploadedImageUrl,
+      albums ? albumIds : undefined
     );
     
     onClose();
@@ -228,6 +256,7 @@ export function PhotoEditorModal({
                       initialImage={photo?.imageUrl}
                       onUploadComplete={setUploadedImageUrl}
                       onRemove={() => setUploadedImageUrl('')}
+                      onFilesSelected={isEditing ? undefined : onUploadMany}
                     />
                   </div>
                   
@@ -265,10 +294,21 @@ export function PhotoEditorModal({
                       value={tags}
                       onChange={(newTags) => setValue('tags', newTags)}
                       suggestions={availableTags}
+                      colors={tagColors}
                       placeholder="Add tags..."
                       maxTags={10}
                     />
                     
+                    {/* Albums */}
+                    {albums && (
+                      <AlbumPicker
+                        albums={albums}
+                        value={albumIds}
+                        onChange={setAlbumIds}
+                        onCreateAlbum={onCreateAlbum}
+                      />
+                    )}
+                    
                     {/* Favorite Toggle */}
                     <div className="flex items-center gap-3">
                       <button
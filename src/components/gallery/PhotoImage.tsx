@@ -0,0 +1,105 @@
+'use client';
+
+import Image from 'next/image';
+import { cn } from '@/lib/utils';
+import { UPLOAD_CONFIG } from '@/config/upload';
+import type { ImageVariant, ImageVariantFormat } from '@/types/photo';
+
+/**
+ * Props for PhotoImage component
+ */
+interface PhotoImageProps {
+  /** URL of the original image */
+  src: string;
+  /** Resized copies of the image */
+  variants?: ImageVariant[];
+  /** Alternative text */
+  alt: string;
+  /** Displayed width at each breakpoint, used to pick a copy */
+  sizes?: string;
+  /** Whether the image fills its positioned parent */
+  fill?: boolean;
+  /** Width attribute when not filling */
+  width?: number;
+  /** Height attribute when not filling */
+  height?: number;
+  /** Load right away instead of when scrolled near */
+  priority?: boolean;
+  /** Whether the image can be dragged */
+  draggable?: boolean;
+  /** Called once the image has loaded */
+  onLoad?: () => void;
+  /** Additional className */
+  className?: string;
+}
+
+/**
+ * `srcset` of the copies in one encoding
+ */
+function getSrcSet(variants: ImageVariant[], format: ImageVariantFormat): string {
+  return variants
+    .filter((variant) => variant.format === format)
+    .sort((a, b) => a.width - b.width)
+    .map((variant) => `${variant.url} ${variant.width}w`)
+    .join(', ');
+}
+
+/**
+ * PhotoImage Component
+ * 
+ * Shows a photo through its resized copies, letting the browser pick the
+ * smallest one that is sharp at the displayed size, in the best encoding
+ * it supports. Photos without copies fall back to the optimized original.
+ */
+export function PhotoImage({
+  src,
+  variants,
+  alt,
+  sizes,
+  fill = false,
+  width,
+  height,
+  priority = false,
+  draggable,
+  onLoad,
+  className,
+}: PhotoImageProps) {
+  if (!variants?.length) {
+    return (
+      <Image
+        src={src}
+        alt={alt}
+        sizes={sizes}
+        {...(fill ? { fill } : { width, height })}
+        priority={priority}
+        draggable={draggable}
+        onLoad={onLoad}
+        className={className}
+      />
+    );
+  }
+  
+  return (
+    <picture>
+      {UPLOAD_CONFIG.variantFormats.map((format) => {
+        const srcSet = getSrcSet(variants, format);
+        return srcSet && (
+          <source key={format} type={`image/${format}`} srcSet={srcSet} sizes={sizes} />
+        );
+      })}
+      <img
+        src={src}
+        alt={alt}
+        width={fill ? undefined : width}
+        height={fill ? undefined : height}
+        loading={priority ? 'eager' : 'lazy'}
+        decoding="async"
+        draggable={draggable}
+        onLoad={onLoad}
+        className={cn(fill && 'absolute inset-0 w-full h-full', className)}
+      />
+    </picture>
+  );
+}
+
+export default PhotoImage;
@@ -1,7 +1,6 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import Image from 'next/image';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   X, 
@@ -15,6 +14,7 @@ import {
   ZoomOut
 } from 'lucide-react';
 import { cn, formatDate } from '@/lib/utils';
+import { PhotoImage } from './PhotoImage';
 import type { Photo } from '@/types/photo';
 
 /**
@@ -252,9 +252,12 @@ export function PhotoViewerModal({
                 <div className="w-96 h-96 bg-white/10 rounded-lg animate-pulse" />
               )}
               
-              <Image
+              {/* Zoomed in, the original shows every detail */}
+              <PhotoImage
                 src={photo.imageUrl}
+                variants={isZoomed ? undefined : photo.variants}
                 alt={photo.title}
+                sizes={isZoomed ? undefined : '(max-width: 1280px) 100vw, 1200px'}
                 width={isZoomed ? 1920 : 1200}
                 height={isZoomed ? 1080 : 800}
                 className={cn(
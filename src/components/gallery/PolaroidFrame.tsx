@@ -1,11 +1,13 @@
 'use client';
 
 import { useState, useMemo } from 'react';
-import Image from 'next/image';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Heart, Edit3, Trash2, RotateCcw } from 'lucide-react';
+import { Heart, Edit3, Trash2, RotateCcw, ArchiveRestore, Check } from 'lucide-react';
+import { Badge, type BadgeVariant } from '@/components/ui/Badge';
 import { cn, formatDate, getRandomRotation } from '@/lib/utils';
+import { PhotoImage } from './PhotoImage';
 import type { Photo, FrameColor } from '@/types/photo';
+import type { TagColor, TagColorMap } from '@/types/tag';
 
 /**
  * Size variants for the polaroid frame
@@ -33,14 +35,22 @@ interface PolaroidFrameProps {
   rotation?: number;
   /** Decoration style */
   decoration?: DecorationStyle;
+  /** Assigned tag colors */
+  tagColors?: TagColorMap;
   /** Called when edit is clicked */
   onEdit?: (photo: Photo) => void;
   /** Called when delete is clicked */
   onDelete?: (photo: Photo) => void;
   /** Called when favorite is toggled */
   onFavorite?: (photo: Photo) => void;
+  /** Called when restore is clicked (photos in the trash) */
+  onRestore?: (photo: Photo) => void;
   /** Called when the polaroid is clicked */
-  onClick?: (photo: Photo) => void;
+  onClick?: (photo: Photo, event: React.MouseEvent) => void;
+  /** Whether the polaroid is picked by clicking instead of opened */
+  selectable?: boolean;
+  /** Whether the polaroid is currently picked */
+  selected?: boolean;
   /** Animation delay for staggered entrance */
   animationDelay?: number;
   /** Additional className */
@@ -74,6 +84,19 @@ const frameColors: Record<FrameColor, string> = {
   peach: 'bg-[#fff9f6] dark:bg-[#2c2826]',
 };
 
+/**
+ * Badge variants by tag color
+ */
+const tagBadgeVariants: Record<TagColor, BadgeVariant> = {
+  rose: 'rose',
+  lavender: 'lavender',
+  mint: 'mint',
+  peach: 'peach',
+  sky: 'sky',
+  amber: 'warning',
+  gray: 'default',
+};
+
 /**
  * PolaroidFrame Component
  * 
@@ -86,10 +109,14 @@ export function PolaroidFrame({
   frameColor = 'cream',
   rotation: customRotation,
   decoration = 'none',
+  tagColors,
   onEdit,
   onDelete,
   onFavorite,
+  onRestore,
   onClick,
+  selectable = false,
+  selected = false,
   animationDelay = 0,
   className,
 }: PolaroidFrameProps) {
@@ -108,7 +135,7 @@ export function PolaroidFrame({
   
   // Handle double-click to flip
   const handleDoubleClick = () => {
-    if (photo.description) {
+    if (photo.description && !selectable) {
       setIsFlipped(!isFlipped);
     }
   };
@@ -122,8 +149,8 @@ export function PolaroidFrame({
   };
   
   // Handle click
-  const handleClick = () => {
-    onClick?.(photo);
+  const handleClick = (e: React.MouseEvent) => {
+    onClick?.(photo, e);
   };
   
   return (
@@ -185,7 +212,8 @@ export function PolaroidFrame({
                 'relative paper-texture w-full',
                 frameColors[frameColor],
                 'shadow-polaroid transition-shadow duration-300',
-                isHovered && 'shadow-polaroid-hover'
+                isHovered && 'shadow-polaroid-hover',
+                selected && 'ring-4 ring-blush-400'
               )}
               style={{
                 padding: config.padding,
@@ -200,8 +228,9 @@ export function PolaroidFrame({
                   <div className="absolute inset-0 bg-gradient-to-r from-cream-100 via-cream-50 to-cream-100 animate-shimmer" />
                 )}
                 
-                <Image
+                <PhotoImage
                   src={photo.imageUrl}
+                  variants={photo.variants}
                   alt={photo.title}
                   fill
                   className={cn(
@@ -210,8 +239,24 @@ export function PolaroidFrame({
                   )}
                   onLoad={() => setImageLoaded(true)}
                   sizes="(max-width: 640px) 176px, (max-width: 768px) 224px, 288px"
+                  draggable={!selectable}
                 />
                 
+                {/* Selection checkbox */}
+                {selectable && (
+                  <div
+                    className={cn(
+                      'absolute top-2 left-2 flex items-center justify-center',
+                      'w-6 h-6 rounded-full border-2 transition-colors duration-200',
+                      selected
+                        ? 'bg-blush-500 border-blush-500 text-white'
+                        : 'bg-white/70 border-white backdrop-blur-sm'
+                    )}
+                  >
+                    {selected && <Check size={14} strokeWidth={3} />}
+                  </div>
+                )}
+                
                 {/* Favorite Button */}
                 <button
                   onClick={handleFavorite}
@@ -233,27 +278,46 @@ export function PolaroidFrame({
                   />
                 </button>
                 
-                {/* Edit/Delete buttons on hover */}
-                {editable && (
+                {/* Edit/Restore/Delete buttons on hover */}
+                {editable && !selectable && (
                   <motion.div
                     initial={{ opacity: 0 }}
                     animate={{ opacity: isHovered ? 1 : 0 }}
                     className="absolute bottom-2 left-2 flex gap-1"
                   >
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        onEdit?.(photo);
-                      }}
-                      className={cn(
-                        'p-1.5 rounded-full',
-                        'bg-white/80 backdrop-blur-sm',
-                        'transition-all duration-200',
-                        'hover:scale-110 hover:bg-white active:scale-95'
-                      )}
-                    >
-                      <Edit3 size={size === 'sm' ? 12 : 14} className="text-blush-600" />
-                    </button>
+                    {onEdit && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onEdit(photo);
+                        }}
+                        className={cn(
+                          'p-1.5 rounded-full',
+                          'bg-white/80 backdrop-blur-sm',
+                          'transition-all duration-200',
+                          'hover:scale-110 hover:bg-white active:scale-95'
+                        )}
+                      >
+                        <Edit3 size={size === 'sm' ? 12 : 14} className="text-blush-600" />
+                      </button>
+                    )}
+                    {onRestore && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onRestore(photo);
+                        }}
+                        title="Restore"
+                        className={cn(
+                          'p-1.5 rounded-full',
+                          'bg-white/80 backdrop-blur-sm',
+                          'transition-all duration-200',
+                          'hover:scale-110 hover:bg-white active:scale-95'
+                        )}
+                      >
+                        <ArchiveRestore size={size === 'sm' ? 12 : 14} className="text-blush-600" />
+                      </button>
+                    )}
                     <button
                       onClick={(e) => {
                         e.stopPropagation();
@@ -353,18 +417,22 @@ export function PolaroidFrame({
                 {/* Tags */}
                 {photo.tags.length > 0 && (
                   <div className="flex flex-wrap gap-1 mt-3">
-                    {photo.tags.slice(0, 3).map((tag) => (
-                      <span
-                        key={tag}
-                        className={cn(
-                          'px-2 py-0.5 rounded-full text-xs',
-                          'bg-blush-100 dark:bg-blush-800/50 text-blush-600 dark:text-blush-300',
-                          'truncate max-w-[80px]'
-                        )}
-                      >
-                        #{tag}
-                      </span>
-                    ))}
+                    {photo.tags.slice(0, 3).map((tag) => {
+                      const color = tagColors?.[tag];
+                      return (
+                        <Badge
+                          key={tag}
+                          variant={color ? tagBadgeVariants[color] : 'default'}
+                          pill
+                          className={cn(
+                            'block truncate max-w-[80px] font-normal',
+                            !color && 'bg-blush-100 dark:bg-blush-800/50 text-blush-600 dark:text-blush-300'
+                          )}
+                        >
+                          #{tag}
+                        </Badge>
+                      );
+                    })}
                     {photo.tags.length > 3 && (
                       <span className="text-xs text-blush-400 dark:text-blush-500">+{photo.tags.length - 3}</span>
                     )}
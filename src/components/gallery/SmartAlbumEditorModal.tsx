@@ -0,0 +1,225 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Save, Sparkles } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { GlassCard } from '@/components/ui/GlassCard';
+import { GlassButton } from '@/components/ui/GlassButton';
+import { GlassInput } from '@/components/ui/GlassInput';
+import { GlassTextarea } from '@/components/ui/GlassTextarea';
+import { GalleryFilters } from './GalleryFilters';
+import type {
+  CreateSmartAlbumInput,
+  PhotoFilters,
+  PhotoSortOption,
+  SmartAlbumSummary,
+} from '@/types/photo';
+
+/**
+ * Props for SmartAlbumEditorModal component
+ */
+interface SmartAlbumEditorModalProps {
+  /** Whether modal is open */
+  isOpen: boolean;
+  /** Called when modal should close */
+  onClose: () => void;
+  /** Smart album to edit (null for a new one) */
+  smartAlbum?: SmartAlbumSummary | null;
+  /** Filters a new smart album starts from */
+  initialFilters?: PhotoFilters;
+  /** Sort a new smart album starts from */
+  initialSort?: PhotoSortOption;
+  /** Available tags for the tag filter */
+  availableTags?: string[];
+  /** Called with the smart album; resolves to whether it was saved */
+  onSave: (data: CreateSmartAlbumInput) => Promise<boolean>;
+}
+
+/**
+ * Filters of a new smart album when none are given
+ */
+const NO_FILTERS: PhotoFilters = {};
+
+/**
+ * Drop the trash flag, which smart albums never use
+ */
+function withoutTrash({ trashed: _trashed, ...filters }: PhotoFilters): PhotoFilters {
+  return filters;
+}
+
+/**
+ * SmartAlbumEditorModal Component
+ * 
+ * Names a smart album and edits the query behind it with the same
+ * filter bar as the gallery.
+ */
+export function SmartAlbumEditorModal({
+  isOpen,
+  onClose,
+  smartAlbum,
+  initialFilters = NO_FILTERS,
+  initialSort = 'dateAdded-desc',
+  availableTags = [],
+  onSave,
+}: SmartAlbumEditorModalProps) {
+  const isEditing = !!smartAlbum;
+  
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [filters, setFilters] = useState<PhotoFilters>({});
+  const [sort, setSort] = useState<PhotoSortOption>(initialSort);
+  const [isSaving, setIsSaving] = useState(false);
+  
+  // Start over each time the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+    
+    setTitle(smartAlbum?.title ?? '');
+    setDescription(smartAlbum?.description ?? '');
+    setFilters(withoutTrash(smartAlbum?.filters ?? initialFilters));
+    setSort(smartAlbum?.sort ?? initialSort);
+  }, [isOpen, smartAlbum, initialFilters, initialSort]);
+  
+  const trimmedTitle = title.trim();
+  
+  // Save and close
+  const handleSave = async () => {
+    if (!trimmedTitle) return;
+    
+    setIsSaving(true);
+    const saved = await onSave({
+      title: trimmedTitle,
+      description: description.trim() || undefined,
+      filters,
+      sort,
+    });
+    setIsSaving(false);
+    
+    if (saved) {
+      onClose();
+    }
+  };
+  
+  // Handle escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen) {
+        onClose();
+      }
+    };
+    
+    window.addEventListener('keydown', handleEscape);
+    return () => window.removeEventListener('keydown', handleEscape);
+  }, [isOpen, onClose]);
+  
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="absolute inset-0 bg-black/40 backdrop-blur-sm"
+          />
+          
+          {/* Modal */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.9, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.9, y: 20 }}
+            transition={{ type: 'spring', duration: 0.5 }}
+            className="relative w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+          >
+            <GlassCard
+              blur="heavy"
+              opacity={40}
+              rounded="2xl"
+              className="p-6"
+            >
+              {/* Header */}
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-2xl font-display font-bold gradient-text">
+                  {isEditing ? 'Edit Smart Album' : 'New Smart Album'} ✨
+                </h2>
+                <button
+                  onClick={onClose}
+                  className={cn(
+                    'p-2 rounded-full',
+                    'hover:bg-white/20 transition-colors'
+                  )}
+                >
+                  <X className="w-5 h-5 text-gray-600" />
+                </button>
+              </div>
+              
+              <div className="space-y-4">
+                <GlassInput
+                  label="Title"
+                  placeholder="e.g. Travel favorites from 2023"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  maxLength={100}
+                />
+                
+                <GlassTextarea
+                  label="Description"
+                  placeholder="What does this album collect?"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  maxLength={500}
+                  showCount
+                />
+                
+                {/* Query */}
+                <div>
+                  <p className="flex items-center gap-1.5 text-sm font-medium text-gray-700 mb-1">
+                    <Sparkles size={14} className="text-blush-400" />
+                    Photos to include
+                  </p>
+                  <p className="text-xs text-gray-500 mb-2">
+                    The album always shows the photos matching these filters, in this order.
+                  </p>
+                  <GalleryFilters
+                    filters={filters}
+                    onFiltersChange={(next) => setFilters(withoutTrash(next))}
+                    sortOption={sort}
+                    onSortChange={setSort}
+                    availableTags={availableTags}
+                    showTrash={false}
+                  />
+                </div>
+              </div>
+              
+              {/* Actions */}
+              <div className="flex items-center justify-end gap-3 pt-4 mt-6 border-t border-white/20">
+                <GlassButton
+                  type="button"
+                  variant="ghost"
+                  onClick={onClose}
+                >
+                  Cancel
+                </GlassButton>
+                <GlassButton
+                  variant="primary"
+                  leftIcon={<Save size={18} />}
+                  onClick={handleSave}
+                  isLoading={isSaving}
+                  loadingText="Saving..."
+                  disabled={!trimmedTitle}
+                >
+                  {isEditing ? 'Save Changes' : 'Create Smart Album'}
+                </GlassButton>
+              </div>
+            </GlassCard>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
+
+export default SmartAlbumEditorModal;
@@ -0,0 +1,402 @@
+'use client';
+
+import { useState, type KeyboardEvent } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Tags, Pencil, Trash2, Merge, Check } from 'lucide-react';
+import { GlassCard } from '@/components/ui/GlassCard';
+import { GlassButton } from '@/components/ui/GlassButton';
+import { ConfirmDialog } from '@/components/ui/ConfirmDialog';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { useTags } from '@/hooks/useTags';
+import { getTagColor, TAG_CHIP_STYLES, TAG_SWATCH_STYLES } from '@/lib/tagColors';
+import { cn } from '@/lib/utils';
+import { TAG_COLORS, type TagColor, type TagSummary } from '@/types/tag';
+
+/**
+ * Props for TagManagerModal component
+ */
+interface TagManagerModalProps {
+  /** Whether modal is open */
+  isOpen: boolean;
+  /** Called when modal should close */
+  onClose: () => void;
+  /** Called after photos were retagged */
+  onPhotosChanged?: () => void;
+}
+
+/**
+ * Props for a single tag row
+ */
+interface TagRowProps {
+  tag: TagSummary;
+  isSelected: boolean;
+  onToggleSelect: () => void;
+  onRename: (name: string) => Promise<boolean>;
+  onColorChange: (color: TagColor | null) => void;
+  onDelete: () => void;
+}
+
+/**
+ * One tag with its count and actions
+ */
+function TagRow({ tag, isSelected, onToggleSelect, onRename, onColorChange, onDelete }: TagRowProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isPickingColor, setIsPickingColor] = useState(false);
+  const [name, setName] = useState(tag.name);
+  const color = tag.color ?? getTagColor(tag.name);
+  
+  // Save the new name, closing the editor unless it failed
+  const submitRename = async () => {
+    const trimmed = name.trim().toLowerCase();
+    if (!trimmed || trimmed === tag.name) {
+      setName(tag.name);
+      setIsEditing(false);
+      return;
+    }
+    if (await onRename(trimmed)) {
+      setIsEditing(false);
+    }
+  };
+  
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      submitRename();
+    } else if (e.key === 'Escape') {
+      setName(tag.name);
+      setIsEditing(false);
+    }
+  };
+  
+  return (
+    <li className="py-2">
+      <div className="flex items-center gap-2">
+        {/* Select for merging */}
+        <input
+          type="checkbox"
+          checked={isSelected}
+          onChange={onToggleSelect}
+          aria-label={`Select #${tag.name}`}
+          className="w-4 h-4 rounded accent-blush-400 cursor-pointer flex-shrink-0"
+        />
+        
+        {/* Color */}
+        <button
+          onClick={() => setIsPickingColor(!isPickingColor)}
+          title="Change color"
+          className={cn(
+            'w-5 h-5 rounded-full flex-shrink-0 transition-transform hover:scale-110',
+            TAG_SWATCH_STYLES[color],
+            !tag.color && 'opacity-50'
+          )}
+        />
+        
+        {/* Name */}
+        {isEditing ? (
+          <input
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onBlur={submitRename}
+            maxLength={30}
+            className={cn(
+              'flex-1 min-w-0 px-2 py-0.5 rounded-md text-sm',
+              'bg-white/60 dark:bg-white/10 border border-blush-200 outline-none',
+              'focus:ring-2 focus:ring-blush-300/50'
+            )}
+          />
+        ) : (
+          <span
+            className={cn(
+              'px-2.5 py-0.5 rounded-full text-xs font-medium border truncate',
+              TAG_CHIP_STYLES[color]
+            )}
+          >
+            #{tag.name}
+          </span>
+        )}
+        
+        <span className="ml-auto text-xs text-blush-400 flex-shrink-0">{tag.count}</span>
+        
+        {/* Actions */}
+        {!isEditing && (
+          <button
+            onClick={() => setIsEditing(true)}
+            title="Rename"
+            className="p-1 rounded-full hover:bg-blush-100/50 dark:hover:bg-blush-500/20 transition-colors"
+          >
+            <Pencil size={13} className="text-blush-500 dark:text-blush-300" />
+          </button>
+        )}
+        <button
+          onClick={onDelete}
+          title="Delete from all photos"
+          className="p-1 rounded-full hover:bg-red-100/50 transition-colors"
+        >
+          <Trash2 size={13} className="text-red-400" />
+        </button>
+      </div>
+      
+      {/* Color palette */}
+      <AnimatePresence>
+        {isPickingColor && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            className="flex items-center gap-1.5 pl-12 pt-2 overflow-hidden"
+          >
+            {TAG_COLORS.map((option) => (
+              <button
+                key={option}
+                onClick={() => {
+                  onColorChange(option);
+                  setIsPickingColor(false);
+                }}
+                title={option}
+                className={cn(
+                  'w-5 h-5 rounded-full transition-all duration-200',
+                  TAG_SWATCH_STYLES[option],
+                  tag.color === option
+                    ? 'ring-2 ring-offset-1 ring-blush-400 scale-110'
+                    : 'hover:scale-110 opacity-80 hover:opacity-100'
+                )}
+              />
+            ))}
+            {tag.color && (
+              <button
+                onClick={() => {
+                  onColorChange(null);
+                  setIsPickingColor(false);
+                }}
+                className="ml-1 text-xs text-gray-500 hover:text-gray-700"
+              >
+                Reset
+              </button>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </li>
+  );
+}
+
+/**
+ * TagManagerModal Component
+ * 
+ * A slide-out panel for tidying up tags across the whole gallery:
+ * rename, merge, delete and recolor.
+ */
+export function TagManagerModal({ isOpen, onClose, onPhotosChanged }: TagManagerModalProps) {
+  const { tags, isLoading, renameTag, mergeTags, deleteTag, setTagColor } = useTags({
+    enabled: isOpen,
+    onPhotosChanged,
+  });
+  
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [mergeTarget, setMergeTarget] = useState('');
+  const [isMerging, setIsMerging] = useState(false);
+  const [tagToDelete, setTagToDelete] = useState<TagSummary | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  
+  const visibleTags = query
+    ? tags.filter((tag) => tag.name.includes(query.trim().toLowerCase()))
+    : tags;
+  
+  // Selected tags that still exist
+  const selectedTags = tags.filter((tag) => selected.includes(tag.name));
+  
+  // Default merge target: the most used selected tag
+  const defaultTarget = [...selectedTags].sort((a, b) => b.count - a.count)[0]?.name ?? '';
+  const target = (mergeTarget || defaultTarget).trim().toLowerCase();
+  
+  const toggleSelect = (name: string) => {
+    setSelected((current) =>
+      current.includes(name) ? current.filter((t) => t !== name) : [...current, name]
+    );
+  };
+  
+  const handleMerge = async () => {
+    if (!target || selectedTags.length < 2) return;
+    
+    setIsMerging(true);
+    const merged = await mergeTags(selectedTags.map((tag) => tag.name), target);
+    setIsMerging(false);
+    
+    if (merged) {
+      setSelected([]);
+      setMergeTarget('');
+    }
+  };
+  
+  const handleConfirmDelete = async () => {
+    if (!tagToDelete) return;
+    
+    setIsDeleting(true);
+    await deleteTag(tagToDelete.name);
+    setIsDeleting(false);
+    setSelected((current) => current.filter((t) => t !== tagToDelete.name));
+    setTagToDelete(null);
+  };
+  
+  return (
+    <>
+      <AnimatePresence>
+        {isOpen && (
+          <>
+            {/* Backdrop */}
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              onClick={onClose}
+              className="fixed inset-0 z-50 bg-blush-900/20 backdrop-blur-sm"
+            />
+            
+            {/* Panel */}
+            <motion.div
+              initial={{ x: '100%' }}
+              animate={{ x: 0 }}
+              exit={{ x: '100%' }}
+              transition={{ type: 'spring', damping: 25, stiffness: 200 }}
+              className="fixed right-0 top-0 bottom-0 z-50 w-full max-w-sm"
+            >
+              <GlassCard
+                blur="heavy"
+                opacity={85}
+                rounded="xl"
+                hoverEffect="none"
+                className="h-full overflow-y-auto scrollbar-cute rounded-r-none"
+              >
+                <div className="p-5">
+                  {/* Header */}
+                  <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-xl font-display font-bold gradient-text flex items-center gap-2">
+                      <Tags size={18} className="text-blush-400" />
+                      Tags
+                    </h2>
+                    <button
+                      onClick={onClose}
+                      className="p-2 rounded-full hover:bg-blush-100/50 dark:hover:bg-blush-500/20 transition-colors"
+                    >
+                      <X size={18} className="text-blush-500 dark:text-blush-300" />
+                    </button>
+                  </div>
+                  
+                  {/* Filter */}
+                  <input
+                    type="text"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="Find a tag..."
+                    className={cn(
+                      'w-full px-3 py-1.5 mb-3 rounded-lg text-sm',
+                      'bg-white/40 dark:bg-white/10 border border-blush-100 outline-none',
+                      'focus:ring-2 focus:ring-blush-300/50 placeholder:text-blush-300'
+                    )}
+                  />
+                  
+                  {/* Merge bar */}
+                  <AnimatePresence>
+                    {selectedTags.length >= 2 && (
+                      <motion.div
+                        initial={{ opacity: 0, y: -8 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: -8 }}
+                        className="mb-3 p-3 rounded-lg bg-blush-50/80 dark:bg-blush-500/10 border border-blush-100"
+                      >
+                        <p className="text-xs text-blush-600 dark:text-blush-300 mb-2">
+                          Merge {selectedTags.length} tags into
+                        </p>
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="text"
+                            value={mergeTarget || defaultTarget}
+                            onChange={(e) => setMergeTarget(e.target.value)}
+                            maxLength={30}
+                            list="tag-merge-targets"
+                            className={cn(
+                              'flex-1 min-w-0 px-2 py-1 rounded-md text-sm',
+                              'bg-white/60 dark:bg-white/10 border border-blush-200 outline-none',
+                              'focus:ring-2 focus:ring-blush-300/50'
+                            )}
+                          />
+                          <datalist id="tag-merge-targets">
+                            {selectedTags.map((tag) => (
+                              <option key={tag.name} value={tag.name} />
+                            ))}
+                          </datalist>
+                          <GlassButton
+                            variant="primary"
+                            size="sm"
+                            leftIcon={<Merge size={14} />}
+                            onClick={handleMerge}
+                            isLoading={isMerging}
+                            disabled={!target}
+                          >
+                            Merge
+                          </GlassButton>
+                        </div>
+                      </motion.div>
+                    )}
+                  </AnimatePresence>
+                  
+                  {/* Tag list */}
+                  {isLoading && tags.length === 0 ? (
+                    <div className="flex justify-center py-8">
+                      <LoadingSpinner />
+                    </div>
+                  ) : visibleTags.length === 0 ? (
+                    <p className="text-sm text-blush-400 text-center py-8">
+                      {tags.length === 0 ? 'No tags yet' : 'No matching tags'}
+                    </p>
+                  ) : (
+                    <ul className="divide-y divide-blush-100/60 dark:divide-blush-500/20">
+                      {visibleTags.map((tag) => (
+                        <TagRow
+                          key={tag.name}
+                          tag={tag}
+                          isSelected={selected.includes(tag.name)}
+                          onToggleSelect={() => toggleSelect(tag.name)}
+                          onRename={(name) => renameTag(tag.name, name)}
+                          onColorChange={(color) => setTagColor(tag.name, color)}
+                          onDelete={() => setTagToDelete(tag)}
+                        />
+                      ))}
+                    </ul>
+                  )}
+                  
+                  {selectedTags.length === 1 && (
+                    <p className="flex items-center gap-1 text-xs text-blush-400 mt-3">
+                      <Check size={12} />
+                      Select another tag to merge them
+                    </p>
+                  )}
+                </div>
+              </GlassCard>
+            </motion.div>
+          </>
+        )}
+      </AnimatePresence>
+      
+      {/* Delete Confirmation Dialog */}
+      <ConfirmDialog
+        isOpen={!!tagToDelete}
+        onClose={() => setTagToDelete(null)}
+        onConfirm={handleConfirmDelete}
+        title="Delete Tag?"
+        message={tagToDelete
+          ? `#${tagToDelete.name} will be removed from every photo, including photos in the trash.`
+          : ''}
+        confirmText="Delete"
+        cancelText="Cancel"
+        variant="danger"
+        isLoading={isDeleting}
+      />
+    </>
+  );
+}
+
+export default TagManagerModal;
@@ -0,0 +1,560 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import Image from 'next/image';
+import { useDropzone } from 'react-dropzone';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  X,
+  Upload,
+  Check,
+  AlertCircle,
+  RotateCcw,
+  Trash2,
+  ChevronDown,
+  Heart,
+  Calendar,
+  Images,
+} from 'lucide-react';
+import { cn, formatFileSize } from '@/lib/utils';
+import { ACCEPTED_IMAGE_TYPES } from '@/lib/uploadClient';
+import { GlassCard } from '@/components/ui/GlassCard';
+import { GlassButton } from '@/components/ui/GlassButton';
+import { GlassInput } from '@/components/ui/GlassInput';
+import { GlassTextarea } from '@/components/ui/GlassTextarea';
+import { TagInput } from '@/components/ui/TagInput';
+import { useUploadQueue } from '@/hooks/useUploadQueue';
+import type { CreatePhotoInput, PhotoFrame } from '@/types/photo';
+import type { TagColorMap } from '@/types/tag';
+import type { UploadMetadata, UploadQueueItem } from '@/types/upload';
+
+/**
+ * Files uploaded at the same time
+ */
+const UPLOAD_CONCURRENCY = 3;
+
+/**
+ * Props for UploadQueueModal component
+ */
+interface UploadQueueModalProps {
+  /** Whether modal is open */
+  isOpen: boolean;
+  /** Called when modal should close */
+  onClose: () => void;
+  /** Files to queue when the modal opens (e.g. dropped on the photo editor) */
+  files?: File[];
+  /** Available tags for suggestions */
+  availableTags?: string[];
+  /** Assigned tag colors */
+  tagColors?: TagColorMap;
+  /** Creates the photos once uploads finish; resolves with the photos created */
+  onCreatePhotos: (photos: CreatePhotoInput[]) => Promise<PhotoFrame[]>;
+}
+
+/**
+ * Props for UploadQueueRow component
+ */
+interface UploadQueueRowProps {
+  item: UploadQueueItem;
+  availableTags: string[];
+  tagColors?: TagColorMap;
+  onChange: (updates: Partial<UploadMetadata>) => void;
+  onCancel: () => void;
+  onRetry: () => void;
+  onRemove: () => void;
+}
+
+/**
+ * One file in the queue, with its progress and reviewable details
+ */
+function UploadQueueRow({
+  item,
+  availableTags,
+  tagColors,
+  onChange,
+  onCancel,
+  onRetry,
+  onRemove,
+}: UploadQueueRowProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const { metadata, status } = item;
+  const percent = item.file.size > 0 ? Math.round((item.loaded / item.file.size) * 100) : 0;
+  const isPending = status === 'queued' || status === 'uploading';
+  
+  return (
+    <li className="rounded-xl bg-white/40 border border-white/50">
+      <div className="flex items-center gap-3 p-2">
+        {/* Thumbnail */}
+        <div className="relative w-14 h-14 flex-shrink-0 rounded-lg overflow-hidden bg-blush-50">
+          <Image
+            src={item.previewUrl}
+            alt={metadata.title}
+            fill
+            sizes="56px"
+            className="object-cover"
+          />
+          {status === 'uploaded' && (
+            <div className="absolute top-0.5 right-0.5 p-0.5 rounded-full bg-emerald-500">
+              <Check className="w-3 h-3 text-white" />
+            </div>
+          )}
+        </div>
+        
+        {/* Title and progress */}
+        <div className="flex-1 min-w-0 space-y-1">
+          <input
+            value={metadata.title}
+            onChange={(e) => onChange({ title: e.target.value })}
+            maxLength={100}
+            aria-label="Title"
+            className={cn(
+              'w-full px-2 py-1 rounded-md bg-transparent text-sm font-medium text-gray-700',
+              'hover:bg-white/40 focus:bg-white/60 focus:outline-none focus:ring-2 focus:ring-blush-200',
+              !metadata.title.trim() && 'ring-2 ring-red-300'
+            )}
+          />
+          
+          <div className="flex items-center gap-2 px-2 text-xs text-gray-500">
+            {status === 'error' ? (
+              <span className="flex items-center gap-1 text-red-500 truncate">
+                <AlertCircle size={12} className="flex-shrink-0" />
+                {item.error}
+              </span>
+            ) : status === 'canceled' ? (
+              <span>Canceled</span>
+            ) : status === 'queued' ? (
+              <span>Waiting • {formatFileSize(item.file.size)}</span>
+            ) : status === 'uploading' ? (
+              <span>
+                {formatFileSize(item.loaded)} of {formatFileSize(item.file.size)}
+              </span>
+            ) : (
+              <span>Uploaded • {formatFileSize(item.file.size)}</span>
+            )}
+          </div>
+          
+          {status === 'uploading' && (
+            <div className="mx-2 h-1.5 bg-white/60 rounded-full overflow-hidden">
+              <motion.div
+                className="h-full bg-blush-400 rounded-full"
+                initial={{ width: 0 }}
+                animate={{ width: `${percent}%` }}
+              />
+            </div>
+          )}
+        </div>
+        
+        {/* Actions */}
+        <div className="flex items-center gap-1 flex-shrink-0">
+          {(status === 'error' || status === 'canceled') && (
+            <button
+              onClick={onRetry}
+              aria-label="Retry upload"
+              title="Retry"
+              className="p-1.5 rounded-full text-blush-500 hover:bg-white/50 transition-colors"
+            >
+              <RotateCcw size={16} />
+            </button>
+          )}
+          {isPending ? (
+            <button
+              onClick={onCancel}
+              aria-label="Cancel upload"
+              title="Cancel"
+              className="p-1.5 rounded-full text-gray-500 hover:bg-white/50 transition-colors"
+            >
+              <X size={16} />
+            </button>
+          ) : (
+            <button
+              onClick={onRemove}
+              aria-label="Remove from queue"
+              title="Remove"
+              className="p-1.5 rounded-full text-gray-500 hover:bg-white/50 hover:text-red-500 transition-colors"
+            >
+              <Trash2 size={16} />
+            </button>
+          )}
+          <button
+            onClick={() => setIsExpanded(!isExpanded)}
+            aria-label={isExpanded ? 'Hide details' : 'Edit details'}
+            aria-expanded={isExpanded}
+            title="Details"
+            className="p-1.5 rounded-full text-gray-500 hover:bg-white/50 transition-colors"
+          >
+            <ChevronDown size={16} className={cn('transition-transform', isExpanded && 'rotate-180')} />
+          </button>
+        </div>
+      </div>
+      
+      {/* Details */}
+      <AnimatePresence initial={false}>
+        {isExpanded && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="overflow-hidden"
+          >
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 p-3 pt-1">
+              <GlassTextarea
+                label="Description"
+                placeholder="Tell the story behind this photo..."
+                maxLength={500}
+                value={metadata.description ?? ''}
+                onChange={(e) => onChange({ description: e.target.value || undefined })}
+              />
+              <div className="space-y-3">
+                <GlassInput
+                  type="date"
+                  label="Date Taken"
+                  leftIcon={<Calendar size={18} />}
+                  value={metadata.dateTaken ?? ''}
+                  onChange={(e) => onChange({ dateTaken: e.target.value || undefined })}
+                />
+                <TagInput
+                  label="Tags"
+                  value={metadata.tags}
+                  onChange={(tags) => onChange({ tags })}
+                  suggestions={availableTags}
+                  colors={tagColors}
+                  placeholder="Add tags..."
+                  maxTags={10}
+                />
+                <button
+                  type="button"
+                  onClick={() => onChange({ isFavorite: !metadata.isFavorite })}
+                  className={cn(
+                    'flex items-center gap-2 px-3 py-1.5 rounded-full text-sm',
+                    'transition-all duration-200',
+                    metadata.isFavorite
+                      ? 'bg-rose-100 text-rose-600'
+                      : 'bg-white/30 text-gray-600 hover:bg-white/50'
+                  )}
+                >
+                  <Heart size={16} className={cn(metadata.isFavorite && 'fill-rose-500 text-rose-500')} />
+                  {metadata.isFavorite ? 'Favorited' : 'Add to Favorites'}
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </li>
+  );
+}
+
+/**
+ * UploadQueueModal Component
+ * 
+ * Uploads many photos at once. Dropped files and folders join a queue
+ * that uploads a few at a time with real progress; each file can be
+ * canceled, retried and reviewed while the rest upload. Once every
+ * upload has finished, the photos are created together.
+ * 
+ * @example
+ * ```tsx
+ * <UploadQueueModal
+ *   isOpen={isUploadQueueOpen}
+ *   onClose={() => setUploadQueueOpen(false)}
+ *   onCreatePhotos={addPhotos}
+ * />
+ * ```
+ */
+export function UploadQueueModal({
+  isOpen,
+  onClose,
+  files,
+  availableTags = [],
+  tagColors,
+  onCreatePhotos,
+}: UploadQueueModalProps) {
+  const {
+    items,
+    uploadedItems,
+    totalBytes,
+    loadedBytes,
+    pendingCount,
+    failedCount,
+    isFinished,
+    addFiles,
+    cancel,
+    retry,
+    remove,
+    clear,
+    updateMetadata,
+    addTagsToAll,
+  } = useUploadQueue({ concurrency: UPLOAD_CONCURRENCY });
+  
+  const [skippedCount, setSkippedCount] = useState(0);
+  const [tagsForAll, setTagsForAll] = useState<string[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+  
+  // Queue the files handed in when opening, once each
+  const queuedFilesRef = useRef<File[] | undefined>(undefined);
+  useEffect(() => {
+    if (isOpen && files && files.length > 0 && queuedFilesRef.current !== files) {
+      queuedFilesRef.current = files;
+      addFiles(files);
+    }
+  }, [isOpen, files, addFiles]);
+  
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop: (accepted, rejected) => {
+      addFiles(accepted);
+      // Folders often hold other files; leave them out quietly
+      setSkippedCount((count) => count + rejected.length);
+    },
+    accept: ACCEPTED_IMAGE_TYPES,
+    multiple: true,
+    disabled: isCreating,
+  });
+  
+  const hasTitles = uploadedItems.every((item) => item.metadata.title.trim());
+  const canCreate = isFinished && uploadedItems.length > 0 && hasTitles && !isCreating;
+  const overallPercent = totalBytes > 0 ? Math.round((loadedBytes / totalBytes) * 100) : 0;
+  
+  // Close, checking first if uploads would be lost
+  const handleClose = () => {
+    if (isCreating) return;
+    if (pendingCount > 0 && !window.confirm('Stop the uploads in progress?')) return;
+    
+    clear();
+    setSkippedCount(0);
+    setTagsForAll([]);
+    onClose();
+  };
+  
+  // Create a photo for every uploaded file
+  const handleCreate = async () => {
+    setIsCreating(true);
+    const created = await onCreatePhotos(uploadedItems.map((item) => ({
+      imageUrl: item.imageUrl!,
+      title: item.metadata.title.trim(),
+      description: item.metadata.description,
+      dateTaken: item.metadata.dateTaken,
+      tags: item.metadata.tags,
+      isFavorite: item.metadata.isFavorite,
+    })));
+    setIsCreating(false);
+    
+    // Photos are created in order, so the first ones made it
+    remove(uploadedItems.slice(0, created.length).map((item) => item.id));
+    if (created.length === uploadedItems.length && failedCount === 0) {
+      clear();
+      setSkippedCount(0);
+      setTagsForAll([]);
+      onClose();
+    }
+  };
+  
+  // Handle escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen) {
+        handleClose();
+      }
+    };
+    
+    window.addEventListener('keydown', handleEscape);
+    return () => window.removeEventListener('keydown', handleEscape);
+  });
+  
+  // Prevent body scroll when modal is open
+  useEffect(() => {
+    if (isOpen) {
+      document.body.style.overflow = 'hidden';
+    } else {
+      document.body.style.overflow = '';
+    }
+    return () => {
+      document.body.style.overflow = '';
+    };
+  }, [isOpen]);
+  
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={handleClose}
+            className="absolute inset-0 bg-black/40 backdrop-blur-sm"
+          />
+          
+          {/* Modal */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.9, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.9, y: 20 }}
+            transition={{ type: 'spring', duration: 0.5 }}
+            className="relative w-full max-w-3xl max-h-[90vh] overflow-hidden"
+          >
+            <GlassCard
+              blur="heavy"
+              opacity={40}
+              rounded="2xl"
+              className="p-6"
+            >
+              <div className="flex flex-col max-h-[calc(90vh-3rem)]">
+                {/* Header */}
+                <div className="flex items-center justify-between mb-4">
+                  <div>
+                    <h2 className="text-2xl font-display font-bold gradient-text">
+                      Upload Photos ✨
+                    </h2>
+                    {items.length > 0 && (
+                      <p className="text-sm text-gray-600 mt-0.5">
+                        {uploadedItems.length} of {items.length} uploaded
+                        {totalBytes > 0 && ` • ${formatFileSize(loadedBytes)} of ${formatFileSize(totalBytes)}`}
+                        {failedCount > 0 && ` • ${failedCount} failed`}
+                      </p>
+                    )}
+                  </div>
+                  <button
+                    onClick={handleClose}
+                    className={cn(
+                      'p-2 rounded-full',
+                      'hover:bg-white/20 transition-colors'
+                    )}
+                  >
+                    <X className="w-5 h-5 text-gray-600" />
+                  </button>
+                </div>
+                
+                {/* Overall progress */}
+                {pendingCount > 0 && (
+                  <div className="h-2 mb-4 bg-white/40 rounded-full overflow-hidden">
+                    <motion.div
+                      className="h-full bg-gradient-to-r from-blush-300 to-blush-400 rounded-full"
+                      initial={{ width: 0 }}
+                      animate={{ width: `${overallPercent}%` }}
+                    />
+                  </div>
+                )}
+                
+                {/* Dropzone */}
+                <div
+                  {...getRootProps()}
+                  className={cn(
+                    'flex items-center justify-center gap-3 p-4 mb-4 rounded-xl cursor-pointer',
+                    'border-2 border-dashed transition-all duration-300',
+                    isDragActive
+                      ? 'border-rose-400 bg-rose-50/30'
+                      : 'border-white/40 bg-white/20 hover:border-rose-300/50 hover:bg-white/30',
+                    items.length === 0 && 'py-12'
+                  )}
+                >
+                  <input {...getInputProps()} />
+                  {isDragActive ? (
+                    <Upload className="w-6 h-6 text-rose-400" />
+                  ) : (
+                    <Images className="w-6 h-6 text-rose-400" />
+                  )}
+                  <div className="text-sm">
+                    <p className="font-medium text-gray-700">
+                      {isDragActive ? 'Drop your photos here' : 'Drag & drop photos or a folder'}
+                    </p>
+                    <p className="text-gray-500">
+                      or click to browse • JPEG, PNG, WebP, GIF • Max 100MB each
+                    </p>
+                  </div>
+                </div>
+                
+                {skippedCount > 0 && (
+                  <p className="flex items-center gap-2 mb-3 text-xs text-gray-500">
+                    <AlertCircle size={12} />
+                    Skipped {skippedCount} {skippedCount === 1 ? 'file that isn\'t an image' : 'files that aren\'t images'}
+                  </p>
+                )}
+                
+                {/* Queue */}
+                {items.length > 0 && (
+                  <ul className="flex-1 min-h-0 overflow-y-auto space-y-2 pr-1">
+                    {items.map((item) => (
+                      <UploadQueueRow
+                        key={item.id}
+                        item={item}
+                        availableTags={availableTags}
+                        tagColors={tagColors}
+                        onChange={(updates) => updateMetadata(item.id, updates)}
+                        onCancel={() => cancel(item.id)}
+                        onRetry={() => retry(item.id)}
+                        onRemove={() => remove([item.id])}
+                      />
+                    ))}
+                  </ul>
+                )}
+                
+                {/* Tags for every photo */}
+                {items.length > 1 && (
+                  <div className="flex items-end gap-2 mt-4">
+                    <div className="flex-1">
+                      <TagInput
+                        label="Tags for every photo"
+                        value={tagsForAll}
+                        onChange={setTagsForAll}
+                        suggestions={availableTags}
+                        colors={tagColors}
+                        placeholder="Add tags..."
+                        maxTags={10}
+                      />
+                    </div>
+                    <GlassButton
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => {
+                        addTagsToAll(tagsForAll);
+                        setTagsForAll([]);
+                      }}
+                      disabled={tagsForAll.length === 0}
+                    >
+                      Apply
+                    </GlassButton>
+                  </div>
+                )}
+                
+                {/* Actions */}
+                <div className="flex items-center justify-between gap-3 pt-4 mt-4 border-t border-white/20">
+                  <p className="text-xs text-gray-500">
+                    {!isFinished && pendingCount > 0
+                      ? 'Review details while the photos upload'
+                      : !hasTitles
+                        ? 'Every photo needs a title'
+                        : ''}
+                  </p>
+                  <div className="flex items-center gap-3">
+                    <GlassButton
+                      type="button"
+                      variant="ghost"
+                      onClick={handleClose}
+                      disabled={isCreating}
+                    >
+                      Cancel
+                    </GlassButton>
+                    <GlassButton
+                      type="button"
+                      variant="primary"
+                      leftIcon={<Check size={18} />}
+                      onClick={handleCreate}
+                      isLoading={isCreating}
+                      loadingText="Adding..."
+                      disabled={!canCreate}
+                    >
+                      {uploadedItems.length === 1 ? 'Add 1 Photo' : `Add ${uploadedItems.length} Photos`}
+                    </GlassButton>
+                  </div>
+                </div>
+              </div>
+            </GlassCard>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
+
+export default UploadQueueModal;
@@ -1,10 +1,21 @@
 export { PolaroidFrame } from './PolaroidFrame';
+export { PhotoImage } from './PhotoImage';
 export { PhotoEditorModal } from './PhotoEditorModal';
 export { PhotoViewerModal } from './PhotoViewerModal';
+export { PhotoConflictDialog } from './PhotoConflictDialog';
 export { ImageUploader } from './ImageUploader';
+export { UploadQueueModal } from './UploadQueueModal';
 export { GalleryGrid } from './GalleryGrid';
 export { GalleryEmptyState } from './GalleryEmptyState';
 export { GalleryLoadingSkeleton } from './GalleryLoadingSkeleton';
 export { GalleryFilters } from './GalleryFilters';
+export { DateRangeFilter } from './DateRangeFilter';
 export { GalleryHeader } from './GalleryHeader';
 
+export { TagManagerModal } from './TagManagerModal';
+export { AlbumPicker } from './AlbumPicker';
+export { AlbumNav } from './AlbumNav';
+export { AlbumEditorModal } from './AlbumEditorModal';
+export { SmartAlbumEditorModal } from './SmartAlbumEditorModal';
+export { FilterPresetMenu } from './FilterPresetMenu';
+export { BulkActionToolbar } from './BulkActionToolbar';
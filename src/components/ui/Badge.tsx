@@ -6,7 +6,7 @@ import type { ReactNode } from 'react';
 /**
  * Badge variant options
  */
-type BadgeVariant = 'default' | 'rose' | 'lavender' | 'mint' | 'peach' | 'sky' | 'success' | 'warning' | 'danger';
+export type BadgeVariant = 'default' | 'rose' | 'lavender' | 'mint' | 'peach' | 'sky' | 'success' | 'warning' | 'danger';
 
 /**
  * Badge size options
@@ -3,7 +3,9 @@
 import { useState, useRef, useCallback, type KeyboardEvent } from 'react';
 import { X, Plus } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { getTagColor, TAG_CHIP_STYLES } from '@/lib/tagColors';
 import { motion, AnimatePresence } from 'framer-motion';
+import type { TagColorMap } from '@/types/tag';
 
 /**
  * Props for TagInput component
@@ -15,6 +17,8 @@ interface TagInputProps {
   onChange: (tags: string[]) => void;
   /** Suggestions for autocomplete */
   suggestions?: string[];
+  /** Assigned tag colors; other tags get a color based on their name */
+  colors?: TagColorMap;
   /** Placeholder text */
   placeholder?: string;
   /** Maximum number of tags */
@@ -29,26 +33,6 @@ interface TagInputProps {
   className?: string;
 }
 
-/**
- * Pastel colors for tags
- */
-const tagColors = [
-  'bg-rose-100 text-rose-700 border-rose-200',
-  'bg-lavender-100 text-purple-700 border-lavender-200',
-  'bg-sky-100 text-sky-700 border-sky-200',
-  'bg-mint-100 text-emerald-700 border-mint-200',
-  'bg-peach-100 text-orange-700 border-peach-200',
-  'bg-amber-100 text-amber-700 border-amber-200',
-];
-
-/**
- * Get consistent color for a tag based on its content
- */
-function getTagColor(tag: string): string {
-  const hash = tag.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
-  return tagColors[hash % tagColors.length];
-}
-
 /**
  * TagInput Component
  * 
@@ -69,6 +53,7 @@ export function TagInput({
   value,
   onChange,
   suggestions = [],
+  colors,
   placeholder = 'Add a tag...',
   maxTags = 10,
   label,
@@ -161,7 +146,7 @@ export function TagInput({
                 'inline-flex items-center gap-1 px-2.5 py-1 rounded-full',
                 'text-xs font-medium border',
                 'transition-all duration-200',
-                getTagColor(tag)
+                TAG_CHIP_STYLES[getTagColor(tag, colors)]
               )}
             >
               #{tag}
@@ -0,0 +1,102 @@
+import os from 'os';
+import path from 'path';
+import type { MetadataStoreName, StorageDriverName } from '@/types/storage';
+
+/**
+ * Storage drivers that can be selected via STORAGE_DRIVER
+ */
+const STORAGE_DRIVERS: StorageDriverName[] = ['fs', 'blob', 's3', 'memory'];
+
+/**
+ * Resolve the storage driver from the environment
+ *
+ * STORAGE_DRIVER wins when set. Otherwise Vercel Blob is used when a
+ * BLOB_READ_WRITE_TOKEN is present, and the local filesystem when not.
+ */
+function resolveStorageDriver(): StorageDriverName {
+  const configured = process.env.STORAGE_DRIVER?.trim().toLowerCase();
+
+  if (configured) {
+    if (!STORAGE_DRIVERS.includes(configured as StorageDriverName)) {
+      throw new Error(
+        `Unknown STORAGE_DRIVER "${configured}". Expected one of: ${STORAGE_DRIVERS.join(', ')}`
+      );
+    }
+    return configured as StorageDriverName;
+  }
+
+  return process.env.BLOB_READ_WRITE_TOKEN ? 'blob' : 'fs';
+}
+
+/**
+ * Resolve where photo metadata is kept from the environment
+ */
+function resolveMetadataStore(): MetadataStoreName {
+  const configured = process.env.METADATA_STORE?.trim().toLowerCase();
+
+  if (!configured || configured === 'driver') {
+    return 'driver';
+  }
+  if (configured !== 'sqlite') {
+    throw new Error(`Unknown METADATA_STORE "${configured}". Expected one of: driver, sqlite`);
+  }
+  return 'sqlite';
+}
+
+/**
+ * Storage configuration
+ *
+ * Environment variables:
+ * - STORAGE_DRIVER: fs | blob | s3 | memory
+ * - METADATA_STORE: driver (default) | sqlite
+ * - SQLITE_PATH: database file (defaults to src/data/photos.db)
+ * - S3_BUCKET, S3_REGION, S3_ENDPOINT, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY
+ * - S3_PUBLIC_URL: base URL media is served from (defaults to endpoint/bucket)
+ * - S3_FORCE_PATH_STYLE: "true" for MinIO and most self-hosted servers
+ * - TRASH_RETENTION_DAYS: days before trashed photos are purged (default 30, 0 = never)
+ * - UPLOAD_PARTS_DIR: where parts of chunked uploads are kept until complete
+ *   (defaults to a temp directory; must be shared by every server instance)
+ * - UPLOAD_SESSION_TTL_HOURS: hours an idle chunked upload is kept (default 24)
+ */
+export const STORAGE_CONFIG = {
+  driver: resolveStorageDriver(),
+  metadata: resolveMetadataStore(),
+
+  fs: {
+    /** Directory holding photos.json */
+    dataDir: path.join(process.cwd(), 'src', 'data'),
+    /** Directory holding uploaded media */
+    uploadDir: path.join(process.cwd(), 'public', 'uploads'),
+    /** Public URL prefix for uploaded media */
+    publicPath: '/uploads',
+  },
+
+  sqlite: {
+    /** Database file for the SQLite metadata store */
+    file: process.env.SQLITE_PATH || path.join(process.cwd(), 'src', 'data', 'photos.db'),
+  },
+
+  trash: {
+    /** Days a photo stays in the trash before it is purged */
+    retentionDays: Number(process.env.TRASH_RETENTION_DAYS ?? 30),
+  },
+
+  uploads: {
+    /** Directory holding the parts of unfinished chunked uploads */
+    partsDir: process.env.UPLOAD_PARTS_DIR || path.join(os.tmpdir(), 'irm-gallery-uploads'),
+    /** Hours without a new part before a chunked upload is abandoned */
+    sessionTtlHours: Number(process.env.UPLOAD_SESSION_TTL_HOURS ?? 24),
+  },
+
+  s3: {
+    bucket: process.env.S3_BUCKET || 'irm-gallery',
+    region: process.env.S3_REGION || 'us-east-1',
+    endpoint: process.env.S3_ENDPOINT,
+    accessKeyId: process.env.S3_ACCESS_KEY_ID,
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+    publicUrl: process.env.S3_PUBLIC_URL,
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+  },
+};
+
+export default STORAGE_CONFIG;
@@ -0,0 +1,44 @@
+/**
+ * Upload limits, shared by the upload routes and the browser
+ */
+export const UPLOAD_CONFIG = {
+  /** Accepted image types and the extension each is stored with */
+  extensions: {
+    'image/jpeg': '.jpg',
+    'image/png': '.png',
+    'image/webp': '.webp',
+    'image/gif': '.gif',
+  } as Record<string, string>,
+
+  /** Largest file sent in a single request (10MB) */
+  maxFileSize: 10 * 1024 * 1024,
+
+  /** Largest file sent in parts (100MB) */
+  maxChunkedFileSize: 100 * 1024 * 1024,
+
+  /** Size of every part but the last (5MB) */
+  partSize: 5 * 1024 * 1024,
+
+  /** Files larger than this are sent in parts (5MB) */
+  chunkedThreshold: 5 * 1024 * 1024,
+
+  /** Width in pixels of each resized copy made on upload */
+  variantWidths: {
+    thumb: 256,
+    grid: 512,
+    viewer: 1600,
+  },
+
+  /** Encodings of the resized copies, preferred first */
+  variantFormats: ['avif', 'webp'] as const,
+
+  /** Encoding quality of the resized copies (1-100) */
+  variantQuality: 70,
+};
+
+/**
+ * Image types that can be uploaded
+ */
+export const ALLOWED_UPLOAD_TYPES = Object.keys(UPLOAD_CONFIG.extensions);
+
+export default UPLOAD_CONFIG;
@@ -1,3 +1,10 @@
 export { usePhotos } from './usePhotos';
 export { usePolling } from './usePolling';
 
+export { usePhotoEvents } from './usePhotoEvents';
+export { useTags } from './useTags';
+export { useAlbums, useAlbum, getPhotoAlbumIds } from './useAlbums';
+export { useSmartAlbums, useSmartAlbum } from './useSmartAlbums';
+export { useFilterPresets } from './useFilterPresets';
+export { useMarqueeSelection } from './useMarqueeSelection';
+export { useUploadQueue } from './useUploadQueue';
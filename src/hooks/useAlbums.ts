@@ -0,0 +1,480 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import type {
+  AlbumSummary,
+  CreateAlbumInput,
+  PhotoFrame,
+  UpdateAlbumInput,
+} from '@/types/photo';
+
+/**
+ * API client for album operations
+ */
+const albumApi = {
+  async fetchAlbums() {
+    const response = await fetch('/api/albums');
+    if (!response.ok) {
+      throw new Error('Failed to fetch albums');
+    }
+    return response.json();
+  },
+  
+  async fetchAlbum(id: string) {
+    const response = await fetch(`/api/albums/${id}`);
+    if (response.status === 404) {
+      return { success: false, error: 'Album not found', notFound: true };
+    }
+    if (!response.ok) {
+      throw new Error('Failed to fetch album');
+    }
+    return response.json();
+  },
+  
+  async createAlbum(data: CreateAlbumInput) {
+    const response = await fetch('/api/albums', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || error.error || 'Failed to create album');
+    }
+    return response.json();
+  },
+  
+  async updateAlbum(id: string, data: UpdateAlbumInput) {
+    const response = await fetch(`/api/albums/${id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || error.error || 'Failed to update album');
+    }
+    return response.json();
+  },
+  
+  async deleteAlbum(id: string) {
+    const response = await fetch(`/api/albums/${id}`, {
+      method: 'DELETE',
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to delete album');
+    }
+    return response.json();
+  },
+  
+  async setPhotoAlbums(photoId: string, albumIds: string[]) {
+    const response = await fetch(`/api/photos/${photoId}/albums`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ albumIds }),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to update albums');
+    }
+    return response.json();
+  },
+  
+  async setFavorite(photoId: string, isFavorite: boolean, version?: number) {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (version !== undefined) {
+      headers['If-Match'] = `"${version}"`;
+    }
+    
+    const response = await fetch(`/api/photos/${photoId}`, {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify({ isFavorite }),
+    });
+    if (response.status === 409) {
+      // Someone else changed the photo; hand back their copy
+      const result = await response.json();
+      return { success: false, error: result.error, conflict: result.data as PhotoFrame };
+    }
+    if (!response.ok) {
+      throw new Error('Failed to update favorite');
+    }
+    return response.json();
+  },
+};
+
+/**
+ * IDs of the albums that contain a photo
+ */
+export function getPhotoAlbumIds(albums: AlbumSummary[], photoId: string): string[] {
+  return albums.filter((album) => album.photoIds.includes(photoId)).map((album) => album.id);
+}
+
+/**
+ * Custom hook for the album list
+ * 
+ * Loads every album and creates, updates and deletes albums, keeping
+ * the list current after each change.
+ * 
+ * @example
+ * ```tsx
+ * const { albums, createAlbum, setPhotoAlbums } = useAlbums();
+ * const album = await createAlbum({ title: 'Summer 2024' });
+ * ```
+ */
+export function useAlbums(options: { enabled?: boolean } = {}) {
+  const { enabled = true } = options;
+  
+  const [albums, setAlbums] = useState<AlbumSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  
+  /**
+   * Load every album
+   * @param silent - If true, don't show loading state or error toasts
+   */
+  const fetchAlbums = useCallback(async (silent: boolean = false) => {
+    if (!silent) {
+      setIsLoading(true);
+    }
+    try {
+      const result = await albumApi.fetchAlbums();
+      
+      if (result.success) {
+        setAlbums(result.data);
+      } else {
+        throw new Error(result.error);
+      }
+    } catch (err) {
+      if (!silent) {
+        const message = err instanceof Error ? err.message : 'Failed to fetch albums';
+        toast.error(message);
+      }
+    } finally {
+      if (!silent) {
+        setIsLoading(false);
+      }
+    }
+  }, []);
+  
+  /**
+   * Create a new album
+   */
+  const createAlbum = useCallback(async (data: CreateAlbumInput): Promise<AlbumSummary | null> => {
+    try {
+      const result = await albumApi.createAlbum(data);
+      
+      if (result.success) {
+        await fetchAlbums(true);
+        toast.success(`Created album "${result.data.title}" 📚`);
+        return result.data;
+      } else {
+        throw new Error(result.error);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to create album';
+      toast.error(message);
+      return null;
+    }
+  }, [fetchAlbums]);
+  
+  /**
+   * Update an album's details, cover or photo order
+   */
+  const updateAlbum = useCallback(async (
+    id: string,
+    data: UpdateAlbumInput
+  ): Promise<AlbumSummary | null> => {
+    try {
+      const result = await albumApi.updateAlbum(id, data);
+      
+      if (result.success) {
+        setAlbums((current) => current.map((album) => (album.id === id ? result.data : album)));
+        return result.data;
+      } else {
+        throw new Error(result.error);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to update album';
+      toast.error(message);
+      return null;
+    }
+  }, []);
+  
+  /**
+   * Delete an album (its photos stay in the gallery)
+   */
+  const deleteAlbum = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      const result = await albumApi.deleteAlbum(id);
+      
+      if (result.success) {
+        setAlbums((current) => current.filter((album) => album.id !== id));
+        toast.success('Album deleted');
+        return true;
+      } else {
+        throw new Error(result.error);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to delete album';
+      toast.error(message);
+      return false;
+    }
+  }, []);
+  
+  /**
+   * Append photos to the end of an album, skipping ones already in it
+   */
+  const addPhotosToAlbum = useCallback(async (albumId: string, photoIds: string[]): Promise<boolean> => {
+    const album = albums.find((a) => a.id === albumId);
+    if (!album) return false;
+    
+    const added = photoIds.filter((id) => !album.photoIds.includes(id));
+    if (added.length === 0) {
+      toast(`Already in "${album.title}"`);
+      return true;
+    }
+    
+    try {
+      const result = await albumApi.updateAlbum(albumId, { photoIds: [...album.photoIds, ...added] });
+      
+      if (result.success) {
+        setAlbums((current) => current.map((a) => (a.id === albumId ? result.data : a)));
+        toast.success(`Added ${added.length} ${added.length === 1 ? 'photo' : 'photos'} to "${album.title}" 📚`);
+        return true;
+      } else {
+        throw new Error(result.error);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to update album';
+      toast.error(message);
+      return false;
+    }
+  }, [albums]);
+  
+  /**
+   * Put a photo in exactly the given albums
+   */
+  const setPhotoAlbums = useCallback(async (photoId: string, albumIds: string[]): Promise<boolean> => {
+    try {
+      const result = await albumApi.setPhotoAlbums(photoId, albumIds);
+      
+      if (result.success) {
+        setAlbums(result.data);
+        return true;
+      } else {
+        throw new Error(result.error);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to update albums';
+      toast.error(message);
+      return false;
+    }
+  }, []);
+  
+  /**
+   * Load albums on mount
+   */
+  useEffect(() => {
+    if (enabled) {
+      fetchAlbums();
+    }
+  }, [enabled, fetchAlbums]);
+  
+  return {
+    albums,
+    isLoading,
+    fetchAlbums: () => fetchAlbums(false),
+    refreshAlbums: () => fetchAlbums(true),
+    createAlbum,
+    updateAlbum,
+    deleteAlbum,
+    addPhotosToAlbum,
+    setPhotoAlbums,
+  };
+}
+
+/**
+ * Custom hook for a single album and its photos
+ * 
+ * @example
+ * ```tsx
+ * const { album, photos, removePhoto } = useAlbum(albumId);
+ * ```
+ */
+export function useAlbum(id: string) {
+  const [album, setAlbum] = useState<AlbumSummary | null>(null);
+  const [photos, setPhotos] = useState<PhotoFrame[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  
+  /**
+   * Load the album and its photos
+   * @param silent - If true, don't show loading state
+   */
+  const fetchAlbum = useCallback(async (silent: boolean = false) => {
+    if (!silent) {
+      setIsLoading(true);
+    }
+    try {
+      const result = await albumApi.fetchAlbum(id);
+      
+      if (result.success) {
+        setAlbum(result.data.album);
+        setPhotos(result.data.photos);
+        setNotFound(false);
+      } else if (result.notFound) {
+        setNotFound(true);
+      } else {
+        throw new Error(result.error);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to fetch album';
+      toast.error(message);
+    } finally {
+      if (!silent) {
+        setIsLoading(false);
+      }
+    }
+  }, [id]);
+  
+  /**
+   * Update the album's details, cover or photo order
+   */
+  const updateAlbum = useCallback(async (data: UpdateAlbumInput): Promise<boolean> => {
+    try {
+      const result = await albumApi.updateAlbum(id, data);
+      
+      if (result.success) {
+        setAlbum(result.data);
+        if (data.photoIds) {
+          // Follow the new order locally instead of refetching
+          const photoById = new Map(photos.map((p) => [p.id, p]));
+          setPhotos(data.photoIds.map((photoId) => photoById.get(photoId)).filter((p): p is PhotoFrame => !!p));
+        }
+        return true;
+      } else {
+        throw new Error(result.error);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to update album';
+      toast.error(message);
+      return false;
+    }
+  }, [id, photos]);
+  
+  /**
+   * Put the album's photos in a new order, shown right away and rolled
+   * back if the server refuses
+   * @param orderedIds - Shown photos in their new order; photos hidden in
+   *                     the trash keep their places
+   */
+  const reorderPhotos = useCallback(async (orderedIds: string[]): Promise<boolean> => {
+    if (!album) return false;
+    
+    const previous = photos;
+    const photoById = new Map(photos.map((p) => [p.id, p]));
+    setPhotos(orderedIds.map((photoId) => photoById.get(photoId)).filter((p): p is PhotoFrame => !!p));
+    
+    const shown = new Set(orderedIds);
+    const queue = [...orderedIds];
+    const reordered = await updateAlbum({
+      photoIds: album.photoIds.map((photoId) => (shown.has(photoId) ? queue.shift()! : photoId)),
+    });
+    if (!reordered) {
+      setPhotos(previous);
+    }
+    return reordered;
+  }, [album, photos, updateAlbum]);
+  
+  /**
+   * Take a photo out of the album (it stays in the gallery)
+   */
+  const removePhoto = useCallback(async (photoId: string): Promise<boolean> => {
+    if (!album) return false;
+    
+    const removed = await updateAlbum({
+      photoIds: album.photoIds.filter((p) => p !== photoId),
+      coverPhotoId: album.coverPhotoId === photoId ? null : undefined,
+    });
+    if (removed) {
+      toast.success('Removed from album');
+    }
+    return removed;
+  }, [album, updateAlbum]);
+  
+  /**
+   * Toggle a photo's favorite status
+   */
+  const toggleFavorite = useCallback(async (photo: PhotoFrame): Promise<void> => {
+    const setFavorite = (isFavorite: boolean) => setPhotos((current) =>
+      current.map((p) => (p.id === photo.id ? { ...p, isFavorite } : p))
+    );
+    
+    // Optimistic update
+    setFavorite(!photo.isFavorite);
+    
+    try {
+      let result = await albumApi.setFavorite(photo.id, !photo.isFavorite, photo.version);
+      
+      // Someone else edited the photo meanwhile; the flag alone can't clash
+      // with their edit, so apply it on top of their version
+      if (result.conflict) {
+        result = await albumApi.setFavorite(photo.id, !photo.isFavorite, result.conflict.version);
+      }
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      
+      setPhotos((current) => current.map((p) => (p.id === photo.id ? result.data : p)));
+    } catch {
+      // Revert on error
+      setFavorite(photo.isFavorite);
+      toast.error('Failed to update favorite');
+    }
+  }, []);
+  
+  /**
+   * Delete the album
+   */
+  const deleteAlbum = useCallback(async (): Promise<boolean> => {
+    try {
+      const result = await albumApi.deleteAlbum(id);
+      
+      if (result.success) {
+        toast.success('Album deleted');
+        return true;
+      } else {
+        throw new Error(result.error);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to delete album';
+      toast.error(message);
+      return false;
+    }
+  }, [id]);
+  
+  /**
+   * Load the album on mount and when the ID changes
+   */
+  useEffect(() => {
+    fetchAlbum();
+  }, [fetchAlbum]);
+  
+  return {
+    album,
+    photos,
+    isLoading,
+    notFound,
+    fetchAlbum: () => fetchAlbum(false),
+    refreshAlbum: () => fetchAlbum(true),
+    updateAlbum,
+    reorderPhotos,
+    removePhoto,
+    toggleFavorite,
+    deleteAlbum,
+  };
+}
+
+export default useAlbums;
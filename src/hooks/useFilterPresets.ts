@@ -0,0 +1,193 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import type { CreateFilterPresetInput, FilterPreset } from '@/types/photo';
+
+/**
+ * API client for filter preset operations
+ */
+const filterPresetApi = {
+  async fetchPresets() {
+    const response = await fetch('/api/filter-presets');
+    if (!response.ok) {
+      throw new Error('Failed to fetch presets');
+    }
+    return response.json();
+  },
+  
+  async createPreset(data: CreateFilterPresetInput) {
+    const response = await fetch('/api/filter-presets', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || error.error || 'Failed to save preset');
+    }
+    return response.json();
+  },
+  
+  async renamePreset(id: string, name: string) {
+    const response = await fetch(`/api/filter-presets/${id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name }),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || error.error || 'Failed to rename preset');
+    }
+    return response.json();
+  },
+  
+  async deletePreset(id: string) {
+    const response = await fetch(`/api/filter-presets/${id}`, {
+      method: 'DELETE',
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to delete preset');
+    }
+    return response.json();
+  },
+};
+
+/**
+ * Sort presets by name, as the server lists them
+ */
+function byName(presets: FilterPreset[]): FilterPreset[] {
+  return [...presets].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Custom hook for the signed-in user's filter presets
+ * 
+ * Presets are stored on the server per user, so they are the same on
+ * every device.
+ * 
+ * @example
+ * ```tsx
+ * const { presets, createPreset } = useFilterPresets();
+ * await createPreset({ name: 'Beach days', filters, sort: sortOption });
+ * ```
+ */
+export function useFilterPresets(options: { enabled?: boolean } = {}) {
+  const { enabled = true } = options;
+  
+  const [presets, setPresets] = useState<FilterPreset[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  
+  /**
+   * Load the user's presets
+   * @param silent - If true, don't show loading state or error toasts
+   */
+  const fetchPresets = useCallback(async (silent: boolean = false) => {
+    if (!silent) {
+      setIsLoading(true);
+    }
+    try {
+      const result = await filterPresetApi.fetchPresets();
+      
+      if (result.success) {
+        setPresets(result.data);
+      } else {
+        throw new Error(result.error);
+      }
+    } catch (err) {
+      if (!silent) {
+        const message = err instanceof Error ? err.message : 'Failed to fetch presets';
+        toast.error(message);
+      }
+    } finally {
+      if (!silent) {
+        setIsLoading(false);
+      }
+    }
+  }, []);
+  
+  /**
+   * Save filters and a sort as a new preset
+   */
+  const createPreset = useCallback(async (
+    data: CreateFilterPresetInput
+  ): Promise<FilterPreset | null> => {
+    try {
+      const result = await filterPresetApi.createPreset(data);
+      
+      if (result.success) {
+        setPresets((current) => byName([...current, result.data]));
+        toast.success(`Saved preset "${result.data.name}" 🔖`);
+        return result.data;
+      } else {
+        throw new Error(result.error);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to save preset';
+      toast.error(message);
+      return null;
+    }
+  }, []);
+  
+  /**
+   * Rename a preset
+   */
+  const renamePreset = useCallback(async (id: string, name: string): Promise<boolean> => {
+    try {
+      const result = await filterPresetApi.renamePreset(id, name);
+      
+      if (result.success) {
+        setPresets((current) => byName(current.map((p) => (p.id === id ? result.data : p))));
+        return true;
+      } else {
+        throw new Error(result.error);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to rename preset';
+      toast.error(message);
+      return false;
+    }
+  }, []);
+  
+  /**
+   * Delete a preset
+   */
+  const deletePreset = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      const result = await filterPresetApi.deletePreset(id);
+      
+      if (result.success) {
+        setPresets((current) => current.filter((p) => p.id !== id));
+        toast.success('Preset deleted');
+        return true;
+      } else {
+        throw new Error(result.error);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to delete preset';
+      toast.error(message);
+      return false;
+    }
+  }, []);
+  
+  /**
+   * Load presets once enabled
+   */
+  useEffect(() => {
+    if (enabled) {
+      fetchPresets();
+    }
+  }, [enabled, fetchPresets]);
+  
+  return {
+    presets,
+    isLoading,
+    fetchPresets: () => fetchPresets(false),
+    createPreset,
+    renamePreset,
+    deletePreset,
+  };
+}
+
+export default useFilterPresets;
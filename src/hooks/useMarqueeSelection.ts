@@ -0,0 +1,140 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState, type RefObject } from 'react';
+
+/**
+ * Options for useMarqueeSelection hook
+ */
+interface UseMarqueeSelectionOptions {
+  /** Whether dragging a marquee is allowed */
+  enabled?: boolean;
+  /** Attribute on each selectable element holding its ID */
+  idAttribute?: string;
+  /** Called when a drag starts; `additive` if Shift, Ctrl or Cmd is held */
+  onStart?: (additive: boolean) => void;
+  /** Called with the IDs under the marquee whenever it changes */
+  onSelect: (ids: string[]) => void;
+}
+
+/**
+ * Marquee rectangle, relative to the container
+ */
+export interface MarqueeRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Distance the pointer must travel before a press becomes a drag
+ */
+const DRAG_THRESHOLD = 5;
+
+/**
+ * Custom hook for rubber-band selection inside a container
+ * 
+ * Dragging with a mouse or pen draws a rectangle; every element with the
+ * ID attribute it touches is reported. The click that ends a drag is
+ * swallowed so it doesn't also toggle the item under the pointer.
+ * 
+ * @example
+ * ```tsx
+ * const { marquee, onPointerDown } = useMarqueeSelection(gridRef, {
+ *   onSelect: (ids) => setSelectedIds(new Set(ids)),
+ * });
+ * ```
+ */
+export function useMarqueeSelection(
+  containerRef: RefObject<HTMLElement | null>,
+  options: UseMarqueeSelectionOptions
+) {
+  const { enabled = true, idAttribute = 'data-select-id', onStart, onSelect } = options;
+  
+  const [marquee, setMarquee] = useState<MarqueeRect | null>(null);
+  const cleanupRef = useRef<(() => void) | null>(null);
+  
+  // Keep the latest callbacks without restarting a drag
+  const callbacks = useRef({ onStart, onSelect });
+  useEffect(() => {
+    callbacks.current = { onStart, onSelect };
+  }, [onStart, onSelect]);
+  
+  const onPointerDown = useCallback((event: React.PointerEvent) => {
+    const container = containerRef.current;
+    if (!enabled || !container || event.button !== 0 || event.pointerType === 'touch') {
+      return;
+    }
+    
+    // Page coordinates, so scrolling during the drag keeps the start in place
+    const start = { x: event.pageX, y: event.pageY };
+    const additive = event.shiftKey || event.ctrlKey || event.metaKey;
+    let isDragging = false;
+    
+    const handleMove = (move: PointerEvent) => {
+      const x = move.pageX;
+      const y = move.pageY;
+      
+      if (!isDragging) {
+        if (Math.hypot(x - start.x, y - start.y) < DRAG_THRESHOLD) return;
+        isDragging = true;
+        callbacks.current.onStart?.(additive);
+      }
+      move.preventDefault();
+      
+      // Selection rectangle in viewport coordinates
+      const left = Math.min(start.x, x) - window.scrollX;
+      const top = Math.min(start.y, y) - window.scrollY;
+      const right = Math.max(start.x, x) - window.scrollX;
+      const bottom = Math.max(start.y, y) - window.scrollY;
+      
+      const bounds = container.getBoundingClientRect();
+      setMarquee({ left: left - bounds.left, top: top - bounds.top, width: right - left, height: bottom - top });
+      
+      const ids = Array.from(container.querySelectorAll<HTMLElement>(`[${idAttribute}]`))
+        .filter((element) => {
+          const rect = element.getBoundingClientRect();
+          return rect.left < right && rect.right > left && rect.top < bottom && rect.bottom > top;
+        })
+        .map((element) => element.getAttribute(idAttribute)!);
+      callbacks.current.onSelect(ids);
+    };
+    
+    const handleUp = () => {
+      cleanup();
+      if (!isDragging) return;
+      
+      setMarquee(null);
+      
+      // Swallow the click that follows the drag
+      const swallow = (click: MouseEvent) => click.stopPropagation();
+      window.addEventListener('click', swallow, { capture: true, once: true });
+      setTimeout(() => window.removeEventListener('click', swallow, { capture: true }), 0);
+    };
+    
+    const cleanup = () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      window.removeEventListener('pointercancel', handleUp);
+      cleanupRef.current = null;
+    };
+    
+    cleanupRef.current?.();
+    cleanupRef.current = cleanup;
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    window.addEventListener('pointercancel', handleUp);
+  }, [containerRef, enabled, idAttribute]);
+  
+  /**
+   * Stop listening if the component goes away mid-drag
+   */
+  useEffect(() => () => cleanupRef.current?.(), []);
+  
+  return {
+    marquee,
+    onPointerDown,
+  };
+}
+
+export default useMarqueeSelection;
@@ -0,0 +1,142 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useGalleryStore } from '@/stores/galleryStore';
+import type { PhotoChanges, PhotoEvent } from '@/types/photo';
+
+/**
+ * Options for usePhotoEvents hook
+ */
+interface UsePhotoEventsOptions {
+  /** Whether to keep a stream open */
+  enabled?: boolean;
+  /** Wait before reconnecting after the stream fails (default: 60000) */
+  retryInterval?: number;
+  /** Called when the gallery must be reloaded from scratch */
+  onReset?: () => void;
+  /** Called after photo changes from the stream are applied */
+  onChange?: () => void;
+}
+
+/**
+ * Apply one live event to the gallery store
+ */
+function applyPhotoEvent(event: PhotoEvent): void {
+  const { applyChanges, applyPositions } = useGalleryStore.getState();
+  
+  switch (event.type) {
+    case 'created':
+      applyChanges({ created: [event.photo], updated: [], deleted: [] });
+      break;
+    case 'updated':
+      applyChanges({ created: [], updated: [event.photo], deleted: [] });
+      break;
+    case 'deleted':
+      applyChanges({ created: [], updated: [], deleted: [event.id] });
+      break;
+    case 'reordered':
+      applyPositions(event.positions);
+      break;
+  }
+}
+
+/**
+ * Custom hook that keeps the gallery store live over Server-Sent Events
+ * 
+ * Connects to GET /api/photos/events, resuming from the store's sync
+ * cursor. When the stream fails it stays closed for `retryInterval` so
+ * callers can fall back to polling while `isConnected` is false.
+ * 
+ * @example
+ * ```tsx
+ * const { isConnected } = usePhotoEvents({ onReset: () => fetchPhotos(true) });
+ * usePolling(syncChanges, { enabled: !isConnected });
+ * ```
+ */
+export function usePhotoEvents(options: UsePhotoEventsOptions = {}) {
+  const {
+    enabled = true,
+    retryInterval = 60000, // 1 minute default
+    onReset,
+    onChange,
+  } = options;
+  
+  const [isConnected, setIsConnected] = useState(false);
+  
+  // Keep the latest callback without reopening the stream
+  const onResetRef = useRef(onReset);
+  const onChangeRef = useRef(onChange);
+  useEffect(() => {
+    onResetRef.current = onReset;
+    onChangeRef.current = onChange;
+  }, [onReset, onChange]);
+  
+  useEffect(() => {
+    if (!enabled || typeof EventSource === 'undefined') {
+      return;
+    }
+    
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    
+    const connect = () => {
+      const { syncCursor } = useGalleryStore.getState();
+      const query = syncCursor ? `?since=${encodeURIComponent(syncCursor)}` : '';
+      source = new EventSource(`/api/photos/events${query}`);
+      
+      source.addEventListener('ready', (message) => {
+        const { cursor } = JSON.parse((message as MessageEvent<string>).data);
+        if (!useGalleryStore.getState().syncCursor) {
+          useGalleryStore.getState().setSyncCursor(cursor);
+        }
+        setIsConnected(true);
+      });
+      
+      source.addEventListener('photo', (message) => {
+        applyPhotoEvent(JSON.parse((message as MessageEvent<string>).data));
+        onChangeRef.current?.();
+      });
+      
+      source.addEventListener('changes', (message) => {
+        const changes: PhotoChanges = JSON.parse((message as MessageEvent<string>).data);
+        
+        if (changes.reset) {
+          onResetRef.current?.();
+          return;
+        }
+        
+        useGalleryStore.getState().applyChanges(changes);
+        useGalleryStore.getState().setSyncCursor(changes.cursor);
+        
+        if (changes.created.length + changes.updated.length + changes.deleted.length > 0) {
+          onChangeRef.current?.();
+        }
+      });
+      
+      // Don't let EventSource retry on its own; poll until we try again
+      source.onerror = () => {
+        source?.close();
+        source = null;
+        setIsConnected(false);
+        retryTimer = setTimeout(connect, retryInterval);
+      };
+    };
+    
+    connect();
+    
+    return () => {
+      source?.close();
+      if (retryTimer) {
+        clearTimeout(retryTimer);
+      }
+      setIsConnected(false);
+    };
+  }, [enabled, retryInterval]);
+  
+  return {
+    /** Whether the stream is open and delivering events */
+    isConnected,
+  };
+}
+
+export default usePhotoEvents;
@@ -1,18 +1,46 @@
 'use client';
 
-import { useCallback, useEffect, useRef } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { toast } from 'sonner';
 import { useGalleryStore } from '@/stores/galleryStore';
 import { usePolling } from './usePolling';
-import type { PhotoFrame, PhotoFilters, PhotoSortOption, CreatePhotoInput, UpdatePhotoInput } from '@/types/photo';
+import { usePhotoEvents } from './usePhotoEvents';
+import type {
+  PhotoFrame,
+  PhotoFilters,
+  PhotoSortOption,
+  CreatePhotoInput,
+  UpdatePhotoInput,
+  PhotoConflict,
+  PhotoConflictResolution,
+  PaginationOptions,
+  PhotoBatchOperation,
+  PhotoBatchResult,
+  FrameColor,
+} from '@/types/photo';
+
+/**
+ * Photos loaded per page
+ */
+const PAGE_SIZE = 50;
+
+/**
+ * Largest page the API serves, used when reloading everything loaded so far
+ */
+const MAX_PAGE_SIZE = 500;
+
+/**
+ * Most photos created per bulk request
+ */
+const BULK_CREATE_SIZE = 100;
 
 /**
  * Configuration for usePhotos hook
  */
 interface UsePhotosOptions {
-  /** Enable auto-polling for real-time updates */
+  /** Enable real-time updates (event stream, with polling as fallback) */
   enablePolling?: boolean;
-  /** Polling interval in milliseconds (default: 15000 = 15 seconds) */
+  /** Fallback polling interval in milliseconds (default: 15000 = 15 seconds) */
   pollingInterval?: number;
 }
 
@@ -20,7 +48,11 @@ interface UsePhotosOptions {
  * API client for photo operations
  */
 const photoApi = {
-  async fetchPhotos(filters?: PhotoFilters, sort?: PhotoSortOption) {
+  async fetchPhotos(
+    filters?: PhotoFilters,
+    sort?: PhotoSortOption,
+    page: PaginationOptions = { limit: PAGE_SIZE }
+  ) {
     const params = new URLSearchParams();
     
     if (filters?.search) {
@@ -28,13 +60,32 @@ const photoApi = {
     }
     if (filters?.tags && filters.tags.length > 0) {
       params.set('tags', filters.tags.join(','));
+      if (filters.tagMode === 'all') {
+        params.set('tagMode', 'all');
+      }
+    }
+    if (filters?.excludedTags && filters.excludedTags.length > 0) {
+      params.set('excludeTags', filters.excludedTags.join(','));
     }
     if (filters?.favoritesOnly) {
       params.set('favoritesOnly', 'true');
     }
+    if (filters?.trashed) {
+      params.set('trashed', 'true');
+    }
+    if (filters?.dateRange?.from) {
+      params.set('from', filters.dateRange.from);
+    }
+    if (filters?.dateRange?.to) {
+      params.set('to', filters.dateRange.to);
+    }
     if (sort) {
       params.set('sort', sort);
     }
+    if (page.after) {
+      params.set('after', page.after);
+    }
+    params.set('limit', String(page.limit));
     
     const response = await fetch(`/api/photos?${params}`);
     if (!response.ok) {
@@ -43,6 +94,14 @@ const photoApi = {
     return response.json();
   },
   
+  async fetchChanges(since: string) {
+    const response = await fetch(`/api/photos/changes?since=${encodeURIComponent(since)}`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch changes');
+    }
+    return response.json();
+  },
+  
   async createPhoto(data: CreatePhotoInput) {
     const response = await fetch('/api/photos', {
       method: 'POST',
@@ -56,12 +115,35 @@ const photoApi = {
     return response.json();
   },
   
-  async updatePhoto(id: string, data: UpdatePhotoInput) {
+  async createPhotos(photos: CreatePhotoInput[]) {
+    const response = await fetch('/api/photos/bulk', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ photos }),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || error.error || 'Failed to create photos');
+    }
+    return response.json();
+  },
+  
+  async updatePhoto(id: string, data: UpdatePhotoInput, version?: number) {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (version !== undefined) {
+      headers['If-Match'] = `"${version}"`;
+    }
+    
     const response = await fetch(`/api/photos/${id}`, {
       method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
+      headers,
       body: JSON.stringify(data),
     });
+    if (response.status === 409) {
+      // Someone else changed the photo; hand back their copy
+      const result = await response.json();
+      return { success: false, error: result.error, conflict: result.data as PhotoFrame };
+    }
     if (!response.ok) {
       const error = await response.json();
       throw new Error(error.error || 'Failed to update photo');
@@ -69,8 +151,8 @@ const photoApi = {
     return response.json();
   },
   
-  async deletePhoto(id: string) {
-    const response = await fetch(`/api/photos/${id}`, {
+  async deletePhoto(id: string, permanent: boolean = false) {
+    const response = await fetch(`/api/photos/${id}${permanent ? '?permanent=true' : ''}`, {
       method: 'DELETE',
     });
     if (!response.ok) {
@@ -80,17 +162,80 @@ const photoApi = {
     return response.json();
   },
   
-  async toggleFavorite(id: string, isFavorite: boolean) {
-    return this.updatePhoto(id, { isFavorite });
+  async restorePhoto(id: string) {
+    const response = await fetch(`/api/photos/${id}/restore`, {
+      method: 'POST',
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to restore photo');
+    }
+    return response.json();
+  },
+  
+  async toggleFavorite(id: string, isFavorite: boolean, version?: number) {
+    return this.updatePhoto(id, { isFavorite }, version);
+  },
+  
+  async batchUpdatePhotos(ids: string[], operation: PhotoBatchOperation) {
+    const response = await fetch('/api/photos/batch', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ids, operation }),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || error.error || 'Failed to update photos');
+    }
+    return response.json();
+  },
+  
+  async reorderPhotos(ids: string[]) {
+    const response = await fetch('/api/photos/reorder', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ids }),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || error.error || 'Failed to reorder photos');
+    }
+    return response.json();
   },
 };
 
 /**
- * Custom hook for managing photos with real-time polling support
+ * "1 photo" / "3 photos"
+ */
+function countPhotos(count: number): string {
+  return `${count} ${count === 1 ? 'photo' : 'photos'}`;
+}
+
+/**
+ * Compare two field values, treating missing and empty values as equal
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  const normalize = (value: unknown) => (value === '' || value === undefined ? null : value);
+  return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+}
+
+/**
+ * Pick the fields of an edit that actually differ from the photo it started from
+ */
+function getLocalChanges(base: PhotoFrame, changes: UpdatePhotoInput): UpdatePhotoInput {
+  return Object.fromEntries(
+    Object.entries(changes).filter(([key, value]) =>
+      !isSameValue(value, base[key as keyof PhotoFrame])
+    )
+  ) as UpdatePhotoInput;
+}
+
+/**
+ * Custom hook for managing photos with real-time updates
  * 
  * Combines the Zustand store with API calls and provides
- * a clean interface for photo operations. Supports automatic
- * polling for real-time updates across multiple users.
+ * a clean interface for photo operations. Changes from other users
+ * arrive over the event stream; polling takes over while it is down.
  * 
  * @param options - Configuration options
  * @param options.enablePolling - Enable auto-refresh (default: true)
@@ -113,6 +258,12 @@ export function usePhotos(options: UsePhotosOptions = {}) {
   // Track if this is the initial load
   const isInitialLoad = useRef(true);
   
+  // Edit rejected because someone else changed the photo first
+  const [conflict, setConflict] = useState<PhotoConflict | null>(null);
+  
+  // A background sync request is in flight
+  const [isSyncing, setIsSyncing] = useState(false);
+  
   const {
     photos,
     selectedPhoto,
@@ -121,8 +272,13 @@ export function usePhotos(options: UsePhotosOptions = {}) {
     isLoading,
     error,
     allTags,
+    tagColors,
     totalCount,
+    nextPageCursor,
+    isLoadingMore,
     setPhotos,
+    appendPhotos,
+    setLoadingMore,
     addPhoto: addPhotoToStore,
     updatePhoto: updatePhotoInStore,
     deletePhoto: deletePhotoFromStore,
@@ -134,13 +290,19 @@ export function usePhotos(options: UsePhotosOptions = {}) {
     setLoading,
     setError,
     setAllTags,
+    setTagColors,
+    setSyncCursor,
+    applyChanges,
+    applyPositions,
+    reorderPhotos: reorderPhotosInStore,
     filteredPhotos,
     filteredCount,
   } = useGalleryStore();
   
   /**
-   * Fetch photos from API
-   * @param silent - If true, don't show loading state (for background polling)
+   * Fetch the first page of photos from API
+   * @param silent - If true, don't show loading state (for background polling).
+   *                 Silent reloads keep as many photos loaded as before.
    */
   const fetchPhotos = useCallback(async (silent: boolean = false) => {
     if (!silent) {
@@ -148,12 +310,18 @@ export function usePhotos(options: UsePhotosOptions = {}) {
     }
     setError(null);
     
+    const limit = silent
+      ? Math.min(Math.max(useGalleryStore.getState().photos.length, PAGE_SIZE), MAX_PAGE_SIZE)
+      : PAGE_SIZE;
+    
     try {
-      const result = await photoApi.fetchPhotos(filters, sortOption);
+      const result = await photoApi.fetchPhotos(filters, sortOption, { limit });
       
       if (result.success) {
-        setPhotos(result.data.photos, result.data.total);
+        setPhotos(result.data.photos, result.data.total, result.data.nextCursor);
         setAllTags(result.data.allTags || []);
+        setTagColors(result.data.tagColors || {});
+        setSyncCursor(result.data.cursor ?? null);
         
         // Mark initial load as complete
         if (isInitialLoad.current) {
@@ -174,14 +342,107 @@ export function usePhotos(options: UsePhotosOptions = {}) {
         setLoading(false);
       }
     }
-  }, [filters, sortOption, setPhotos, setAllTags, setLoading, setError]);
+  }, [filters, sortOption, setPhotos, setAllTags, setTagColors, setSyncCursor, setLoading, setError]);
   
   /**
-   * Silent fetch for polling (doesn't show loading state)
+   * Load the next page of photos, if there is one
    */
-  const silentFetch = useCallback(async () => {
-    await fetchPhotos(true);
-  }, [fetchPhotos]);
+  const loadMore = useCallback(async () => {
+    const { nextPageCursor: after, isLoadingMore: busy, isLoading: loading } = useGalleryStore.getState();
+    if (!after || busy || loading) {
+      return;
+    }
+    
+    setLoadingMore(true);
+    try {
+      const result = await photoApi.fetchPhotos(filters, sortOption, { after, limit: PAGE_SIZE });
+      
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      
+      // Filters or sort changed while loading; this page no longer applies
+      const current = useGalleryStore.getState();
+      if (current.nextPageCursor === after && current.filters === filters && current.sortOption === sortOption) {
+        appendPhotos(result.data.photos, result.data.nextCursor);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to load more photos';
+      toast.error(message);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [filters, sortOption, appendPhotos, setLoadingMore]);
+  
+  /**
+   * Load every remaining page of the current query, e.g. to select all
+   * @returns Every photo matching the current filters
+   */
+  const loadAllPhotos = useCallback(async (): Promise<PhotoFrame[]> => {
+    let { nextPageCursor: after } = useGalleryStore.getState();
+    if (!after || useGalleryStore.getState().isLoadingMore) {
+      return useGalleryStore.getState().filteredPhotos();
+    }
+    
+    setLoadingMore(true);
+    try {
+      while (after) {
+        const result = await photoApi.fetchPhotos(filters, sortOption, { after, limit: MAX_PAGE_SIZE });
+        
+        if (!result.success) {
+          throw new Error(result.error);
+        }
+        
+        // Filters or sort changed while loading; stop with what applies
+        const current = useGalleryStore.getState();
+        if (current.nextPageCursor !== after || current.filters !== filters || current.sortOption !== sortOption) {
+          break;
+        }
+        appendPhotos(result.data.photos, result.data.nextCursor);
+        after = result.data.nextCursor;
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to load photos';
+      toast.error(message);
+    } finally {
+      setLoadingMore(false);
+    }
+    
+    return useGalleryStore.getState().filteredPhotos();
+  }, [filters, sortOption, appendPhotos, setLoadingMore]);
+  
+  /**
+   * Background sync for polling: applies changes since the last fetch,
+   * falling back to a silent full fetch when the cursor is missing or stale
+   */
+  const syncChanges = useCallback(async () => {
+    const { syncCursor } = useGalleryStore.getState();
+    if (!syncCursor) {
+      await fetchPhotos(true);
+      return;
+    }
+    
+    setIsSyncing(true);
+    try {
+      const result = await photoApi.fetchChanges(syncCursor);
+      
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      
+      if (result.data.reset) {
+        await fetchPhotos(true);
+        return;
+      }
+      
+      applyChanges(result.data);
+      setSyncCursor(result.data.cursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sync photos');
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [fetchPhotos, applyChanges, setSyncCursor, setError]);
   
   /**
    * Create a new photo
@@ -204,23 +465,60 @@ export function usePhotos(options: UsePhotosOptions = {}) {
     }
   }, [addPhotoToStore]);
   
+  /**
+   * Create many photos, in order, a hundred per request
+   * @returns The photos created; if a request fails the rest are not sent,
+   *          so these are always the first photos of `data`
+   */
+  const addPhotos = useCallback(async (data: CreatePhotoInput[]): Promise<PhotoFrame[]> => {
+    const created: PhotoFrame[] = [];
+    
+    try {
+      for (let start = 0; start < data.length; start += BULK_CREATE_SIZE) {
+        const result = await photoApi.createPhotos(data.slice(start, start + BULK_CREATE_SIZE));
+        
+        if (!result.success) {
+          throw new Error(result.error);
+        }
+        created.push(...result.data);
+        applyChanges({ created: result.data, updated: [], deleted: [] });
+      }
+      toast.success(`Added ${countPhotos(created.length)}! ✨`);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to add photos';
+      toast.error(created.length > 0 ? `Added ${countPhotos(created.length)}, then failed: ${message}` : message);
+    }
+    return created;
+  }, [applyChanges]);
+  
   /**
    * Update an existing photo
+   * @param base - The photo as it was when editing started (defaults to the
+   *               current store copy); its version guards against lost updates
    */
   const updatePhoto = useCallback(async (
     id: string,
-    data: UpdatePhotoInput
+    data: UpdatePhotoInput,
+    base?: PhotoFrame
   ): Promise<PhotoFrame | null> => {
+    const original = base ?? useGalleryStore.getState().photos.find((p) => p.id === id);
+    
     // Optimistic update
     updatePhotoInStore(id, data);
     
     try {
-      const result = await photoApi.updatePhoto(id, data);
+      const result = await photoApi.updatePhoto(id, data, original?.version);
       
       if (result.success) {
         updatePhotoInStore(id, result.data);
         toast.success('Photo updated! 💕');
         return result.data;
+      } else if (result.conflict) {
+        // Show the server copy and let the user decide what to do; without
+        // a base, the server copy stands in so the edit is not lost
+        updatePhotoInStore(id, result.conflict);
+        setConflict({ base: original ?? result.conflict, current: result.conflict, changes: data });
+        return null;
       } else {
         throw new Error(result.error);
       }
@@ -234,7 +532,64 @@ export function usePhotos(options: UsePhotosOptions = {}) {
   }, [updatePhotoInStore, fetchPhotos]);
   
   /**
-   * Delete a photo
+   * Resolve a pending edit conflict
+   */
+  const resolveConflict = useCallback(async (
+    resolution: PhotoConflictResolution
+  ): Promise<PhotoFrame | null> => {
+    if (!conflict) return null;
+    
+    setConflict(null);
+    
+    if (resolution === 'keep-theirs') {
+      toast('Kept the latest version');
+      return conflict.current;
+    }
+    
+    const changes = resolution === 'merge'
+      ? getLocalChanges(conflict.base, conflict.changes)
+      : conflict.changes;
+    
+    if (Object.keys(changes).length === 0) {
+      toast('Nothing left to merge');
+      return conflict.current;
+    }
+    
+    return updatePhoto(conflict.current.id, changes, conflict.current);
+  }, [conflict, updatePhoto]);
+  
+  /**
+   * Restore a photo from the trash
+   */
+  const restorePhoto = useCallback(async (id: string): Promise<PhotoFrame | null> => {
+    try {
+      const result = await photoApi.restorePhoto(id);
+      
+      if (result.success) {
+        const { photos: current, filters: currentFilters } = useGalleryStore.getState();
+        
+        if (currentFilters.trashed) {
+          deletePhotoFromStore(id);
+        } else if (current.some((p) => p.id === id)) {
+          updatePhotoInStore(id, { ...result.data, deletedAt: undefined });
+        } else {
+          addPhotoToStore(result.data);
+        }
+        
+        toast.success('Photo restored 💕');
+        return result.data;
+      } else {
+        throw new Error(result.error);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to restore photo';
+      toast.error(message);
+      return null;
+    }
+  }, [addPhotoToStore, updatePhotoInStore, deletePhotoFromStore]);
+  
+  /**
+   * Move a photo to the trash
    */
   const deletePhoto = useCallback(async (id: string): Promise<boolean> => {
     // Optimistic update
@@ -243,6 +598,33 @@ export function usePhotos(options: UsePhotosOptions = {}) {
     try {
       const result = await photoApi.deletePhoto(id);
       
+      if (result.success) {
+        toast.success('Moved to trash', {
+          action: { label: 'Undo', onClick: () => restorePhoto(id) },
+        });
+        return true;
+      } else {
+        throw new Error(result.error);
+      }
+    } catch (err) {
+      // Revert on error - refetch photos
+      fetchPhotos();
+      const message = err instanceof Error ? err.message : 'Failed to delete photo';
+      toast.error(message);
+      return false;
+    }
+  }, [deletePhotoFromStore, fetchPhotos, restorePhoto]);
+  
+  /**
+   * Permanently delete a photo and its media
+   */
+  const deletePhotoForever = useCallback(async (id: string): Promise<boolean> => {
+    // Optimistic update
+    deletePhotoFromStore(id);
+    
+    try {
+      const result = await photoApi.deletePhoto(id, true);
+      
       if (result.success) {
         toast.success('Photo deleted');
         return true;
@@ -268,7 +650,19 @@ export function usePhotos(options: UsePhotosOptions = {}) {
     toggleFavoriteInStore(photo.id);
     
     try {
-      await photoApi.toggleFavorite(photo.id, newFavoriteStatus);
+      let result = await photoApi.toggleFavorite(photo.id, newFavoriteStatus, photo.version);
+      
+      // Someone else edited the photo meanwhile; the flag alone can't clash
+      // with their edit, so apply it on top of their version
+      if (result.conflict) {
+        result = await photoApi.toggleFavorite(photo.id, newFavoriteStatus, result.conflict.version);
+      }
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      
+      // Keep the stored version current for later edits
+      updatePhotoInStore(photo.id, result.data);
       
       if (newFavoriteStatus) {
         toast.success('Added to favorites! 💕');
@@ -278,7 +672,137 @@ export function usePhotos(options: UsePhotosOptions = {}) {
       toggleFavoriteInStore(photo.id);
       toast.error('Failed to update favorite');
     }
-  }, [toggleFavoriteInStore]);
+  }, [toggleFavoriteInStore, updatePhotoInStore]);
+  
+  /**
+   * Apply one operation to many photos and merge the results into the store
+   * @param successMessage - Toast text for the number of photos changed
+   * @param undo - Offered in the toast with the IDs of the changed photos
+   * @returns Per-photo results, or null if the request failed
+   */
+  const batchUpdate = useCallback(async (
+    ids: string[],
+    operation: PhotoBatchOperation,
+    successMessage: (count: number) => string,
+    undo?: (changedIds: string[]) => void
+  ): Promise<PhotoBatchResult[] | null> => {
+    try {
+      const result = await photoApi.batchUpdatePhotos(ids, operation);
+      
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      
+      const results: PhotoBatchResult[] = result.data;
+      const updated = results.filter((r) => r.status === 'updated');
+      const failed = results.filter((r) => r.status === 'failed');
+      applyChanges({
+        created: [],
+        updated: updated.map((r) => r.photo!),
+        deleted: results.filter((r) => r.status === 'notFound').map((r) => r.id),
+      });
+      
+      if (failed.length > 0) {
+        toast.error(`${countPhotos(failed.length)} not changed: ${failed[0].error}`);
+      }
+      if (updated.length > 0) {
+        const changedIds = updated.map((r) => r.id);
+        toast.success(successMessage(updated.length), undo && {
+          action: { label: 'Undo', onClick: () => undo(changedIds) },
+        });
+      } else if (failed.length === 0) {
+        toast('Nothing to change');
+      }
+      return results;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to update photos';
+      toast.error(message);
+      return null;
+    }
+  }, [applyChanges]);
+  
+  /**
+   * Add tags to many photos
+   */
+  const addTagsToPhotos = useCallback((ids: string[], tags: string[]) => (
+    batchUpdate(ids, { type: 'addTags', tags }, (count) => `Tagged ${countPhotos(count)} 🏷️`)
+  ), [batchUpdate]);
+  
+  /**
+   * Remove tags from many photos
+   */
+  const removeTagsFromPhotos = useCallback((ids: string[], tags: string[]) => (
+    batchUpdate(ids, { type: 'removeTags', tags }, (count) => `Removed tags from ${countPhotos(count)}`)
+  ), [batchUpdate]);
+  
+  /**
+   * Favorite or unfavorite many photos
+   */
+  const setPhotosFavorite = useCallback((ids: string[], isFavorite: boolean) => (
+    batchUpdate(ids, { type: 'setFavorite', isFavorite }, (count) => (
+      isFavorite ? `Added ${countPhotos(count)} to favorites! 💕` : `Removed ${countPhotos(count)} from favorites`
+    ))
+  ), [batchUpdate]);
+  
+  /**
+   * Give many photos the same frame color
+   */
+  const setPhotosFrameColor = useCallback((ids: string[], frameColor: FrameColor) => (
+    batchUpdate(ids, { type: 'setFrameColor', frameColor }, (count) => `Reframed ${countPhotos(count)} 💕`)
+  ), [batchUpdate]);
+  
+  /**
+   * Set or clear the date taken of many photos
+   */
+  const setPhotosDateTaken = useCallback((ids: string[], dateTaken: string | null) => (
+    batchUpdate(ids, { type: 'setDateTaken', dateTaken }, (count) => `Updated the date of ${countPhotos(count)}`)
+  ), [batchUpdate]);
+  
+  /**
+   * Restore many photos from the trash
+   */
+  const restorePhotos = useCallback((ids: string[]) => (
+    batchUpdate(ids, { type: 'restore' }, (count) => `Restored ${countPhotos(count)} 💕`)
+  ), [batchUpdate]);
+  
+  /**
+   * Move many photos to the trash
+   */
+  const deletePhotos = useCallback((ids: string[]) => (
+    batchUpdate(ids, { type: 'delete' }, (count) => `Moved ${countPhotos(count)} to trash`, restorePhotos)
+  ), [batchUpdate, restorePhotos]);
+  
+  /**
+   * Put photos in a new manual order, shown right away and rolled back
+   * if the server refuses
+   * @param orderedIds - Photos in their new order; they swap the
+   *                     positions they hold between them
+   */
+  const reorderPhotos = useCallback(async (orderedIds: string[]): Promise<boolean> => {
+    const ids = new Set(orderedIds);
+    const previous = Object.fromEntries(
+      useGalleryStore.getState().photos
+        .filter((p) => ids.has(p.id))
+        .map((p) => [p.id, p.position])
+    );
+    reorderPhotosInStore(orderedIds);
+    
+    try {
+      const result = await photoApi.reorderPhotos(orderedIds);
+      
+      if (result.success) {
+        applyPositions(result.data);
+        return true;
+      } else {
+        throw new Error(result.error);
+      }
+    } catch (err) {
+      applyPositions(previous);
+      const message = err instanceof Error ? err.message : 'Failed to reorder photos';
+      toast.error(message);
+      return false;
+    }
+  }, [reorderPhotosInStore, applyPositions]);
   
   /**
    * Auto-fetch photos on mount and when filters/sort change
@@ -288,11 +812,19 @@ export function usePhotos(options: UsePhotosOptions = {}) {
   }, [fetchPhotos]);
   
   /**
-   * Set up polling for real-time updates
+   * Live updates over the event stream
    */
-  const { refresh, isPolling } = usePolling(silentFetch, {
+  const { isConnected: isLive } = usePhotoEvents({
+    enabled: enablePolling,
+    onReset: () => fetchPhotos(true),
+  });
+  
+  /**
+   * Poll for changes while the event stream is down
+   */
+  const { refresh, isPolling } = usePolling(syncChanges, {
     interval: pollingInterval,
-    enabled: enablePolling && !isInitialLoad.current,
+    enabled: enablePolling && !isInitialLoad.current && !isLive,
     immediate: false,
   });
   
@@ -313,19 +845,41 @@ export function usePhotos(options: UsePhotosOptions = {}) {
     isLoading,
     error,
     allTags,
+    tagColors,
     totalCount,
     filteredCount: filteredCount(),
+    hasMore: nextPageCursor !== null,
+    isLoadingMore,
     
-    // Polling state
+    // Sync state
     isPolling,
+    isSyncing,
+    isLive,
+    
+    // Pending edit conflict
+    conflict,
     
     // Actions
     fetchPhotos: () => fetchPhotos(false),
+    loadMore,
+    loadAllPhotos,
     refreshPhotos: refresh,
     addPhoto,
+    addPhotos,
     updatePhoto,
+    resolveConflict,
     deletePhoto,
+    deletePhotoForever,
+    restorePhoto,
     toggleFavorite,
+    addTagsToPhotos,
+    removeTagsFromPhotos,
+    setPhotosFavorite,
+    setPhotosFrameColor,
+    setPhotosDateTaken,
+    deletePhotos,
+    restorePhotos,
+    reorderPhotos,
     selectPhoto,
     setFilters,
     clearFilters,
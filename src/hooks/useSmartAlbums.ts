@@ -0,0 +1,487 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { usePolling } from './usePolling';
+import { usePhotoEvents } from './usePhotoEvents';
+import type {
+  CreateSmartAlbumInput,
+  PhotoChanges,
+  PhotoFrame,
+  SmartAlbumSummary,
+  UpdateSmartAlbumInput,
+} from '@/types/photo';
+
+/**
+ * Photos fetched per page of a smart album
+ */
+const PAGE_SIZE = 50;
+
+/**
+ * API client for smart album operations
+ */
+const smartAlbumApi = {
+  async fetchSmartAlbums() {
+    const response = await fetch('/api/smart-albums');
+    if (!response.ok) {
+      throw new Error('Failed to fetch smart albums');
+    }
+    return response.json();
+  },
+  
+  async fetchSmartAlbum(id: string, limit: number, after?: string) {
+    const params = new URLSearchParams({ limit: String(limit) });
+    if (after) {
+      params.set('after', after);
+    }
+    
+    const response = await fetch(`/api/smart-albums/${id}?${params}`);
+    if (response.status === 404) {
+      return { success: false, error: 'Smart album not found', notFound: true };
+    }
+    if (!response.ok) {
+      throw new Error('Failed to fetch smart album');
+    }
+    return response.json();
+  },
+  
+  async createSmartAlbum(data: CreateSmartAlbumInput) {
+    const response = await fetch('/api/smart-albums', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || error.error || 'Failed to create smart album');
+    }
+    return response.json();
+  },
+  
+  async updateSmartAlbum(id: string, data: UpdateSmartAlbumInput) {
+    const response = await fetch(`/api/smart-albums/${id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || error.error || 'Failed to update smart album');
+    }
+    return response.json();
+  },
+  
+  async deleteSmartAlbum(id: string) {
+    const response = await fetch(`/api/smart-albums/${id}`, {
+      method: 'DELETE',
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to delete smart album');
+    }
+    return response.json();
+  },
+  
+  async setFavorite(photoId: string, isFavorite: boolean, version?: number) {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (version !== undefined) {
+      headers['If-Match'] = `"${version}"`;
+    }
+    
+    const response = await fetch(`/api/photos/${photoId}`, {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify({ isFavorite }),
+    });
+    if (response.status === 409) {
+      // Someone else changed the photo; hand back their copy
+      const result = await response.json();
+      return { success: false, error: result.error, conflict: result.data as PhotoFrame };
+    }
+    if (!response.ok) {
+      throw new Error('Failed to update favorite');
+    }
+    return response.json();
+  },
+  
+  async fetchChanges(since: string) {
+    const response = await fetch(`/api/photos/changes?since=${encodeURIComponent(since)}`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch changes');
+    }
+    return response.json();
+  },
+};
+
+/**
+ * Custom hook for the smart album list
+ * 
+ * Photo counts and covers are evaluated by the server on every fetch;
+ * call `refreshSmartAlbums` after photos change to bring them up to date.
+ * 
+ * @example
+ * ```tsx
+ * const { smartAlbums, createSmartAlbum } = useSmartAlbums();
+ * await createSmartAlbum({ title: 'Travel favorites', filters, sort });
+ * ```
+ */
+export function useSmartAlbums(options: { enabled?: boolean } = {}) {
+  const { enabled = true } = options;
+  
+  const [smartAlbums, setSmartAlbums] = useState<SmartAlbumSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  
+  /**
+   * Load every smart album
+   * @param silent - If true, don't show loading state or error toasts
+   */
+  const fetchSmartAlbums = useCallback(async (silent: boolean = false) => {
+    if (!silent) {
+      setIsLoading(true);
+    }
+    try {
+      const result = await smartAlbumApi.fetchSmartAlbums();
+      
+      if (result.success) {
+        setSmartAlbums(result.data);
+      } else {
+        throw new Error(result.error);
+      }
+    } catch (err) {
+      if (!silent) {
+        const message = err instanceof Error ? err.message : 'Failed to fetch smart albums';
+        toast.error(message);
+      }
+    } finally {
+      if (!silent) {
+        setIsLoading(false);
+      }
+    }
+  }, []);
+  
+  /**
+   * Save a query as a new smart album
+   */
+  const createSmartAlbum = useCallback(async (
+    data: CreateSmartAlbumInput
+  ): Promise<SmartAlbumSummary | null> => {
+    try {
+      const result = await smartAlbumApi.createSmartAlbum(data);
+      
+      if (result.success) {
+        await fetchSmartAlbums(true);
+        toast.success(`Created smart album "${result.data.title}" ✨`);
+        return result.data;
+      } else {
+        throw new Error(result.error);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to create smart album';
+      toast.error(message);
+      return null;
+    }
+  }, [fetchSmartAlbums]);
+  
+  /**
+   * Delete a smart album
+   */
+  const deleteSmartAlbum = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      const result = await smartAlbumApi.deleteSmartAlbum(id);
+      
+      if (result.success) {
+        setSmartAlbums((current) => current.filter((album) => album.id !== id));
+        toast.success('Smart album deleted');
+        return true;
+      } else {
+        throw new Error(result.error);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to delete smart album';
+      toast.error(message);
+      return false;
+    }
+  }, []);
+  
+  /**
+   * Re-evaluate every smart album without a loading state
+   */
+  const refreshSmartAlbums = useCallback(() => fetchSmartAlbums(true), [fetchSmartAlbums]);
+  
+  /**
+   * Load smart albums on mount
+   */
+  useEffect(() => {
+    if (enabled) {
+      fetchSmartAlbums();
+    }
+  }, [enabled, fetchSmartAlbums]);
+  
+  return {
+    smartAlbums,
+    isLoading,
+    fetchSmartAlbums: () => fetchSmartAlbums(false),
+    refreshSmartAlbums,
+    createSmartAlbum,
+    deleteSmartAlbum,
+  };
+}
+
+/**
+ * Custom hook for a single smart album and the photos it matches
+ * 
+ * Loads photos a page at a time and re-evaluates the loaded pages when
+ * photos change, so photos added, edited or trashed elsewhere move in and
+ * out of the album. Changes arrive over the photo event stream; while it
+ * is down the change feed is checked every `pollingInterval`.
+ * 
+ * @example
+ * ```tsx
+ * const { smartAlbum, photos, hasMore, loadMore } = useSmartAlbum(id);
+ * ```
+ */
+export function useSmartAlbum(id: string, options: { pollingInterval?: number } = {}) {
+  const { pollingInterval = 15000 } = options;
+  
+  const [smartAlbum, setSmartAlbum] = useState<SmartAlbumSummary | null>(null);
+  const [photos, setPhotos] = useState<PhotoFrame[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [notFound, setNotFound] = useState(false);
+  
+  // Change feed position of the last fetch
+  const syncCursor = useRef<string | null>(null);
+  
+  // A refresh is running, and another was asked for meanwhile
+  const isRefreshing = useRef(false);
+  const refreshAgain = useRef(false);
+  
+  /**
+   * Load the smart album from its first photo
+   * @param limit - Number of photos to load, so a refresh keeps what was shown
+   * @param silent - If true, don't show loading state or error toasts
+   */
+  const fetchSmartAlbum = useCallback(async (limit: number, silent: boolean = false) => {
+    if (!silent) {
+      setIsLoading(true);
+    }
+    try {
+      const result = await smartAlbumApi.fetchSmartAlbum(id, limit);
+      
+      if (result.success) {
+        setSmartAlbum(result.data.smartAlbum);
+        setPhotos(result.data.photos);
+        setNextCursor(result.data.nextCursor);
+        setNotFound(false);
+        syncCursor.current = result.data.cursor ?? null;
+      } else if (result.notFound) {
+        setNotFound(true);
+      } else {
+        throw new Error(result.error);
+      }
+    } catch (err) {
+      if (!silent) {
+        const message = err instanceof Error ? err.message : 'Failed to fetch smart album';
+        toast.error(message);
+      }
+    } finally {
+      if (!silent) {
+        setIsLoading(false);
+      }
+    }
+  }, [id]);
+  
+  /**
+   * Load the next page of photos
+   */
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return;
+    
+    setIsLoadingMore(true);
+    try {
+      const result = await smartAlbumApi.fetchSmartAlbum(id, PAGE_SIZE, nextCursor);
+      
+      if (result.success) {
+        const loaded = new Set(photos.map((p) => p.id));
+        setPhotos([...photos, ...result.data.photos.filter((p: PhotoFrame) => !loaded.has(p.id))]);
+        setNextCursor(result.data.nextCursor);
+      } else {
+        throw new Error(result.error);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to load more photos';
+      toast.error(message);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [id, nextCursor, isLoadingMore, photos]);
+  
+  /**
+   * Re-evaluate the album, keeping as many photos loaded as now
+   */
+  const refreshSmartAlbum = useCallback(
+    () => fetchSmartAlbum(Math.min(Math.max(photos.length, PAGE_SIZE), 500), true),
+    [fetchSmartAlbum, photos.length]
+  );
+  
+  /**
+   * Re-evaluate the album after photos changed, one refresh at a time
+   * however many changes arrive while it runs
+   */
+  const refreshOnChange = useCallback(async () => {
+    if (isRefreshing.current) {
+      refreshAgain.current = true;
+      return;
+    }
+    
+    isRefreshing.current = true;
+    try {
+      do {
+        refreshAgain.current = false;
+        await refreshSmartAlbum();
+      } while (refreshAgain.current);
+    } finally {
+      isRefreshing.current = false;
+    }
+  }, [refreshSmartAlbum]);
+  
+  /**
+   * Check the change feed and re-evaluate the album only if a photo changed
+   */
+  const syncChanges = useCallback(async () => {
+    if (!syncCursor.current) {
+      await refreshOnChange();
+      return;
+    }
+    
+    const result = await smartAlbumApi.fetchChanges(syncCursor.current);
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+    
+    const changes: PhotoChanges = result.data;
+    if (changes.reset || changes.created.length + changes.updated.length + changes.deleted.length > 0) {
+      await refreshOnChange();
+    } else {
+      syncCursor.current = changes.cursor;
+    }
+  }, [refreshOnChange]);
+  
+  /**
+   * Change the smart album's details, filters or sort
+   */
+  const updateSmartAlbum = useCallback(async (data: UpdateSmartAlbumInput): Promise<boolean> => {
+    try {
+      const result = await smartAlbumApi.updateSmartAlbum(id, data);
+      
+      if (result.success) {
+        setSmartAlbum(result.data);
+        if (data.filters || data.sort) {
+          await fetchSmartAlbum(PAGE_SIZE, true);
+        }
+        toast.success('Smart album updated');
+        return true;
+      } else {
+        throw new Error(result.error);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to update smart album';
+      toast.error(message);
+      return false;
+    }
+  }, [id, fetchSmartAlbum]);
+  
+  /**
+   * Toggle a photo's favorite status, then re-evaluate the album since
+   * the photo may no longer match
+   */
+  const toggleFavorite = useCallback(async (photo: PhotoFrame): Promise<void> => {
+    const setFavorite = (isFavorite: boolean) => setPhotos((current) =>
+      current.map((p) => (p.id === photo.id ? { ...p, isFavorite } : p))
+    );
+    
+    // Optimistic update
+    setFavorite(!photo.isFavorite);
+    
+    try {
+      let result = await smartAlbumApi.setFavorite(photo.id, !photo.isFavorite, photo.version);
+      
+      // Someone else edited the photo meanwhile; the flag alone can't clash
+      // with their edit, so apply it on top of their version
+      if (result.conflict) {
+        result = await smartAlbumApi.setFavorite(photo.id, !photo.isFavorite, result.conflict.version);
+      }
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      
+      await refreshOnChange();
+    } catch {
+      // Revert on error
+      setFavorite(photo.isFavorite);
+      toast.error('Failed to update favorite');
+    }
+  }, [refreshOnChange]);
+  
+  /**
+   * Delete the smart album
+   */
+  const deleteSmartAlbum = useCallback(async (): Promise<boolean> => {
+    try {
+      const result = await smartAlbumApi.deleteSmartAlbum(id);
+      
+      if (result.success) {
+        toast.success('Smart album deleted');
+        return true;
+      } else {
+        throw new Error(result.error);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to delete smart album';
+      toast.error(message);
+      return false;
+    }
+  }, [id]);
+  
+  /**
+   * Load the first page on mount and when the ID changes
+   */
+  useEffect(() => {
+    fetchSmartAlbum(PAGE_SIZE);
+  }, [fetchSmartAlbum]);
+  
+  /**
+   * Keep membership current as photos change
+   */
+  const { isConnected } = usePhotoEvents({
+    enabled: !notFound,
+    onChange: refreshOnChange,
+    onReset: refreshOnChange,
+  });
+  
+  /**
+   * Check for changes while the event stream is down
+   */
+  usePolling(syncChanges, {
+    interval: pollingInterval,
+    enabled: !notFound && !isConnected,
+    immediate: false,
+  });
+  
+  return {
+    smartAlbum,
+    photos,
+    isLoading,
+    isLoadingMore,
+    hasMore: nextCursor !== null,
+    notFound,
+    loadMore,
+    refreshSmartAlbum,
+    updateSmartAlbum,
+    toggleFavorite,
+    deleteSmartAlbum,
+  };
+}
+
+export default useSmartAlbums;
@@ -0,0 +1,286 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { useGalleryStore } from '@/stores/galleryStore';
+import type { PhotoFilters } from '@/types/photo';
+import type { TagChangeResult, TagColor, TagSummary } from '@/types/tag';
+
+/**
+ * Configuration for useTags hook
+ */
+interface UseTagsOptions {
+  /** Whether to load the tag list */
+  enabled?: boolean;
+  /** Called after photos were retagged, to bring them up to date */
+  onPhotosChanged?: () => void;
+}
+
+/**
+ * API client for tag operations
+ */
+const tagApi = {
+  async fetchTags() {
+    const response = await fetch('/api/tags');
+    if (!response.ok) {
+      throw new Error('Failed to fetch tags');
+    }
+    return response.json();
+  },
+  
+  async updateTag(tag: string, data: { name?: string; color?: TagColor | null }) {
+    const response = await fetch(`/api/tags/${encodeURIComponent(tag)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || error.error || 'Failed to update tag');
+    }
+    return response.json();
+  },
+  
+  async mergeTags(target: string, sources: string[]) {
+    const response = await fetch(`/api/tags/${encodeURIComponent(target)}/merge`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sources }),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || error.error || 'Failed to merge tags');
+    }
+    return response.json();
+  },
+  
+  async deleteTag(tag: string) {
+    const response = await fetch(`/api/tags/${encodeURIComponent(tag)}`, {
+      method: 'DELETE',
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to delete tag');
+    }
+    return response.json();
+  },
+};
+
+/**
+ * Swap replaced tags in a tag filter list
+ */
+function replaceInList(list: string[] | undefined, sources: string[], target: string | null) {
+  if (!list?.some((tag) => sources.includes(tag))) {
+    return list;
+  }
+  
+  const next = Array.from(new Set(list.flatMap((tag) => {
+    if (!sources.includes(tag)) return [tag];
+    return target === null ? [] : [target];
+  })));
+  return next.length > 0 ? next : undefined;
+}
+
+/**
+ * Point the active filters at the new tag after a rename, merge or delete
+ */
+function replaceFilterTags(filters: PhotoFilters, sources: string[], target: string | null): PhotoFilters {
+  const tags = replaceInList(filters.tags, sources, target);
+  const excludedTags = replaceInList(filters.excludedTags, sources, target);
+  
+  if (tags === filters.tags && excludedTags === filters.excludedTags) {
+    return filters;
+  }
+  return { ...filters, tags, excludedTags };
+}
+
+/**
+ * Describe how many photos a tag change touched
+ */
+function photoCount(count: number): string {
+  return count === 1 ? '1 photo' : `${count} photos`;
+}
+
+/**
+ * Custom hook for the tag admin panel
+ * 
+ * Loads every tag with its photo count and color, and renames, merges,
+ * deletes and recolors tags across all photos. The gallery store's tag
+ * list, tag colors and tag filters follow each change.
+ * 
+ * @example
+ * ```tsx
+ * const { tags, renameTag } = useTags({ enabled: isOpen, onPhotosChanged: refreshPhotos });
+ * await renameTag('vacaton', 'vacation');
+ * ```
+ */
+export function useTags(options: UseTagsOptions = {}) {
+  const { enabled = true, onPhotosChanged } = options;
+  
+  const [tags, setTags] = useState<TagSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  
+  const { setAllTags, setTagColors, setFilters } = useGalleryStore();
+  
+  /**
+   * Store a fresh tag list here and in the gallery store
+   */
+  const applyTags = useCallback((next: TagSummary[]) => {
+    setTags(next);
+    setAllTags(next.map((tag) => tag.name));
+    setTagColors(Object.fromEntries(
+      next.filter((tag) => tag.color).map((tag) => [tag.name, tag.color!])
+    ));
+  }, [setAllTags, setTagColors]);
+  
+  /**
+   * Load the tag list
+   */
+  const fetchTags = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await tagApi.fetchTags();
+      
+      if (result.success) {
+        applyTags(result.data);
+      } else {
+        throw new Error(result.error);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to fetch tags';
+      toast.error(message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [applyTags]);
+  
+  /**
+   * Apply the outcome of a rename, merge or delete
+   */
+  const applyChange = useCallback((
+    result: TagChangeResult,
+    sources: string[],
+    target: string | null
+  ) => {
+    applyTags(result.tags);
+    
+    const { filters } = useGalleryStore.getState();
+    const nextFilters = replaceFilterTags(filters, sources, target);
+    if (nextFilters !== filters) {
+      setFilters(nextFilters);
+    }
+    
+    if (result.updated > 0) {
+      onPhotosChanged?.();
+    }
+  }, [applyTags, setFilters, onPhotosChanged]);
+  
+  /**
+   * Rename a tag on every photo (merges into an existing tag of that name)
+   */
+  const renameTag = useCallback(async (tag: string, name: string): Promise<boolean> => {
+    try {
+      const result = await tagApi.updateTag(tag, { name });
+      
+      if (result.success) {
+        applyChange(result.data, [tag], name.trim().toLowerCase());
+        toast.success(`Renamed #${tag} on ${photoCount(result.data.updated)}`);
+        return true;
+      } else {
+        throw new Error(result.error);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to rename tag';
+      toast.error(message);
+      return false;
+    }
+  }, [applyChange]);
+  
+  /**
+   * Merge tags into one on every photo
+   */
+  const mergeTags = useCallback(async (sources: string[], target: string): Promise<boolean> => {
+    try {
+      const result = await tagApi.mergeTags(target, sources);
+      
+      if (result.success) {
+        applyChange(result.data, sources.filter((tag) => tag !== target), target);
+        toast.success(`Merged into #${target} on ${photoCount(result.data.updated)}`);
+        return true;
+      } else {
+        throw new Error(result.error);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to merge tags';
+      toast.error(message);
+      return false;
+    }
+  }, [applyChange]);
+  
+  /**
+   * Remove a tag from every photo
+   */
+  const deleteTag = useCallback(async (tag: string): Promise<boolean> => {
+    try {
+      const result = await tagApi.deleteTag(tag);
+      
+      if (result.success) {
+        applyChange(result.data, [tag], null);
+        toast.success(`Removed #${tag} from ${photoCount(result.data.updated)}`);
+        return true;
+      } else {
+        throw new Error(result.error);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to delete tag';
+      toast.error(message);
+      return false;
+    }
+  }, [applyChange]);
+  
+  /**
+   * Give a tag a color, or null to go back to the default
+   */
+  const setTagColor = useCallback(async (tag: string, color: TagColor | null): Promise<boolean> => {
+    // Optimistic update
+    const previous = tags;
+    applyTags(tags.map((t) => (t.name === tag ? { ...t, color: color ?? undefined } : t)));
+    
+    try {
+      const result = await tagApi.updateTag(tag, { color });
+      
+      if (result.success) {
+        applyTags(result.data.tags);
+        return true;
+      } else {
+        throw new Error(result.error);
+      }
+    } catch (err) {
+      applyTags(previous);
+      const message = err instanceof Error ? err.message : 'Failed to update tag color';
+      toast.error(message);
+      return false;
+    }
+  }, [tags, applyTags]);
+  
+  /**
+   * Load tags whenever the hook is enabled
+   */
+  useEffect(() => {
+    if (enabled) {
+      fetchTags();
+    }
+  }, [enabled, fetchTags]);
+  
+  return {
+    tags,
+    isLoading,
+    fetchTags,
+    renameTag,
+    mergeTags,
+    deleteTag,
+    setTagColor,
+  };
+}
+
+export default useTags;
@@ -0,0 +1,256 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { generateId } from '@/lib/utils';
+import { abandonUpload, getImageFileError, uploadImage, UploadAbortedError } from '@/lib/uploadClient';
+import type { UploadMetadata, UploadQueueItem } from '@/types/upload';
+
+/**
+ * Configuration for useUploadQueue hook
+ */
+interface UseUploadQueueOptions {
+  /** Most files uploaded at the same time (default: 3) */
+  concurrency?: number;
+}
+
+/**
+ * Longest photo title
+ */
+const MAX_TITLE_LENGTH = 100;
+
+/**
+ * Starting details for a file: its name as the title and the day it was
+ * last modified as the date taken
+ */
+function defaultMetadata(file: File): UploadMetadata {
+  const name = file.name.replace(/\.[^.]+$/, '').trim();
+  
+  return {
+    title: (name || 'Untitled').slice(0, MAX_TITLE_LENGTH),
+    dateTaken: format(new Date(file.lastModified || Date.now()), 'yyyy-MM-dd'),
+    tags: [],
+    isFavorite: false,
+  };
+}
+
+/**
+ * Custom hook for uploading many files with a concurrency limit
+ * 
+ * Files wait in the queue until a slot is free. Each upload reports real
+ * byte progress and can be canceled or retried; metadata can be reviewed
+ * meanwhile. Stored images only become photos once the caller creates
+ * them; unused uploads are left to the media sweeper.
+ * 
+ * @example
+ * ```tsx
+ * const { items, addFiles, isFinished, uploadedItems } = useUploadQueue();
+ * ```
+ */
+export function useUploadQueue(options: UseUploadQueueOptions = {}) {
+  const { concurrency = 3 } = options;
+  
+  const [items, setItems] = useState<UploadQueueItem[]>([]);
+  
+  // Abort controllers of running uploads by item ID
+  const controllers = useRef(new Map<string, AbortController>());
+  
+  // Object URLs to revoke when the queue goes away
+  const previewUrls = useRef(new Set<string>());
+  
+  // Change one item
+  const patchItem = useCallback((id: string, patch: Partial<UploadQueueItem>) => {
+    setItems((current) => current.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+  }, []);
+  
+  // Upload one file in its own slot
+  const startUpload = useCallback((item: UploadQueueItem) => {
+    const controller = new AbortController();
+    controllers.current.set(item.id, controller);
+    
+    uploadImage(item.file, {
+      signal: controller.signal,
+      onProgress: (loaded) => patchItem(item.id, { loaded }),
+    })
+      .then((imageUrl) => {
+        if (!controller.signal.aborted) {
+          patchItem(item.id, { status: 'uploaded', imageUrl });
+        }
+      })
+      .catch((err) => {
+        // Canceling already updated the status
+        if (err instanceof UploadAbortedError || controller.signal.aborted) return;
+        patchItem(item.id, {
+          status: 'error',
+          error: err instanceof Error ? err.message : 'Upload failed',
+        });
+      })
+      .finally(() => {
+        if (controllers.current.get(item.id) === controller) {
+          controllers.current.delete(item.id);
+        }
+      });
+  }, [patchItem]);
+  
+  /**
+   * Start queued files while slots are free
+   */
+  useEffect(() => {
+    const running = items.filter((item) => item.status === 'uploading').length;
+    const next = items
+      .filter((item) => item.status === 'queued')
+      .slice(0, Math.max(concurrency - running, 0));
+    if (next.length === 0) return;
+    
+    const starting = new Set(next.map((item) => item.id));
+    setItems((current) => current.map((item) => (
+      starting.has(item.id) ? { ...item, status: 'uploading', loaded: 0, error: undefined } : item
+    )));
+    next.forEach(startUpload);
+  }, [items, concurrency, startUpload]);
+  
+  /**
+   * Add files to the end of the queue; files that can't be uploaded are
+   * listed with the reason
+   */
+  const addFiles = useCallback((files: File[]) => {
+    const added = files.map((file): UploadQueueItem => {
+      const previewUrl = URL.createObjectURL(file);
+      previewUrls.current.add(previewUrl);
+      const error = getImageFileError(file);
+      
+      return {
+        id: generateId(),
+        file,
+        previewUrl,
+        status: error ? 'error' : 'queued',
+        loaded: 0,
+        error: error ?? undefined,
+        metadata: defaultMetadata(file),
+      };
+    });
+    setItems((current) => [...current, ...added]);
+  }, []);
+  
+  /**
+   * Stop a waiting or running upload
+   */
+  const cancel = useCallback((id: string) => {
+    controllers.current.get(id)?.abort();
+    setItems((current) => current.map((item) => (
+      item.id === id && (item.status === 'queued' || item.status === 'uploading')
+        ? { ...item, status: 'canceled', loaded: 0 }
+        : item
+    )));
+  }, []);
+  
+  /**
+   * Queue a failed or canceled upload again
+   */
+  const retry = useCallback((id: string) => {
+    setItems((current) => current.map((item) => (
+      item.id === id && (item.status === 'error' || item.status === 'canceled') && !getImageFileError(item.file)
+        ? { ...item, status: 'queued', loaded: 0, error: undefined }
+        : item
+    )));
+  }, []);
+  
+  /**
+   * Take files out of the queue, stopping their uploads
+   */
+  const remove = useCallback((ids: string[]) => {
+    const removing = new Set(ids);
+    ids.forEach((id) => controllers.current.get(id)?.abort());
+    
+    setItems((current) => {
+      current
+        .filter((item) => removing.has(item.id))
+        .forEach((item) => {
+          URL.revokeObjectURL(item.previewUrl);
+          previewUrls.current.delete(item.previewUrl);
+          if (item.status !== 'uploaded') {
+            abandonUpload(item.file);
+          }
+        });
+      return current.filter((item) => !removing.has(item.id));
+    });
+  }, []);
+  
+  /**
+   * Empty the queue, stopping every upload
+   */
+  const clear = useCallback(() => {
+    controllers.current.forEach((controller) => controller.abort());
+    previewUrls.current.forEach((url) => URL.revokeObjectURL(url));
+    previewUrls.current.clear();
+    setItems((current) => {
+      current
+        .filter((item) => item.status !== 'uploaded')
+        .forEach((item) => abandonUpload(item.file));
+      return [];
+    });
+  }, []);
+  
+  /**
+   * Change the details of one file
+   */
+  const updateMetadata = useCallback((id: string, updates: Partial<UploadMetadata>) => {
+    setItems((current) => current.map((item) => (
+      item.id === id ? { ...item, metadata: { ...item.metadata, ...updates } } : item
+    )));
+  }, []);
+  
+  /**
+   * Add tags to every file, keeping the tags they already have
+   */
+  const addTagsToAll = useCallback((tags: string[]) => {
+    setItems((current) => current.map((item) => ({
+      ...item,
+      metadata: {
+        ...item.metadata,
+        tags: Array.from(new Set([...item.metadata.tags, ...tags])),
+      },
+    })));
+  }, []);
+  
+  /**
+   * Stop uploads and free previews on unmount
+   */
+  useEffect(() => {
+    const running = controllers.current;
+    const urls = previewUrls.current;
+    return () => {
+      running.forEach((controller) => controller.abort());
+      urls.forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, []);
+  
+  // Totals across the queue
+  const stats = useMemo(() => {
+    const active = items.filter((item) => item.status !== 'error' && item.status !== 'canceled');
+    return {
+      totalBytes: active.reduce((sum, item) => sum + item.file.size, 0),
+      loadedBytes: active.reduce((sum, item) => sum + item.loaded, 0),
+      uploadedCount: items.filter((item) => item.status === 'uploaded').length,
+      pendingCount: items.filter((item) => item.status === 'queued' || item.status === 'uploading').length,
+      failedCount: items.filter((item) => item.status === 'error').length,
+    };
+  }, [items]);
+  
+  return {
+    items,
+    uploadedItems: items.filter((item) => item.status === 'uploaded'),
+    ...stats,
+    /** Every file has finished, one way or another */
+    isFinished: items.length > 0 && stats.pendingCount === 0,
+    addFiles,
+    cancel,
+    retry,
+    remove,
+    clear,
+    updateMetadata,
+    addTagsToAll,
+  };
+}
+
+export default useUploadQueue;
@@ -0,0 +1,272 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Album, AlbumSummary, PhotoFrame } from '@/types/photo';
+import { getStorageDriver } from './storage';
+import { createWriteQueue } from './storage/writeQueue';
+import { findMissingPhotoIds, getAllPhotos, getPhotoById } from './photoStorage';
+import {
+  storedAlbumsSchema,
+  type CreateAlbumInput,
+  type UpdateAlbumInput,
+} from './validation/albumSchemas';
+
+/**
+ * Data document holding the albums
+ */
+export const ALBUMS_DOCUMENT = 'albums';
+
+/**
+ * Serializes read-modify-write cycles of the albums document
+ */
+const enqueue = createWriteQueue();
+
+/**
+ * Thrown when an album names photos that don't exist, or a cover that
+ * is not one of its photos
+ */
+export class InvalidAlbumPhotosError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidAlbumPhotosError';
+  }
+}
+
+/**
+ * Load every album
+ * 
+ * A malformed document throws instead of counting as empty, so the
+ * next write cannot wipe the albums.
+ */
+async function readAlbums(): Promise<Album[]> {
+  const stored = await getStorageDriver().data.read(ALBUMS_DOCUMENT);
+  if (stored === null) {
+    return [];
+  }
+  
+  const result = storedAlbumsSchema.safeParse(stored);
+  if (!result.success) {
+    throw new Error(`Malformed albums document: ${result.error.errors[0]?.message}`);
+  }
+  return result.data.albums;
+}
+
+/**
+ * Change the stored albums exclusively
+ */
+async function updateAlbums<T>(
+  task: (albums: Album[]) => { albums: Album[]; result: T }
+): Promise<T> {
+  return enqueue(async () => {
+    const { albums, result } = task(await readAlbums());
+    await getStorageDriver().data.write(ALBUMS_DOCUMENT, { albums });
+    return result;
+  });
+}
+
+/**
+ * Photos outside the trash by ID
+ */
+async function getVisiblePhotos(): Promise<Map<string, PhotoFrame>> {
+  const photos = await getAllPhotos();
+  return new Map(photos.map((p) => [p.id, p]));
+}
+
+/**
+ * Throw unless every photo exists, in the gallery or the trash
+ * @throws InvalidAlbumPhotosError
+ */
+async function assertPhotosExist(photoIds: string[]): Promise<void> {
+  const [missing] = await findMissingPhotoIds(photoIds);
+  if (missing) {
+    throw new InvalidAlbumPhotosError(`Photo ${missing} not found`);
+  }
+}
+
+/**
+ * Throw unless the cover is one of the album's photos
+ * @throws InvalidAlbumPhotosError
+ */
+function assertCoverInAlbum(photoIds: string[], coverPhotoId: string | undefined): void {
+  if (coverPhotoId && !photoIds.includes(coverPhotoId)) {
+    throw new InvalidAlbumPhotosError('The cover must be one of the album\'s photos');
+  }
+}
+
+/**
+ * Photos of an album in album order, skipping trashed and deleted ones
+ */
+function albumPhotos(album: Album, photoById: Map<string, PhotoFrame>): PhotoFrame[] {
+  return album.photoIds
+    .map((id) => photoById.get(id))
+    .filter((p): p is PhotoFrame => p !== undefined);
+}
+
+/**
+ * Add the photo count and cover image to an album
+ */
+function summarize(album: Album, photoById: Map<string, PhotoFrame>): AlbumSummary {
+  const photos = albumPhotos(album, photoById);
+  const cover = photos.find((p) => p.id === album.coverPhotoId) ?? photos[0];
+  
+  return { ...album, photoCount: photos.length, coverUrl: cover?.imageUrl };
+}
+
+/**
+ * Get every album, sorted by title
+ */
+export async function getAllAlbums(): Promise<AlbumSummary[]> {
+  const [albums, photoById] = await Promise.all([readAlbums(), getVisiblePhotos()]);
+  
+  return albums
+    .map((album) => summarize(album, photoById))
+    .sort((a, b) => a.title.localeCompare(b.title));
+}
+
+/**
+ * Get an album and its photos in album order
+ */
+export async function getAlbumWithPhotos(
+  id: string
+): Promise<{ album: AlbumSummary; photos: PhotoFrame[] } | null> {
+  const [albums, photoById] = await Promise.all([readAlbums(), getVisiblePhotos()]);
+  const album = albums.find((a) => a.id === id);
+  
+  if (!album) {
+    return null;
+  }
+  return { album: summarize(album, photoById), photos: albumPhotos(album, photoById) };
+}
+
+/**
+ * Create a new album
+ * @throws InvalidAlbumPhotosError if a photo doesn't exist or the cover
+ *         is not one of the album's photos
+ */
+export async function createAlbum(data: CreateAlbumInput): Promise<AlbumSummary> {
+  assertCoverInAlbum(data.photoIds, data.coverPhotoId);
+  await assertPhotosExist(data.photoIds);
+  
+  const now = new Date().toISOString();
+  const album: Album = {
+    id: uuidv4(),
+    title: data.title,
+    description: data.description || undefined,
+    coverPhotoId: data.coverPhotoId,
+    photoIds: data.photoIds,
+    createdAt: now,
+    updatedAt: now,
+  };
+  
+  await updateAlbums((albums) => ({ albums: [...albums, album], result: album }));
+  return summarize(album, await getVisiblePhotos());
+}
+
+/**
+ * Update an existing album. A cover left out of new photos is cleared.
+ * @param data - Fields to change; null clears the description or cover
+ * @throws InvalidAlbumPhotosError if a photo doesn't exist or the new
+ *         cover is not one of the album's photos
+ */
+export async function updateAlbum(id: string, data: UpdateAlbumInput): Promise<AlbumSummary | null> {
+  await assertPhotosExist([...(data.photoIds ?? []), ...(data.coverPhotoId ? [data.coverPhotoId] : [])]);
+  
+  const updated = await updateAlbums((albums) => {
+    const existing = albums.find((a) => a.id === id);
+    if (!existing) {
+      return { albums, result: null };
+    }
+    
+    const photoIds = data.photoIds ?? existing.photoIds;
+    let coverPhotoId = data.coverPhotoId === undefined ? existing.coverPhotoId : data.coverPhotoId ?? undefined;
+    if (data.coverPhotoId) {
+      assertCoverInAlbum(photoIds, coverPhotoId);
+    } else if (coverPhotoId && !photoIds.includes(coverPhotoId)) {
+      coverPhotoId = undefined;
+    }
+    
+    const album: Album = {
+      ...existing,
+      title: data.title ?? existing.title,
+      description: data.description === undefined ? existing.description : data.description || undefined,
+      coverPhotoId,
+      photoIds,
+      updatedAt: new Date().toISOString(),
+    };
+    return { albums: albums.map((a) => (a.id === id ? album : a)), result: album };
+  });
+  
+  return updated ? summarize(updated, await getVisiblePhotos()) : null;
+}
+
+/**
+ * Delete an album. Its photos stay in the gallery.
+ */
+export async function deleteAlbum(id: string): Promise<boolean> {
+  return updateAlbums((albums) => {
+    const remaining = albums.filter((a) => a.id !== id);
+    return { albums: remaining, result: remaining.length < albums.length };
+  });
+}
+
+/**
+ * Take photos out of every album once they are deleted for good
+ */
+export async function removePhotosFromAlbums(photoIds: string[]): Promise<void> {
+  const removed = new Set(photoIds);
+  const now = new Date().toISOString();
+  
+  await updateAlbums((albums) => ({
+    albums: albums.map((album) => {
+      const isCover = !!album.coverPhotoId && removed.has(album.coverPhotoId);
+      if (!isCover && !album.photoIds.some((id) => removed.has(id))) {
+        return album;
+      }
+      
+      return {
+        ...album,
+        photoIds: album.photoIds.filter((id) => !removed.has(id)),
+        coverPhotoId: isCover ? undefined : album.coverPhotoId,
+        updatedAt: now,
+      };
+    }),
+    result: undefined,
+  }));
+}
+
+/**
+ * Put a photo in exactly the given albums. It goes to the end of albums
+ * it joins and keeps its place in albums it was already in.
+ * @returns Every album, or null if the photo does not exist
+ */
+export async function setPhotoAlbums(
+  photoId: string,
+  albumIds: string[]
+): Promise<AlbumSummary[] | null> {
+  if (!(await getPhotoById(photoId))) {
+    return null;
+  }
+  
+  const wanted = new Set(albumIds);
+  const now = new Date().toISOString();
+  
+  await updateAlbums((albums) => ({
+    albums: albums.map((album) => {
+      const isMember = album.photoIds.includes(photoId);
+      if (wanted.has(album.id) === isMember) {
+        return album;
+      }
+      
+      const photoIds = isMember
+        ? album.photoIds.filter((id) => id !== photoId)
+        : [...album.photoIds, photoId];
+      return {
+        ...album,
+        photoIds,
+        coverPhotoId: album.coverPhotoId === photoId ? undefined : album.coverPhotoId,
+        updatedAt: now,
+      };
+    }),
+    result: undefined,
+  }));
+  
+  return getAllAlbums();
+}
@@ -1,6 +1,7 @@
-import type { NextAuthOptions } from 'next-auth';
+import type { NextAuthOptions, Session } from 'next-auth';
 import CredentialsProvider from 'next-auth/providers/credentials';
 import { validateCredentials } from '@/config/allowedUsers';
+import type { SessionUser } from '@/types/auth';
 
 /**
  * NextAuth configuration for whitelist-based authentication
@@ -79,5 +80,12 @@ export const authOptions: NextAuthOptions = {
   debug: process.env.NODE_ENV === 'development',
 };
 
+/**
+ * ID of the signed-in user, or null if the session carries none
+ */
+export function getSessionUserId(session: Session): string | null {
+  return (session.user as Partial<SessionUser> | undefined)?.id ?? null;
+}
+
 export default authOptions;
 
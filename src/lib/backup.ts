@@ -0,0 +1,406 @@
+import { createHash } from 'crypto';
+import path from 'path';
+import { Zip, ZipDeflate, ZipPassThrough, unzipSync } from 'fflate';
+import type { ZodTypeAny } from 'zod';
+import type { ImageVariant, PhotoFrame } from '@/types/photo';
+import type { BackupManifest, BackupFileEntry, RestoreResult, StorageDriver } from '@/types/storage';
+import { getStorageDriver } from './storage';
+import { getPhotoMediaUrls } from './media';
+import { VARIANTS_DOCUMENT } from './imageVariants';
+import { ALBUMS_DOCUMENT } from './albumStorage';
+import { TAGS_DOCUMENT } from './tagStorage';
+import { SMART_ALBUMS_DOCUMENT } from './smartAlbumStorage';
+import { FILTER_PRESETS_DOCUMENT } from './filterPresetStorage';
+import { createPhotoDocument, parsePhotoDocument } from './storage/photoDocument';
+import { backupManifestSchema } from './validation/backupSchemas';
+import { storedAlbumsSchema } from './validation/albumSchemas';
+import { storedTagSettingsSchema } from './validation/tagSchemas';
+import { storedSmartAlbumsSchema } from './validation/smartAlbumSchemas';
+import { storedFilterPresetsSchema } from './validation/filterPresetSchemas';
+import { storedImageVariantsSchema } from './validation/photoSchemas';
+import { generateId } from './utils';
+
+/**
+ * Archive format identifier and version written to the manifest
+ */
+const BACKUP_FORMAT = 'irm-gallery-backup';
+const BACKUP_VERSION = 2;
+
+/**
+ * Paths inside the archive
+ */
+const MANIFEST_PATH = 'manifest.json';
+const PHOTOS_PATH = 'photos.json';
+const MEDIA_DIR = 'media/';
+const DATA_DIR = 'data/';
+
+/**
+ * Allowed data document names, which become archive paths
+ */
+const DATA_NAME_PATTERN = /^[a-z0-9-]+$/;
+
+/**
+ * Schemas for the data documents the app reads, by name
+ */
+const DOCUMENT_SCHEMAS: Record<string, ZodTypeAny> = {
+  [ALBUMS_DOCUMENT]: storedAlbumsSchema,
+  [TAGS_DOCUMENT]: storedTagSettingsSchema,
+  [SMART_ALBUMS_DOCUMENT]: storedSmartAlbumsSchema,
+  [FILTER_PRESETS_DOCUMENT]: storedFilterPresetsSchema,
+  [VARIANTS_DOCUMENT]: storedImageVariantsSchema,
+};
+
+/**
+ * Content types by file extension
+ */
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.avif': 'image/avif',
+};
+
+/**
+ * Thrown when an archive is not a valid gallery backup
+ */
+export class BackupValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupValidationError';
+  }
+}
+
+/**
+ * Hex SHA-256 of some bytes
+ */
+function sha256(data: Uint8Array): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Pick the archive filename for a stored media URL
+ */
+function getMediaFilename(url: string, taken: Set<string>): string {
+  const dataUrl = url.match(/^data:([^;]+);/);
+  let filename = dataUrl
+    ? `${generateId()}${Object.keys(CONTENT_TYPES).find((ext) => CONTENT_TYPES[ext] === dataUrl[1]) ?? ''}`
+    : decodeURIComponent(path.posix.basename(new URL(url, 'http://localhost').pathname));
+
+  if (!filename || taken.has(filename)) {
+    filename = `${generateId()}-${filename}`;
+  }
+  taken.add(filename);
+  return filename;
+}
+
+/**
+ * Archive path of a data document
+ */
+function getDataPath(name: string): string {
+  return `${DATA_DIR}${name}.json`;
+}
+
+/**
+ * Build a gallery backup archive
+ *
+ * The zip holds photos.json, every stored file a photo references under
+ * media/, every data document (albums, tags, smart albums, filter presets
+ * and the variant index) under data/, and manifest.json with sizes and
+ * SHA-256 checksums. Chunks are
+ * yielded as soon as each file is compressed, so the archive can be
+ * streamed without holding it in memory.
+ */
+export async function* createBackupArchive(
+  driver: StorageDriver = getStorageDriver()
+): AsyncGenerator<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  let failure: Error | null = null;
+  const zip = new Zip((error, chunk) => {
+    if (error) {
+      failure = error;
+    } else {
+      chunks.push(chunk);
+    }
+  });
+
+  function* flush(): Generator<Uint8Array> {
+    if (failure) {
+      throw failure;
+    }
+    while (chunks.length > 0) {
+      yield chunks.shift()!;
+    }
+  }
+
+  const files: BackupFileEntry[] = [];
+
+  function addFile(filePath: string, data: Uint8Array, compress: boolean): void {
+    // Images are already compressed; deflating them again only costs time
+    const entry = compress ? new ZipDeflate(filePath, { level: 6 }) : new ZipPassThrough(filePath);
+    zip.add(entry);
+    entry.push(data, true);
+    files.push({ path: filePath, size: data.length, sha256: sha256(data) });
+  }
+
+  const [photos, stored] = await Promise.all([driver.photos.list(), driver.media.list()]);
+  const referenced = new Set(photos.flatMap(getPhotoMediaUrls));
+  const media: BackupManifest['media'] = [];
+  const taken = new Set<string>();
+
+  for (const file of stored) {
+    // Orphaned uploads are not part of the gallery
+    if (!referenced.has(file.url)) {
+      continue;
+    }
+
+    const filename = getMediaFilename(file.url, taken);
+    addFile(`${MEDIA_DIR}${filename}`, await driver.media.get(file.url), false);
+    media.push({
+      url: file.url,
+      path: `${MEDIA_DIR}${filename}`,
+      contentType: CONTENT_TYPES[path.extname(filename).toLowerCase()] ?? 'application/octet-stream',
+    });
+    yield* flush();
+  }
+
+  addFile(PHOTOS_PATH, Buffer.from(JSON.stringify(createPhotoDocument(photos), null, 2)), true);
+
+  const documents = await driver.data.list();
+  for (const name of documents) {
+    addFile(getDataPath(name), Buffer.from(JSON.stringify(await driver.data.read(name), null, 2)), true);
+  }
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    driver: driver.name,
+    photoCount: photos.length,
+    data: documents,
+    files,
+    media,
+  };
+  const manifestEntry = new ZipDeflate(MANIFEST_PATH, { level: 6 });
+  zip.add(manifestEntry);
+  manifestEntry.push(Buffer.from(JSON.stringify(manifest, null, 2)), true);
+
+  zip.end();
+  yield* flush();
+}
+
+/**
+ * Wrap createBackupArchive in a web stream for route handlers
+ */
+export function createBackupStream(driver?: StorageDriver): ReadableStream<Uint8Array> {
+  const archive = createBackupArchive(driver);
+
+  return new ReadableStream({
+    async pull(controller) {
+      try {
+        const { value, done } = await archive.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await archive.return(undefined);
+    },
+  });
+}
+
+/**
+ * Parse and verify an archive against its manifest
+ * @throws BackupValidationError if anything is missing or corrupt
+ */
+function readBackupArchive(archive: Uint8Array): {
+  manifest: BackupManifest;
+  photos: PhotoFrame[];
+  documents: Record<string, unknown>;
+  entries: Record<string, Uint8Array>;
+} {
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(archive);
+  } catch {
+    throw new BackupValidationError('Not a zip archive');
+  }
+
+  const manifestData = entries[MANIFEST_PATH];
+  if (!manifestData) {
+    throw new BackupValidationError('Archive has no manifest.json');
+  }
+
+  let manifestJson: unknown;
+  try {
+    manifestJson = JSON.parse(Buffer.from(manifestData).toString('utf-8'));
+  } catch {
+    throw new BackupValidationError('manifest.json is not valid JSON');
+  }
+
+  const manifestResult = backupManifestSchema.safeParse(manifestJson);
+  if (!manifestResult.success) {
+    const issue = manifestResult.error.errors[0];
+    throw new BackupValidationError(
+      `manifest.json is malformed (${issue?.path.join('.') || 'root'}: ${issue?.message})`
+    );
+  }
+  const manifest: BackupManifest = manifestResult.data;
+
+  if (manifest.format !== BACKUP_FORMAT) {
+    throw new BackupValidationError('Archive is not a gallery backup');
+  }
+  if (manifest.version > BACKUP_VERSION) {
+    throw new BackupValidationError(`Unsupported backup version ${manifest.version}`);
+  }
+
+  for (const file of manifest.files) {
+    const data = entries[file.path];
+    if (!data) {
+      throw new BackupValidationError(`Missing file ${file.path}`);
+    }
+    if (data.length !== file.size || sha256(data) !== file.sha256) {
+      throw new BackupValidationError(`Checksum mismatch for ${file.path}`);
+    }
+  }
+
+  const listed = new Set(manifest.files.map((file) => file.path));
+  if (!listed.has(PHOTOS_PATH)) {
+    throw new BackupValidationError('Archive has no photos.json');
+  }
+  const unlisted = manifest.media.find((item) => !listed.has(item.path));
+  if (unlisted) {
+    throw new BackupValidationError(`Missing file ${unlisted.path}`);
+  }
+
+  // Older backups are upgraded like any stored document
+  let parsed;
+  try {
+    parsed = parsePhotoDocument(JSON.parse(Buffer.from(entries[PHOTOS_PATH]).toString('utf-8')));
+  } catch (error) {
+    throw new BackupValidationError(
+      `photos.json is unreadable: ${error instanceof Error ? error.message : error}`
+    );
+  }
+
+  if (parsed.invalid.length > 0) {
+    const first = parsed.invalid[0];
+    throw new BackupValidationError(
+      `photos.json has ${parsed.invalid.length} invalid records ` +
+      `(${first.id ?? `#${first.index}`}: ${first.issues.join('; ')})`
+    );
+  }
+
+  // Backups before version 2 have no data documents
+  const documents: Record<string, unknown> = {};
+  for (const name of manifest.data ?? []) {
+    if (!DATA_NAME_PATTERN.test(name) || !listed.has(getDataPath(name))) {
+      throw new BackupValidationError(`Missing file ${getDataPath(name)}`);
+    }
+    try {
+      documents[name] = JSON.parse(Buffer.from(entries[getDataPath(name)]).toString('utf-8'));
+    } catch {
+      throw new BackupValidationError(`${getDataPath(name)} is not valid JSON`);
+    }
+  }
+
+  // Known documents must be readable once restored
+  for (const [name, document] of Object.entries(documents)) {
+    const schema = DOCUMENT_SCHEMAS[name];
+    if (schema && !schema.safeParse(document).success) {
+      throw new BackupValidationError(`${getDataPath(name)} is malformed`);
+    }
+  }
+
+  return { manifest, photos: parsed.photos, documents, entries };
+}
+
+/**
+ * Add a backed-up variant index to the target's, pointing it at the
+ * restored media. Entries whose files were not in the backup are left out.
+ * @throws If the target's index is malformed
+ */
+async function mergeVariantIndex(
+  backedUp: unknown,
+  urlMap: Map<string, string>,
+  driver: StorageDriver
+): Promise<{ variants: Record<string, ImageVariant[]> }> {
+  const stored = await driver.data.read(VARIANTS_DOCUMENT);
+  let variants: Record<string, ImageVariant[]> = {};
+  if (stored !== null) {
+    const result = storedImageVariantsSchema.safeParse(stored);
+    if (!result.success) {
+      throw new Error(`Malformed image variant index: ${result.error.errors[0]?.message}`);
+    }
+    variants = { ...result.data.variants };
+  }
+
+  for (const [url, copies] of Object.entries(storedImageVariantsSchema.parse(backedUp).variants)) {
+    const restoredUrl = urlMap.get(url);
+    if (restoredUrl && copies.every((copy) => urlMap.has(copy.url))) {
+      variants[restoredUrl] = copies.map((copy) => ({ ...copy, url: urlMap.get(copy.url)! }));
+    }
+  }
+  return { variants };
+}
+
+/**
+ * Restore a backup archive into a storage backend
+ *
+ * The archive is fully validated first. Media is uploaded to the target's
+ * media store and photo URLs are rewritten to match, so a backup taken on
+ * one backend can be restored into any other. Photos with the same ID
+ * are overwritten; other existing photos are left alone. Data documents
+ * in the backup replace the target's, except the variant index, which
+ * gains the backed-up entries.
+ *
+ * @throws BackupValidationError if the archive is invalid
+ */
+export async function restoreBackup(
+  archive: Uint8Array,
+  driver: StorageDriver = getStorageDriver()
+): Promise<RestoreResult> {
+  const { manifest, photos, documents, entries } = readBackupArchive(archive);
+
+  const urlMap = new Map<string, string>();
+  for (const item of manifest.media) {
+    const url = await driver.media.put(
+      path.posix.basename(item.path),
+      Buffer.from(entries[item.path]),
+      item.contentType
+    );
+    urlMap.set(item.url, url);
+  }
+
+  const restored = photos.map((photo) => ({
+    ...photo,
+    imageUrl: urlMap.get(photo.imageUrl) ?? photo.imageUrl,
+    ...(photo.variants && {
+      variants: photo.variants.map((variant) => ({
+        ...variant,
+        url: urlMap.get(variant.url) ?? variant.url,
+      })),
+    }),
+  }));
+
+  await driver.photos.transaction(() => driver.photos.upsert(restored));
+
+  for (const [name, value] of Object.entries(documents)) {
+    await driver.data.write(name, name === VARIANTS_DOCUMENT
+      ? await mergeVariantIndex(value, urlMap, driver)
+      : value);
+  }
+
+  return {
+    photos: restored.length,
+    media: urlMap.size,
+    documents: Object.keys(documents).length,
+    createdAt: manifest.createdAt,
+  };
+}
@@ -0,0 +1,25 @@
+import type { PhotoFrame } from '@/types/photo';
+
+/**
+ * Build the ETag for a photo from its version
+ * @param photo - Photo to tag
+ * @returns Quoted entity tag, e.g. "3"
+ */
+export function photoEtag(photo: PhotoFrame): string {
+  return `"${photo.version}"`;
+}
+
+/**
+ * Parse an If-Match header into the expected photo version
+ * @param header - Raw If-Match header value
+ * @returns The expected version, undefined if there is no precondition
+ *          (header missing or "*"), or null if the header is malformed
+ */
+export function parseIfMatch(header: string | null): number | undefined | null {
+  if (header === null || header.trim() === '*') {
+    return undefined;
+  }
+
+  const match = header.trim().match(/^(?:W\/)?"(\d+)"$/);
+  return match ? parseInt(match[1], 10) : null;
+}
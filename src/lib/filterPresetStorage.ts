@@ -0,0 +1,184 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { FilterPreset } from '@/types/photo';
+import { getStorageDriver } from './storage';
+import { createWriteQueue } from './storage/writeQueue';
+import { replaceFilterTags } from './photoFilters';
+import {
+  storedFilterPresetsSchema,
+  type CreateFilterPresetInput,
+} from './validation/filterPresetSchemas';
+
+/**
+ * Data document holding every user's filter presets
+ */
+export const FILTER_PRESETS_DOCUMENT = 'filter-presets';
+
+/**
+ * Serializes read-modify-write cycles of the presets document
+ */
+const enqueue = createWriteQueue();
+
+/**
+ * Presets of each user, keyed by user ID
+ */
+type PresetsByUser = Record<string, FilterPreset[]>;
+
+/**
+ * Thrown when a user already has a preset with the same name
+ */
+export class DuplicatePresetNameError extends Error {
+  constructor(name: string) {
+    super(`A preset named "${name}" already exists`);
+    this.name = 'DuplicatePresetNameError';
+  }
+}
+
+/**
+ * Load every user's presets
+ * 
+ * A malformed document throws instead of counting as empty, so the
+ * next write cannot wipe the presets.
+ */
+async function readFilterPresets(): Promise<PresetsByUser> {
+  const stored = await getStorageDriver().data.read(FILTER_PRESETS_DOCUMENT);
+  if (stored === null) {
+    return {};
+  }
+  
+  const result = storedFilterPresetsSchema.safeParse(stored);
+  if (!result.success) {
+    throw new Error(`Malformed filter presets document: ${result.error.errors[0]?.message}`);
+  }
+  return result.data.users;
+}
+
+/**
+ * Change one user's stored presets exclusively
+ */
+async function updateUserPresets<T>(
+  userId: string,
+  task: (presets: FilterPreset[]) => { presets: FilterPreset[]; result: T }
+): Promise<T> {
+  return enqueue(async () => {
+    const users = await readFilterPresets();
+    const { presets, result } = task(users[userId] ?? []);
+    await getStorageDriver().data.write(FILTER_PRESETS_DOCUMENT, {
+      users: { ...users, [userId]: presets },
+    });
+    return result;
+  });
+}
+
+/**
+ * Throw if another of the user's presets already uses a name
+ * @throws DuplicatePresetNameError
+ */
+function assertUniqueName(presets: FilterPreset[], name: string, exceptId?: string): void {
+  const taken = presets.some(
+    (p) => p.id !== exceptId && p.name.toLowerCase() === name.toLowerCase()
+  );
+  if (taken) {
+    throw new DuplicatePresetNameError(name);
+  }
+}
+
+/**
+ * Get a user's presets, sorted by name
+ */
+export async function listFilterPresets(userId: string): Promise<FilterPreset[]> {
+  const presets = (await readFilterPresets())[userId] ?? [];
+  
+  return [...presets].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Save filters and a sort as a new preset for a user
+ * @throws DuplicatePresetNameError if the user has a preset with that name
+ */
+export async function createFilterPreset(
+  userId: string,
+  data: CreateFilterPresetInput
+): Promise<FilterPreset> {
+  const now = new Date().toISOString();
+  const preset: FilterPreset = {
+    id: uuidv4(),
+    name: data.name,
+    filters: data.filters,
+    sort: data.sort,
+    createdAt: now,
+    updatedAt: now,
+  };
+  
+  return updateUserPresets(userId, (presets) => {
+    assertUniqueName(presets, preset.name);
+    return { presets: [...presets, preset], result: preset };
+  });
+}
+
+/**
+ * Rename one of a user's presets
+ * @throws DuplicatePresetNameError if the user has another preset with that name
+ */
+export async function renameFilterPreset(
+  userId: string,
+  id: string,
+  name: string
+): Promise<FilterPreset | null> {
+  return updateUserPresets(userId, (presets) => {
+    const existing = presets.find((p) => p.id === id);
+    if (!existing) {
+      return { presets, result: null };
+    }
+    
+    assertUniqueName(presets, name, id);
+    const preset: FilterPreset = { ...existing, name, updatedAt: new Date().toISOString() };
+    return {
+      presets: presets.map((p) => (p.id === id ? preset : p)),
+      result: preset,
+    };
+  });
+}
+
+/**
+ * Delete one of a user's presets
+ */
+export async function deleteFilterPreset(userId: string, id: string): Promise<boolean> {
+  return updateUserPresets(userId, (presets) => {
+    const remaining = presets.filter((p) => p.id !== id);
+    return { presets: remaining, result: remaining.length < presets.length };
+  });
+}
+
+/**
+ * Point every user's presets at another tag after tags are renamed,
+ * merged or deleted
+ * @param target - Tag replacing the sources, or null to drop them
+ * @returns Number of presets changed
+ */
+export async function replaceFilterPresetTags(
+  sources: string[],
+  target: string | null
+): Promise<number> {
+  return enqueue(async () => {
+    const now = new Date().toISOString();
+    let changed = 0;
+    
+    const users = Object.fromEntries(
+      Object.entries(await readFilterPresets()).map(([userId, presets]) => [
+        userId,
+        presets.map((preset) => {
+          const filters = replaceFilterTags(preset.filters, sources, target);
+          if (!filters) return preset;
+          
+          changed++;
+          return { ...preset, filters, updatedAt: now };
+        }),
+      ])
+    );
+    
+    if (changed > 0) {
+      await getStorageDriver().data.write(FILTER_PRESETS_DOCUMENT, { users });
+    }
+    return changed;
+  });
+}
@@ -0,0 +1,183 @@
+import sharp from 'sharp';
+import type { ImageVariant, ImageVariantSize } from '@/types/photo';
+import { UPLOAD_CONFIG } from '@/config/upload';
+import { getStorageDriver } from './storage';
+import { createWriteQueue } from './storage/writeQueue';
+import { hashContent, storeMedia, type StoredUpload } from './media';
+import { storedImageVariantsSchema } from './validation/photoSchemas';
+
+/**
+ * Data document mapping original image URLs to their resized copies
+ */
+export const VARIANTS_DOCUMENT = 'image-variants';
+
+/**
+ * Serializes read-modify-write cycles of the variant index
+ */
+const enqueue = createWriteQueue();
+
+/**
+ * Content types of the variant encodings
+ */
+const CONTENT_TYPES: Record<ImageVariant['format'], string> = {
+  avif: 'image/avif',
+  webp: 'image/webp',
+};
+
+/**
+ * Result of storing an uploaded image
+ */
+export interface StoredImage extends StoredUpload {
+  /** Resized copies of the image (empty if none could be made) */
+  variants: ImageVariant[];
+}
+
+/**
+ * Get the resized copies of every image that has them, by image URL
+ * 
+ * A missing document counts as no copies. A malformed one throws instead,
+ * so the next write cannot wipe the index.
+ */
+export async function getImageVariantIndex(): Promise<Record<string, ImageVariant[]>> {
+  const stored = await getStorageDriver().data.read(VARIANTS_DOCUMENT);
+  if (stored === null) {
+    return {};
+  }
+  
+  const result = storedImageVariantsSchema.safeParse(stored);
+  if (!result.success) {
+    throw new Error(`Malformed image variant index: ${result.error.errors[0]?.message}`);
+  }
+  return result.data.variants;
+}
+
+/**
+ * Change the stored variant index
+ */
+async function updateImageVariantIndex(
+  update: (variants: Record<string, ImageVariant[]>) => Record<string, ImageVariant[]>
+): Promise<void> {
+  await enqueue(async () => {
+    const variants = update(await getImageVariantIndex());
+    await getStorageDriver().data.write(VARIANTS_DOCUMENT, { variants });
+  });
+}
+
+/**
+ * Drop entries from the variant index once their files are deleted
+ * 
+ * Deleting an original or any one of its copies drops the whole entry,
+ * so the copies are made again the next time the image is stored.
+ */
+export async function forgetImageVariants(urls: string[]): Promise<void> {
+  if (urls.length === 0) return;
+  
+  const forgotten = new Set(urls);
+  await updateImageVariantIndex((variants) => Object.fromEntries(
+    Object.entries(variants).filter(([url, copies]) => (
+      !forgotten.has(url) && !copies.some((copy) => forgotten.has(copy.url))
+    ))
+  ));
+}
+
+/**
+ * Resize an image to every configured width and encoding, and store the
+ * copies next to the original
+ * 
+ * Copies are never larger than the original; sizes that would come out
+ * the same width are left out. Animated images get no copies, since they
+ * would lose their animation.
+ * 
+ * @throws If the image can't be decoded
+ */
+export async function generateImageVariants(original: Buffer): Promise<ImageVariant[]> {
+  const metadata = await sharp(original).metadata();
+  if ((metadata.pages ?? 1) > 1 || !metadata.width || !metadata.height) {
+    return [];
+  }
+  
+  // EXIF orientations 5-8 turn the image on its side
+  const originalWidth = (metadata.orientation ?? 1) >= 5 ? metadata.height : metadata.width;
+  const hash = hashContent(original);
+  const { media } = getStorageDriver();
+  
+  const sizes = (Object.entries(UPLOAD_CONFIG.variantWidths) as [ImageVariantSize, number][])
+    .sort(([, a], [, b]) => a - b);
+  
+  const variants: ImageVariant[] = [];
+  let previousWidth = 0;
+  
+  for (const [size, targetWidth] of sizes) {
+    const width = Math.min(targetWidth, originalWidth);
+    if (width === previousWidth) continue;
+    previousWidth = width;
+    
+    for (const format of UPLOAD_CONFIG.variantFormats) {
+      const pipeline = sharp(original).rotate().resize({ width, withoutEnlargement: true });
+      const { data, info } = await (format === 'avif'
+        ? pipeline.avif({ quality: UPLOAD_CONFIG.variantQuality })
+        : pipeline.webp({ quality: UPLOAD_CONFIG.variantQuality })
+      ).toBuffer({ resolveWithObject: true });
+      
+      // Named after the original, so the same image always maps to the same copies
+      const filename = `${hash}-${size}.${format}`;
+      const url = await media.find(filename) ?? await media.put(filename, data, CONTENT_TYPES[format]);
+      
+      variants.push({ size, format, width: info.width, height: info.height, url });
+    }
+  }
+  
+  return variants;
+}
+
+/**
+ * Get the resized copies of an image, making them if it has none yet
+ * 
+ * Copies that can't be made are logged and skipped, leaving the image to
+ * be shown at its original size.
+ */
+export async function ensureImageVariants(url: string, original: Buffer): Promise<ImageVariant[]> {
+  const existing = (await getImageVariantIndex())[url];
+  if (existing) {
+    return existing;
+  }
+  
+  try {
+    const variants = await generateImageVariants(original);
+    await updateImageVariantIndex((index) => ({ ...index, [url]: variants }));
+    return variants;
+  } catch (error) {
+    console.warn(`Could not make resized copies of ${url}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Store an uploaded image under its content hash, with resized copies
+ * 
+ * A duplicate upload also touches the copies it reuses, so the orphan
+ * sweep treats them as freshly uploaded like the original.
+ * 
+ * @param extension - File extension including the dot, e.g. ".jpg"
+ */
+export async function storeImage(
+  data: Buffer,
+  contentType: string,
+  extension: string
+): Promise<StoredImage> {
+  const stored = await storeMedia(data, contentType, extension);
+  const variants = await ensureImageVariants(stored.url, data);
+  
+  if (stored.deduplicated) {
+    const { media } = getStorageDriver();
+    for (const variant of variants) {
+      try {
+        await media.touch(variant.url);
+      } catch (error) {
+        console.warn(`Could not touch resized copy ${variant.url}:`, error);
+      }
+    }
+  }
+  
+  return { ...stored, variants };
+}
@@ -0,0 +1,214 @@
+import { createHash } from 'crypto';
+import type { Photo } from '@/types/photo';
+import { getStorageDriver } from './storage';
+
+/**
+ * Files younger than this are never deleted as unused, since an upload
+ * is only referenced once the photo form is saved
+ */
+export const MEDIA_GRACE_PERIOD_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Thrown when deleting a file that photos still use
+ */
+export class MediaInUseError extends Error {
+  /** Number of photos using the file */
+  readonly references: number;
+
+  constructor(references: number) {
+    super(`File is still used by ${references} photo${references === 1 ? '' : 's'}`);
+    this.name = 'MediaInUseError';
+    this.references = references;
+  }
+}
+
+/**
+ * Thrown when deleting a file uploaded within the grace period, which a
+ * photo being created may be about to use
+ */
+export class MediaRecentlyUploadedError extends Error {
+  constructor() {
+    super('File was uploaded recently and may be about to be used');
+    this.name = 'MediaRecentlyUploadedError';
+  }
+}
+
+/**
+ * Result of storing an uploaded file
+ */
+export interface StoredUpload {
+  /** Public URL of the file */
+  url: string;
+  /** Stored filename (content hash plus extension) */
+  filename: string;
+  /** Hex SHA-256 of the file contents */
+  hash: string;
+  /** Whether identical bytes were already stored */
+  deduplicated: boolean;
+}
+
+/**
+ * Hex SHA-256 of a file's contents
+ */
+export function hashContent(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Store an upload under its content hash
+ *
+ * Identical bytes always map to the same filename, so uploading a file
+ * that is already stored returns the existing URL instead of a copy. The
+ * existing file is touched, giving it a fresh grace period, and the lookup
+ * runs in the photo transaction so it can't interleave with a deletion.
+ *
+ * @param extension - File extension including the dot, e.g. ".jpg"
+ */
+export async function storeMedia(
+  data: Buffer,
+  contentType: string,
+  extension: string
+): Promise<StoredUpload> {
+  const { media, photos } = getStorageDriver();
+  const hash = hashContent(data);
+  const filename = `${hash}${extension}`;
+
+  const existingUrl = await photos.transaction(async () => {
+    const url = await media.find(filename);
+    if (url) {
+      await media.touch(url);
+    }
+    return url;
+  });
+  if (existingUrl) {
+    return { url: existingUrl, filename, hash, deduplicated: true };
+  }
+
+  const url = await media.put(filename, data, contentType);
+  return { url, filename, hash, deduplicated: false };
+}
+
+/**
+ * Every media URL a photo uses: its image and its resized copies
+ */
+export function getPhotoMediaUrls(photo: Photo): string[] {
+  return [photo.imageUrl, ...(photo.variants ?? []).map((variant) => variant.url)];
+}
+
+/**
+ * Media URLs named by stored photo records that failed validation
+ *
+ * Those records are left out of `photos.list()` but stay in storage to be
+ * repaired, so the files they point at must not count as orphans.
+ */
+export async function getInvalidRecordMediaUrls(): Promise<string[]> {
+  const { photos } = getStorageDriver();
+  const invalid = photos.listInvalid ? await photos.listInvalid() : [];
+
+  return invalid.flatMap(({ record }) => {
+    if (typeof record !== 'object' || record === null) {
+      return [];
+    }
+    const { imageUrl, variants } = record as { imageUrl?: unknown; variants?: unknown };
+    const variantUrls = Array.isArray(variants)
+      ? variants.map((variant) => (variant as { url?: unknown } | null)?.url)
+      : [];
+    return [imageUrl, ...variantUrls].filter((url): url is string => typeof url === 'string');
+  });
+}
+
+/**
+ * Count the photos (including those in the trash and records that failed
+ * validation) that use a media URL as their image or a resized copy
+ */
+export async function countMediaReferences(url: string): Promise<number> {
+  const photos = await getStorageDriver().photos.list();
+  const invalidUrls = await getInvalidRecordMediaUrls();
+
+  return photos.filter((photo) => getPhotoMediaUrls(photo).includes(url)).length
+    + invalidUrls.filter((invalidUrl) => invalidUrl === url).length;
+}
+
+/**
+ * Delete stored files that no photo uses and that were not touched within
+ * the grace period, re-checking both just before each delete
+ *
+ * Must run inside a photo transaction, so no photo can start using a file
+ * and no upload can be deduplicated onto it while it is being deleted.
+ * Files that can't be deleted are logged and skipped.
+ *
+ * @param minAgeMs - Skip files modified more recently than this
+ * @returns The deleted URLs and those that could not be deleted
+ */
+export async function deleteMediaIfUnused(
+  urls: string[],
+  minAgeMs: number = MEDIA_GRACE_PERIOD_MS
+): Promise<{ deleted: string[]; failed: string[] }> {
+  const result = { deleted: [] as string[], failed: [] as string[] };
+  if (urls.length === 0) {
+    return result;
+  }
+
+  const { media, photos } = getStorageDriver();
+  const referenced = new Set([
+    ...(await photos.list()).flatMap(getPhotoMediaUrls),
+    ...await getInvalidRecordMediaUrls(),
+  ]);
+  const cutoff = Date.now() - minAgeMs;
+
+  for (const url of new Set(urls)) {
+    if (referenced.has(url)) {
+      continue;
+    }
+
+    try {
+      const file = await media.stat(url);
+      if (!file || new Date(file.lastModified).getTime() >= cutoff) {
+        continue;
+      }
+      await media.delete(url);
+      result.deleted.push(url);
+    } catch (error) {
+      console.warn(`Could not delete media ${url}:`, error);
+      result.failed.push(url);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Delete a stored file that no photo uses, along with its resized copies
+ *
+ * Runs in the photo transaction, so no photo can start using the file and
+ * no upload can be deduplicated onto it while it is being deleted. Copies
+ * are deleted in the same transaction unless a photo uses them or they
+ * are within the grace period.
+ *
+ * @param copies - URLs of the file's resized copies
+ * @returns Whether the file existed
+ * @throws MediaInUseError if photos still use the file
+ * @throws MediaRecentlyUploadedError if the file is within its grace period
+ */
+export async function deleteUnusedMedia(url: string, copies: string[] = []): Promise<boolean> {
+  const { media, photos } = getStorageDriver();
+
+  return photos.transaction(async () => {
+    const file = await media.stat(url);
+    if (!file) {
+      return false;
+    }
+
+    const references = await countMediaReferences(url);
+    if (references > 0) {
+      throw new MediaInUseError(references);
+    }
+    if (Date.now() - new Date(file.lastModified).getTime() < MEDIA_GRACE_PERIOD_MS) {
+      throw new MediaRecentlyUploadedError();
+    }
+
+    await media.delete(url);
+    await deleteMediaIfUnused(copies);
+    return true;
+  });
+}
@@ -0,0 +1,70 @@
+import type { OrphanSweepResult } from '@/types/storage';
+import { getStorageDriver } from './storage';
+import { forgetImageVariants } from './imageVariants';
+import {
+  deleteMediaIfUnused,
+  getInvalidRecordMediaUrls,
+  getPhotoMediaUrls,
+  MEDIA_GRACE_PERIOD_MS,
+} from './media';
+
+/**
+ * Options for sweepOrphanedMedia
+ */
+export interface SweepOptions {
+  /** Only report orphans, don't delete them (default: true) */
+  dryRun?: boolean;
+  /** Skip files modified within this many milliseconds (default: 1 hour) */
+  minAgeMs?: number;
+}
+
+/**
+ * Find (and optionally delete) uploads that no photo references
+ *
+ * Photos in the trash still count as references, so restoring them
+ * keeps working. Resized copies count as used by the photos that list them,
+ * and records that failed validation keep their files until repaired.
+ *
+ * Orphans are deleted inside the photo transaction, each re-checked first,
+ * so a photo created or an upload deduplicated since the scan keeps its file.
+ */
+export async function sweepOrphanedMedia(options: SweepOptions = {}): Promise<OrphanSweepResult> {
+  const { dryRun = true, minAgeMs = MEDIA_GRACE_PERIOD_MS } = options;
+  const { photos, media } = getStorageDriver();
+
+  const [stored, allPhotos, invalidUrls] = await Promise.all([
+    media.list(),
+    photos.list(),
+    getInvalidRecordMediaUrls(),
+  ]);
+  const referenced = new Set([...allPhotos.flatMap(getPhotoMediaUrls), ...invalidUrls]);
+  const cutoff = Date.now() - minAgeMs;
+
+  const unreferenced = stored.filter((file) => !referenced.has(file.url));
+  const orphans = unreferenced.filter((file) => new Date(file.lastModified).getTime() < cutoff);
+
+  const result: OrphanSweepResult = {
+    orphans,
+    deleted: [],
+    failed: [],
+    skippedRecent: unreferenced.length - orphans.length,
+  };
+
+  if (dryRun) {
+    return result;
+  }
+
+  const { deleted, failed } = await photos.transaction(() => (
+    deleteMediaIfUnused(orphans.map((file) => file.url), minAgeMs)
+  ));
+  result.deleted = deleted;
+  result.failed = failed;
+
+  try {
+    await forgetImageVariants(result.deleted);
+  } catch (error) {
+    console.warn('Could not update the image variant index:', error);
+  }
+
+  return result;
+}
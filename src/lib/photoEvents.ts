@@ -0,0 +1,40 @@
+import type { PhotoEvent } from '@/types/photo';
+
+/**
+ * Receives gallery events
+ */
+type PhotoEventListener = (event: PhotoEvent) => void;
+
+/**
+ * Listeners are kept on globalThis so every route bundle in this server
+ * process shares one set
+ */
+const globalForEvents = globalThis as typeof globalThis & {
+  photoEventListeners?: Set<PhotoEventListener>;
+};
+
+const listeners = (globalForEvents.photoEventListeners ??= new Set());
+
+/**
+ * Subscribe to gallery events from this server process
+ * @returns Function that unsubscribes
+ */
+export function subscribePhotoEvents(listener: PhotoEventListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Send an event to every subscriber
+ */
+export function publishPhotoEvent(event: PhotoEvent): void {
+  listeners.forEach((listener) => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Error in photo event listener:', error);
+    }
+  });
+}
@@ -0,0 +1,97 @@
+import type { PhotoFrame, PhotoFilters } from '@/types/photo';
+import { replaceSearchTags } from './search';
+
+/**
+ * The calendar day a photo was taken, as YYYY-MM-DD
+ */
+function getDayTaken(photo: PhotoFrame): string | null {
+  return photo.dateTaken ? photo.dateTaken.slice(0, 10) : null;
+}
+
+/**
+ * Swap the source tags in a tag list for the target, or drop them
+ */
+function replaceTagList(tags: string[], sources: Set<string>, target: string | null): string[] {
+  return Array.from(new Set(tags.flatMap((tag) => {
+    if (!sources.has(tag)) return [tag];
+    return target === null ? [] : [target];
+  })));
+}
+
+/**
+ * Point saved filters at another tag after tags are renamed, merged or
+ * deleted: the tag lists and the `tag:` operators of the search text
+ * @param target - Tag replacing the sources, or null to drop them
+ * @returns The rewritten filters, or null if they name none of the sources
+ */
+export function replaceFilterTags(
+  filters: PhotoFilters,
+  sources: string[],
+  target: string | null
+): PhotoFilters | null {
+  const sourceSet = new Set(sources);
+  const names = (tags?: string[]) => tags?.some((tag) => sourceSet.has(tag)) ?? false;
+  const search = filters.search === undefined
+    ? undefined
+    : replaceSearchTags(filters.search, sources, target);
+  
+  if (!names(filters.tags) && !names(filters.excludedTags) && search === filters.search) {
+    return null;
+  }
+  
+  const replaced: PhotoFilters = { ...filters };
+  if (search !== undefined) {
+    replaced.search = search;
+  }
+  if (filters.tags) {
+    replaced.tags = replaceTagList(filters.tags, sourceSet, target);
+  }
+  if (filters.excludedTags) {
+    replaced.excludedTags = replaceTagList(filters.excludedTags, sourceSet, target);
+  }
+  return replaced;
+}
+
+/**
+ * Whether a photo passes the structured filters: trash, tags, favorites
+ * and date range. Free-text search is matched separately.
+ *
+ * Used by both getAllPhotos and the gallery store, so the server and
+ * the client always agree on what matches.
+ */
+export function matchesFilters(photo: PhotoFrame, filters: PhotoFilters): boolean {
+  // Trashed photos only show up in the trash view
+  if (!!photo.deletedAt !== !!filters.trashed) {
+    return false;
+  }
+  
+  if (filters.tags && filters.tags.length > 0) {
+    const hasTag = (tag: string) => photo.tags.includes(tag);
+    const matches = filters.tagMode === 'all'
+      ? filters.tags.every(hasTag)
+      : filters.tags.some(hasTag);
+    if (!matches) {
+      return false;
+    }
+  }
+  
+  if (filters.excludedTags && filters.excludedTags.length > 0 &&
+      photo.tags.some((tag) => filters.excludedTags!.includes(tag))) {
+    return false;
+  }
+  
+  if (filters.favoritesOnly && !photo.isFavorite) {
+    return false;
+  }
+  
+  // Date bounds are inclusive days; photos without a date never match
+  const { from, to } = filters.dateRange ?? {};
+  if (from || to) {
+    const day = getDayTaken(photo);
+    if (!day || (from && day < from) || (to && day > to)) {
+      return false;
+    }
+  }
+  
+  return true;
+}
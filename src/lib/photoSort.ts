@@ -0,0 +1,121 @@
+import type { PhotoFrame, PhotoSortOption } from '@/types/photo';
+
+/**
+ * Values a photo is ordered by, ending with its ID so every photo has a
+ * unique position. Used as page cursors, so it must stay JSON-safe.
+ */
+export type PhotoSortKey = (string | number)[];
+
+/**
+ * One level of a sort order
+ */
+interface SortField {
+  value: (photo: PhotoFrame, score: number) => string | number;
+  descending?: boolean;
+}
+
+const dateAdded = (photo: PhotoFrame) => new Date(photo.dateAdded).getTime();
+const dateTaken = (photo: PhotoFrame) => (photo.dateTaken ? new Date(photo.dateTaken).getTime() : 0);
+// Photos without a date taken go last in both directions
+const missingDateTaken = (photo: PhotoFrame) => (photo.dateTaken ? 0 : 1);
+
+/**
+ * Sort fields by option
+ */
+const SORT_FIELDS: Record<PhotoSortOption, SortField[]> = {
+  'dateAdded-desc': [{ value: dateAdded, descending: true }],
+  'dateAdded-asc': [{ value: dateAdded }],
+  'dateTaken-desc': [{ value: missingDateTaken }, { value: dateTaken, descending: true }],
+  'dateTaken-asc': [{ value: missingDateTaken }, { value: dateTaken }],
+  'title-asc': [{ value: (photo) => photo.title }],
+  'title-desc': [{ value: (photo) => photo.title, descending: true }],
+  'favorites-first': [
+    { value: (photo) => (photo.isFavorite ? 0 : 1) },
+    { value: dateAdded, descending: true },
+  ],
+  // Best match first, newest first among equals (and without a search)
+  'relevance': [
+    { value: (_photo, score) => score, descending: true },
+    { value: dateAdded, descending: true },
+  ],
+  // Manual order, arranged by dragging
+  'custom': [{ value: (photo) => photo.position }],
+};
+
+/**
+ * Get the sort key of a photo
+ * @param score - Search relevance, used by the 'relevance' sort
+ */
+export function getSortKey(photo: PhotoFrame, sort: PhotoSortOption, score: number = 0): PhotoSortKey {
+  return [...SORT_FIELDS[sort].map((field) => field.value(photo, score)), photo.id];
+}
+
+/**
+ * Compare two sort keys of the same sort option
+ */
+export function compareSortKeys(a: PhotoSortKey, b: PhotoSortKey, sort: PhotoSortOption): number {
+  const fields = SORT_FIELDS[sort];
+
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const x = a[i];
+    const y = b[i];
+    if (x === y) {
+      continue;
+    }
+
+    const result = typeof x === 'number' && typeof y === 'number'
+      ? x - y
+      : String(x).localeCompare(String(y));
+    if (result !== 0) {
+      return fields[i]?.descending ? -result : result;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Sort photos in place
+ * @param scores - Search relevance by photo ID, for the 'relevance' sort
+ */
+export function sortPhotos(
+  photos: PhotoFrame[],
+  sort: PhotoSortOption,
+  scores?: Map<string, number>
+): PhotoFrame[] {
+  const keys = new Map(photos.map((p) => [p.id, getSortKey(p, sort, scores?.get(p.id))]));
+  return photos.sort((a, b) => compareSortKeys(keys.get(a.id)!, keys.get(b.id)!, sort));
+}
+
+/**
+ * Work out the positions for a new manual order of some photos
+ *
+ * The listed photos take over the positions they already hold between
+ * them, in the given order, so reordering a filtered or partly loaded
+ * list never moves photos outside it. IDs not in `photos` are ignored.
+ *
+ * @returns The new position of every photo that moves
+ */
+export function reorderPositions(photos: PhotoFrame[], orderedIds: string[]): Record<string, number> {
+  const photoMap = new Map(photos.map((p) => [p.id, p]));
+  const listed = orderedIds
+    .map((id) => photoMap.get(id))
+    .filter((p): p is PhotoFrame => !!p);
+  const slots = listed.map((p) => p.position).sort((a, b) => a - b);
+
+  const positions: Record<string, number> = {};
+  listed.forEach((photo, index) => {
+    if (photo.position !== slots[index]) {
+      positions[photo.id] = slots[index];
+    }
+  });
+  return positions;
+}
+
+/**
+ * Whether a key has a valid shape for a sort option (e.g. from a cursor)
+ */
+export function isSortKey(value: unknown, sort: PhotoSortOption): value is PhotoSortKey {
+  return Array.isArray(value) &&
+    value.length === SORT_FIELDS[sort].length + 1 &&
+    value.every((item) => typeof item === 'string' || (typeof item === 'number' && Number.isFinite(item)));
+}
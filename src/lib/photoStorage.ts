@@ -1,346 +1,807 @@
 import { v4 as uuidv4 } from 'uuid';
-import { promises as fs } from 'fs';
-import path from 'path';
-import type { Photo, PhotoFrame, PhotoFilters, PhotoSortOption, FrameColor } from '@/types/photo';
+import type {
+  Photo,
+  PhotoFrame,
+  PhotoFilters,
+  PhotoSortOption,
+  PhotoChanges,
+  PhotoEvent,
+  PhotoPage,
+  PaginationOptions,
+  FrameColor,
+  PhotoBatchOperation,
+  PhotoBatchResult,
+  ImageVariant,
+} from '@/types/photo';
+import type { PhotoChangeType } from '@/types/storage';
+import { STORAGE_CONFIG } from '@/config/storage';
+import { getStorageDriver } from './storage';
+import { publishPhotoEvent } from './photoEvents';
+import { removePhotosFromAlbums } from './albumStorage';
+import { forgetImageVariants, getImageVariantIndex } from './imageVariants';
+import { deleteMediaIfUnused, getPhotoMediaUrls } from './media';
+import { createSearchIndex, hasSearchText, resolveFilters } from './search';
+import { matchesFilters } from './photoFilters';
+import { compareSortKeys, getSortKey, isSortKey, reorderPositions, sortPhotos } from './photoSort';
+import type { PhotoSortKey } from './photoSort';
 import { getRandomRotation } from './utils';
 
 /**
- * Check if we're in a Vercel environment with Blob storage
+ * Minimum time between automatic trash purges
  */
-const HAS_BLOB_TOKEN = !!process.env.BLOB_READ_WRITE_TOKEN;
+const PURGE_INTERVAL = 60 * 60 * 1000; // 1 hour
 
-/**
- * Local file storage path
- */
-const DATA_DIR = path.join(process.cwd(), 'src', 'data');
-const PHOTOS_FILE = path.join(DATA_DIR, 'photos.json');
+let lastPurgeTime = 0;
 
 /**
- * Blob storage filename for photos data
+ * Most tags a photo may carry
  */
-const PHOTOS_BLOB_NAME = 'photos-data.json';
+const MAX_TAGS_PER_PHOTO = 10;
 
 /**
- * In-memory cache
+ * Word index for free-text search, brought up to date from the change
+ * feed before each search
  */
-let memoryCache: PhotoFrame[] | null = null;
-let lastFetchTime = 0;
-const CACHE_TTL = 5000; // 5 seconds
+const searchIndex = createSearchIndex();
 
 /**
- * Ensure local data directory exists
+ * Thrown when a page cursor is malformed or belongs to another sort
  */
-async function ensureLocalDataDir(): Promise<void> {
-  try {
-    await fs.access(DATA_DIR);
-  } catch {
-    await fs.mkdir(DATA_DIR, { recursive: true });
-  }
-  try {
-    await fs.access(PHOTOS_FILE);
-  } catch {
-    await fs.writeFile(PHOTOS_FILE, JSON.stringify([], null, 2));
+export class InvalidPageCursorError extends Error {
+  constructor() {
+    super('Invalid page cursor');
+    this.name = 'InvalidPageCursorError';
   }
 }
 
 /**
- * Read photos from local file
+ * Thrown when a write was conditioned on a version the photo no longer has
  */
-async function readPhotosLocal(): Promise<PhotoFrame[]> {
-  try {
-    await ensureLocalDataDir();
-    const data = await fs.readFile(PHOTOS_FILE, 'utf-8');
-    return JSON.parse(data);
-  } catch (error) {
-    console.warn('Could not read local photos.json:', error);
-    return [];
+export class PhotoVersionConflictError extends Error {
+  /** The current stored photo */
+  readonly current: PhotoFrame;
+  
+  constructor(current: PhotoFrame) {
+    super(`Photo ${current.id} has been modified (now at version ${current.version})`);
+    this.name = 'PhotoVersionConflictError';
+    this.current = current;
   }
 }
 
 /**
- * Write photos to local file
+ * Photo metadata repository of the configured storage driver
+ *
+ * Every mutation below runs inside `transaction`, so concurrent requests
+ * never interleave their read-modify-write cycles.
  */
-async function writePhotosLocal(photos: PhotoFrame[]): Promise<void> {
-  try {
-    await ensureLocalDataDir();
-    await fs.writeFile(PHOTOS_FILE, JSON.stringify(photos, null, 2));
-  } catch (error) {
-    console.warn('Could not write to local photos.json:', error);
-  }
+function repository() {
+  return getStorageDriver().photos;
 }
 
 /**
- * Read photos from Vercel Blob storage
+ * Run a mutation in a transaction, then broadcast the events it describes
+ * to live subscribers once it has been written
  */
-async function readPhotosBlob(): Promise<PhotoFrame[]> {
-  try {
-    const { list } = await import('@vercel/blob');
-    const { blobs } = await list({ prefix: PHOTOS_BLOB_NAME });
-    
-    if (blobs.length === 0) {
-      return [];
-    }
-    
-    const response = await fetch(blobs[0].url);
-    if (!response.ok) {
-      throw new Error('Failed to fetch photos data');
-    }
-    
-    return await response.json();
-  } catch (error) {
-    console.error('Error reading photos from blob:', error);
-    return [];
-  }
+async function mutate<T>(
+  task: () => Promise<T>,
+  toEvents: (result: T) => PhotoEvent[]
+): Promise<T> {
+  const result = await repository().transaction(task);
+  toEvents(result).forEach(publishPhotoEvent);
+  return result;
 }
 
 /**
- * Write photos to Vercel Blob storage
+ * Events for photos removed by removePhotoRecords
  */
-async function writePhotosBlob(photos: PhotoFrame[]): Promise<void> {
-  try {
-    const { put, list, del } = await import('@vercel/blob');
-    
-    // Delete old blob if exists
-    const { blobs } = await list({ prefix: PHOTOS_BLOB_NAME });
-    for (const blob of blobs) {
-      await del(blob.url);
-    }
-    
-    // Write new data
-    const jsonData = JSON.stringify(photos, null, 2);
-    await put(PHOTOS_BLOB_NAME, jsonData, {
-      access: 'public',
-      addRandomSuffix: false,
-      contentType: 'application/json',
+function removalEvents(
+  { removed, shifted }: { removed: PhotoFrame[]; shifted: PhotoFrame[] }
+): PhotoEvent[] {
+  const events: PhotoEvent[] = removed.map((p) => ({ type: 'deleted', id: p.id }));
+  if (shifted.length > 0) {
+    events.push({
+      type: 'reordered',
+      positions: Object.fromEntries(shifted.map((p) => [p.id, p.position])),
     });
-  } catch (error) {
-    console.error('Error writing photos to blob:', error);
   }
+  return events;
 }
 
 /**
- * Read photos (auto-selects storage based on environment)
+ * Apply writes made since the search index was last used
  */
-async function readPhotos(): Promise<PhotoFrame[]> {
-  const now = Date.now();
-  if (memoryCache !== null && (now - lastFetchTime) < CACHE_TTL) {
-    return memoryCache;
+async function syncSearchIndex(): Promise<typeof searchIndex> {
+  const cursor = await getChangeCursor();
+  if (searchIndex.cursor === cursor) {
+    return searchIndex;
   }
   
-  const photos = HAS_BLOB_TOKEN ? await readPhotosBlob() : await readPhotosLocal();
-  memoryCache = photos;
-  lastFetchTime = now;
-  return photos;
+  const changes = searchIndex.cursor !== null ? await getPhotoChanges(searchIndex.cursor) : null;
+  if (changes && !changes.reset) {
+    searchIndex.update([...changes.created, ...changes.updated], changes.deleted, changes.cursor);
+  } else {
+    searchIndex.rebuild(await repository().list(), cursor);
+  }
+  return searchIndex;
 }
 
 /**
- * Write photos (auto-selects storage based on environment)
+ * Filter and sort photos
+ * @returns The photos and, for free-text searches, their relevance
  */
-async function writePhotos(photos: PhotoFrame[]): Promise<void> {
-  memoryCache = photos;
-  lastFetchTime = Date.now();
+async function queryPhotos(
+  filterOptions: PhotoFilters | undefined,
+  sort: PhotoSortOption
+): Promise<{ photos: PhotoFrame[]; scores: Map<string, number> | null }> {
+  const { filters, text } = resolveFilters(filterOptions ?? {});
+  const repo = repository();
+  let photos = filterOptions && repo.listMatching
+    ? await repo.listMatching(filters)
+    : await repo.list();
   
-  if (HAS_BLOB_TOKEN) {
-    await writePhotosBlob(photos);
-  } else {
-    await writePhotosLocal(photos);
+  // Apply trash, tag, favorite and date filters
+  photos = photos.filter((p) => matchesFilters(p, filters));
+  
+  // Free text, scored through the search index
+  let scores: Map<string, number> | null = null;
+  if (hasSearchText(text)) {
+    const matches = (await syncSearchIndex()).search(text);
+    photos = photos.filter((p) => matches.has(p.id));
+    scores = matches;
   }
+  
+  sortPhotos(photos, sort, scores ?? undefined);
+  
+  return { photos, scores };
 }
 
 /**
  * Get all photos with optional filtering and sorting
+ * 
+ * `filters.search` may use the query language (see parseSearchQuery);
+ * its free text is matched fuzzily and scored for the 'relevance' sort.
  */
 export async function getAllPhotos(
   filters?: PhotoFilters,
   sort: PhotoSortOption = 'dateAdded-desc'
 ): Promise<PhotoFrame[]> {
-  let photos = await readPhotos();
-  
-  // Apply filters
-  if (filters) {
-    if (filters.search) {
-      const searchLower = filters.search.toLowerCase();
-      photos = photos.filter(
-        (p) =>
-          p.title.toLowerCase().includes(searchLower) ||
-          p.description?.toLowerCase().includes(searchLower) ||
-          p.tags.some((t) => t.toLowerCase().includes(searchLower))
-      );
-    }
-    
-    if (filters.tags && filters.tags.length > 0) {
-      photos = photos.filter((p) =>
-        filters.tags!.some((tag) => p.tags.includes(tag))
-      );
-    }
-    
-    if (filters.favoritesOnly) {
-      photos = photos.filter((p) => p.isFavorite);
-    }
-    
-    if (filters.dateRange) {
-      if (filters.dateRange.from) {
-        photos = photos.filter(
-          (p) => p.dateTaken && p.dateTaken >= filters.dateRange!.from!
-        );
-      }
-      if (filters.dateRange.to) {
-        photos = photos.filter(
-          (p) => p.dateTaken && p.dateTaken <= filters.dateRange!.to!
-        );
-      }
-    }
+  return (await queryPhotos(filters, sort)).photos;
+}
+
+/**
+ * Encode a sort key as an opaque page cursor
+ */
+function encodePageCursor(key: PhotoSortKey): string {
+  return Buffer.from(JSON.stringify(key)).toString('base64url');
+}
+
+/**
+ * Decode a page cursor for a sort option
+ * @throws InvalidPageCursorError if it wasn't made for this sort
+ */
+function decodePageCursor(cursor: string, sort: PhotoSortOption): PhotoSortKey {
+  let key: unknown;
+  try {
+    key = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    throw new InvalidPageCursorError();
   }
   
-  // Apply sorting
-  photos.sort((a, b) => {
-    switch (sort) {
-      case 'dateAdded-desc':
-        return new Date(b.dateAdded).getTime() - new Date(a.dateAdded).getTime();
-      case 'dateAdded-asc':
-        return new Date(a.dateAdded).getTime() - new Date(b.dateAdded).getTime();
-      case 'dateTaken-desc':
-        if (!a.dateTaken) return 1;
-        if (!b.dateTaken) return -1;
-        return new Date(b.dateTaken).getTime() - new Date(a.dateTaken).getTime();
-      case 'dateTaken-asc':
-        if (!a.dateTaken) return 1;
-        if (!b.dateTaken) return -1;
-        return new Date(a.dateTaken).getTime() - new Date(b.dateTaken).getTime();
-      case 'title-asc':
-        return a.title.localeCompare(b.title);
-      case 'title-desc':
-        return b.title.localeCompare(a.title);
-      case 'favorites-first':
-        if (a.isFavorite === b.isFavorite) {
-          return new Date(b.dateAdded).getTime() - new Date(a.dateAdded).getTime();
-        }
-        return a.isFavorite ? -1 : 1;
-      default:
-        return 0;
-    }
-  });
+  if (!isSortKey(key, sort)) {
+    throw new InvalidPageCursorError();
+  }
+  return key;
+}
+
+/**
+ * Get one page of photos
+ * 
+ * Pages continue after the sort position of the last photo returned,
+ * so photos added, edited or deleted meanwhile never shift later pages
+ * and nothing is skipped or repeated.
+ * 
+ * @param options.after - `nextCursor` of the previous page
+ * @param options.limit - Maximum number of photos
+ * @throws InvalidPageCursorError if `after` is malformed or from another sort
+ */
+export async function getPhotoPage(
+  filters: PhotoFilters | undefined,
+  sort: PhotoSortOption,
+  options: PaginationOptions
+): Promise<PhotoPage> {
+  const after = options.after ? decodePageCursor(options.after, sort) : null;
+  const { photos, scores } = await queryPhotos(filters, sort);
+  const keyOf = (photo: PhotoFrame) => getSortKey(photo, sort, scores?.get(photo.id));
   
-  return photos;
+  const start = after
+    ? photos.findIndex((p) => compareSortKeys(keyOf(p), after, sort) > 0)
+    : 0;
+  const page = start === -1 ? [] : photos.slice(start, start + options.limit);
+  const hasMore = start !== -1 && start + options.limit < photos.length;
+  
+  return {
+    photos: page,
+    total: photos.length,
+    nextCursor: hasMore ? encodePageCursor(keyOf(page[page.length - 1])) : null,
+  };
 }
 
 /**
  * Get a single photo by ID
  */
 export async function getPhotoById(id: string): Promise<PhotoFrame | null> {
-  const photos = await readPhotos();
-  return photos.find((p) => p.id === id) || null;
+  return repository().findById(id);
 }
 
 /**
- * Create a new photo
+ * IDs that belong to no photo, not even one in the trash
  */
-export async function createPhoto(
-  data: Omit<Photo, 'id' | 'dateAdded'> & { frameColor?: FrameColor }
-): Promise<PhotoFrame> {
-  const photos = await readPhotos();
+export async function findMissingPhotoIds(ids: string[]): Promise<string[]> {
+  const existing = new Set((await repository().list()).map((p) => p.id));
+  return ids.filter((id) => !existing.has(id));
+}
+
+/**
+ * Photo fields given when creating a photo
+ */
+type NewPhotoData = Omit<Photo, 'id' | 'dateAdded'> & { frameColor?: FrameColor };
+
+/**
+ * Build the record of a new photo, with the resized copies made when
+ * its image was uploaded
+ */
+function buildPhoto(
+  data: NewPhotoData,
+  position: number,
+  dateAdded: Date,
+  variantIndex: Record<string, ImageVariant[]>
+): PhotoFrame {
+  const variants = variantIndex[data.imageUrl];
   
-  const newPhoto: PhotoFrame = {
+  return {
     ...data,
+    ...(variants?.length ? { variants } : {}),
     id: uuidv4(),
-    dateAdded: new Date().toISOString(),
+    dateAdded: dateAdded.toISOString(),
     tags: data.tags || [],
     isFavorite: data.isFavorite || false,
     frameColor: data.frameColor || 'white',
     rotation: getRandomRotation(4),
-    position: photos.length,
+    position,
+    version: 1,
   };
+}
+
+/**
+ * Create a new photo
+ */
+export async function createPhoto(data: NewPhotoData): Promise<PhotoFrame> {
+  const variantIndex = await getImageVariantIndex();
   
-  photos.push(newPhoto);
-  await writePhotos(photos);
+  return mutate(async () => {
+    const photos = await repository().list();
+    
+    const newPhoto = buildPhoto(data, photos.length, new Date(), variantIndex);
+    await repository().upsert([newPhoto]);
+    
+    return newPhoto;
+  }, (photo) => [{ type: 'created', photo }]);
+}
+
+/**
+ * Create many photos in one write
+ * 
+ * Photos are added in the given order, a millisecond apart, so they keep
+ * that order under every date-added and manual sort.
+ */
+export async function createPhotos(items: NewPhotoData[]): Promise<PhotoFrame[]> {
+  const variantIndex = await getImageVariantIndex();
   
-  return newPhoto;
+  return mutate(async () => {
+    const photos = await repository().list();
+    const now = Date.now();
+    
+    const created = items.map((data, index) => (
+      buildPhoto(data, photos.length + index, new Date(now + index), variantIndex)
+    ));
+    await repository().upsert(created);
+    
+    return created;
+  }, (created) => created.map((photo) => ({ type: 'created', photo })));
 }
 
 /**
  * Update an existing photo
+ * @param expectedVersion - Only update if the photo is still at this version
+ * @throws PhotoVersionConflictError if the version does not match
  */
 export async function updatePhoto(
   id: string,
-  data: Partial<Omit<PhotoFrame, 'id' | 'dateAdded'>>
+  data: Partial<Omit<PhotoFrame, 'id' | 'dateAdded' | 'version'>>,
+  expectedVersion?: number
 ): Promise<PhotoFrame | null> {
-  const photos = await readPhotos();
-  const index = photos.findIndex((p) => p.id === id);
+  return mutate(async () => {
+    const existing = await repository().findById(id);
+    
+    if (!existing) {
+      return null;
+    }
+    
+    if (expectedVersion !== undefined && existing.version !== expectedVersion) {
+      throw new PhotoVersionConflictError(existing);
+    }
+    
+    const updated: PhotoFrame = {
+      ...existing,
+      ...data,
+      version: existing.version + 1,
+    };
+    
+    await repository().upsert([updated]);
+    return updated;
+  }, (photo) => (photo ? [{ type: 'updated', photo }] : []));
+}
+
+/**
+ * Move a photo to the trash
+ * @param expectedVersion - Only delete if the photo is still at this version
+ * @throws PhotoVersionConflictError if the version does not match
+ */
+export async function deletePhoto(id: string, expectedVersion?: number): Promise<boolean> {
+  const result = await mutate(async () => {
+    const existing = await repository().findById(id);
+    
+    if (!existing) {
+      return null;
+    }
+    
+    if (expectedVersion !== undefined && existing.version !== expectedVersion) {
+      throw new PhotoVersionConflictError(existing);
+    }
+    
+    if (existing.deletedAt) {
+      return { trashed: null };
+    }
+    
+    const trashed: PhotoFrame = {
+      ...existing,
+      deletedAt: new Date().toISOString(),
+      version: existing.version + 1,
+    };
+    await repository().upsert([trashed]);
+    return { trashed };
+  }, (result) => (
+    result?.trashed ? [{ type: 'updated', photo: result.trashed }] : []
+  ));
+  
+  return result !== null;
+}
+
+/**
+ * Restore a photo from the trash
+ */
+export async function restorePhoto(id: string): Promise<PhotoFrame | null> {
+  const result = await mutate(async () => {
+    const existing = await repository().findById(id);
+    
+    if (!existing) {
+      return null;
+    }
+    
+    if (!existing.deletedAt) {
+      return { photo: existing, changed: false };
+    }
+    
+    const { deletedAt: _deletedAt, ...rest } = existing;
+    const restored: PhotoFrame = { ...rest, version: existing.version + 1 };
+    
+    await repository().upsert([restored]);
+    return { photo: restored, changed: true };
+  }, (result) => (
+    result?.changed ? [{ type: 'updated', photo: result.photo }] : []
+  ));
+  
+  return result?.photo ?? null;
+}
+
+/**
+ * Remove photo records for good, close the gaps in positions and delete
+ * the media no photo uses any more.
+ * Must run inside a repository transaction.
+ * @returns The removed photos, the photos whose position changed and the
+ *          deleted media URLs
+ */
+async function removePhotoRecords(
+  ids: string[]
+): Promise<{ removed: PhotoFrame[]; shifted: PhotoFrame[]; deletedMedia: string[] }> {
+  const idSet = new Set(ids);
+  const photos = await repository().list();
+  const removed = photos.filter((p) => idSet.has(p.id));
   
-  if (index === -1) {
-    return null;
+  if (removed.length === 0) {
+    return { removed, shifted: [], deletedMedia: [] };
   }
   
-  photos[index] = {
-    ...photos[index],
-    ...data,
-  };
+  const remaining = photos
+    .filter((p) => !idSet.has(p.id))
+    .sort((a, b) => a.position - b.position);
+  
+  const shifted = remaining
+    .map((photo, i) => ({ ...photo, position: i }))
+    .filter((photo, i) => photo.position !== remaining[i].position);
+  
+  await repository().remove(removed.map((p) => p.id));
+  if (shifted.length > 0) {
+    await repository().upsert(shifted);
+  }
+  
+  // Several records may point at the same file, and a recent upload may
+  // have been deduplicated onto it; those files are kept
+  const { deleted } = await deleteMediaIfUnused(removed.flatMap(getPhotoMediaUrls));
+  
+  return { removed, shifted, deletedMedia: deleted };
+}
+
+/**
+ * Drop deleted media files from the variant index (best effort)
+ */
+async function forgetDeletedMedia(urls: string[]): Promise<void> {
+  try {
+    await forgetImageVariants(urls);
+  } catch (error) {
+    console.warn('Could not update the image variant index:', error);
+  }
+}
+
+/**
+ * Take photos deleted for good out of every album (best effort)
+ */
+async function removeFromAlbums(photos: PhotoFrame[]): Promise<void> {
+  if (photos.length === 0) return;
   
-  await writePhotos(photos);
-  return photos[index];
+  try {
+    await removePhotosFromAlbums(photos.map((p) => p.id));
+  } catch (error) {
+    console.warn('Could not remove deleted photos from albums:', error);
+  }
 }
 
 /**
- * Delete a photo
+ * Permanently delete a photo and its media
+ * @param expectedVersion - Only delete if the photo is still at this version
+ * @throws PhotoVersionConflictError if the version does not match
  */
-export async function deletePhoto(id: string): Promise<boolean> {
-  const photos = await readPhotos();
-  const index = photos.findIndex((p) => p.id === id);
+export async function permanentlyDeletePhoto(
+  id: string,
+  expectedVersion?: number
+): Promise<boolean> {
+  const result = await mutate(async () => {
+    const existing = await repository().findById(id);
+    
+    if (!existing) {
+      return null;
+    }
+    
+    if (expectedVersion !== undefined && existing.version !== expectedVersion) {
+      throw new PhotoVersionConflictError(existing);
+    }
+    
+    return removePhotoRecords([id]);
+  }, (result) => (result ? removalEvents(result) : []));
   
-  if (index === -1) {
+  if (!result) {
     return false;
   }
   
-  photos.splice(index, 1);
+  await forgetDeletedMedia(result.deletedMedia);
+  await removeFromAlbums(result.removed);
+  return true;
+}
+
+/**
+ * Permanently delete photos that have been in the trash longer than
+ * the retention period (TRASH_RETENTION_DAYS)
+ * @returns The purged photos
+ */
+export async function purgeExpiredTrash(now: Date = new Date()): Promise<PhotoFrame[]> {
+  const { retentionDays } = STORAGE_CONFIG.trash;
+  if (!(retentionDays > 0)) {
+    return [];
+  }
   
-  photos.forEach((photo, i) => {
-    photo.position = i;
-  });
+  const cutoff = new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
   
-  await writePhotos(photos);
-  return true;
+  const { removed, deletedMedia } = await mutate(async () => {
+    const photos = await repository().list();
+    const expiredIds = photos
+      .filter((p) => p.deletedAt && p.deletedAt < cutoff)
+      .map((p) => p.id);
+    
+    return removePhotoRecords(expiredIds);
+  }, removalEvents);
+  
+  await forgetDeletedMedia(deletedMedia);
+  await removeFromAlbums(removed);
+  return removed;
+}
+
+/**
+ * Purge expired trash at most once per hour per server process
+ */
+export async function purgeExpiredTrashIfDue(): Promise<void> {
+  const now = Date.now();
+  if (now - lastPurgeTime < PURGE_INTERVAL) {
+    return;
+  }
+  lastPurgeTime = now;
+  
+  try {
+    const purged = await purgeExpiredTrash();
+    if (purged.length > 0) {
+      console.log(`Purged ${purged.length} photos from the trash`);
+    }
+  } catch (error) {
+    console.error('Error purging trash:', error);
+  }
 }
 
 /**
  * Get all unique tags from photos
  */
 export async function getAllTags(): Promise<string[]> {
-  const photos = await readPhotos();
+  const repo = repository();
+  if (repo.listTags) {
+    return repo.listTags();
+  }
+  
+  const photos = await repo.list();
   const tagSet = new Set<string>();
   
-  photos.forEach((photo) => {
-    photo.tags.forEach((tag) => tagSet.add(tag));
-  });
+  photos
+    .filter((photo) => !photo.deletedAt)
+    .forEach((photo) => {
+      photo.tags.forEach((tag) => tagSet.add(tag));
+    });
   
   return Array.from(tagSet).sort();
 }
 
 /**
- * Reorder photos
+ * Count the photos outside the trash that carry each tag
+ */
+export async function getTagCounts(): Promise<Map<string, number>> {
+  const photos = await repository().list();
+  const counts = new Map<string, number>();
+  
+  photos
+    .filter((photo) => !photo.deletedAt)
+    .forEach((photo) => {
+      photo.tags.forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+    });
+  
+  return counts;
+}
+
+/**
+ * Replace tags on every photo, including those in the trash
+ * @param sources - Tags to replace
+ * @param target - Tag to put in their place, or null to remove them
+ * @returns The photos whose tags changed
+ */
+export async function replaceTags(
+  sources: string[],
+  target: string | null
+): Promise<PhotoFrame[]> {
+  const sourceSet = new Set(sources);
+  
+  return mutate(async () => {
+    const photos = await repository().list();
+    
+    const updated = photos
+      .map((photo) => {
+        const tags = Array.from(new Set(photo.tags.flatMap((tag) => {
+          if (!sourceSet.has(tag)) return [tag];
+          return target === null ? [] : [target];
+        })));
+        
+        if (tags.length === photo.tags.length && tags.every((tag, i) => tag === photo.tags[i])) {
+          return null;
+        }
+        return { ...photo, tags, version: photo.version + 1 };
+      })
+      .filter((p): p is PhotoFrame => p !== null);
+    
+    if (updated.length > 0) {
+      await repository().upsert(updated);
+    }
+    return updated;
+  }, (updated) => updated.map((photo) => ({ type: 'updated', photo })));
+}
+
+/**
+ * Apply a batch operation to one photo
+ * @returns The changed photo, null if nothing changes, or an error message
+ */
+function applyBatchOperation(
+  photo: PhotoFrame,
+  operation: PhotoBatchOperation
+): PhotoFrame | null | string {
+  switch (operation.type) {
+    case 'addTags': {
+      const tags = Array.from(new Set([...photo.tags, ...operation.tags]));
+      if (tags.length === photo.tags.length) return null;
+      if (tags.length > MAX_TAGS_PER_PHOTO) return `Photos can have at most ${MAX_TAGS_PER_PHOTO} tags`;
+      return { ...photo, tags };
+    }
+    case 'removeTags': {
+      const tags = photo.tags.filter((tag) => !operation.tags.includes(tag));
+      return tags.length === photo.tags.length ? null : { ...photo, tags };
+    }
+    case 'setFavorite':
+      return photo.isFavorite === operation.isFavorite
+        ? null
+        : { ...photo, isFavorite: operation.isFavorite };
+    case 'setFrameColor':
+      return photo.frameColor === operation.frameColor
+        ? null
+        : { ...photo, frameColor: operation.frameColor };
+    case 'setDateTaken': {
+      const dateTaken = operation.dateTaken || undefined;
+      return photo.dateTaken === dateTaken ? null : { ...photo, dateTaken };
+    }
+    case 'delete':
+      return photo.deletedAt ? null : { ...photo, deletedAt: new Date().toISOString() };
+    case 'restore': {
+      if (!photo.deletedAt) return null;
+      const { deletedAt: _deletedAt, ...rest } = photo;
+      return rest;
+    }
+  }
+}
+
+/**
+ * Apply one operation to many photos in a single write
+ * @returns One result per distinct ID, in the order given
+ */
+export async function batchUpdatePhotos(
+  ids: string[],
+  operation: PhotoBatchOperation
+): Promise<PhotoBatchResult[]> {
+  const results = await mutate(async () => {
+    const photoMap = new Map((await repository().list()).map((p) => [p.id, p]));
+    const changed = new Map<string, PhotoFrame>();
+    
+    const results = Array.from(new Set(ids)).map((id): PhotoBatchResult => {
+      const photo = photoMap.get(id);
+      if (!photo) {
+        return { id, status: 'notFound' };
+      }
+      
+      const outcome = applyBatchOperation(photo, operation);
+      if (typeof outcome === 'string') {
+        return { id, status: 'failed', photo, error: outcome };
+      }
+      if (!outcome) {
+        return { id, status: 'unchanged', photo };
+      }
+      
+      const updated: PhotoFrame = { ...outcome, version: photo.version + 1 };
+      changed.set(id, updated);
+      return { id, status: 'updated', photo: updated };
+    });
+    
+    if (changed.size > 0) {
+      await repository().upsert(Array.from(changed.values()));
+    }
+    return results;
+  }, (results) => results
+    .filter((result) => result.status === 'updated')
+    .map((result) => ({ type: 'updated', photo: result.photo! })));
+  
+  return results;
+}
+
+/**
+ * Reorder photos by hand
+ * 
+ * The listed photos take over the positions they already hold between
+ * them, in the given order; every other photo stays where it is. IDs of
+ * unknown photos are ignored. Positions are not edits, so versions stay.
+ * 
+ * @returns The new position of every photo that moved
  */
 export async function reorderPhotos(
   orderedIds: string[]
+): Promise<Record<string, number>> {
+  return mutate(async () => {
+    const photos = await repository().list();
+    const positions = reorderPositions(photos, orderedIds);
+    
+    const moved = photos
+      .filter((photo) => photo.id in positions)
+      .map((photo) => ({ ...photo, position: positions[photo.id] }));
+    if (moved.length > 0) {
+      await repository().upsert(moved);
+    }
+    return positions;
+  }, (positions): PhotoEvent[] => (
+    Object.keys(positions).length > 0 ? [{ type: 'reordered', positions }] : []
+  ));
+}
+
+/**
+ * Record resized copies on the photos that show the given images and
+ * have none yet. Copies are not edits, so versions stay.
+ * 
+ * @param variantsByUrl - Resized copies by original image URL
+ * @returns The photos that changed
+ */
+export async function setPhotoVariants(
+  variantsByUrl: Record<string, ImageVariant[]>
 ): Promise<PhotoFrame[]> {
-  const photos = await readPhotos();
+  return mutate(async () => {
+    const photos = await repository().list();
+    
+    const changed = photos
+      .filter((photo) => !photo.variants?.length && variantsByUrl[photo.imageUrl]?.length)
+      .map((photo) => ({ ...photo, variants: variantsByUrl[photo.imageUrl] }));
+    if (changed.length > 0) {
+      await repository().upsert(changed);
+    }
+    return changed;
+  }, (changed) => changed.map((photo) => ({ type: 'updated', photo })));
+}
+
+/**
+ * Get the current change log position, to be handed out with a full
+ * photo list. Read it before the list so no change can slip in between.
+ */
+export async function getChangeCursor(): Promise<string> {
+  const { latest } = await repository().changeRange();
+  return String(latest);
+}
+
+/**
+ * Get the photos created, updated and deleted since a cursor
+ * @param since - Cursor from a previous call or from getChangeCursor
+ */
+export async function getPhotoChanges(since: string): Promise<PhotoChanges> {
+  const { oldest, latest } = await repository().changeRange();
+  const sequence = /^\d+$/.test(since) ? parseInt(since, 10) : NaN;
+  
+  // Unknown cursors and ones older than the retained log need a full reload
+  if (Number.isNaN(sequence) || sequence > latest || sequence < oldest - 1) {
+    return { cursor: String(latest), reset: true, created: [], updated: [], deleted: [] };
+  }
   
-  const photoMap = new Map(photos.map((p) => [p.id, p]));
+  const changes = await repository().listChanges(sequence);
   
-  const reordered = orderedIds
-    .map((id, index) => {
-      const photo = photoMap.get(id);
-      if (photo) {
-        return { ...photo, position: index };
-      }
-      return null;
-    })
-    .filter((p): p is PhotoFrame => p !== null);
+  // Collapse to one change per photo; a photo created within the window
+  // stays "created" however often it was edited afterwards
+  const changeById = new Map<string, PhotoChangeType>();
+  changes.forEach(({ id, type }) => {
+    const previous = changeById.get(id);
+    changeById.set(id, previous === 'created' && type === 'updated' ? 'created' : type);
+  });
+  
+  const photos = changeById.size > 0 ? await repository().list() : [];
+  const photoById = new Map(photos.map((p) => [p.id, p]));
+  const result: PhotoChanges = {
+    cursor: String(changes[changes.length - 1]?.sequence ?? sequence),
+    reset: false,
+    created: [],
+    updated: [],
+    deleted: [],
+  };
   
-  photos.forEach((photo) => {
-    if (!orderedIds.includes(photo.id)) {
-      reordered.push({ ...photo, position: reordered.length });
+  changeById.forEach((type, id) => {
+    const photo = photoById.get(id);
+    if (type === 'deleted' || !photo) {
+      result.deleted.push(id);
+    } else {
+      result[type].push(photo);
     }
   });
   
-  await writePhotos(reordered);
-  return reordered;
+  return result;
 }
@@ -0,0 +1,5 @@
+export { normalizeText, tokenize } from './normalize';
+export { parseSearchQuery, resolveFilters, hasSearchText, replaceSearchTags } from './query';
+export { getPhotoTokens, matchTerm, scorePhoto } from './matching';
+export { createSearchIndex } from './searchIndex';
+export type { SearchIndex } from './searchIndex';
@@ -0,0 +1,171 @@
+import type { PhotoFrame } from '@/types/photo';
+import type { SearchText } from '@/types/search';
+import { tokenize } from './normalize';
+
+/**
+ * How much a word counts by where it appears
+ */
+const FIELD_WEIGHTS = {
+  title: 3,
+  tags: 2,
+  description: 1,
+};
+
+/**
+ * Score added for each matched phrase, on top of its words
+ */
+const PHRASE_BONUS = 2;
+
+/**
+ * Tokenized searchable fields of a photo
+ */
+interface PhotoFields {
+  title: string[];
+  description: string[];
+  tags: string[][];
+}
+
+/**
+ * Tokenize the searchable fields of a photo
+ */
+function getPhotoFields(photo: PhotoFrame): PhotoFields {
+  return {
+    title: tokenize(photo.title),
+    description: tokenize(photo.description ?? ''),
+    tags: photo.tags.map(tokenize),
+  };
+}
+
+/**
+ * Every word of a photo with the weight of the best field it appears in
+ */
+export function getPhotoTokens(photo: PhotoFrame): Map<string, number> {
+  const fields = getPhotoFields(photo);
+  const tokens = new Map<string, number>();
+  const add = (token: string, weight: number) => {
+    tokens.set(token, Math.max(tokens.get(token) ?? 0, weight));
+  };
+
+  fields.title.forEach((token) => add(token, FIELD_WEIGHTS.title));
+  fields.tags.flat().forEach((token) => add(token, FIELD_WEIGHTS.tags));
+  fields.description.forEach((token) => add(token, FIELD_WEIGHTS.description));
+  return tokens;
+}
+
+/**
+ * Edit distance counting swapped neighbours as one edit, giving up once
+ * it exceeds `max`
+ * @returns The distance, or max + 1 if it is larger than max
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * How well a query word matches a photo word, from 0 (no match) to 1 (exact).
+ * Prefixes match from two letters; typos are forgiven in longer words.
+ */
+export function matchTerm(term: string, token: string): number {
+  if (term === token) {
+    return 1;
+  }
+  if (term.length >= 2 && token.startsWith(term)) {
+    return 0.75;
+  }
+
+  const maxEdits = term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+  if (maxEdits === 0) {
+    return 0;
+  }
+
+  const distance = editDistance(term, token, maxEdits);
+  return distance <= maxEdits ? 0.5 - (distance - 1) * 0.15 : 0;
+}
+
+/**
+ * Whether a token list contains a phrase word for word
+ */
+function containsPhrase(tokens: string[], phrase: string[]): boolean {
+  for (let i = 0; i + phrase.length <= tokens.length; i++) {
+    if (phrase.every((word, j) => tokens[i + j] === word)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Check the phrases and exclusions of a query against a photo
+ * @returns The phrase bonus, or null if the photo is ruled out
+ */
+export function scorePhrases(photo: PhotoFrame, text: SearchText): number | null {
+  if (text.phrases.length === 0 && text.excluded.length === 0) {
+    return 0;
+  }
+
+  const fields = getPhotoFields(photo);
+  const appears = (phrase: string[]) =>
+    containsPhrase(fields.title, phrase) ||
+    containsPhrase(fields.description, phrase) ||
+    fields.tags.some((tag) => containsPhrase(tag, phrase));
+
+  if (text.excluded.some(appears) || !text.phrases.every(appears)) {
+    return null;
+  }
+  return text.phrases.length * PHRASE_BONUS;
+}
+
+/**
+ * Score a photo against the free text of a query
+ * @returns Relevance above 0, or 0 if the photo doesn't match
+ */
+export function scorePhoto(photo: PhotoFrame, text: SearchText): number {
+  const phraseScore = scorePhrases(photo, text);
+  if (phraseScore === null) {
+    return 0;
+  }
+
+  const tokens = getPhotoTokens(photo);
+  let score = phraseScore;
+
+  // Every word must match something
+  for (const term of text.terms) {
+    let best = 0;
+    tokens.forEach((weight, token) => {
+      best = Math.max(best, matchTerm(term, token) * weight);
+    });
+    if (best === 0) {
+      return 0;
+    }
+    score += best;
+  }
+
+  // A query of only exclusions still needs a positive score
+  return Math.max(score, 1);
+}
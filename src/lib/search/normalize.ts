@@ -0,0 +1,18 @@
+/**
+ * Lowercase text and strip diacritics, so "Café" matches "cafe"
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+}
+
+/**
+ * Split text into normalized words
+ */
+export function tokenize(text: string): string[] {
+  return normalizeText(text)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
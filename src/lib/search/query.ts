@@ -0,0 +1,200 @@
+import type { PhotoFilters } from '@/types/photo';
+import type { ParsedSearchQuery } from '@/types/search';
+import { tokenize } from './normalize';
+
+/**
+ * One query part: optional `-`, optional `key:`, then a quoted or bare value
+ */
+const PART_PATTERN = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+/**
+ * Values accepted as "yes" by `fav:`
+ */
+const TRUE_VALUES = ['true', 'yes', '1'];
+
+/**
+ * Parse `2024`, `2024-06` or `2024-06-15` into the first and last day
+ * it covers, as YYYY-MM-DD
+ */
+function parseDateBounds(value: string): { first: string; last: string } | null {
+  const match = value.match(/^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/);
+  if (!match) {
+    return null;
+  }
+
+  const year = parseInt(match[1], 10);
+  const month = match[2] ? parseInt(match[2], 10) - 1 : null;
+  const day = match[3] ? parseInt(match[3], 10) : null;
+
+  const first = new Date(Date.UTC(year, month ?? 0, day ?? 1));
+  const last = day !== null
+    ? first
+    : new Date(Date.UTC(year, month !== null ? month + 1 : 12, 0));
+
+  // Reject overflowing dates such as 2024-13 or 2024-02-31
+  if (first.getUTCFullYear() !== year || (month !== null && first.getUTCMonth() !== month) ||
+      (day !== null && first.getUTCDate() !== day)) {
+    return null;
+  }
+
+  return { first: toDateString(first), last: toDateString(last) };
+}
+
+/**
+ * Format a UTC date as YYYY-MM-DD
+ */
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Shift a YYYY-MM-DD date by some days
+ */
+function addDays(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return toDateString(shifted);
+}
+
+/**
+ * Parse a search query
+ *
+ * - `tag:beach` / `-tag:work` require or exclude a tag
+ * - `fav:true` shows only favorites
+ * - `before:2024-06` / `after:2023` limit the date taken (year, month or day)
+ * - `"exact phrase"` must appear word for word
+ * - `-word` / `-"some phrase"` must not appear
+ * - anything else is a word matched fuzzily
+ *
+ * Operators with a value that doesn't parse are searched as plain text.
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const filters: PhotoFilters = {};
+  const text: ParsedSearchQuery['text'] = { terms: [], phrases: [], excluded: [] };
+
+  for (const match of query.matchAll(PART_PATTERN)) {
+    const [raw, negation, rawKey, quoted, bare] = match;
+    const negated = negation === '-';
+    const key = rawKey?.toLowerCase();
+    const value = quoted ?? bare ?? '';
+
+    if (key === 'tag' && value.trim()) {
+      const tag = value.trim().toLowerCase();
+      const list = negated ? (filters.excludedTags ??= []) : (filters.tags ??= []);
+      if (!list.includes(tag)) {
+        list.push(tag);
+      }
+      continue;
+    }
+
+    if ((key === 'fav' || key === 'favorite') && !negated && TRUE_VALUES.includes(value.toLowerCase())) {
+      filters.favoritesOnly = true;
+      continue;
+    }
+
+    if ((key === 'before' || key === 'after') && !negated) {
+      const bounds = parseDateBounds(value);
+      if (bounds) {
+        const range = (filters.dateRange ??= {});
+        if (key === 'before') {
+          const to = addDays(bounds.first, -1);
+          range.to = range.to && range.to < to ? range.to : to;
+        } else {
+          const from = addDays(bounds.last, 1);
+          range.from = range.from && range.from > from ? range.from : from;
+        }
+        continue;
+      }
+    }
+
+    // Plain text, including operators we couldn't use
+    const tokens = tokenize(negated ? raw.slice(1) : raw);
+    if (tokens.length === 0) {
+      continue;
+    }
+
+    if (negated) {
+      text.excluded.push(tokens);
+    } else if (quoted !== undefined && !key) {
+      text.phrases.push(tokens);
+    } else {
+      text.terms.push(...tokens);
+    }
+  }
+
+  return { filters, text };
+}
+
+/**
+ * Rewrite the `tag:` and `-tag:` operators of a query that name one of
+ * the source tags
+ * @param target - Tag to name instead, or null to drop the operators
+ * @returns The query, unchanged if it names none of the sources
+ */
+export function replaceSearchTags(query: string, sources: string[], target: string | null): string {
+  const sourceSet = new Set(sources);
+
+  const replaced = query.replace(PART_PATTERN, (
+    raw: string,
+    negation: string,
+    rawKey?: string,
+    quoted?: string,
+    bare?: string
+  ) => {
+    const tag = (quoted ?? bare ?? '').trim().toLowerCase();
+    if (rawKey?.toLowerCase() !== 'tag' || !sourceSet.has(tag)) {
+      return raw;
+    }
+    if (target === null) {
+      return '';
+    }
+    return `${negation}tag:${/\s/.test(target) ? `"${target}"` : target}`;
+  });
+
+  return replaced === query ? query : replaced.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Whether a parsed query has any free text
+ */
+export function hasSearchText(text: ParsedSearchQuery['text']): boolean {
+  return text.terms.length > 0 || text.phrases.length > 0 || text.excluded.length > 0;
+}
+
+/**
+ * Combine filters with those from the search query into the filters to
+ * apply. Query tags add to the selected tags; date bounds narrow the range.
+ * @returns The combined filters (without `search`) and the free text
+ */
+export function resolveFilters(filters: PhotoFilters): ParsedSearchQuery {
+  const { search, ...rest } = filters;
+  if (!search?.trim()) {
+    return { filters: rest, text: { terms: [], phrases: [], excluded: [] } };
+  }
+
+  const parsed = parseSearchQuery(search);
+  const merged: PhotoFilters = { ...rest };
+
+  if (parsed.filters.tags) {
+    merged.tags = Array.from(new Set([...(rest.tags ?? []), ...parsed.filters.tags]));
+  }
+  if (parsed.filters.excludedTags) {
+    merged.excludedTags = Array.from(new Set([
+      ...(rest.excludedTags ?? []),
+      ...parsed.filters.excludedTags,
+    ]));
+  }
+  if (parsed.filters.favoritesOnly) {
+    merged.favoritesOnly = true;
+  }
+  if (parsed.filters.dateRange) {
+    const { from, to } = parsed.filters.dateRange;
+    const current = rest.dateRange ?? {};
+    merged.dateRange = {
+      from: current.from && from ? (current.from > from ? current.from : from) : current.from ?? from,
+      to: current.to && to ? (current.to < to ? current.to : to) : current.to ?? to,
+    };
+  }
+
+  return { filters: merged, text: parsed.text };
+}
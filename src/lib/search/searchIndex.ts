@@ -0,0 +1,121 @@
+import type { PhotoFrame } from '@/types/photo';
+import type { SearchText } from '@/types/search';
+import { getPhotoTokens, matchTerm, scorePhrases } from './matching';
+
+/**
+ * Inverted index over photo titles, tags and descriptions
+ */
+export interface SearchIndex {
+  /** Change feed cursor the index is current as of (null until built) */
+  readonly cursor: string | null;
+  /** Replace the whole index */
+  rebuild(photos: PhotoFrame[], cursor: string): void;
+  /** Add or replace some photos and drop others */
+  update(changed: PhotoFrame[], deletedIds: string[], cursor: string): void;
+  /**
+   * Score indexed photos against the free text of a query
+   * @returns Relevance by photo ID, for matching photos only
+   */
+  search(text: SearchText): Map<string, number>;
+}
+
+/**
+ * Create an empty search index
+ *
+ * Scores are the same as scorePhoto gives, but candidates are found
+ * through the word index instead of scanning every photo.
+ */
+export function createSearchIndex(): SearchIndex {
+  // word -> photo ID -> field weight
+  const postings = new Map<string, Map<string, number>>();
+  const tokensById = new Map<string, Map<string, number>>();
+  const photosById = new Map<string, PhotoFrame>();
+  let cursor: string | null = null;
+
+  function remove(id: string): void {
+    tokensById.get(id)?.forEach((_, token) => {
+      const posting = postings.get(token);
+      posting?.delete(id);
+      if (posting?.size === 0) {
+        postings.delete(token);
+      }
+    });
+    tokensById.delete(id);
+    photosById.delete(id);
+  }
+
+  function add(photo: PhotoFrame): void {
+    remove(photo.id);
+    const tokens = getPhotoTokens(photo);
+    tokens.forEach((weight, token) => {
+      let posting = postings.get(token);
+      if (!posting) {
+        posting = new Map();
+        postings.set(token, posting);
+      }
+      posting.set(photo.id, weight);
+    });
+    tokensById.set(photo.id, tokens);
+    photosById.set(photo.id, photo);
+  }
+
+  return {
+    get cursor() {
+      return cursor;
+    },
+
+    rebuild(photos, nextCursor) {
+      postings.clear();
+      tokensById.clear();
+      photosById.clear();
+      photos.forEach(add);
+      cursor = nextCursor;
+    },
+
+    update(changed, deletedIds, nextCursor) {
+      deletedIds.forEach(remove);
+      changed.forEach(add);
+      cursor = nextCursor;
+    },
+
+    search(text) {
+      let scores: Map<string, number> | null = null;
+
+      // Intersect the photos each word matches, keeping the best match per photo
+      for (const term of text.terms) {
+        const termScores = new Map<string, number>();
+        postings.forEach((posting, token) => {
+          const quality = matchTerm(term, token);
+          if (quality === 0) {
+            return;
+          }
+          posting.forEach((weight, id) => {
+            if (scores && !scores.has(id)) {
+              return;
+            }
+            termScores.set(id, Math.max(termScores.get(id) ?? 0, quality * weight));
+          });
+        });
+
+        const previous: Map<string, number> | null = scores;
+        termScores.forEach((score, id) => {
+          termScores.set(id, score + (previous?.get(id) ?? 0));
+        });
+        scores = termScores;
+        if (scores.size === 0) {
+          return scores;
+        }
+      }
+
+      const results = new Map<string, number>();
+      const candidates: Iterable<string> = scores ? scores.keys() : photosById.keys();
+      for (const id of candidates) {
+        const phraseScore = scorePhrases(photosById.get(id)!, text);
+        if (phraseScore !== null) {
+          results.set(id, Math.max((scores?.get(id) ?? 0) + phraseScore, 1));
+        }
+      }
+      return results;
+    },
+  };
+}
@@ -0,0 +1,188 @@
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  PaginationOptions,
+  PhotoPage,
+  SmartAlbum,
+  SmartAlbumSummary,
+} from '@/types/photo';
+import { getStorageDriver } from './storage';
+import { createWriteQueue } from './storage/writeQueue';
+import { getAllPhotos, getPhotoPage } from './photoStorage';
+import { replaceFilterTags } from './photoFilters';
+import {
+  storedSmartAlbumsSchema,
+  type CreateSmartAlbumInput,
+  type UpdateSmartAlbumInput,
+} from './validation/smartAlbumSchemas';
+
+/**
+ * Data document holding the smart albums
+ */
+export const SMART_ALBUMS_DOCUMENT = 'smart-albums';
+
+/**
+ * Serializes read-modify-write cycles of the smart albums document
+ */
+const enqueue = createWriteQueue();
+
+/**
+ * Load every smart album
+ * 
+ * A malformed document throws instead of counting as empty, so the
+ * next write cannot wipe the smart albums.
+ */
+async function readSmartAlbums(): Promise<SmartAlbum[]> {
+  const stored = await getStorageDriver().data.read(SMART_ALBUMS_DOCUMENT);
+  if (stored === null) {
+    return [];
+  }
+  
+  const result = storedSmartAlbumsSchema.safeParse(stored);
+  if (!result.success) {
+    throw new Error(`Malformed smart albums document: ${result.error.errors[0]?.message}`);
+  }
+  return result.data.smartAlbums;
+}
+
+/**
+ * Change the stored smart albums exclusively
+ */
+async function updateSmartAlbums<T>(
+  task: (smartAlbums: SmartAlbum[]) => { smartAlbums: SmartAlbum[]; result: T }
+): Promise<T> {
+  return enqueue(async () => {
+    const { smartAlbums, result } = task(await readSmartAlbums());
+    await getStorageDriver().data.write(SMART_ALBUMS_DOCUMENT, { smartAlbums });
+    return result;
+  });
+}
+
+/**
+ * Add the current photo count and cover image to a smart album
+ * 
+ * Membership is evaluated now, with the same filtering and sorting as
+ * the gallery, so it always reflects the latest photos.
+ */
+async function summarize(smartAlbum: SmartAlbum): Promise<SmartAlbumSummary> {
+  const photos = await getAllPhotos(smartAlbum.filters, smartAlbum.sort);
+  
+  return { ...smartAlbum, photoCount: photos.length, coverUrl: photos[0]?.imageUrl };
+}
+
+/**
+ * Get every smart album, sorted by title
+ */
+export async function getAllSmartAlbums(): Promise<SmartAlbumSummary[]> {
+  const smartAlbums = await readSmartAlbums();
+  const summaries = await Promise.all(smartAlbums.map(summarize));
+  
+  return summaries.sort((a, b) => a.title.localeCompare(b.title));
+}
+
+/**
+ * Get a smart album and one page of the photos it currently matches
+ * @throws InvalidPageCursorError if `options.after` is malformed
+ */
+export async function getSmartAlbumPage(
+  id: string,
+  options: PaginationOptions
+): Promise<{ smartAlbum: SmartAlbumSummary; page: PhotoPage } | null> {
+  const smartAlbum = (await readSmartAlbums()).find((a) => a.id === id);
+  if (!smartAlbum) {
+    return null;
+  }
+  
+  const [summary, page] = await Promise.all([
+    summarize(smartAlbum),
+    getPhotoPage(smartAlbum.filters, smartAlbum.sort, options),
+  ]);
+  return { smartAlbum: summary, page };
+}
+
+/**
+ * Create a new smart album
+ */
+export async function createSmartAlbum(data: CreateSmartAlbumInput): Promise<SmartAlbumSummary> {
+  const now = new Date().toISOString();
+  const smartAlbum: SmartAlbum = {
+    id: uuidv4(),
+    title: data.title,
+    description: data.description || undefined,
+    filters: data.filters,
+    sort: data.sort,
+    createdAt: now,
+    updatedAt: now,
+  };
+  
+  await updateSmartAlbums((smartAlbums) => ({
+    smartAlbums: [...smartAlbums, smartAlbum],
+    result: smartAlbum,
+  }));
+  return summarize(smartAlbum);
+}
+
+/**
+ * Update an existing smart album
+ * @param data - Fields to change; null clears the description
+ */
+export async function updateSmartAlbum(
+  id: string,
+  data: UpdateSmartAlbumInput
+): Promise<SmartAlbumSummary | null> {
+  const updated = await updateSmartAlbums((smartAlbums) => {
+    const existing = smartAlbums.find((a) => a.id === id);
+    if (!existing) {
+      return { smartAlbums, result: null };
+    }
+    
+    const smartAlbum: SmartAlbum = {
+      ...existing,
+      title: data.title ?? existing.title,
+      description: data.description === undefined ? existing.description : data.description || undefined,
+      filters: data.filters ?? existing.filters,
+      sort: data.sort ?? existing.sort,
+      updatedAt: new Date().toISOString(),
+    };
+    return {
+      smartAlbums: smartAlbums.map((a) => (a.id === id ? smartAlbum : a)),
+      result: smartAlbum,
+    };
+  });
+  
+  return updated ? summarize(updated) : null;
+}
+
+/**
+ * Point every smart album's filters at another tag after tags are
+ * renamed, merged or deleted
+ * @param target - Tag replacing the sources, or null to drop them
+ * @returns Number of smart albums changed
+ */
+export async function replaceSmartAlbumTags(
+  sources: string[],
+  target: string | null
+): Promise<number> {
+  return updateSmartAlbums((smartAlbums) => {
+    const now = new Date().toISOString();
+    let changed = 0;
+    
+    const next = smartAlbums.map((smartAlbum) => {
+      const filters = replaceFilterTags(smartAlbum.filters, sources, target);
+      if (!filters) return smartAlbum;
+      
+      changed++;
+      return { ...smartAlbum, filters, updatedAt: now };
+    });
+    return { smartAlbums: next, result: changed };
+  });
+}
+
+/**
+ * Delete a smart album. Its photos are not touched.
+ */
+export async function deleteSmartAlbum(id: string): Promise<boolean> {
+  return updateSmartAlbums((smartAlbums) => {
+    const remaining = smartAlbums.filter((a) => a.id !== id);
+    return { smartAlbums: remaining, result: remaining.length < smartAlbums.length };
+  });
+}
@@ -0,0 +1,246 @@
+import type { DataStore, MediaStore, StorageDriver, StoredMedia, StoredPhotoDocument } from '@/types/storage';
+import { createDocumentRepository } from './documentRepository';
+
+/**
+ * Blob storage filename for photos data
+ */
+const PHOTOS_BLOB_NAME = 'photos-data.json';
+
+/**
+ * Blob path prefix for data documents
+ */
+const DATA_PREFIX = 'data/';
+
+/**
+ * Host suffix of Vercel Blob URLs
+ */
+const BLOB_HOST_SUFFIX = '.blob.vercel-storage.com';
+
+/**
+ * Check whether a URL points into Vercel Blob storage
+ */
+function isBlobUrl(url: string): boolean {
+  try {
+    return new URL(url).hostname.endsWith(BLOB_HOST_SUFFIX);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read photos from Vercel Blob storage
+ *
+ * Only a missing blob counts as an empty gallery. Any other failure
+ * throws, so the next write cannot wipe the gallery.
+ */
+async function readPhotosBlob(): Promise<unknown> {
+  const { list } = await import('@vercel/blob');
+
+  try {
+    const { blobs } = await list({ prefix: PHOTOS_BLOB_NAME });
+    const blob = blobs.find((b) => b.pathname === PHOTOS_BLOB_NAME);
+    if (!blob) {
+      return [];
+    }
+
+    // Skip the CDN cache so a stale copy is never written back
+    const response = await fetch(blob.url, { cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch photos data: ${response.status}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error reading photos from blob:', error);
+    throw error;
+  }
+}
+
+/**
+ * Write photos to Vercel Blob storage
+ *
+ * The new document overwrites the old one in place; older copies of it
+ * are only deleted once it is written.
+ */
+async function writePhotosBlob(document: StoredPhotoDocument): Promise<void> {
+  const { put, list, del } = await import('@vercel/blob');
+
+  try {
+    const written = await put(PHOTOS_BLOB_NAME, JSON.stringify(document, null, 2), {
+      access: 'public',
+      addRandomSuffix: false,
+      contentType: 'application/json',
+    });
+
+    const { blobs } = await list({ prefix: PHOTOS_BLOB_NAME });
+    const stale = blobs
+      .filter((blob) => blob.pathname === PHOTOS_BLOB_NAME && blob.url !== written.url)
+      .map((blob) => blob.url);
+    if (stale.length > 0) {
+      await del(stale);
+    }
+  } catch (error) {
+    console.error('Error writing photos to blob:', error);
+    throw error;
+  }
+}
+
+/**
+ * Media store backed by Vercel Blob
+ */
+const blobMediaStore: MediaStore = {
+  async put(filename, data, contentType) {
+    const { put } = await import('@vercel/blob');
+
+    const blob = await put(filename, data, {
+      access: 'public',
+      addRandomSuffix: false,
+      contentType,
+    });
+
+    return blob.url;
+  },
+
+  async find(filename) {
+    const { list } = await import('@vercel/blob');
+    const { blobs } = await list({ prefix: filename, limit: 10 });
+    return blobs.find((blob) => blob.pathname === filename)?.url ?? null;
+  },
+
+  async get(url) {
+    if (!isBlobUrl(url)) {
+      throw new Error(`Not a Blob upload: ${url}`);
+    }
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${url}: ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  },
+
+  async stat(url) {
+    if (!isBlobUrl(url)) {
+      return null;
+    }
+
+    const { head, BlobNotFoundError } = await import('@vercel/blob');
+    try {
+      const blob = await head(url);
+      return { url, size: blob.size, lastModified: new Date(blob.uploadedAt).toISOString() };
+    } catch (error) {
+      if (error instanceof BlobNotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  async touch(url) {
+    if (!isBlobUrl(url)) {
+      throw new Error(`Not a Blob upload: ${url}`);
+    }
+
+    // Copying a blob onto its own pathname is the only way to renew uploadedAt
+    const { head, copy } = await import('@vercel/blob');
+    const blob = await head(url);
+    await copy(url, blob.pathname, {
+      access: 'public',
+      addRandomSuffix: false,
+      contentType: blob.contentType,
+    });
+  },
+
+  async delete(url) {
+    if (!isBlobUrl(url)) {
+      throw new Error(`Not a Blob upload: ${url}`);
+    }
+
+    const { del } = await import('@vercel/blob');
+    await del(url);
+  },
+
+  async list() {
+    const { list } = await import('@vercel/blob');
+    const files: StoredMedia[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await list({ cursor });
+      page.blobs
+        .filter((blob) => blob.pathname !== PHOTOS_BLOB_NAME && !blob.pathname.startsWith(DATA_PREFIX))
+        .forEach((blob) => files.push({
+          url: blob.url,
+          size: blob.size,
+          lastModified: new Date(blob.uploadedAt).toISOString(),
+        }));
+      cursor = page.hasMore ? page.cursor : undefined;
+    } while (cursor);
+
+    return files;
+  },
+};
+
+/**
+ * Data documents stored as JSON blobs under data/
+ */
+const blobDataStore: DataStore = {
+  async read(name) {
+    const { list } = await import('@vercel/blob');
+    const pathname = `${DATA_PREFIX}${name}.json`;
+    const { blobs } = await list({ prefix: pathname, limit: 10 });
+    const blob = blobs.find((b) => b.pathname === pathname);
+    if (!blob) {
+      return null;
+    }
+
+    // Skip the CDN cache so a write is visible to the next read
+    const response = await fetch(blob.url, { cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${pathname}: ${response.status}`);
+    }
+    return response.json();
+  },
+
+  async write(name, value) {
+    const { put } = await import('@vercel/blob');
+    await put(`${DATA_PREFIX}${name}.json`, JSON.stringify(value, null, 2), {
+      access: 'public',
+      addRandomSuffix: false,
+      contentType: 'application/json',
+    });
+  },
+
+  async list() {
+    const { list } = await import('@vercel/blob');
+    const names: string[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await list({ prefix: DATA_PREFIX, cursor });
+      page.blobs
+        .filter((blob) => blob.pathname.endsWith('.json'))
+        .forEach((blob) => names.push(blob.pathname.slice(DATA_PREFIX.length, -'.json'.length)));
+      cursor = page.hasMore ? page.cursor : undefined;
+    } while (cursor);
+
+    return names;
+  },
+};
+
+/**
+ * Create the Vercel Blob driver
+ *
+ * Requires BLOB_READ_WRITE_TOKEN.
+ */
+export function createBlobDriver(): StorageDriver {
+  return {
+    name: 'blob',
+    photos: createDocumentRepository({
+      read: readPhotosBlob,
+      write: writePhotosBlob,
+    }),
+    media: blobMediaStore,
+    data: blobDataStore,
+  };
+}
@@ -0,0 +1,144 @@
+import type { PhotoFrame } from '@/types/photo';
+import type { InvalidPhotoRecord, PhotoRepository, StoredPhotoDocument } from '@/types/storage';
+import { createWriteQueue } from './writeQueue';
+import { appendChanges, createPhotoDocument, parsePhotoDocument } from './photoDocument';
+import type { ChangeLog } from './photoDocument';
+
+/**
+ * A backend that stores the whole photo list as a single document
+ */
+export interface PhotoDocumentStore {
+  /** Read the stored document as parsed JSON (any schema version) */
+  read(): Promise<unknown>;
+  /** Overwrite the stored document */
+  write(document: StoredPhotoDocument): Promise<void>;
+  /**
+   * Take a lock shared with other processes using the same store
+   * @returns Function that releases the lock
+   */
+  lock?(): Promise<() => Promise<void>>;
+}
+
+/**
+ * How long a read document is reused before hitting the backend again
+ */
+const CACHE_TTL = 5000; // 5 seconds
+
+/**
+ * Build a photo repository on top of a single-document store
+ *
+ * Used by the filesystem, Blob, S3 and memory drivers, which all keep
+ * the photo list as one JSON document.
+ */
+export function createDocumentRepository(store: PhotoDocumentStore): PhotoRepository {
+  let memoryCache: PhotoFrame[] | null = null;
+  let lastFetchTime = 0;
+  // Records that failed validation; written back untouched so they can be repaired
+  let invalidRecords: InvalidPhotoRecord[] = [];
+  let changeLog: ChangeLog = { sequence: 0, changes: [] };
+  const enqueue = createWriteQueue();
+
+  async function readPhotos(): Promise<PhotoFrame[]> {
+    const now = Date.now();
+    if (memoryCache !== null && (now - lastFetchTime) < CACHE_TTL) {
+      return memoryCache;
+    }
+
+    const { photos, invalid, changeLog: storedLog } = parsePhotoDocument(await store.read());
+    if (invalid.length > 0) {
+      console.warn(
+        `Skipping ${invalid.length} invalid photo records:`,
+        invalid.map((item) => `${item.id ?? `#${item.index}`} (${item.issues.join('; ')})`)
+      );
+    }
+
+    memoryCache = photos;
+    invalidRecords = invalid;
+    changeLog = storedLog;
+    lastFetchTime = now;
+    return photos;
+  }
+
+  async function writePhotos(photos: PhotoFrame[], nextLog: ChangeLog): Promise<void> {
+    memoryCache = null;
+    await store.write(createPhotoDocument([
+      ...photos,
+      ...invalidRecords.map((item) => item.record),
+    ], nextLog));
+    memoryCache = photos;
+    changeLog = nextLog;
+    lastFetchTime = Date.now();
+  }
+
+  return {
+    async list() {
+      return [...await readPhotos()];
+    },
+
+    async findById(id) {
+      const photos = await readPhotos();
+      return photos.find((p) => p.id === id) || null;
+    },
+
+    async upsert(changed) {
+      const photos = [...await readPhotos()];
+      const indexById = new Map(photos.map((p, i) => [p.id, i]));
+      const entries: Parameters<typeof appendChanges>[1] = [];
+
+      changed.forEach((photo) => {
+        const index = indexById.get(photo.id);
+        if (index === undefined) {
+          indexById.set(photo.id, photos.length);
+          photos.push(photo);
+          entries.push({ id: photo.id, type: 'created' });
+        } else {
+          photos[index] = photo;
+          entries.push({ id: photo.id, type: 'updated' });
+        }
+      });
+
+      await writePhotos(photos, appendChanges(changeLog, entries));
+    },
+
+    async remove(ids) {
+      const idSet = new Set(ids);
+      const photos = await readPhotos();
+      const entries = photos
+        .filter((p) => idSet.has(p.id))
+        .map((p) => ({ id: p.id, type: 'deleted' as const }));
+
+      await writePhotos(photos.filter((p) => !idSet.has(p.id)), appendChanges(changeLog, entries));
+    },
+
+    async listInvalid() {
+      await readPhotos();
+      return invalidRecords;
+    },
+
+    async listChanges(since) {
+      await readPhotos();
+      return changeLog.changes.filter((change) => change.sequence > since);
+    },
+
+    async changeRange() {
+      await readPhotos();
+      return {
+        oldest: changeLog.changes[0]?.sequence ?? changeLog.sequence + 1,
+        latest: changeLog.sequence,
+      };
+    },
+
+    transaction(task) {
+      return enqueue(async () => {
+        const release = store.lock ? await store.lock() : null;
+        try {
+          // Another process may have written since our last read
+          memoryCache = null;
+          return await task();
+        } finally {
+          await release?.();
+        }
+      });
+    },
+  };
+}
@@ -0,0 +1,340 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { STORAGE_CONFIG } from '@/config/storage';
+import type { DataStore, MediaStore, StorageDriver, StoredMedia, StoredPhotoDocument } from '@/types/storage';
+import { delay, generateId } from '@/lib/utils';
+import { createDocumentRepository } from './documentRepository';
+import { createPhotoDocument } from './photoDocument';
+
+const { dataDir: DATA_DIR, uploadDir: UPLOAD_DIR, publicPath: PUBLIC_PATH } = STORAGE_CONFIG.fs;
+const PHOTOS_FILE = path.join(DATA_DIR, 'photos.json');
+const LOCK_FILE = `${PHOTOS_FILE}.lock`;
+
+/**
+ * Allowed data document names, which become file names
+ */
+const DATA_NAME_PATTERN = /^[a-z0-9-]+$/;
+
+/**
+ * Lock timing
+ */
+const LOCK_RETRY_MS = 50;
+const LOCK_TIMEOUT_MS = 10000; // 10 seconds
+const LOCK_STALE_MS = 30000; // 30 seconds
+
+/**
+ * Ensure a directory exists
+ */
+async function ensureDir(dir: string): Promise<void> {
+  try {
+    await fs.access(dir);
+  } catch {
+    await fs.mkdir(dir, { recursive: true });
+  }
+}
+
+/**
+ * Check whether an error is a filesystem error with the given code
+ */
+function hasErrorCode(error: unknown, code: string): boolean {
+  return (error as NodeJS.ErrnoException)?.code === code;
+}
+
+/**
+ * Ensure local data directory and photos.json exist
+ */
+async function ensureLocalDataDir(): Promise<void> {
+  await ensureDir(DATA_DIR);
+  try {
+    // 'wx' never clobbers a file another request just created
+    await fs.writeFile(PHOTOS_FILE, JSON.stringify(createPhotoDocument([]), null, 2), { flag: 'wx' });
+  } catch (error) {
+    if (!hasErrorCode(error, 'EEXIST')) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Read photos from local file
+ *
+ * Unreadable or corrupt files throw instead of returning an empty list,
+ * so the next write cannot wipe the gallery.
+ */
+async function readPhotosLocal(): Promise<unknown> {
+  try {
+    await ensureLocalDataDir();
+    const data = await fs.readFile(PHOTOS_FILE, 'utf-8');
+    return JSON.parse(data);
+  } catch (error) {
+    console.warn('Could not read local photos.json:', error);
+    throw error;
+  }
+}
+
+/**
+ * Write a JSON file
+ *
+ * Writes to a temp file and renames it over the target, so readers
+ * only ever see the old or the new contents, never a partial file.
+ */
+async function writeJsonFile(file: string, value: unknown): Promise<void> {
+  const tempFile = `${file}.${process.pid}.${generateId()}.tmp`;
+
+  try {
+    await ensureDir(path.dirname(file));
+
+    const handle = await fs.open(tempFile, 'w');
+    try {
+      await handle.writeFile(JSON.stringify(value, null, 2));
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+
+    await fs.rename(tempFile, file);
+  } catch (error) {
+    await fs.unlink(tempFile).catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Write photos to local file
+ */
+async function writePhotosLocal(document: StoredPhotoDocument): Promise<void> {
+  try {
+    await writeJsonFile(PHOTOS_FILE, document);
+  } catch (error) {
+    console.warn('Could not write to local photos.json:', error);
+    throw error;
+  }
+}
+
+/**
+ * Check whether the lock file was left behind by a crashed process
+ */
+async function isLockStale(): Promise<boolean> {
+  try {
+    const stats = await fs.stat(LOCK_FILE);
+    return Date.now() - stats.mtimeMs > LOCK_STALE_MS;
+  } catch {
+    // Lock vanished in the meantime; just retry
+    return false;
+  }
+}
+
+/**
+ * Take the photos.json lock file, shared by every process on this host
+ * @returns Function that releases the lock
+ */
+async function lockPhotosLocal(): Promise<() => Promise<void>> {
+  await ensureDir(DATA_DIR);
+  const startedAt = Date.now();
+
+  for (;;) {
+    try {
+      await fs.writeFile(LOCK_FILE, String(process.pid), { flag: 'wx' });
+      return async () => {
+        await fs.unlink(LOCK_FILE).catch(() => undefined);
+      };
+    } catch (error) {
+      if (!hasErrorCode(error, 'EEXIST')) {
+        throw error;
+      }
+    }
+
+    if (await isLockStale()) {
+      console.warn('Removing stale photos.json lock');
+      await fs.unlink(LOCK_FILE).catch(() => undefined);
+      continue;
+    }
+
+    if (Date.now() - startedAt > LOCK_TIMEOUT_MS) {
+      throw new Error('Timed out waiting for the photos.json lock');
+    }
+
+    await delay(LOCK_RETRY_MS);
+  }
+}
+
+/**
+ * Map a public /uploads URL to a file inside the upload directory
+ * @returns Absolute file path, or null if the URL is not a local upload
+ */
+function resolveUploadPath(url: string): string | null {
+  const prefix = `${PUBLIC_PATH}/`;
+  if (!url.startsWith(prefix)) {
+    return null;
+  }
+
+  const filename = url.slice(prefix.length);
+
+  // Security: prevent path traversal
+  if (!filename || filename.includes('..') || filename.includes('/') || filename.includes('\\')) {
+    return null;
+  }
+
+  return path.join(UPLOAD_DIR, filename);
+}
+
+/**
+ * Media store backed by public/uploads
+ */
+const localMediaStore: MediaStore = {
+  async put(filename, data) {
+    await ensureDir(UPLOAD_DIR);
+    await fs.writeFile(path.join(UPLOAD_DIR, filename), data);
+    return `${PUBLIC_PATH}/${filename}`;
+  },
+
+  async find(filename) {
+    const url = `${PUBLIC_PATH}/${filename}`;
+    const filepath = resolveUploadPath(url);
+    if (!filepath) {
+      return null;
+    }
+
+    try {
+      await fs.access(filepath);
+      return url;
+    } catch {
+      return null;
+    }
+  },
+
+  async get(url) {
+    const filepath = resolveUploadPath(url);
+    if (!filepath) {
+      throw new Error(`Not a local upload: ${url}`);
+    }
+    return fs.readFile(filepath);
+  },
+
+  async stat(url) {
+    const filepath = resolveUploadPath(url);
+    if (!filepath) {
+      return null;
+    }
+
+    try {
+      const stats = await fs.stat(filepath);
+      return { url, size: stats.size, lastModified: stats.mtime.toISOString() };
+    } catch (error) {
+      if (hasErrorCode(error, 'ENOENT')) {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  async touch(url) {
+    const filepath = resolveUploadPath(url);
+    if (!filepath) {
+      throw new Error(`Not a local upload: ${url}`);
+    }
+    const now = new Date();
+    await fs.utimes(filepath, now, now);
+  },
+
+  async delete(url) {
+    const filepath = resolveUploadPath(url);
+    if (!filepath) {
+      throw new Error(`Not a local upload: ${url}`);
+    }
+    await fs.unlink(filepath);
+  },
+
+  async list() {
+    let entries;
+    try {
+      entries = await fs.readdir(UPLOAD_DIR, { withFileTypes: true });
+    } catch (error) {
+      if (hasErrorCode(error, 'ENOENT')) {
+        return [];
+      }
+      throw error;
+    }
+
+    const files: StoredMedia[] = [];
+    for (const entry of entries) {
+      // Skip directories and dotfiles such as .gitkeep
+      if (!entry.isFile() || entry.name.startsWith('.')) {
+        continue;
+      }
+
+      const stats = await fs.stat(path.join(UPLOAD_DIR, entry.name));
+      files.push({
+        url: `${PUBLIC_PATH}/${entry.name}`,
+        size: stats.size,
+        lastModified: stats.mtime.toISOString(),
+      });
+    }
+    return files;
+  },
+};
+
+/**
+ * Map a data document name to its file in the data directory
+ */
+function resolveDataPath(name: string): string {
+  if (!DATA_NAME_PATTERN.test(name) || name === 'photos') {
+    throw new Error(`Invalid data document name: ${name}`);
+  }
+  return path.join(DATA_DIR, `${name}.json`);
+}
+
+/**
+ * Data documents stored as JSON files beside photos.json
+ */
+const localDataStore: DataStore = {
+  async read(name) {
+    try {
+      return JSON.parse(await fs.readFile(resolveDataPath(name), 'utf-8'));
+    } catch (error) {
+      if (hasErrorCode(error, 'ENOENT')) {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  async write(name, value) {
+    await writeJsonFile(resolveDataPath(name), value);
+  },
+
+  async list() {
+    try {
+      return (await fs.readdir(DATA_DIR))
+        .filter((file) => file.endsWith('.json'))
+        .map((file) => file.slice(0, -'.json'.length))
+        .filter((name) => DATA_NAME_PATTERN.test(name) && name !== 'photos');
+    } catch (error) {
+      if (hasErrorCode(error, 'ENOENT')) {
+        return [];
+      }
+      throw error;
+    }
+  },
+};
+
+/**
+ * Create the local filesystem driver
+ *
+ * Metadata lives in src/data/photos.json, other data documents beside
+ * it and media in public/uploads.
+ * Writes are atomic and guarded by a lock file, so several server
+ * processes can share the same data directory.
+ */
+export function createFsDriver(): StorageDriver {
+  return {
+    name: 'fs',
+    photos: createDocumentRepository({
+      read: readPhotosLocal,
+      write: writePhotosLocal,
+      lock: lockPhotosLocal,
+    }),
+    media: localMediaStore,
+    data: localDataStore,
+  };
+}
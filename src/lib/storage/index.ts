@@ -0,0 +1,46 @@
+import { STORAGE_CONFIG } from '@/config/storage';
+import type { StorageDriver, StorageDriverName } from '@/types/storage';
+import { createFsDriver } from './fsDriver';
+import { createBlobDriver } from './blobDriver';
+import { createS3Driver } from './s3Driver';
+import { createMemoryDriver } from './memoryDriver';
+import { createSqliteRepository } from './sqliteRepository';
+
+/**
+ * Driver factories by name
+ */
+const DRIVER_FACTORIES: Record<StorageDriverName, () => StorageDriver> = {
+  fs: createFsDriver,
+  blob: createBlobDriver,
+  s3: createS3Driver,
+  memory: createMemoryDriver,
+};
+
+let activeDriver: StorageDriver | null = null;
+
+/**
+ * Create a storage driver by name
+ */
+export function createStorageDriver(name: StorageDriverName): StorageDriver {
+  return DRIVER_FACTORIES[name]();
+}
+
+/**
+ * Get the configured storage driver (see STORAGE_DRIVER)
+ *
+ * With METADATA_STORE=sqlite the driver keeps handling media while
+ * photo metadata moves to the SQLite database.
+ */
+export function getStorageDriver(): StorageDriver {
+  if (!activeDriver) {
+    const driver = createStorageDriver(STORAGE_CONFIG.driver);
+    activeDriver = STORAGE_CONFIG.metadata === 'sqlite'
+      ? { ...driver, photos: createSqliteRepository(STORAGE_CONFIG.sqlite.file) }
+      : driver;
+  }
+  return activeDriver;
+}
+
+export { createDocumentRepository } from './documentRepository';
+export { createSqliteRepository } from './sqliteRepository';
+export type { PhotoDocumentStore } from './documentRepository';
@@ -0,0 +1,84 @@
+import type { DataStore, MediaStore, StorageDriver, StoredMedia, StoredPhotoDocument } from '@/types/storage';
+import { createPhotoDocument } from './photoDocument';
+import { createDocumentRepository } from './documentRepository';
+
+/**
+ * Create the in-memory driver
+ *
+ * Nothing survives a restart. Media is returned as data URLs so it can
+ * still be displayed. Intended for development and tests.
+ */
+export function createMemoryDriver(): StorageDriver {
+  let document: StoredPhotoDocument = createPhotoDocument([]);
+  const mediaFiles = new Map<string, StoredMedia>();
+  const urlsByFilename = new Map<string, string>();
+  const dataDocuments = new Map<string, unknown>();
+
+  const media: MediaStore = {
+    async put(filename, data, contentType) {
+      const url = `data:${contentType};base64,${data.toString('base64')}`;
+      mediaFiles.set(url, { url, size: data.length, lastModified: new Date().toISOString() });
+      urlsByFilename.set(filename, url);
+      return url;
+    },
+
+    async find(filename) {
+      const url = urlsByFilename.get(filename);
+      return url && mediaFiles.has(url) ? url : null;
+    },
+
+    async get(url) {
+      const match = url.match(/^data:[^;]*;base64,(.*)$/);
+      if (!match) {
+        throw new Error(`Not an in-memory upload: ${url}`);
+      }
+      return Buffer.from(match[1], 'base64');
+    },
+
+    async stat(url) {
+      const file = mediaFiles.get(url);
+      return file ? { ...file } : null;
+    },
+
+    async touch(url) {
+      const file = mediaFiles.get(url);
+      if (file) {
+        file.lastModified = new Date().toISOString();
+      }
+    },
+
+    async delete(url) {
+      mediaFiles.delete(url);
+    },
+
+    async list() {
+      return Array.from(mediaFiles.values());
+    },
+  };
+
+  const data: DataStore = {
+    async read(name) {
+      return dataDocuments.has(name) ? structuredClone(dataDocuments.get(name)) : null;
+    },
+
+    async write(name, value) {
+      dataDocuments.set(name, structuredClone(value));
+    },
+
+    async list() {
+      return Array.from(dataDocuments.keys());
+    },
+  };
+
+  return {
+    name: 'memory',
+    photos: createDocumentRepository({
+      read: async () => structuredClone(document),
+      write: async (stored) => {
+        document = structuredClone(stored);
+      },
+    }),
+    media,
+    data,
+  };
+}
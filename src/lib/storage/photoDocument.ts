@@ -0,0 +1,171 @@
+import type { PhotoFrame } from '@/types/photo';
+import type { InvalidPhotoRecord, PhotoChange, StoredPhotoDocument } from '@/types/storage';
+import { storedPhotoSchema } from '@/lib/validation/photoSchemas';
+import { getRandomRotation } from '@/lib/utils';
+
+/**
+ * A photo record as stored, before validation
+ */
+type PhotoRecord = Record<string, unknown>;
+
+/**
+ * Schema migrations, in order. Migration N upgrades records from schema
+ * version N to N + 1 and may modify them in place.
+ */
+const MIGRATIONS: ((photos: PhotoRecord[]) => void)[] = [
+  // 0 → 1: fill in fields that early versions did not write
+  (photos) => {
+    photos.forEach((photo, index) => {
+      photo.tags ??= [];
+      photo.isFavorite ??= false;
+      photo.frameColor ??= 'white';
+      photo.rotation ??= getRandomRotation(3);
+      photo.position ??= index;
+      photo.version ??= 1;
+    });
+  },
+];
+
+/**
+ * Current schema version of stored photo records
+ */
+export const PHOTO_SCHEMA_VERSION = MIGRATIONS.length;
+
+/**
+ * Number of change log entries kept; clients further behind resync fully
+ */
+export const CHANGE_LOG_LIMIT = 1000;
+
+/**
+ * The change log kept alongside the records
+ */
+export interface ChangeLog {
+  /** Sequence number of the latest change (0 if none) */
+  sequence: number;
+  /** Retained changes, oldest first */
+  changes: PhotoChange[];
+}
+
+/**
+ * Result of reading a stored photo document
+ */
+export interface ParsedPhotoDocument {
+  /** Records that passed validation */
+  photos: PhotoFrame[];
+  /** Records that did not, with the reasons */
+  invalid: InvalidPhotoRecord[];
+  /** Schema version the document was stored with */
+  storedVersion: number;
+  /** Change log stored with the document */
+  changeLog: ChangeLog;
+}
+
+/**
+ * Check whether a value is a plain object
+ */
+function isRecord(value: unknown): value is PhotoRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate stored records against the current schema
+ * @param startIndex - Index of the first record in its document, for reporting
+ */
+export function validatePhotoRecords(
+  records: unknown[],
+  startIndex: number = 0
+): Pick<ParsedPhotoDocument, 'photos' | 'invalid'> {
+  const photos: PhotoFrame[] = [];
+  const invalid: InvalidPhotoRecord[] = [];
+
+  records.forEach((record, i) => {
+    const result = storedPhotoSchema.safeParse(record);
+    if (result.success) {
+      photos.push(result.data);
+      return;
+    }
+
+    invalid.push({
+      id: isRecord(record) && typeof record.id === 'string' ? record.id : undefined,
+      index: startIndex + i,
+      issues: result.error.issues.map((issue) => `${issue.path.join('.') || 'record'}: ${issue.message}`),
+      record,
+    });
+  });
+
+  return { photos, invalid };
+}
+
+/**
+ * Read a stored photo document, upgrading and validating its records
+ *
+ * Accepts the versioned format as well as the bare array written before
+ * versioning. Invalid records are reported rather than thrown, so one bad
+ * record cannot take the whole gallery down.
+ *
+ * @throws Error if the document itself is unreadable or from a newer version
+ */
+export function parsePhotoDocument(document: unknown): ParsedPhotoDocument {
+  const stored: StoredPhotoDocument = Array.isArray(document)
+    ? { schemaVersion: 0, photos: document }
+    : (document as StoredPhotoDocument);
+
+  if (!isRecord(stored) || !Array.isArray(stored.photos) || typeof stored.schemaVersion !== 'number') {
+    throw new Error('Stored photo document is malformed');
+  }
+
+  if (stored.schemaVersion > PHOTO_SCHEMA_VERSION) {
+    throw new Error(
+      `Stored photo document has schema version ${stored.schemaVersion}, ` +
+      `but this build only supports up to ${PHOTO_SCHEMA_VERSION}`
+    );
+  }
+
+  // Only plain objects can be migrated; anything else is reported below
+  const records = stored.photos.map((record) => (isRecord(record) ? { ...record } : record));
+  const migratable = records.filter(isRecord);
+
+  MIGRATIONS.slice(stored.schemaVersion).forEach((migrate) => migrate(migratable));
+
+  const changes = Array.isArray(stored.changes) ? stored.changes : [];
+
+  return {
+    ...validatePhotoRecords(records),
+    storedVersion: stored.schemaVersion,
+    changeLog: {
+      sequence: stored.sequence ?? changes[changes.length - 1]?.sequence ?? 0,
+      changes,
+    },
+  };
+}
+
+/**
+ * Wrap records in a document at the current schema version
+ */
+export function createPhotoDocument(
+  photos: unknown[],
+  changeLog: ChangeLog = { sequence: 0, changes: [] }
+): StoredPhotoDocument {
+  return {
+    schemaVersion: PHOTO_SCHEMA_VERSION,
+    sequence: changeLog.sequence,
+    changes: changeLog.changes,
+    photos,
+  };
+}
+
+/**
+ * Append changes to a log, dropping the oldest entries beyond the limit
+ */
+export function appendChanges(
+  log: ChangeLog,
+  entries: Omit<PhotoChange, 'sequence'>[]
+): ChangeLog {
+  let { sequence } = log;
+  const added = entries.map((entry) => ({ ...entry, sequence: ++sequence }));
+
+  return {
+    sequence,
+    changes: [...log.changes, ...added].slice(-CHANGE_LOG_LIMIT),
+  };
+}
@@ -0,0 +1,317 @@
+import type { S3Client } from '@aws-sdk/client-s3';
+import { STORAGE_CONFIG } from '@/config/storage';
+import type { DataStore, MediaStore, StorageDriver, StoredMedia, StoredPhotoDocument } from '@/types/storage';
+import { createDocumentRepository } from './documentRepository';
+
+const S3 = STORAGE_CONFIG.s3;
+
+/**
+ * Object key for photos data
+ */
+const PHOTOS_OBJECT_KEY = 'photos-data.json';
+
+/**
+ * Key prefix for uploaded media
+ */
+const UPLOADS_PREFIX = 'uploads/';
+
+/**
+ * Key prefix for data documents
+ */
+const DATA_PREFIX = 'data/';
+
+/**
+ * Base URL media objects are served from
+ */
+const PUBLIC_BASE_URL = (
+  S3.publicUrl ||
+  (S3.endpoint
+    ? `${S3.endpoint}/${S3.bucket}`
+    : `https://${S3.bucket}.s3.${S3.region}.amazonaws.com`)
+).replace(/\/+$/, '');
+
+let client: S3Client | null = null;
+
+/**
+ * Map a public media URL back to its object key
+ *
+ * Only objects directly under uploads/ count as media, so a crafted URL
+ * can never reach the photo metadata or data documents.
+ */
+function toObjectKey(url: string): string {
+  const prefix = `${PUBLIC_BASE_URL}/${UPLOADS_PREFIX}`;
+  const filename = url.startsWith(prefix) ? url.slice(prefix.length) : '';
+
+  // Security: a single path segment, no traversal
+  if (!filename || filename.includes('..') || filename.includes('/') || filename.includes('\\')) {
+    throw new Error(`Not an S3 upload: ${url}`);
+  }
+  return `${UPLOADS_PREFIX}${filename}`;
+}
+
+/**
+ * Lazily create the S3 client
+ */
+async function getClient(): Promise<S3Client> {
+  if (!client) {
+    const { S3Client } = await import('@aws-sdk/client-s3');
+    client = new S3Client({
+      region: S3.region,
+      endpoint: S3.endpoint,
+      forcePathStyle: S3.forcePathStyle,
+      credentials: S3.accessKeyId && S3.secretAccessKey
+        ? { accessKeyId: S3.accessKeyId, secretAccessKey: S3.secretAccessKey }
+        : undefined,
+    });
+  }
+  return client;
+}
+
+/**
+ * Read photos from the bucket
+ *
+ * Only a missing object counts as an empty gallery. Any other failure
+ * throws, so the next write cannot wipe the gallery.
+ */
+async function readPhotosS3(): Promise<unknown> {
+  const { GetObjectCommand, NoSuchKey } = await import('@aws-sdk/client-s3');
+  const s3 = await getClient();
+
+  try {
+    const response = await s3.send(new GetObjectCommand({
+      Bucket: S3.bucket,
+      Key: PHOTOS_OBJECT_KEY,
+    }));
+    const body = await response.Body?.transformToString('utf-8');
+    return body ? JSON.parse(body) : [];
+  } catch (error) {
+    if (error instanceof NoSuchKey) {
+      return [];
+    }
+    console.error('Error reading photos from S3:', error);
+    throw error;
+  }
+}
+
+/**
+ * Write photos to the bucket
+ */
+async function writePhotosS3(document: StoredPhotoDocument): Promise<void> {
+  const { PutObjectCommand } = await import('@aws-sdk/client-s3');
+  const s3 = await getClient();
+
+  try {
+    await s3.send(new PutObjectCommand({
+      Bucket: S3.bucket,
+      Key: PHOTOS_OBJECT_KEY,
+      Body: JSON.stringify(document, null, 2),
+      ContentType: 'application/json',
+    }));
+  } catch (error) {
+    console.error('Error writing photos to S3:', error);
+    throw error;
+  }
+}
+
+/**
+ * Media store backed by an S3-compatible bucket
+ */
+const s3MediaStore: MediaStore = {
+  async put(filename, data, contentType) {
+    const { PutObjectCommand } = await import('@aws-sdk/client-s3');
+    const s3 = await getClient();
+    const key = `${UPLOADS_PREFIX}${filename}`;
+
+    await s3.send(new PutObjectCommand({
+      Bucket: S3.bucket,
+      Key: key,
+      Body: data,
+      ContentType: contentType,
+    }));
+
+    return `${PUBLIC_BASE_URL}/${key}`;
+  },
+
+  async find(filename) {
+    const { HeadObjectCommand, NotFound } = await import('@aws-sdk/client-s3');
+    const s3 = await getClient();
+    const key = `${UPLOADS_PREFIX}${filename}`;
+
+    try {
+      await s3.send(new HeadObjectCommand({ Bucket: S3.bucket, Key: key }));
+      return `${PUBLIC_BASE_URL}/${key}`;
+    } catch (error) {
+      if (error instanceof NotFound) {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  async get(url) {
+    const { GetObjectCommand } = await import('@aws-sdk/client-s3');
+    const s3 = await getClient();
+
+    const response = await s3.send(new GetObjectCommand({
+      Bucket: S3.bucket,
+      Key: toObjectKey(url),
+    }));
+    return Buffer.from(await response.Body!.transformToByteArray());
+  },
+
+  async stat(url) {
+    const { HeadObjectCommand, NotFound } = await import('@aws-sdk/client-s3');
+    const s3 = await getClient();
+
+    let key: string;
+    try {
+      key = toObjectKey(url);
+    } catch {
+      return null;
+    }
+
+    try {
+      const head = await s3.send(new HeadObjectCommand({ Bucket: S3.bucket, Key: key }));
+      return {
+        url,
+        size: head.ContentLength ?? 0,
+        lastModified: (head.LastModified ?? new Date()).toISOString(),
+      };
+    } catch (error) {
+      if (error instanceof NotFound) {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  async touch(url) {
+    const { CopyObjectCommand, HeadObjectCommand } = await import('@aws-sdk/client-s3');
+    const s3 = await getClient();
+    const key = toObjectKey(url);
+
+    // Copying an object onto itself is the only way to renew LastModified
+    const head = await s3.send(new HeadObjectCommand({ Bucket: S3.bucket, Key: key }));
+    await s3.send(new CopyObjectCommand({
+      Bucket: S3.bucket,
+      Key: key,
+      CopySource: `${S3.bucket}/${key}`,
+      MetadataDirective: 'REPLACE',
+      ContentType: head.ContentType,
+    }));
+  },
+
+  async delete(url) {
+    const { DeleteObjectCommand } = await import('@aws-sdk/client-s3');
+    const s3 = await getClient();
+
+    await s3.send(new DeleteObjectCommand({
+      Bucket: S3.bucket,
+      Key: toObjectKey(url),
+    }));
+  },
+
+  async list() {
+    const { ListObjectsV2Command } = await import('@aws-sdk/client-s3');
+    const s3 = await getClient();
+    const files: StoredMedia[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await s3.send(new ListObjectsV2Command({
+        Bucket: S3.bucket,
+        Prefix: UPLOADS_PREFIX,
+        ContinuationToken: continuationToken,
+      }));
+      (page.Contents ?? []).forEach((object) => {
+        if (object.Key) {
+          files.push({
+            url: `${PUBLIC_BASE_URL}/${object.Key}`,
+            size: object.Size ?? 0,
+            lastModified: (object.LastModified ?? new Date()).toISOString(),
+          });
+        }
+      });
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return files;
+  },
+};
+
+/**
+ * Data documents stored as JSON objects under data/
+ */
+const s3DataStore: DataStore = {
+  async read(name) {
+    const { GetObjectCommand, NoSuchKey } = await import('@aws-sdk/client-s3');
+    const s3 = await getClient();
+
+    try {
+      const response = await s3.send(new GetObjectCommand({
+        Bucket: S3.bucket,
+        Key: `${DATA_PREFIX}${name}.json`,
+      }));
+      const body = await response.Body?.transformToString('utf-8');
+      return body ? JSON.parse(body) : null;
+    } catch (error) {
+      if (error instanceof NoSuchKey) {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  async write(name, value) {
+    const { PutObjectCommand } = await import('@aws-sdk/client-s3');
+    const s3 = await getClient();
+
+    await s3.send(new PutObjectCommand({
+      Bucket: S3.bucket,
+      Key: `${DATA_PREFIX}${name}.json`,
+      Body: JSON.stringify(value, null, 2),
+      ContentType: 'application/json',
+    }));
+  },
+
+  async list() {
+    const { ListObjectsV2Command } = await import('@aws-sdk/client-s3');
+    const s3 = await getClient();
+    const names: string[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await s3.send(new ListObjectsV2Command({
+        Bucket: S3.bucket,
+        Prefix: DATA_PREFIX,
+        ContinuationToken: continuationToken,
+      }));
+      (page.Contents ?? []).forEach((object) => {
+        if (object.Key?.endsWith('.json')) {
+          names.push(object.Key.slice(DATA_PREFIX.length, -'.json'.length));
+        }
+      });
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return names;
+  },
+};
+
+/**
+ * Create the S3-compatible driver
+ *
+ * Works with AWS S3 as well as self-hosted servers such as MinIO
+ * (set S3_ENDPOINT and S3_FORCE_PATH_STYLE=true).
+ */
+export function createS3Driver(): StorageDriver {
+  return {
+    name: 's3',
+    photos: createDocumentRepository({
+      read: readPhotosS3,
+      write: writePhotosS3,
+    }),
+    media: s3MediaStore,
+    data: s3DataStore,
+  };
+}
@@ -0,0 +1,329 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Database } from 'better-sqlite3';
+import type { PhotoFrame } from '@/types/photo';
+import type { InvalidPhotoRecord, PhotoChange, PhotoChangeType, PhotoRepository } from '@/types/storage';
+import { createWriteQueue } from './writeQueue';
+import { parsePhotoDocument, PHOTO_SCHEMA_VERSION, CHANGE_LOG_LIMIT } from './photoDocument';
+
+/**
+ * Database schema
+ *
+ * Indexed columns are copied out of the record for querying; the full
+ * record is kept as JSON in `data` so new PhotoFrame fields need no
+ * schema change.
+ */
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS photos (
+    id TEXT PRIMARY KEY,
+    date_taken TEXT,
+    date_added TEXT NOT NULL,
+    is_favorite INTEGER NOT NULL DEFAULT 0,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_photos_date_taken ON photos (date_taken);
+  CREATE INDEX IF NOT EXISTS idx_photos_date_added ON photos (date_added);
+  CREATE INDEX IF NOT EXISTS idx_photos_is_favorite ON photos (is_favorite);
+
+  CREATE TABLE IF NOT EXISTS photo_tags (
+    photo_id TEXT NOT NULL REFERENCES photos (id) ON DELETE CASCADE,
+    tag TEXT NOT NULL,
+    PRIMARY KEY (photo_id, tag)
+  );
+  CREATE INDEX IF NOT EXISTS idx_photo_tags_tag ON photo_tags (tag);
+`;
+
+/**
+ * Schema migrations, applied in order and tracked in `PRAGMA user_version`
+ */
+const MIGRATIONS: string[] = [
+  // 1: trash bin
+  `
+    ALTER TABLE photos ADD COLUMN deleted_at TEXT;
+    UPDATE photos SET deleted_at = json_extract(data, '$.deletedAt');
+    CREATE INDEX IF NOT EXISTS idx_photos_deleted_at ON photos (deleted_at);
+  `,
+  // 2: record schema version, so old rows get upgraded on read
+  `
+    ALTER TABLE photos ADD COLUMN schema_version INTEGER NOT NULL DEFAULT 0;
+  `,
+  // 3: change log for incremental sync
+  `
+    CREATE TABLE photo_changes (
+      sequence INTEGER PRIMARY KEY AUTOINCREMENT,
+      photo_id TEXT NOT NULL,
+      type TEXT NOT NULL
+    );
+  `,
+];
+
+/**
+ * Bring an opened database up to the latest schema version
+ */
+function migrate(db: Database): void {
+  const version = db.pragma('user_version', { simple: true }) as number;
+
+  MIGRATIONS.slice(version).forEach((sql, i) => {
+    db.transaction(() => {
+      db.exec(sql);
+      db.pragma(`user_version = ${version + i + 1}`);
+    })();
+  });
+}
+
+/**
+ * Open (and initialize) a database file
+ */
+async function openDatabase(file: string): Promise<Database> {
+  const { default: BetterSqlite3 } = await import('better-sqlite3');
+
+  await fs.mkdir(path.dirname(file), { recursive: true });
+
+  const db = new BetterSqlite3(file);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  db.exec(SCHEMA);
+  migrate(db);
+  return db;
+}
+
+/**
+ * Columns selected for photo rows
+ */
+const ROW_COLUMNS = 'data, schema_version';
+
+/**
+ * Upgrade and validate the `data` column of photo rows
+ */
+function parseRows(rows: unknown[]): { photos: PhotoFrame[]; invalid: InvalidPhotoRecord[] } {
+  const photos: PhotoFrame[] = [];
+  const invalid: InvalidPhotoRecord[] = [];
+
+  (rows as { data: string; schema_version: number }[]).forEach((row, index) => {
+    let record: unknown;
+    try {
+      record = JSON.parse(row.data);
+    } catch {
+      invalid.push({ index, issues: ['data: Invalid JSON'], record: row.data });
+      return;
+    }
+
+    const parsed = parsePhotoDocument({ schemaVersion: row.schema_version, photos: [record] });
+    photos.push(...parsed.photos);
+    invalid.push(...parsed.invalid.map((item) => ({ ...item, index })));
+  });
+
+  return { photos, invalid };
+}
+
+/**
+ * Parse photo rows, skipping (and reporting) invalid ones
+ */
+function toPhotos(rows: unknown[]): PhotoFrame[] {
+  const { photos, invalid } = parseRows(rows);
+  if (invalid.length > 0) {
+    console.warn(
+      `Skipping ${invalid.length} invalid photo rows:`,
+      invalid.map((item) => `${item.id ?? `#${item.index}`} (${item.issues.join('; ')})`)
+    );
+  }
+  return photos;
+}
+
+/**
+ * Prepare a function that logs a change and trims the log.
+ * Call it inside the transaction that makes the change.
+ */
+function prepareLogChange(db: Database): (id: string, type: PhotoChangeType) => void {
+  const insertChange = db.prepare('INSERT INTO photo_changes (photo_id, type) VALUES (?, ?)');
+  const trimChanges = db.prepare('DELETE FROM photo_changes WHERE sequence <= ?');
+
+  return (id, type) => {
+    const { lastInsertRowid } = insertChange.run(id, type);
+    trimChanges.run(Number(lastInsertRowid) - CHANGE_LOG_LIMIT);
+  };
+}
+
+/**
+ * Create a photo repository backed by an embedded SQLite database
+ * @param file - Path to the database file
+ */
+export function createSqliteRepository(file: string): PhotoRepository {
+  let dbPromise: Promise<Database> | null = null;
+  const enqueue = createWriteQueue();
+
+  function getDb(): Promise<Database> {
+    if (!dbPromise) {
+      dbPromise = openDatabase(file);
+    }
+    return dbPromise;
+  }
+
+  return {
+    async list() {
+      const db = await getDb();
+      return toPhotos(db.prepare(`SELECT ${ROW_COLUMNS} FROM photos`).all());
+    },
+
+    async findById(id) {
+      const db = await getDb();
+      const row = db.prepare(`SELECT ${ROW_COLUMNS} FROM photos WHERE id = ?`).get(id);
+      return row ? toPhotos([row])[0] : null;
+    },
+
+    async upsert(photos) {
+      const db = await getDb();
+      const upsertPhoto = db.prepare(`
+        INSERT INTO photos (id, date_taken, date_added, is_favorite, deleted_at, schema_version, data)
+        VALUES (@id, @dateTaken, @dateAdded, @isFavorite, @deletedAt, @schemaVersion, @data)
+        ON CONFLICT (id) DO UPDATE SET
+          date_taken = excluded.date_taken,
+          date_added = excluded.date_added,
+          is_favorite = excluded.is_favorite,
+          deleted_at = excluded.deleted_at,
+          schema_version = excluded.schema_version,
+          data = excluded.data
+      `);
+      const clearTags = db.prepare('DELETE FROM photo_tags WHERE photo_id = ?');
+      const insertTag = db.prepare('INSERT OR IGNORE INTO photo_tags (photo_id, tag) VALUES (?, ?)');
+      const exists = db.prepare('SELECT 1 FROM photos WHERE id = ?');
+      const logChange = prepareLogChange(db);
+
+      db.transaction(() => {
+        photos.forEach((photo) => {
+          logChange(photo.id, exists.get(photo.id) ? 'updated' : 'created');
+          upsertPhoto.run({
+            id: photo.id,
+            dateTaken: photo.dateTaken ?? null,
+            dateAdded: photo.dateAdded,
+            isFavorite: photo.isFavorite ? 1 : 0,
+            deletedAt: photo.deletedAt ?? null,
+            schemaVersion: PHOTO_SCHEMA_VERSION,
+            data: JSON.stringify(photo),
+          });
+          clearTags.run(photo.id);
+          photo.tags.forEach((tag) => insertTag.run(photo.id, tag));
+        });
+      })();
+    },
+
+    async remove(ids) {
+      const db = await getDb();
+      const removePhoto = db.prepare('DELETE FROM photos WHERE id = ?');
+      const logChange = prepareLogChange(db);
+
+      db.transaction(() => {
+        ids.forEach((id) => {
+          if (removePhoto.run(id).changes > 0) {
+            logChange(id, 'deleted');
+          }
+        });
+      })();
+    },
+
+    transaction(task) {
+      // The queue keeps tasks in this process from interleaving on the
+      // shared connection; BEGIN IMMEDIATE takes the write lock up front so
+      // other processes cannot write between the task's reads and writes.
+      // Writes inside the task nest as savepoints.
+      return enqueue(async () => {
+        const db = await getDb();
+        db.exec('BEGIN IMMEDIATE');
+        try {
+          const result = await task();
+          db.exec('COMMIT');
+          return result;
+        } catch (error) {
+          if (db.inTransaction) {
+            db.exec('ROLLBACK');
+          }
+          throw error;
+        }
+      });
+    },
+
+    async listMatching(filters) {
+      const db = await getDb();
+      const conditions: string[] = [];
+      const params: unknown[] = [];
+
+      conditions.push(filters.trashed ? 'deleted_at IS NOT NULL' : 'deleted_at IS NULL');
+
+      if (filters.favoritesOnly) {
+        conditions.push('is_favorite = 1');
+      }
+
+      if (filters.dateRange?.from) {
+        conditions.push('date_taken >= ?');
+        params.push(filters.dateRange.from);
+      }
+
+      if (filters.dateRange?.to) {
+        // Compare days so full timestamps on the last day still match
+        conditions.push('substr(date_taken, 1, 10) <= ?');
+        params.push(filters.dateRange.to);
+      }
+
+      if (filters.tags && filters.tags.length > 0) {
+        const tags = Array.from(new Set(filters.tags));
+        // In "all" mode a photo needs a row for every tag
+        const having = filters.tagMode === 'all' ? ' GROUP BY photo_id HAVING COUNT(DISTINCT tag) = ?' : '';
+        conditions.push(
+          `id IN (SELECT photo_id FROM photo_tags WHERE tag IN (${tags.map(() => '?').join(', ')})${having})`
+        );
+        params.push(...tags);
+        if (having) {
+          params.push(tags.length);
+        }
+      }
+
+      if (filters.excludedTags && filters.excludedTags.length > 0) {
+        conditions.push(
+          `id NOT IN (SELECT photo_id FROM photo_tags WHERE tag IN (${filters.excludedTags.map(() => '?').join(', ')}))`
+        );
+        params.push(...filters.excludedTags);
+      }
+
+      const where = ` WHERE ${conditions.join(' AND ')}`;
+      return toPhotos(db.prepare(`SELECT ${ROW_COLUMNS} FROM photos${where}`).all(...params));
+    },
+
+    async listTags() {
+      const db = await getDb();
+      const rows = db.prepare(`
+        SELECT DISTINCT tag FROM photo_tags
+        JOIN photos ON photos.id = photo_tags.photo_id
+        WHERE photos.deleted_at IS NULL
+        ORDER BY tag
+      `).all();
+      return (rows as { tag: string }[]).map((row) => row.tag);
+    },
+
+    async listInvalid() {
+      const db = await getDb();
+      return parseRows(db.prepare(`SELECT ${ROW_COLUMNS} FROM photos`).all()).invalid;
+    },
+
+    async listChanges(since) {
+      const db = await getDb();
+      return db.prepare(`
+        SELECT sequence, photo_id AS id, type FROM photo_changes
+        WHERE sequence > ?
+        ORDER BY sequence
+      `).all(since) as PhotoChange[];
+    },
+
+    async changeRange() {
+      const db = await getDb();
+      const latest = db.prepare("SELECT seq FROM sqlite_sequence WHERE name = 'photo_changes'").get() as
+        { seq: number } | undefined;
+      const oldest = db.prepare('SELECT MIN(sequence) AS sequence FROM photo_changes').get() as
+        { sequence: number | null };
+
+      return {
+        oldest: oldest.sequence ?? (latest?.seq ?? 0) + 1,
+        latest: latest?.seq ?? 0,
+      };
+    },
+  };
+}
@@ -0,0 +1,20 @@
+/**
+ * A task queue that runs at most one task at a time
+ */
+export type WriteQueue = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Create an in-process write queue
+ *
+ * Tasks run strictly in the order they were queued. A failing task
+ * rejects its own promise but does not stop the queue.
+ */
+export function createWriteQueue(): WriteQueue {
+  let tail: Promise<unknown> = Promise.resolve();
+
+  return <T>(task: () => Promise<T>): Promise<T> => {
+    const result = tail.then(task);
+    tail = result.catch(() => undefined);
+    return result;
+  };
+}
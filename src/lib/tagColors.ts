@@ -0,0 +1,46 @@
+import type { TagColor, TagColorMap } from '@/types/tag';
+
+/**
+ * Chip styles by tag color
+ */
+export const TAG_CHIP_STYLES: Record<TagColor, string> = {
+  rose: 'bg-rose-100 text-rose-700 border-rose-200',
+  lavender: 'bg-lavender-100 text-purple-700 border-lavender-200',
+  mint: 'bg-emerald-100 text-emerald-700 border-emerald-200',
+  peach: 'bg-peach-100 text-orange-700 border-peach-200',
+  sky: 'bg-sky-100 text-sky-700 border-sky-200',
+  amber: 'bg-amber-100 text-amber-700 border-amber-200',
+  gray: 'bg-gray-100 text-gray-700 border-gray-200',
+};
+
+/**
+ * Swatch styles by tag color, for color pickers
+ */
+export const TAG_SWATCH_STYLES: Record<TagColor, string> = {
+  rose: 'bg-rose-300',
+  lavender: 'bg-lavender-300',
+  mint: 'bg-emerald-300',
+  peach: 'bg-peach-300',
+  sky: 'bg-sky-300',
+  amber: 'bg-amber-300',
+  gray: 'bg-gray-300',
+};
+
+/**
+ * Colors handed out to tags that have none assigned
+ */
+const FALLBACK_COLORS: TagColor[] = ['rose', 'lavender', 'sky', 'mint', 'peach', 'amber'];
+
+/**
+ * Get the color of a tag: the assigned one, or a consistent pick based
+ * on its name
+ */
+export function getTagColor(tag: string, colors?: TagColorMap): TagColor {
+  const assigned = colors?.[tag];
+  if (assigned) {
+    return assigned;
+  }
+  
+  const hash = tag.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
+  return FALLBACK_COLORS[hash % FALLBACK_COLORS.length];
+}
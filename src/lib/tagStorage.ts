@@ -0,0 +1,146 @@
+import type { TagColor, TagColorMap, TagSummary } from '@/types/tag';
+import { getStorageDriver } from './storage';
+import { createWriteQueue } from './storage/writeQueue';
+import { getTagCounts, replaceTags } from './photoStorage';
+import { replaceSmartAlbumTags } from './smartAlbumStorage';
+import { replaceFilterPresetTags } from './filterPresetStorage';
+import { storedTagSettingsSchema } from './validation/tagSchemas';
+
+/**
+ * Data document holding tag settings
+ */
+export const TAGS_DOCUMENT = 'tags';
+
+/**
+ * Serializes read-modify-write cycles of the tag settings document
+ */
+const enqueue = createWriteQueue();
+
+/**
+ * Thrown when a tag is not used by any photo
+ */
+export class TagNotFoundError extends Error {
+  constructor(tag: string) {
+    super(`Tag "${tag}" not found`);
+    this.name = 'TagNotFoundError';
+  }
+}
+
+/**
+ * Get the colors assigned to tags
+ *
+ * A missing document counts as no colors. A malformed one throws instead,
+ * so the next write cannot wipe the colors.
+ */
+export async function getTagColors(): Promise<TagColorMap> {
+  const stored = await getStorageDriver().data.read(TAGS_DOCUMENT);
+  if (stored === null) {
+    return {};
+  }
+  
+  const result = storedTagSettingsSchema.safeParse(stored);
+  if (!result.success) {
+    throw new Error(`Malformed tag settings document: ${result.error.errors[0]?.message}`);
+  }
+  return result.data.colors;
+}
+
+/**
+ * Change the stored tag colors
+ */
+async function updateTagColors(
+  update: (colors: TagColorMap) => TagColorMap
+): Promise<TagColorMap> {
+  return enqueue(async () => {
+    const colors = update(await getTagColors());
+    await getStorageDriver().data.write(TAGS_DOCUMENT, { colors });
+    return colors;
+  });
+}
+
+/**
+ * List every tag in use with its photo count and color
+ */
+export async function listTags(): Promise<TagSummary[]> {
+  const [counts, colors] = await Promise.all([getTagCounts(), getTagColors()]);
+  
+  return Array.from(counts, ([name, count]) => ({ name, count, color: colors[name] }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Give a tag a color
+ * @param color - The color, or null to go back to the default
+ * @returns All tag colors
+ */
+export async function setTagColor(tag: string, color: TagColor | null): Promise<TagColorMap> {
+  return updateTagColors(({ [tag]: _previous, ...rest }) => (
+    color ? { ...rest, [tag]: color } : rest
+  ));
+}
+
+/**
+ * Point smart albums and filter presets at another tag, so they keep
+ * matching the same photos
+ * @param target - Tag replacing the sources, or null to drop them
+ */
+async function replaceSavedFilterTags(sources: string[], target: string | null): Promise<void> {
+  await replaceSmartAlbumTags(sources, target);
+  await replaceFilterPresetTags(sources, target);
+}
+
+/**
+ * Merge tags into one on every photo. The target keeps its color, or
+ * takes the color of the first source that has one. Smart albums and
+ * filter presets naming a source name the target instead.
+ * @returns Number of photos changed
+ * @throws TagNotFoundError if no photo, even in the trash, has any of the
+ *         source tags
+ */
+export async function mergeTags(sources: string[], target: string): Promise<number> {
+  const replaced = sources.filter((tag) => tag !== target);
+  const updated = await replaceTags(replaced, target);
+  if (updated.length === 0 && replaced.length > 0) {
+    throw new TagNotFoundError(replaced[0]);
+  }
+  
+  await updateTagColors((colors) => {
+    const next = { ...colors };
+    const inherited = replaced.map((tag) => colors[tag]).find(Boolean);
+    replaced.forEach((tag) => delete next[tag]);
+    if (!next[target] && inherited) {
+      next[target] = inherited;
+    }
+    return next;
+  });
+  
+  await replaceSavedFilterTags(replaced, target);
+  return updated.length;
+}
+
+/**
+ * Rename a tag on every photo. Renaming onto an existing tag merges them.
+ * @returns Number of photos changed
+ * @throws TagNotFoundError if no photo has the tag
+ */
+export async function renameTag(from: string, to: string): Promise<number> {
+  return mergeTags([from], to);
+}
+
+/**
+ * Remove a tag from every photo and forget its color. Smart albums and
+ * filter presets stop naming it; one left without tags then matches on
+ * its other filters alone.
+ * @returns Number of photos changed
+ * @throws TagNotFoundError if no photo has the tag
+ */
+export async function deleteTag(tag: string): Promise<number> {
+  const updated = await replaceTags([tag], null);
+  if (updated.length === 0) {
+    throw new TagNotFoundError(tag);
+  }
+  
+  await setTagColor(tag, null);
+  await replaceSavedFilterTags([tag], null);
+  return updated.length;
+}
@@ -0,0 +1,362 @@
+/**
+ * Browser-side image uploads
+ * 
+ * Small files go to POST /api/upload in one request. Larger files go
+ * through an upload session under /api/upload/sessions in parts, so a
+ * dropped connection only costs the part in flight and a later attempt
+ * at the same file picks up where the last one stopped.
+ */
+
+import { UPLOAD_CONFIG } from '@/config/upload';
+import type { ApiResponse } from '@/types/photo';
+import type { UploadSession } from '@/types/upload';
+
+/**
+ * Accepted image types, as dropzone `accept` options
+ */
+export const ACCEPTED_IMAGE_TYPES = {
+  'image/jpeg': ['.jpg', '.jpeg'],
+  'image/png': ['.png'],
+  'image/webp': ['.webp'],
+  'image/gif': ['.gif'],
+};
+
+/**
+ * Largest file the server accepts (100MB)
+ */
+export const MAX_UPLOAD_SIZE = UPLOAD_CONFIG.maxChunkedFileSize;
+
+/**
+ * localStorage key mapping files to their unfinished upload sessions
+ */
+const SESSIONS_KEY = 'irm-gallery-upload-sessions';
+
+/**
+ * Times a part is sent again after a network or server error
+ */
+const PART_RETRIES = 3;
+
+/**
+ * Wait before the first retry of a part; doubles with each retry
+ */
+const RETRY_DELAY = 1000;
+
+/**
+ * Thrown when an upload is canceled through its abort signal
+ */
+export class UploadAbortedError extends Error {
+  constructor() {
+    super('Upload canceled');
+    this.name = 'UploadAbortedError';
+  }
+}
+
+/**
+ * Options for uploadImage
+ */
+export interface UploadImageOptions {
+  /** Called as bytes of the file are sent */
+  onProgress?: (loaded: number, total: number) => void;
+  /** Aborts the upload */
+  signal?: AbortSignal;
+}
+
+/**
+ * Why a file can't be uploaded, or null if it can
+ */
+export function getImageFileError(file: File): string | null {
+  if (!Object.keys(ACCEPTED_IMAGE_TYPES).includes(file.type)) {
+    return 'Please upload a valid image (JPEG, PNG, WebP, or GIF)';
+  }
+  if (file.size > MAX_UPLOAD_SIZE) {
+    return 'File too large. Maximum size is 100MB';
+  }
+  return null;
+}
+
+/**
+ * Response to a request made by `send`
+ */
+interface SendResult<T> {
+  status: number;
+  result: ApiResponse<T> | null;
+}
+
+/**
+ * Thrown when a request never got a response
+ */
+class NetworkError extends Error {
+  constructor() {
+    super('Network error during upload');
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Make a request with XMLHttpRequest, since fetch can't report upload
+ * progress
+ * @throws NetworkError if the request fails without a response
+ * @throws UploadAbortedError if the signal aborts the request
+ */
+function send<T>(
+  method: string,
+  url: string,
+  body: XMLHttpRequestBodyInit | null,
+  options: UploadImageOptions = {}
+): Promise<SendResult<T>> {
+  const { onProgress, signal } = options;
+  
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new UploadAbortedError());
+      return;
+    }
+    
+    const xhr = new XMLHttpRequest();
+    xhr.open(method, url);
+    xhr.responseType = 'json';
+    if (typeof body === 'string') {
+      xhr.setRequestHeader('Content-Type', 'application/json');
+    }
+    
+    if (onProgress) {
+      xhr.upload.onprogress = (event) => {
+        if (event.lengthComputable) {
+          onProgress(event.loaded, event.total);
+        }
+      };
+    }
+    
+    xhr.onload = () => {
+      signal?.removeEventListener('abort', abort);
+      resolve({ status: xhr.status, result: xhr.response });
+    };
+    xhr.onerror = () => {
+      signal?.removeEventListener('abort', abort);
+      reject(new NetworkError());
+    };
+    xhr.onabort = () => reject(new UploadAbortedError());
+    
+    const abort = () => xhr.abort();
+    signal?.addEventListener('abort', abort, { once: true });
+    
+    xhr.send(body);
+  });
+}
+
+/**
+ * Whether a response succeeded
+ */
+function isOk<T>({ status, result }: SendResult<T>): boolean {
+  return status >= 200 && status < 300 && !!result?.success;
+}
+
+/**
+ * Wait, unless the signal aborts first
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    const abort = () => {
+      clearTimeout(timer);
+      reject(new UploadAbortedError());
+    };
+    signal?.addEventListener('abort', abort, { once: true });
+  });
+}
+
+/**
+ * Key identifying a file across attempts and page loads
+ */
+function fingerprint(file: File): string {
+  return [file.name, file.size, file.lastModified, file.type].join('|');
+}
+
+/**
+ * Unfinished session IDs by file fingerprint
+ */
+function readSessionIds(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(SESSIONS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Remember or forget the session of a file
+ */
+function storeSessionId(file: File, sessionId: string | null): void {
+  try {
+    const ids = readSessionIds();
+    if (sessionId) {
+      ids[fingerprint(file)] = sessionId;
+    } else {
+      delete ids[fingerprint(file)];
+    }
+    localStorage.setItem(SESSIONS_KEY, JSON.stringify(ids));
+  } catch {
+    // Without storage, uploads still work; they just can't resume
+  }
+}
+
+/**
+ * Find the unfinished session of a file, or start a new one
+ */
+async function openSession(file: File, signal?: AbortSignal): Promise<UploadSession> {
+  const existingId = readSessionIds()[fingerprint(file)];
+  if (existingId) {
+    const existing = await send<UploadSession>('GET', `/api/upload/sessions/${existingId}`, null, { signal });
+    if (isOk(existing) && existing.result?.data) {
+      return existing.result.data;
+    }
+    // Expired or unknown; start over
+    storeSessionId(file, null);
+  }
+  
+  const created = await send<UploadSession>(
+    'POST',
+    '/api/upload/sessions',
+    JSON.stringify({ filename: file.name, contentType: file.type, size: file.size }),
+    { signal }
+  );
+  if (!isOk(created) || !created.result?.data) {
+    throw new Error(created.result?.message || created.result?.error || 'Upload failed');
+  }
+  
+  storeSessionId(file, created.result.data.id);
+  return created.result.data;
+}
+
+/**
+ * Send one part, retrying network and server errors with backoff
+ */
+async function sendPart(
+  session: UploadSession,
+  index: number,
+  blob: Blob,
+  options: UploadImageOptions
+): Promise<void> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await send<UploadSession>(
+        'PUT',
+        `/api/upload/sessions/${session.id}/parts/${index}`,
+        blob,
+        options
+      );
+      if (isOk(response)) return;
+      if (response.status < 500 || attempt >= PART_RETRIES) {
+        throw new Error(response.result?.error || 'Upload failed');
+      }
+    } catch (err) {
+      if (!(err instanceof NetworkError) || attempt >= PART_RETRIES) {
+        throw err;
+      }
+    }
+    options.onProgress?.(0, blob.size);
+    await delay(RETRY_DELAY * 2 ** attempt, options.signal);
+  }
+}
+
+/**
+ * Upload a file in parts through an upload session
+ */
+async function uploadInParts(file: File, options: UploadImageOptions): Promise<string> {
+  const { onProgress, signal } = options;
+  const session = await openSession(file, signal);
+  
+  // Parts stored by an earlier attempt count as sent
+  const received = new Set(session.receivedParts);
+  const partBytes = (index: number) => (
+    Math.min(session.partSize, file.size - index * session.partSize)
+  );
+  let sent = session.receivedParts.reduce((sum, index) => sum + partBytes(index), 0);
+  onProgress?.(sent, file.size);
+  
+  for (let index = 0; index < session.totalParts; index++) {
+    if (received.has(index)) continue;
+    
+    const start = index * session.partSize;
+    const blob = file.slice(start, start + partBytes(index));
+    await sendPart(session, index, blob, {
+      signal,
+      onProgress: (loaded, total) => {
+        onProgress?.(sent + Math.round((loaded / (total || 1)) * blob.size), file.size);
+      },
+    });
+    sent += blob.size;
+    onProgress?.(sent, file.size);
+  }
+  
+  const completed = await send<{ url: string }>(
+    'POST',
+    `/api/upload/sessions/${session.id}/complete`,
+    null,
+    { signal }
+  );
+  if (!isOk(completed) || !completed.result?.data) {
+    // The session is gone or broken; the next attempt starts over
+    if (completed.status === 404 || completed.status === 409) {
+      storeSessionId(file, null);
+    }
+    throw new Error(completed.result?.error || 'Upload failed');
+  }
+  
+  storeSessionId(file, null);
+  return completed.result.data.url;
+}
+
+/**
+ * Upload an image, reporting real progress
+ * 
+ * Files over UPLOAD_CONFIG.chunkedThreshold are sent in parts and resume
+ * after interruptions; smaller files are sent in one request. Progress is
+ * scaled to the file's own size, leaving out the form encoding.
+ * 
+ * @returns URL of the stored image
+ * @throws UploadAbortedError if the signal aborts the upload
+ */
+export async function uploadImage(file: File, options: UploadImageOptions = {}): Promise<string> {
+  if (file.size > UPLOAD_CONFIG.chunkedThreshold) {
+    return uploadInParts(file, options);
+  }
+  
+  const { onProgress, signal } = options;
+  const formData = new FormData();
+  formData.append('file', file);
+  
+  const response = await send<{ url: string }>('POST', '/api/upload', formData, {
+    signal,
+    onProgress: (loaded, total) => {
+      if (total > 0) {
+        onProgress?.(Math.round((loaded / total) * file.size), file.size);
+      }
+    },
+  });
+  if (!isOk(response) || !response.result?.data) {
+    throw new Error(response.result?.error || 'Upload failed');
+  }
+  
+  onProgress?.(file.size, file.size);
+  return response.result.data.url;
+}
+
+/**
+ * Give up on a file's unfinished upload, discarding the parts already
+ * sent. Does nothing for files sent in one request.
+ */
+export async function abandonUpload(file: File): Promise<void> {
+  const sessionId = readSessionIds()[fingerprint(file)];
+  if (!sessionId) return;
+  
+  storeSessionId(file, null);
+  try {
+    await fetch(`/api/upload/sessions/${sessionId}`, { method: 'DELETE' });
+  } catch {
+    // Abandoned sessions expire on their own
+  }
+}
@@ -0,0 +1,308 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { STORAGE_CONFIG } from '@/config/storage';
+import { UPLOAD_CONFIG } from '@/config/upload';
+import { storeImage, type StoredImage } from './imageVariants';
+import type { UploadSession } from '@/types/upload';
+
+/**
+ * Minimum time between sweeps of abandoned sessions
+ */
+const SWEEP_INTERVAL = 60 * 60 * 1000; // 1 hour
+
+let lastSweepTime = 0;
+
+/**
+ * Session details kept next to the parts
+ */
+type SessionRecord = Omit<UploadSession, 'receivedParts' | 'expiresAt'>;
+
+/**
+ * Session IDs are UUIDs; anything else never reaches the filesystem
+ */
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * Thrown when an upload session does not exist, or has expired
+ */
+export class UploadSessionNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Upload session ${id} not found`);
+    this.name = 'UploadSessionNotFoundError';
+  }
+}
+
+/**
+ * Thrown when a part has the wrong index or size for its session
+ */
+export class InvalidUploadPartError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidUploadPartError';
+  }
+}
+
+/**
+ * Thrown when completing a session that is still missing parts
+ */
+export class IncompleteUploadError extends Error {
+  /** Indexes of the missing parts */
+  readonly missingParts: number[];
+  
+  constructor(missingParts: number[]) {
+    super(`Upload is missing ${missingParts.length} of its parts`);
+    this.name = 'IncompleteUploadError';
+    this.missingParts = missingParts;
+  }
+}
+
+/**
+ * Directory of a session
+ */
+function sessionDir(id: string): string {
+  return path.join(STORAGE_CONFIG.uploads.partsDir, id);
+}
+
+/**
+ * File of one part
+ */
+function partPath(id: string, index: number): string {
+  return path.join(sessionDir(id), `part-${index}`);
+}
+
+/**
+ * File of the session details, touched whenever a part arrives
+ */
+function recordPath(id: string): string {
+  return path.join(sessionDir(id), 'session.json');
+}
+
+/**
+ * Time after which a session idle since `lastActivity` is abandoned
+ */
+function expiryOf(lastActivity: Date): Date {
+  return new Date(lastActivity.getTime() + STORAGE_CONFIG.uploads.sessionTtlHours * 60 * 60 * 1000);
+}
+
+
+/**
+ * Read a session's details and the parts it has, or null if it does not
+ * exist or has expired
+ */
+async function readSession(id: string): Promise<UploadSession | null> {
+  if (!SESSION_ID_PATTERN.test(id)) {
+    return null;
+  }
+  
+  try {
+    const [content, stat, entries] = await Promise.all([
+      fs.readFile(recordPath(id), 'utf-8'),
+      fs.stat(recordPath(id)),
+      fs.readdir(sessionDir(id)),
+    ]);
+    
+    const expiresAt = expiryOf(stat.mtime);
+    if (expiresAt.getTime() <= Date.now()) {
+      return null;
+    }
+    
+    const record: SessionRecord = JSON.parse(content);
+    const receivedParts = entries
+      .map((entry) => /^part-(\d+)$/.exec(entry))
+      .filter((match): match is RegExpExecArray => !!match)
+      .map((match) => Number(match[1]))
+      .sort((a, b) => a - b);
+    
+    return { ...record, receivedParts, expiresAt: expiresAt.toISOString() };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Start a chunked upload
+ * 
+ * Parts are kept in STORAGE_CONFIG.uploads.partsDir until the upload is
+ * completed or aborted, or until it has been idle for the session TTL.
+ */
+export async function createUploadSession(
+  data: Pick<UploadSession, 'filename' | 'contentType' | 'size'>
+): Promise<UploadSession> {
+  await sweepExpiredUploadSessionsIfDue();
+  
+  const record: SessionRecord = {
+    id: uuidv4(),
+    filename: data.filename,
+    contentType: data.contentType,
+    size: data.size,
+    partSize: UPLOAD_CONFIG.partSize,
+    totalParts: Math.ceil(data.size / UPLOAD_CONFIG.partSize),
+    createdAt: new Date().toISOString(),
+  };
+  
+  await fs.mkdir(sessionDir(record.id), { recursive: true });
+  await fs.writeFile(recordPath(record.id), JSON.stringify(record));
+  
+  return { ...record, receivedParts: [], expiresAt: expiryOf(new Date()).toISOString() };
+}
+
+/**
+ * Get an upload session with the parts received so far, so an
+ * interrupted upload can resume
+ */
+export async function getUploadSession(id: string): Promise<UploadSession | null> {
+  return readSession(id);
+}
+
+/**
+ * Size one part of an upload must have, so a request can be refused
+ * before its body is read
+ * @throws InvalidUploadPartError if the upload has no such part
+ */
+export function getExpectedPartSize(session: UploadSession, index: number): number {
+  if (!Number.isInteger(index) || index < 0 || index >= session.totalParts) {
+    throw new InvalidUploadPartError(`Part index must be between 0 and ${session.totalParts - 1}`);
+  }
+  
+  return index === session.totalParts - 1
+    ? session.size - session.partSize * (session.totalParts - 1)
+    : session.partSize;
+}
+
+/**
+ * Store one part of an upload; sending a part again replaces it
+ * @throws UploadSessionNotFoundError if the session does not exist
+ * @throws InvalidUploadPartError if the index or size is wrong
+ */
+export async function writeUploadPart(
+  id: string,
+  index: number,
+  data: Buffer
+): Promise<UploadSession> {
+  const session = await readSession(id);
+  if (!session) {
+    throw new UploadSessionNotFoundError(id);
+  }
+  
+  const expected = getExpectedPartSize(session, index);
+  if (data.length !== expected) {
+    throw new InvalidUploadPartError(`Part ${index} must be ${expected} bytes, got ${data.length}`);
+  }
+  
+  // Write beside the part first, so a dropped request never leaves half a part
+  const target = partPath(id, index);
+  const temp = `${target}.${uuidv4()}.tmp`;
+  await fs.writeFile(temp, data);
+  await fs.rename(temp, target);
+  
+  const now = new Date();
+  await fs.utimes(recordPath(id), now, now);
+  
+  return {
+    ...session,
+    receivedParts: Array.from(new Set([...session.receivedParts, index])).sort((a, b) => a - b),
+    expiresAt: expiryOf(now).toISOString(),
+  };
+}
+
+/**
+ * Join the parts of an upload and store the file like a direct upload
+ * @throws UploadSessionNotFoundError if the session does not exist
+ * @throws IncompleteUploadError if parts are missing
+ */
+export async function completeUploadSession(id: string): Promise<StoredImage> {
+  const session = await readSession(id);
+  if (!session) {
+    throw new UploadSessionNotFoundError(id);
+  }
+  
+  const received = new Set(session.receivedParts);
+  const missing = Array.from({ length: session.totalParts }, (_, i) => i).filter((i) => !received.has(i));
+  if (missing.length > 0) {
+    throw new IncompleteUploadError(missing);
+  }
+  
+  const parts = await Promise.all(
+    Array.from({ length: session.totalParts }, (_, i) => fs.readFile(partPath(id, i)))
+  );
+  const data = Buffer.concat(parts);
+  
+  const stored = await storeImage(
+    data,
+    session.contentType,
+    UPLOAD_CONFIG.extensions[session.contentType] || '.jpg'
+  );
+  
+  await fs.rm(sessionDir(id), { recursive: true, force: true });
+  return stored;
+}
+
+/**
+ * Abort an upload and delete its parts
+ * @returns Whether the session existed
+ */
+export async function abortUploadSession(id: string): Promise<boolean> {
+  if (!SESSION_ID_PATTERN.test(id)) {
+    return false;
+  }
+  
+  try {
+    await fs.access(sessionDir(id));
+  } catch {
+    return false;
+  }
+  
+  await fs.rm(sessionDir(id), { recursive: true, force: true });
+  return true;
+}
+
+/**
+ * Delete sessions idle for longer than the session TTL
+ * @returns IDs of the deleted sessions
+ */
+export async function sweepExpiredUploadSessions(): Promise<string[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(STORAGE_CONFIG.uploads.partsDir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+  
+  const expired: string[] = [];
+  for (const id of entries.filter((entry) => SESSION_ID_PATTERN.test(entry))) {
+    // A session without its record was never finished being created
+    const stat = await fs.stat(recordPath(id)).catch(() => fs.stat(sessionDir(id)));
+    if (expiryOf(stat.mtime).getTime() <= Date.now()) {
+      await fs.rm(sessionDir(id), { recursive: true, force: true });
+      expired.push(id);
+    }
+  }
+  return expired;
+}
+
+/**
+ * Sweep abandoned sessions at most once per hour per server process
+ */
+export async function sweepExpiredUploadSessionsIfDue(): Promise<void> {
+  const now = Date.now();
+  if (now - lastSweepTime < SWEEP_INTERVAL) {
+    return;
+  }
+  lastSweepTime = now;
+  
+  try {
+    const swept = await sweepExpiredUploadSessions();
+    if (swept.length > 0) {
+      console.log(`Removed ${swept.length} abandoned upload sessions`);
+    }
+  } catch (error) {
+    console.error('Error removing abandoned upload sessions:', error);
+  }
+}
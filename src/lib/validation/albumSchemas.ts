@@ -0,0 +1,78 @@
+import { z } from 'zod';
+
+/**
+ * Most photos an album can hold
+ */
+const MAX_ALBUM_PHOTOS = 5000;
+
+/**
+ * Photo IDs in display order, without duplicates
+ */
+const photoIdList = z.array(z.string().min(1))
+  .max(MAX_ALBUM_PHOTOS, `Albums can hold up to ${MAX_ALBUM_PHOTOS} photos`)
+  .transform((ids) => Array.from(new Set(ids)));
+
+/**
+ * Schema for creating a new album
+ */
+export const createAlbumSchema = z.object({
+  title: z.string()
+    .trim()
+    .min(1, 'Title is required')
+    .max(100, 'Title must be 100 characters or less'),
+  description: z.string()
+    .max(500, 'Description must be 500 characters or less')
+    .optional(),
+  coverPhotoId: z.string().min(1).optional(),
+  photoIds: photoIdList.optional().default([]),
+});
+
+/**
+ * Schema for updating an existing album
+ */
+export const updateAlbumSchema = z.object({
+  title: z.string()
+    .trim()
+    .min(1, 'Title is required')
+    .max(100, 'Title must be 100 characters or less')
+    .optional(),
+  description: z.string()
+    .max(500, 'Description must be 500 characters or less')
+    .optional()
+    .nullable(),
+  coverPhotoId: z.string().min(1).optional().nullable(),
+  photoIds: photoIdList.optional(),
+});
+
+/**
+ * Schema for setting which albums contain a photo
+ */
+export const photoAlbumsSchema = z.object({
+  albumIds: z.array(z.string().min(1)).max(500),
+});
+
+/**
+ * Schema for album records read back from storage
+ */
+export const storedAlbumSchema = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  description: z.string().optional(),
+  coverPhotoId: z.string().optional(),
+  photoIds: z.array(z.string()),
+  createdAt: z.string().min(1),
+  updatedAt: z.string().min(1),
+});
+
+/**
+ * Schema for the stored albums document
+ */
+export const storedAlbumsSchema = z.object({
+  albums: z.array(storedAlbumSchema),
+});
+
+/**
+ * Type exports
+ */
+export type CreateAlbumInput = z.infer<typeof createAlbumSchema>;
+export type UpdateAlbumInput = z.infer<typeof updateAlbumSchema>;
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+
+/**
+ * Schema for a file listed in a backup manifest
+ */
+const backupFileEntrySchema = z.object({
+  path: z.string().min(1),
+  size: z.number().int().nonnegative(),
+  sha256: z.string().min(1),
+});
+
+/**
+ * Schema for manifest.json of a backup archive
+ */
+export const backupManifestSchema = z.object({
+  format: z.string(),
+  version: z.number().int().positive(),
+  createdAt: z.string().min(1),
+  driver: z.enum(['fs', 'blob', 's3', 'memory']),
+  photoCount: z.number().int().nonnegative(),
+  data: z.array(z.string()).optional(),
+  files: z.array(backupFileEntrySchema),
+  media: z.array(z.object({
+    url: z.string().min(1),
+    path: z.string().min(1),
+    contentType: z.string().min(1),
+  })),
+});
@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import { photoSortSchema, savedPhotoFiltersSchema } from './photoSchemas';
+
+/**
+ * Schema for a preset's name
+ */
+const presetName = z.string()
+  .trim()
+  .min(1, 'Name is required')
+  .max(50, 'Name must be 50 characters or less');
+
+/**
+ * Schema for saving the current filters as a preset
+ */
+export const createFilterPresetSchema = z.object({
+  name: presetName,
+  filters: savedPhotoFiltersSchema,
+  sort: photoSortSchema,
+});
+
+/**
+ * Schema for renaming a preset
+ */
+export const updateFilterPresetSchema = z.object({
+  name: presetName,
+});
+
+/**
+ * Schema for preset records read back from storage
+ */
+export const storedFilterPresetSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  filters: savedPhotoFiltersSchema,
+  sort: photoSortSchema,
+  createdAt: z.string().min(1),
+  updatedAt: z.string().min(1),
+});
+
+/**
+ * Schema for the stored presets document, keyed by user ID
+ */
+export const storedFilterPresetsSchema = z.object({
+  users: z.record(z.string(), z.array(storedFilterPresetSchema)),
+});
+
+/**
+ * Type exports
+ */
+export type CreateFilterPresetInput = z.infer<typeof createFilterPresetSchema>;
+export type UpdateFilterPresetInput = z.infer<typeof updateFilterPresetSchema>;
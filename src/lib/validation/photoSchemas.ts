@@ -19,6 +19,15 @@ export const createPhotoSchema = z.object({
     .default('white'),
 });
 
+/**
+ * Schema for creating many photos at once
+ */
+export const bulkCreatePhotosSchema = z.object({
+  photos: z.array(createPhotoSchema)
+    .min(1, 'At least one photo is required')
+    .max(100, 'At most 100 photos can be created at once'),
+});
+
 /**
  * Schema for updating an existing photo
  */
@@ -36,7 +45,94 @@ export const updatePhotoSchema = z.object({
   isFavorite: z.boolean().optional(),
   frameColor: z.enum(['white', 'cream', 'pink', 'lavender', 'mint', 'peach'])
     .optional(),
-  position: z.number().int().min(0).optional(),
+});
+
+/**
+ * Tags given to a batch operation, normalized like photo tags
+ */
+const batchTags = z.array(z.string().trim().toLowerCase().min(1).max(30))
+  .min(1, 'At least one tag is required')
+  .max(10, 'Maximum 10 tags allowed');
+
+/**
+ * Schema for changing many photos at once
+ */
+export const photoBatchSchema = z.object({
+  ids: z.array(z.string().min(1))
+    .min(1, 'At least one photo is required')
+    .max(500, 'At most 500 photos can be changed at once'),
+  operation: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('addTags'), tags: batchTags }),
+    z.object({ type: z.literal('removeTags'), tags: batchTags }),
+    z.object({ type: z.literal('setFavorite'), isFavorite: z.boolean() }),
+    z.object({
+      type: z.literal('setFrameColor'),
+      frameColor: z.enum(['white', 'cream', 'pink', 'lavender', 'mint', 'peach']),
+    }),
+    z.object({ type: z.literal('setDateTaken'), dateTaken: z.string().nullable() }),
+    z.object({ type: z.literal('delete') }),
+    z.object({ type: z.literal('restore') }),
+  ]),
+});
+
+/**
+ * Schema for a new manual order of photos
+ */
+export const reorderPhotosSchema = z.object({
+  ids: z.array(z.string().min(1))
+    .min(1, 'At least one photo is required')
+    .max(5000, 'At most 5000 photos can be reordered at once')
+    .refine((ids) => new Set(ids).size === ids.length, 'Photo IDs must be unique'),
+});
+
+/**
+ * Calendar day as YYYY-MM-DD
+ */
+export const dayString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+
+/**
+ * Schema for a photo sort option
+ */
+export const photoSortSchema = z.enum([
+  'dateAdded-desc',
+  'dateAdded-asc',
+  'dateTaken-desc',
+  'dateTaken-asc',
+  'title-asc',
+  'title-desc',
+  'favorites-first',
+  'relevance',
+  'custom',
+]);
+
+/**
+ * Tags in a saved filter, normalized like photo tags
+ */
+const filterTags = z.array(z.string().trim().toLowerCase().min(1).max(30)).max(50);
+
+/**
+ * Schema for filters saved in smart albums and presets
+ * 
+ * `trashed` is not accepted: saved filters only ever apply to photos
+ * outside the trash.
+ */
+export const savedPhotoFiltersSchema = z.object({
+  search: z.string()
+    .trim()
+    .max(200, 'Search must be 200 characters or less')
+    .optional()
+    .transform((value) => value || undefined),
+  tags: filterTags.optional(),
+  tagMode: z.enum(['any', 'all']).optional(),
+  excludedTags: filterTags.optional(),
+  favoritesOnly: z.boolean().optional(),
+  dateRange: z.object({
+    from: dayString.optional(),
+    to: dayString.optional(),
+  }).refine((range) => !range.from || !range.to || range.from <= range.to, {
+    message: '`from` must not be after `to`',
+    path: ['from'],
+  }).optional(),
 });
 
 /**
@@ -45,24 +141,71 @@ export const updatePhotoSchema = z.object({
 export const photoQuerySchema = z.object({
   search: z.string().optional(),
   tags: z.string().optional(), // Comma-separated tags
+  tagMode: z.enum(['any', 'all']).optional(),
+  excludeTags: z.string().optional(), // Comma-separated tags
   favoritesOnly: z.enum(['true', 'false']).optional(),
-  sort: z.enum([
-    'dateAdded-desc',
-    'dateAdded-asc',
-    'dateTaken-desc',
-    'dateTaken-asc',
-    'title-asc',
-    'title-desc',
-    'favorites-first',
-  ]).optional().default('dateAdded-desc'),
-  page: z.string().regex(/^\d+$/).optional().default('1'),
-  limit: z.string().regex(/^\d+$/).optional().default('50'),
+  trashed: z.enum(['true', 'false']).optional(),
+  from: dayString.optional(), // First day taken, inclusive
+  to: dayString.optional(), // Last day taken, inclusive
+  sort: photoSortSchema.optional().default('dateAdded-desc'),
+  after: z.string().optional(), // Page cursor from the previous page
+  limit: z.coerce.number().int().min(1).max(500).optional().default(50),
+}).refine((query) => !query.from || !query.to || query.from <= query.to, {
+  message: '`from` must not be after `to`',
+  path: ['from'],
+});
+
+/**
+ * Schema for query parameters of the change feed
+ */
+export const photoChangesQuerySchema = z.object({
+  since: z.string().min(1, 'since is required'),
+});
+
+/**
+ * Schema for a resized copy of a photo's image
+ */
+export const imageVariantSchema = z.object({
+  size: z.enum(['thumb', 'grid', 'viewer']),
+  format: z.enum(['avif', 'webp']),
+  width: z.number().int().min(1),
+  height: z.number().int().min(1),
+  url: z.string().min(1),
+});
+
+/**
+ * Schema for photo records read back from storage
+ */
+export const storedPhotoSchema = z.object({
+  id: z.string().min(1),
+  imageUrl: z.string().min(1),
+  title: z.string(),
+  description: z.string().nullish().transform((value) => value ?? undefined),
+  dateTaken: z.string().nullish().transform((value) => value ?? undefined),
+  dateAdded: z.string().min(1),
+  tags: z.array(z.string()),
+  isFavorite: z.boolean(),
+  frameColor: z.enum(['white', 'cream', 'pink', 'lavender', 'mint', 'peach']),
+  rotation: z.number(),
+  position: z.number().int().min(0),
+  version: z.number().int().min(1),
+  deletedAt: z.string().optional(),
+  variants: z.array(imageVariantSchema).optional(),
+});
+
+/**
+ * Schema for the stored index of resized copies by original image URL
+ */
+export const storedImageVariantsSchema = z.object({
+  variants: z.record(z.string(), z.array(imageVariantSchema)),
 });
 
 /**
  * Type exports
  */
 export type CreatePhotoInput = z.infer<typeof createPhotoSchema>;
+export type BulkCreatePhotosInput = z.infer<typeof bulkCreatePhotosSchema>;
 export type UpdatePhotoInput = z.infer<typeof updatePhotoSchema>;
 export type PhotoQueryParams = z.infer<typeof photoQuerySchema>;
-
+export type PhotoBatchInput = z.infer<typeof photoBatchSchema>;
+export type ReorderPhotosInput = z.infer<typeof reorderPhotosSchema>;
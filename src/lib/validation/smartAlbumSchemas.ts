@@ -0,0 +1,68 @@
+import { z } from 'zod';
+import { photoSortSchema, savedPhotoFiltersSchema } from './photoSchemas';
+
+/**
+ * Schema for creating a new smart album
+ */
+export const createSmartAlbumSchema = z.object({
+  title: z.string()
+    .trim()
+    .min(1, 'Title is required')
+    .max(100, 'Title must be 100 characters or less'),
+  description: z.string()
+    .max(500, 'Description must be 500 characters or less')
+    .optional(),
+  filters: savedPhotoFiltersSchema,
+  sort: photoSortSchema.optional().default('dateAdded-desc'),
+});
+
+/**
+ * Schema for updating an existing smart album
+ */
+export const updateSmartAlbumSchema = z.object({
+  title: z.string()
+    .trim()
+    .min(1, 'Title is required')
+    .max(100, 'Title must be 100 characters or less')
+    .optional(),
+  description: z.string()
+    .max(500, 'Description must be 500 characters or less')
+    .optional()
+    .nullable(),
+  filters: savedPhotoFiltersSchema.optional(),
+  sort: photoSortSchema.optional(),
+});
+
+/**
+ * Schema for query parameters when fetching a smart album's photos
+ */
+export const smartAlbumPageQuerySchema = z.object({
+  after: z.string().optional(), // Page cursor from the previous page
+  limit: z.coerce.number().int().min(1).max(500).optional().default(50),
+});
+
+/**
+ * Schema for smart album records read back from storage
+ */
+export const storedSmartAlbumSchema = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  description: z.string().optional(),
+  filters: savedPhotoFiltersSchema,
+  sort: photoSortSchema,
+  createdAt: z.string().min(1),
+  updatedAt: z.string().min(1),
+});
+
+/**
+ * Schema for the stored smart albums document
+ */
+export const storedSmartAlbumsSchema = z.object({
+  smartAlbums: z.array(storedSmartAlbumSchema),
+});
+
+/**
+ * Type exports
+ */
+export type CreateSmartAlbumInput = z.infer<typeof createSmartAlbumSchema>;
+export type UpdateSmartAlbumInput = z.infer<typeof updateSmartAlbumSchema>;
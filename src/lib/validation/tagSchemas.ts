@@ -0,0 +1,41 @@
+import { z } from 'zod';
+import { TAG_COLORS } from '@/types/tag';
+
+/**
+ * A tag name, normalized the way TagInput stores tags
+ */
+export const tagNameSchema = z.string()
+  .trim()
+  .toLowerCase()
+  .min(1, 'Tag name is required')
+  .max(30, 'Tags must be 30 characters or less');
+
+/**
+ * Schema for renaming and/or recoloring a tag
+ */
+export const updateTagSchema = z.object({
+  name: tagNameSchema.optional(),
+  color: z.enum(TAG_COLORS).nullable().optional(), // null removes the color
+}).refine((data) => data.name !== undefined || data.color !== undefined, {
+  message: 'Nothing to update',
+});
+
+/**
+ * Schema for merging tags into the tag named in the URL
+ */
+export const mergeTagsSchema = z.object({
+  sources: z.array(tagNameSchema).min(1, 'Pick at least one tag to merge').max(100),
+});
+
+/**
+ * Schema for the stored tag settings document
+ */
+export const storedTagSettingsSchema = z.object({
+  colors: z.record(z.string(), z.enum(TAG_COLORS)),
+});
+
+/**
+ * Type exports
+ */
+export type UpdateTagInput = z.infer<typeof updateTagSchema>;
+export type MergeTagsInput = z.infer<typeof mergeTagsSchema>;
@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { UPLOAD_CONFIG, ALLOWED_UPLOAD_TYPES } from '@/config/upload';
+
+/**
+ * Schema for starting a chunked upload
+ */
+export const createUploadSessionSchema = z.object({
+  filename: z.string()
+    .min(1, 'Filename is required')
+    .max(255, 'Filename must be 255 characters or less'),
+  contentType: z.string().refine(
+    (type) => ALLOWED_UPLOAD_TYPES.includes(type),
+    'Invalid file type. Allowed: JPEG, PNG, WebP, GIF'
+  ),
+  size: z.number()
+    .int()
+    .min(1, 'File is empty')
+    .max(UPLOAD_CONFIG.maxChunkedFileSize, 'File too large. Maximum size is 100MB'),
+});
+
+/**
+ * Type exports
+ */
+export type CreateUploadSessionInput = z.infer<typeof createUploadSessionSchema>;
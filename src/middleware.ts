@@ -6,8 +6,14 @@ import { NextResponse } from 'next/server';
  * 
  * Protected routes:
  * - /gallery (and all sub-routes)
+ * - /albums (and all sub-routes)
+ * - /smart-albums (and all sub-routes)
  * - /api/photos (and all sub-routes)
- * - /api/upload
+ * - /api/albums (and all sub-routes)
+ * - /api/smart-albums (and all sub-routes)
+ * - /api/filter-presets (and all sub-routes)
+ * - /api/tags (and all sub-routes)
+ * - /api/upload (and all sub-routes)
  * 
  * Public routes:
  * - /login
@@ -0,0 +1,34 @@
+/**
+ * Write a full gallery backup (metadata, media and manifest) to a zip
+ *
+ * Usage: npm run backup -- [path/to/backup.zip]
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { STORAGE_CONFIG } from '@/config/storage';
+import { createBackupArchive } from '@/lib/backup';
+
+async function main() {
+  const outputFile = path.resolve(
+    process.argv[2] || `irm-gallery-backup-${new Date().toISOString().slice(0, 10)}.zip`
+  );
+
+  console.log('\n💾 Backing up the gallery...\n');
+  console.log(`   From: ${STORAGE_CONFIG.driver} storage`);
+  console.log(`   To:   ${outputFile}\n`);
+
+  await pipeline(Readable.from(createBackupArchive()), fs.createWriteStream(outputFile));
+
+  const { size } = fs.statSync(outputFile);
+  console.log(`✅ Backup written (${(size / (1024 * 1024)).toFixed(1)} MB)\n`);
+  console.log('Restore it with:');
+  console.log(`  npm run restore -- ${path.relative(process.cwd(), outputFile)}\n`);
+}
+
+main().catch((err) => {
+  console.error('Error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,61 @@
+/**
+ * Make resized copies of uploaded images that have none yet, and record
+ * them on their photos
+ *
+ * Photos in the trash are included. Images outside the media store, such
+ * as external URLs, are skipped. Running it again only picks up photos
+ * still without copies.
+ *
+ * Usage: npm run generate-variants
+ */
+
+import type { ImageVariant } from '@/types/photo';
+import { getStorageDriver } from '@/lib/storage';
+import { ensureImageVariants } from '@/lib/imageVariants';
+import { setPhotoVariants } from '@/lib/photoStorage';
+
+async function main() {
+  console.log('\n🖼️  Generating image variants...\n');
+
+  const { photos, media } = getStorageDriver();
+  const [allPhotos, stored] = await Promise.all([photos.list(), media.list()]);
+  const storedUrls = new Set(stored.map((file) => file.url));
+
+  const urls = Array.from(new Set(
+    allPhotos.filter((photo) => !photo.variants?.length).map((photo) => photo.imageUrl)
+  ));
+  const variantsByUrl: Record<string, ImageVariant[]> = {};
+  let skipped = 0;
+  let withoutCopies = 0;
+
+  for (const [index, url] of urls.entries()) {
+    if (!storedUrls.has(url)) {
+      skipped++;
+      continue;
+    }
+
+    const variants = await ensureImageVariants(url, await media.get(url));
+    if (variants.length > 0) {
+      variantsByUrl[url] = variants;
+    } else {
+      withoutCopies++;
+    }
+    console.log(`   [${index + 1}/${urls.length}] ${variants.length} copies of ${url.slice(0, 80)}`);
+  }
+
+  const updated = await setPhotoVariants(variantsByUrl);
+
+  console.log(`\n✅ Updated ${updated.length} photos`);
+  if (skipped > 0) {
+    console.log(`   Skipped: ${skipped} images outside the media store`);
+  }
+  if (withoutCopies > 0) {
+    console.log(`   No copies: ${withoutCopies} animated or unreadable images`);
+  }
+  console.log('');
+}
+
+main().catch((err) => {
+  console.error('Error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,62 @@
+/**
+ * One-shot importer from photos.json into the SQLite metadata store
+ *
+ * Existing rows with the same ID are overwritten, so the import can be
+ * re-run safely. Afterwards set METADATA_STORE=sqlite.
+ *
+ * Usage: npm run import-sqlite -- [path/to/photos.json]
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { STORAGE_CONFIG } from '@/config/storage';
+import { createSqliteRepository } from '@/lib/storage/sqliteRepository';
+import { parsePhotoDocument } from '@/lib/storage/photoDocument';
+
+async function main() {
+  const sourceFile = path.resolve(
+    process.argv[2] || path.join(STORAGE_CONFIG.fs.dataDir, 'photos.json')
+  );
+  const databaseFile = STORAGE_CONFIG.sqlite.file;
+
+  console.log('\n📦 Importing photos into SQLite...\n');
+  console.log(`   From: ${sourceFile}`);
+  console.log(`   To:   ${databaseFile}\n`);
+
+  if (!fs.existsSync(sourceFile)) {
+    console.error(`❌ ${sourceFile} does not exist`);
+    process.exit(1);
+  }
+
+  let parsed;
+  try {
+    parsed = parsePhotoDocument(JSON.parse(fs.readFileSync(sourceFile, 'utf-8')));
+  } catch (error) {
+    console.error(`❌ Could not read ${sourceFile}:`, error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  const { photos, invalid } = parsed;
+
+  if (invalid.length > 0) {
+    console.warn(`⚠️  Skipping ${invalid.length} invalid records:`);
+    invalid.forEach((item) => {
+      console.warn(`   - ${item.id ?? `#${item.index}`}: ${item.issues.join('; ')}`);
+    });
+    console.warn('');
+  }
+
+  const repository = createSqliteRepository(databaseFile);
+  await repository.upsert(photos);
+
+  const stored = await repository.list();
+
+  console.log(`✅ Imported ${photos.length} photos (${stored.length} now in the database)\n`);
+  console.log('Next steps:');
+  console.log('  Set METADATA_STORE=sqlite in .env.local and restart the server\n');
+}
+
+main().catch((err) => {
+  console.error('Error:', err);
+  process.exit(1);
+});
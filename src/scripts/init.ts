@@ -12,6 +12,7 @@
 import fs from 'fs';
 import path from 'path';
 import bcrypt from 'bcryptjs';
+import { createPhotoDocument } from '@/lib/storage/photoDocument';
 
 const DATA_DIR = path.join(process.cwd(), 'src', 'data');
 const UPLOAD_DIR = path.join(process.cwd(), 'public', 'uploads');
@@ -41,7 +42,7 @@ async function main() {
   console.log('\n📄 Checking data files...');
   
   if (!fs.existsSync(PHOTOS_FILE)) {
-    fs.writeFileSync(PHOTOS_FILE, JSON.stringify([], null, 2));
+    fs.writeFileSync(PHOTOS_FILE, JSON.stringify(createPhotoDocument([]), null, 2));
     console.log('   ✓ Created photos.json');
   } else {
     console.log('   ✓ photos.json exists');
@@ -0,0 +1,34 @@
+/**
+ * Permanently delete photos whose trash retention has expired
+ *
+ * The server also purges on its own (at most hourly); run this from
+ * cron if the gallery is rarely visited.
+ *
+ * Usage: npm run purge-trash
+ */
+
+import { STORAGE_CONFIG } from '@/config/storage';
+import { purgeExpiredTrash } from '@/lib/photoStorage';
+
+async function main() {
+  const { retentionDays } = STORAGE_CONFIG.trash;
+
+  console.log('\n🗑️  Purging expired trash...\n');
+
+  if (!(retentionDays > 0)) {
+    console.log('ℹ️  TRASH_RETENTION_DAYS is 0, trashed photos are kept forever\n');
+    return;
+  }
+
+  console.log(`   Retention: ${retentionDays} days\n`);
+
+  const purged = await purgeExpiredTrash();
+
+  purged.forEach((photo) => console.log(`   - ${photo.title} (${photo.id})`));
+  console.log(`\n✅ Purged ${purged.length} photos\n`);
+}
+
+main().catch((err) => {
+  console.error('Error:', err);
+  process.exit(1);
+});
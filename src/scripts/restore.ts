@@ -0,0 +1,52 @@
+/**
+ * Restore a gallery backup into the configured storage backend
+ *
+ * The target is chosen with the usual STORAGE_DRIVER / METADATA_STORE
+ * variables, so a backup can be moved to a different backend, e.g.
+ *   STORAGE_DRIVER=s3 npm run restore -- backup.zip
+ *
+ * Usage: npm run restore -- path/to/backup.zip
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { STORAGE_CONFIG } from '@/config/storage';
+import { restoreBackup, BackupValidationError } from '@/lib/backup';
+
+async function main() {
+  const archiveFile = process.argv[2];
+
+  if (!archiveFile) {
+    console.log('\n❌ Please provide a backup file\n');
+    console.log('Usage: npm run restore -- path/to/backup.zip\n');
+    process.exit(1);
+  }
+
+  const sourceFile = path.resolve(archiveFile);
+
+  console.log('\n♻️  Restoring the gallery...\n');
+  console.log(`   From: ${sourceFile}`);
+  console.log(`   To:   ${STORAGE_CONFIG.driver} storage (metadata: ${STORAGE_CONFIG.metadata})\n`);
+
+  if (!fs.existsSync(sourceFile)) {
+    console.error(`❌ ${sourceFile} does not exist`);
+    process.exit(1);
+  }
+
+  try {
+    const result = await restoreBackup(fs.readFileSync(sourceFile));
+    console.log(`✅ Restored ${result.photos} photos, ${result.media} media files and ${result.documents} data documents`);
+    console.log(`   Backup taken ${result.createdAt}\n`);
+  } catch (error) {
+    if (error instanceof BackupValidationError) {
+      console.error(`❌ Invalid backup: ${error.message}`);
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
+main().catch((err) => {
+  console.error('Error:', err);
+  process.exit(1);
+});
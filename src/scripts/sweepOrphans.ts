@@ -0,0 +1,53 @@
+/**
+ * Find uploads that no photo references, and optionally delete them
+ *
+ * Files uploaded within the last hour are skipped, since they may
+ * belong to a photo that is still being created.
+ *
+ * Usage: npm run sweep-orphans            (dry run, only lists orphans)
+ *        npm run sweep-orphans -- --delete
+ */
+
+import { sweepOrphanedMedia } from '@/lib/mediaSweeper';
+
+/**
+ * Format a byte count for display
+ */
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+async function main() {
+  const dryRun = !process.argv.includes('--delete');
+
+  console.log(`\n🧹 Sweeping orphaned media${dryRun ? ' (dry run)' : ''}...\n`);
+
+  const result = await sweepOrphanedMedia({ dryRun });
+  const totalSize = result.orphans.reduce((sum, file) => sum + file.size, 0);
+
+  result.orphans.forEach((file) => console.log(`   - ${file.url} (${formatSize(file.size)})`));
+
+  console.log(`\n   Orphans: ${result.orphans.length} (${formatSize(totalSize)})`);
+  if (result.skippedRecent > 0) {
+    console.log(`   Skipped: ${result.skippedRecent} recent uploads`);
+  }
+
+  if (dryRun) {
+    console.log('\nRun with --delete to remove them\n');
+    return;
+  }
+
+  console.log(`\n✅ Deleted ${result.deleted.length} files\n`);
+
+  if (result.failed.length > 0) {
+    console.error(`❌ Failed to delete ${result.failed.length} files`);
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error('Error:', err);
+  process.exit(1);
+});
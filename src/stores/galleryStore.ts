@@ -1,5 +1,9 @@
 import { create } from 'zustand';
-import type { PhotoFrame, PhotoFilters, PhotoSortOption } from '@/types/photo';
+import type { PhotoFrame, PhotoFilters, PhotoSortOption, PhotoChanges } from '@/types/photo';
+import { hasSearchText, resolveFilters, scorePhoto } from '@/lib/search';
+import { compareSortKeys, getSortKey, reorderPositions, sortPhotos } from '@/lib/photoSort';
+import { matchesFilters } from '@/lib/photoFilters';
+import type { TagColorMap } from '@/types/tag';
 
 /**
  * Gallery store state interface
@@ -19,16 +23,28 @@ interface GalleryState {
   error: string | null;
   /** All available tags */
   allTags: string[];
+  /** Assigned tag colors */
+  tagColors: TagColorMap;
   /** Total photo count (before filtering) */
   totalCount: number;
+  /** Change feed cursor the photos are current as of */
+  syncCursor: string | null;
+  /** Cursor of the next page to load, or null once everything is loaded */
+  nextPageCursor: string | null;
+  /** Whether a further page is being loaded */
+  isLoadingMore: boolean;
 }
 
 /**
  * Gallery store actions interface
  */
 interface GalleryActions {
-  /** Set photos array */
-  setPhotos: (photos: PhotoFrame[], total?: number) => void;
+  /** Set photos array (the first page) */
+  setPhotos: (photos: PhotoFrame[], total?: number, nextPageCursor?: string | null) => void;
+  /** Add a further page of photos */
+  appendPhotos: (photos: PhotoFrame[], nextPageCursor: string | null) => void;
+  /** Set the loading state of further pages */
+  setLoadingMore: (loading: boolean) => void;
   /** Add a new photo */
   addPhoto: (photo: PhotoFrame) => void;
   /** Update an existing photo */
@@ -53,8 +69,19 @@ interface GalleryActions {
   setError: (error: string | null) => void;
   /** Set available tags */
   setAllTags: (tags: string[]) => void;
-  /** Reorder photos */
+  /** Set assigned tag colors */
+  setTagColors: (colors: TagColorMap) => void;
+  /** Reorder photos by hand; the listed photos swap positions between them */
   reorderPhotos: (orderedIds: string[]) => void;
+  /** Set the change feed cursor */
+  setSyncCursor: (cursor: string | null) => void;
+  /**
+   * Apply deltas from the change feed. Photos that sort past the loaded
+   * pages are left for the page that will contain them.
+   */
+  applyChanges: (changes: Pick<PhotoChanges, 'created' | 'updated' | 'deleted'>) => void;
+  /** Apply new positions by photo ID */
+  applyPositions: (positions: Record<string, number>) => void;
 }
 
 /**
@@ -81,6 +108,41 @@ type GalleryStore = GalleryState & GalleryActions & GalleryComputed;
  */
 const DEFAULT_FILTERS: PhotoFilters = {};
 
+/**
+ * Whether a photo belongs in the current view: it passes the filters and,
+ * while searching, matches the search text
+ */
+function isInView(state: GalleryState, photo: PhotoFrame): boolean {
+  const { filters, text } = resolveFilters(state.filters);
+  return matchesFilters(photo, filters) && (!hasSearchText(text) || scorePhoto(photo, text) > 0);
+}
+
+/**
+ * Whether a photo sorts within the pages loaded so far
+ */
+function isInLoadedWindow(state: GalleryState, photo: PhotoFrame): boolean {
+  if (!state.nextPageCursor || state.photos.length === 0) {
+    return true;
+  }
+  
+  // Find the last photo shown, scored and sorted the way filteredPhotos does
+  const { filters, text } = resolveFilters(state.filters);
+  const searching = hasSearchText(text);
+  const scores = new Map<string, number>();
+  let loaded = state.photos.filter((p) => matchesFilters(p, filters));
+  if (searching) {
+    loaded.forEach((p) => scores.set(p.id, scorePhoto(p, text)));
+    loaded = loaded.filter((p) => scores.get(p.id)! > 0);
+  }
+  const last = sortPhotos(loaded, state.sortOption, scores).pop();
+  
+  return !last || compareSortKeys(
+    getSortKey(photo, state.sortOption, searching ? scorePhoto(photo, text) : undefined),
+    getSortKey(last, state.sortOption, scores.get(last.id)),
+    state.sortOption
+  ) <= 0;
+}
+
 /**
  * Gallery store with Zustand
  * 
@@ -95,15 +157,31 @@ export const useGalleryStore = create<GalleryStore>((set, get) => ({
   isLoading: false,
   error: null,
   allTags: [],
+  tagColors: {},
   totalCount: 0,
+  syncCursor: null,
+  nextPageCursor: null,
+  isLoadingMore: false,
   
   // Actions
-  setPhotos: (photos, total) => set({ 
+  setPhotos: (photos, total, nextPageCursor = null) => set({ 
     photos, 
     totalCount: total ?? photos.length,
+    nextPageCursor,
     error: null,
   }),
   
+  appendPhotos: (photos, nextPageCursor) => set((state) => {
+    // Live updates may already have brought in some of these
+    const loaded = new Set(state.photos.map((p) => p.id));
+    return {
+      photos: [...state.photos, ...photos.filter((p) => !loaded.has(p.id))],
+      nextPageCursor,
+    };
+  }),
+  
+  setLoadingMore: (isLoadingMore) => set({ isLoadingMore }),
+  
   addPhoto: (photo) => set((state) => ({
     photos: [photo, ...state.photos],
     totalCount: state.totalCount + 1,
@@ -149,77 +227,75 @@ export const useGalleryStore = create<GalleryStore>((set, get) => ({
   
   setAllTags: (allTags) => set({ allTags }),
   
-  reorderPhotos: (orderedIds) => set((state) => {
+  setTagColors: (tagColors) => set({ tagColors }),
+  
+  reorderPhotos: (orderedIds) => {
+    get().applyPositions(reorderPositions(get().photos, orderedIds));
+  },
+  
+  setSyncCursor: (syncCursor) => set({ syncCursor }),
+  
+  applyChanges: ({ created, updated, deleted }) => set((state) => {
     const photoMap = new Map(state.photos.map((p) => [p.id, p]));
-    const reordered = orderedIds
-      .map((id, index) => {
-        const photo = photoMap.get(id);
-        if (photo) {
-          return { ...photo, position: index };
-        }
-        return null;
-      })
-      .filter((p): p is PhotoFrame => p !== null);
+    let { totalCount } = state;
     
-    return { photos: reordered };
+    [...created, ...updated].forEach((photo) => {
+      if (photoMap.has(photo.id)) {
+        photoMap.set(photo.id, photo);
+        return;
+      }
+      // The server counts the current view only
+      if (created.includes(photo) && isInView(state, photo)) {
+        totalCount += 1;
+      }
+      if (isInLoadedWindow(state, photo)) {
+        photoMap.set(photo.id, photo);
+      }
+    });
+    
+    deleted.forEach((id) => {
+      if (photoMap.delete(id)) {
+        totalCount -= 1;
+      }
+    });
+    
+    const selectedPhoto = state.selectedPhoto && photoMap.get(state.selectedPhoto.id);
+    
+    return {
+      photos: Array.from(photoMap.values()),
+      totalCount: Math.max(totalCount, 0),
+      selectedPhoto: state.selectedPhoto ? selectedPhoto ?? null : null,
+      allTags: Array.from(new Set([
+        ...state.allTags,
+        ...[...created, ...updated].flatMap((p) => p.tags),
+      ])),
+    };
   }),
   
+  applyPositions: (positions) => set((state) => ({
+    photos: state.photos.map((photo) => (
+      photo.id in positions ? { ...photo, position: positions[photo.id] } : photo
+    )),
+  })),
+  
   // Computed values
   filteredPhotos: () => {
-    const { photos, filters, sortOption } = get();
+    const { photos, sortOption } = get();
+    const { filters, text } = resolveFilters(get().filters);
     let result = [...photos];
     
-    // Apply search filter
-    if (filters.search) {
-      const searchLower = filters.search.toLowerCase();
-      result = result.filter(
-        (p) =>
-          p.title.toLowerCase().includes(searchLower) ||
-          p.description?.toLowerCase().includes(searchLower) ||
-          p.tags.some((t) => t.toLowerCase().includes(searchLower))
-      );
-    }
-    
-    // Apply tags filter
-    if (filters.tags && filters.tags.length > 0) {
-      result = result.filter((p) =>
-        filters.tags!.some((tag) => p.tags.includes(tag))
-      );
-    }
+    // Apply trash, tag, favorite and date filters
+    result = result.filter((p) => matchesFilters(p, filters));
     
-    // Apply favorites filter
-    if (filters.favoritesOnly) {
-      result = result.filter((p) => p.isFavorite);
+    // Apply search text, scored the same way as on the server
+    const scores = new Map<string, number>();
+    if (hasSearchText(text)) {
+      result.forEach((p) => scores.set(p.id, scorePhoto(p, text)));
+      result = result.filter((p) => scores.get(p.id)! > 0);
     }
     
     // Apply sorting (already sorted from API, but sort again for local changes)
-    result.sort((a, b) => {
-      switch (sortOption) {
-        case 'dateAdded-desc':
-          return new Date(b.dateAdded).getTime() - new Date(a.dateAdded).getTime();
-        case 'dateAdded-asc':
-          return new Date(a.dateAdded).getTime() - new Date(b.dateAdded).getTime();
-        case 'dateTaken-desc':
-          if (!a.dateTaken) return 1;
-          if (!b.dateTaken) return -1;
-          return new Date(b.dateTaken).getTime() - new Date(a.dateTaken).getTime();
-        case 'dateTaken-asc':
-          if (!a.dateTaken) return 1;
-          if (!b.dateTaken) return -1;
-          return new Date(a.dateTaken).getTime() - new Date(b.dateTaken).getTime();
-        case 'title-asc':
-          return a.title.localeCompare(b.title);
-        case 'title-desc':
-          return b.title.localeCompare(a.title);
-        case 'favorites-first':
-          if (a.isFavorite === b.isFavorite) {
-            return new Date(b.dateAdded).getTime() - new Date(a.dateAdded).getTime();
-          }
-          return a.isFavorite ? -1 : 1;
-        default:
-          return 0;
-      }
-    });
+    sortPhotos(result, sortOption, scores);
     
     return result;
   },
@@ -5,4 +5,8 @@
 export * from './photo';
 export * from './auth';
 export * from './settings';
+export * from './storage';
+export * from './search';
 
+export * from './tag';
+export * from './upload';
@@ -22,6 +22,34 @@ export interface Photo {
   tags: string[];
   /** Whether the photo is marked as favorite */
   isFavorite: boolean;
+  /** Resized copies of the image (absent for images without any) */
+  variants?: ImageVariant[];
+}
+
+/**
+ * Named size of a resized image
+ */
+export type ImageVariantSize = 'thumb' | 'grid' | 'viewer';
+
+/**
+ * Encoding of a resized image
+ */
+export type ImageVariantFormat = 'avif' | 'webp';
+
+/**
+ * A resized copy of a photo's image, generated on upload
+ */
+export interface ImageVariant {
+  /** Named size the copy was made for */
+  size: ImageVariantSize;
+  /** Encoding of the copy */
+  format: ImageVariantFormat;
+  /** Width in pixels */
+  width: number;
+  /** Height in pixels */
+  height: number;
+  /** Public URL of the copy */
+  url: string;
 }
 
 /**
@@ -34,6 +62,147 @@ export interface PhotoFrame extends Photo {
   rotation: number;
   /** Position in the grid (for drag and drop) */
   position: number;
+  /**
+   * Revision number, incremented on every edit and exposed as the ETag.
+   * Position changes from reordering do not count as edits.
+   */
+  version: number;
+  /** When the photo was moved to the trash (absent if not trashed) */
+  deletedAt?: string;
+}
+
+/**
+ * A named collection of photos in a manual order
+ */
+export interface Album {
+  /** Unique identifier for the album */
+  id: string;
+  /** Title of the album */
+  title: string;
+  /** Optional description */
+  description?: string;
+  /** Photo shown on the album card (defaults to the first photo) */
+  coverPhotoId?: string;
+  /** IDs of the photos in the album, in display order */
+  photoIds: string[];
+  /** When the album was created */
+  createdAt: string;
+  /** When the album was last changed */
+  updatedAt: string;
+}
+
+/**
+ * An album with the details needed to list it
+ */
+export interface AlbumSummary extends Album {
+  /** Number of photos in the album outside the trash */
+  photoCount: number;
+  /** Image of the cover photo, if the album has any photos */
+  coverUrl?: string;
+}
+
+/**
+ * Album creation input
+ */
+export interface CreateAlbumInput {
+  title: string;
+  description?: string;
+  coverPhotoId?: string;
+  photoIds?: string[];
+}
+
+/**
+ * Album update input (all fields optional; null clears a field)
+ */
+export interface UpdateAlbumInput {
+  title?: string;
+  description?: string | null;
+  coverPhotoId?: string | null;
+  photoIds?: string[];
+}
+
+/**
+ * Album whose photos are whatever currently matches a saved query
+ */
+export interface SmartAlbum {
+  /** Unique identifier for the smart album */
+  id: string;
+  /** Title of the smart album */
+  title: string;
+  /** Optional description */
+  description?: string;
+  /** Filters photos must match (never the trash) */
+  filters: PhotoFilters;
+  /** Order of the album's photos */
+  sort: PhotoSortOption;
+  /** When the smart album was created */
+  createdAt: string;
+  /** When the smart album was last changed */
+  updatedAt: string;
+}
+
+/**
+ * A smart album with the details needed to list it
+ */
+export interface SmartAlbumSummary extends SmartAlbum {
+  /** Number of photos currently matching */
+  photoCount: number;
+  /** Image of the first matching photo */
+  coverUrl?: string;
+}
+
+/**
+ * Smart album creation input
+ */
+export interface CreateSmartAlbumInput {
+  title: string;
+  description?: string;
+  filters: PhotoFilters;
+  sort?: PhotoSortOption;
+}
+
+/**
+ * Smart album update input (all fields optional; null clears the description)
+ */
+export interface UpdateSmartAlbumInput {
+  title?: string;
+  description?: string | null;
+  filters?: PhotoFilters;
+  sort?: PhotoSortOption;
+}
+
+/**
+ * Named filters and sort a user saved from the filter bar
+ */
+export interface FilterPreset {
+  /** Unique identifier for the preset */
+  id: string;
+  /** Name shown in the presets menu */
+  name: string;
+  /** Saved filters (never the trash) */
+  filters: PhotoFilters;
+  /** Saved sort order */
+  sort: PhotoSortOption;
+  /** When the preset was created */
+  createdAt: string;
+  /** When the preset was last renamed */
+  updatedAt: string;
+}
+
+/**
+ * Filter preset creation input
+ */
+export interface CreateFilterPresetInput {
+  name: string;
+  filters: PhotoFilters;
+  sort: PhotoSortOption;
+}
+
+/**
+ * Filter preset update input (presets can only be renamed)
+ */
+export interface UpdateFilterPresetInput {
+  name: string;
 }
 
 /**
@@ -64,19 +233,75 @@ export interface UpdatePhotoInput {
   tags?: string[];
   isFavorite?: boolean;
   frameColor?: FrameColor;
-  position?: number;
 }
 
+/**
+ * A change applied to many photos at once
+ * - addTags / removeTags: add or remove tags, keeping the others
+ * - delete / restore: move photos to or out of the trash
+ */
+export type PhotoBatchOperation =
+  | { type: 'addTags'; tags: string[] }
+  | { type: 'removeTags'; tags: string[] }
+  | { type: 'setFavorite'; isFavorite: boolean }
+  | { type: 'setFrameColor'; frameColor: FrameColor }
+  | { type: 'setDateTaken'; dateTaken: string | null }
+  | { type: 'delete' }
+  | { type: 'restore' };
+
+/**
+ * Outcome of a batch operation for one photo
+ */
+export interface PhotoBatchResult {
+  /** ID of the photo */
+  id: string;
+  /** Whether the photo changed, already matched, was missing or was refused */
+  status: 'updated' | 'unchanged' | 'notFound' | 'failed';
+  /** The photo after the operation, unless it was not found */
+  photo?: PhotoFrame;
+  /** Why the operation was refused */
+  error?: string;
+}
+
+/**
+ * An edit that was rejected because someone else changed the photo first
+ */
+export interface PhotoConflict {
+  /** The photo as it was when editing started */
+  base: PhotoFrame;
+  /** The current server copy */
+  current: PhotoFrame;
+  /** The rejected changes */
+  changes: UpdatePhotoInput;
+}
+
+/**
+ * How to resolve a photo conflict
+ * - keep-theirs: drop the local changes
+ * - merge: apply only the fields changed locally on top of the server copy
+ * - overwrite: apply every submitted field on top of the server copy
+ */
+export type PhotoConflictResolution = 'keep-theirs' | 'merge' | 'overwrite';
+
 /**
  * Filter options for querying photos
  */
 export interface PhotoFilters {
-  /** Search query for title and description */
+  /**
+   * Search query: free text matched against title, description and tags,
+   * plus `tag:`, `-tag:`, `fav:`, `before:` and `after:` operators
+   */
   search?: string;
   /** Filter by specific tags */
   tags?: string[];
+  /** Whether photos need any (default) or all of `tags` */
+  tagMode?: TagMatchMode;
+  /** Hide photos with any of these tags */
+  excludedTags?: string[];
   /** Show only favorites */
   favoritesOnly?: boolean;
+  /** Show the trash instead of the gallery */
+  trashed?: boolean;
   /** Date range filter */
   dateRange?: {
     from?: string;
@@ -84,6 +309,11 @@ export interface PhotoFilters {
   };
 }
 
+/**
+ * How selected tags combine: photos with any of them, or with all of them
+ */
+export type TagMatchMode = 'any' | 'all';
+
 /**
  * Sort options for photo list
  */
@@ -94,13 +324,57 @@ export type PhotoSortOption =
   | 'dateTaken-asc' 
   | 'title-asc' 
   | 'title-desc'
-  | 'favorites-first';
+  | 'favorites-first'
+  | 'relevance'
+  | 'custom';
+
+/**
+ * One page of a photo listing
+ */
+export interface PhotoPage {
+  /** Photos on this page, in sort order */
+  photos: PhotoFrame[];
+  /** Number of photos matching the filters across all pages */
+  total: number;
+  /** Cursor for the next page, or null on the last page */
+  nextCursor: string | null;
+}
+
+/**
+ * Photos changed since a sync cursor
+ */
+export interface PhotoChanges {
+  /** Cursor to pass as `since` on the next request */
+  cursor: string;
+  /**
+   * The cursor is too old (or unknown) to compute deltas; the client
+   * must reload the full list. The change lists are empty.
+   */
+  reset: boolean;
+  /** Photos added since the cursor */
+  created: PhotoFrame[];
+  /** Photos modified since the cursor (including moves to the trash) */
+  updated: PhotoFrame[];
+  /** IDs of photos permanently deleted since the cursor */
+  deleted: string[];
+}
+
+/**
+ * A real-time gallery event, as sent by GET /api/photos/events
+ */
+export type PhotoEvent =
+  | { type: 'created'; photo: PhotoFrame }
+  | { type: 'updated'; photo: PhotoFrame }
+  | { type: 'deleted'; id: string }
+  | { type: 'reordered'; positions: Record<string, number> };
 
 /**
  * Pagination options
  */
 export interface PaginationOptions {
-  page: number;
+  /** `nextCursor` of the previous page (omit for the first page) */
+  after?: string;
+  /** Maximum number of photos per page */
   limit: number;
 }
 
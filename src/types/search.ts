@@ -0,0 +1,30 @@
+/**
+ * Search types for the IRM Gallery application
+ */
+
+import type { PhotoFilters } from './photo';
+
+/**
+ * Free-text part of a search query, normalized (lowercase, no diacritics)
+ */
+export interface SearchText {
+  /** Words that must each match a title, tag or description word (fuzzily) */
+  terms: string[];
+  /** Quoted phrases that must appear word for word, as token lists */
+  phrases: string[][];
+  /** Words and phrases that must not appear, as token lists */
+  excluded: string[][];
+}
+
+/**
+ * A search query split into structured filters and free text
+ *
+ * @example
+ * `tag:beach fav:true before:2024-06 "exact phrase" -tag:work sunset`
+ */
+export interface ParsedSearchQuery {
+  /** Filters from `tag:`, `-tag:`, `fav:`, `before:` and `after:` */
+  filters: PhotoFilters;
+  /** Everything else */
+  text: SearchText;
+}
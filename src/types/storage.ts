@@ -0,0 +1,225 @@
+/**
+ * Storage driver types for the IRM Gallery application
+ */
+
+import type { PhotoFrame, PhotoFilters } from './photo';
+
+/**
+ * Available storage drivers
+ */
+export type StorageDriverName = 'fs' | 'blob' | 's3' | 'memory';
+
+/**
+ * Where photo metadata is kept: the storage driver itself or SQLite
+ */
+export type MetadataStoreName = 'driver' | 'sqlite';
+
+/**
+ * The stored photo document, as written by the single-document drivers
+ * and backups. Documents written before versioning are a bare array.
+ */
+export interface StoredPhotoDocument {
+  /** Schema version the records conform to */
+  schemaVersion: number;
+  /** Photo records */
+  photos: unknown[];
+  /** Sequence number of the latest change */
+  sequence?: number;
+  /** Most recent changes, oldest first */
+  changes?: PhotoChange[];
+}
+
+/**
+ * Kind of change recorded in the change log
+ */
+export type PhotoChangeType = 'created' | 'updated' | 'deleted';
+
+/**
+ * A change log entry
+ */
+export interface PhotoChange {
+  /** Increasing sequence number */
+  sequence: number;
+  /** ID of the changed photo */
+  id: string;
+  /** What happened to the photo */
+  type: PhotoChangeType;
+}
+
+/**
+ * A stored record that failed validation and was left out of the gallery
+ */
+export interface InvalidPhotoRecord {
+  /** Record ID, if it has one */
+  id?: string;
+  /** Position of the record in the stored document */
+  index: number;
+  /** Validation errors */
+  issues: string[];
+  /** The record, upgraded to the current schema version where possible */
+  record: unknown;
+}
+
+/**
+ * Persists photo metadata records
+ */
+export interface PhotoRepository {
+  /** Load every stored photo */
+  list(): Promise<PhotoFrame[]>;
+  /** Load a single photo by ID */
+  findById(id: string): Promise<PhotoFrame | null>;
+  /** Insert or replace the given photos */
+  upsert(photos: PhotoFrame[]): Promise<void>;
+  /** Remove the photos with the given IDs */
+  remove(ids: string[]): Promise<void>;
+  /**
+   * Run a read-modify-write sequence exclusively. Reads inside the
+   * task see the latest stored data. Tasks must not nest.
+   */
+  transaction<T>(task: () => Promise<T>): Promise<T>;
+  /**
+   * Load the photos that may match the filters using native indexes.
+   * May return a superset; callers still apply the filters themselves.
+   */
+  listMatching?(filters: PhotoFilters): Promise<PhotoFrame[]>;
+  /** Load every distinct tag of photos outside the trash, sorted */
+  listTags?(): Promise<string[]>;
+  /** Load stored records that failed validation */
+  listInvalid?(): Promise<InvalidPhotoRecord[]>;
+  /**
+   * Load change log entries after a sequence number, oldest first.
+   * upsert and remove log their changes automatically; only the most
+   * recent entries are retained.
+   */
+  listChanges(since: number): Promise<PhotoChange[]>;
+  /**
+   * Sequence number of the latest change, and of the oldest one still
+   * retained (latest + 1 when the log is empty)
+   */
+  changeRange(): Promise<{ oldest: number; latest: number }>;
+}
+
+/**
+ * A file held by a media store
+ */
+export interface StoredMedia {
+  /** Public URL, as stored in PhotoFrame.imageUrl */
+  url: string;
+  /** Size in bytes */
+  size: number;
+  /** Last modification time (ISO string) */
+  lastModified: string;
+}
+
+/**
+ * Persists uploaded media files
+ */
+export interface MediaStore {
+  /** Store a file and return its public URL */
+  put(filename: string, data: Buffer, contentType: string): Promise<string>;
+  /** Look up the public URL of a stored file by name, or null if absent */
+  find(filename: string): Promise<string | null>;
+  /** Read a stored file by its public URL */
+  get(url: string): Promise<Buffer>;
+  /** Look up a stored file by its public URL, or null if absent */
+  stat(url: string): Promise<StoredMedia | null>;
+  /** Mark a stored file as just written, restarting its sweep grace period */
+  touch(url: string): Promise<void>;
+  /** Delete a stored file by its public URL */
+  delete(url: string): Promise<void>;
+  /** List every stored file */
+  list(): Promise<StoredMedia[]>;
+}
+
+/**
+ * Persists small named JSON documents next to the photo metadata,
+ * such as tag colors
+ */
+export interface DataStore {
+  /** Read a document, or null if it was never written */
+  read(name: string): Promise<unknown>;
+  /** Replace a document */
+  write(name: string, value: unknown): Promise<void>;
+  /** Names of every document written so far */
+  list(): Promise<string[]>;
+}
+
+/**
+ * Outcome of an orphaned media sweep
+ */
+export interface OrphanSweepResult {
+  /** Stored files no photo references */
+  orphans: StoredMedia[];
+  /** URLs that were deleted (empty for a dry run) */
+  deleted: string[];
+  /** URLs that could not be deleted */
+  failed: string[];
+  /** Unreferenced files skipped because they were uploaded too recently */
+  skippedRecent: number;
+}
+
+/**
+ * A storage backend: metadata repository, media store and data documents
+ */
+export interface StorageDriver {
+  /** Driver identifier */
+  name: StorageDriverName;
+  /** Photo metadata repository */
+  photos: PhotoRepository;
+  /** Uploaded media store */
+  media: MediaStore;
+  /** Named JSON documents */
+  data: DataStore;
+}
+
+/**
+ * A file inside a backup archive
+ */
+export interface BackupFileEntry {
+  /** Path inside the archive */
+  path: string;
+  /** Size in bytes */
+  size: number;
+  /** Hex SHA-256 checksum */
+  sha256: string;
+}
+
+/**
+ * manifest.json of a backup archive
+ */
+export interface BackupManifest {
+  /** Always "irm-gallery-backup" */
+  format: string;
+  /** Archive format version */
+  version: number;
+  /** When the backup was taken (ISO string) */
+  createdAt: string;
+  /** Driver the backup was taken from */
+  driver: StorageDriverName;
+  /** Number of photos in photos.json */
+  photoCount: number;
+  /** Names of the data documents stored under data/ (since version 2) */
+  data?: string[];
+  /** Every file in the archive except the manifest */
+  files: BackupFileEntry[];
+  /** Media files and the URLs they were stored under */
+  media: {
+    url: string;
+    path: string;
+    contentType: string;
+  }[];
+}
+
+/**
+ * Outcome of restoring a backup
+ */
+export interface RestoreResult {
+  /** Photos written */
+  photos: number;
+  /** Media files uploaded */
+  media: number;
+  /** Data documents written */
+  documents: number;
+  /** When the restored backup was taken */
+  createdAt: string;
+}
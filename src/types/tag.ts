@@ -0,0 +1,40 @@
+/**
+ * Tag types for the IRM Gallery application
+ */
+
+/**
+ * Colors a tag can be given
+ */
+export const TAG_COLORS = ['rose', 'lavender', 'mint', 'peach', 'sky', 'amber', 'gray'] as const;
+
+/**
+ * Tag color option
+ */
+export type TagColor = (typeof TAG_COLORS)[number];
+
+/**
+ * Assigned tag colors by tag name
+ */
+export type TagColorMap = Record<string, TagColor>;
+
+/**
+ * A tag as listed in the tag admin panel
+ */
+export interface TagSummary {
+  /** Tag name */
+  name: string;
+  /** Number of photos outside the trash with the tag */
+  count: number;
+  /** Assigned color, if any */
+  color?: TagColor;
+}
+
+/**
+ * Outcome of a rename, merge or delete across all photos
+ */
+export interface TagChangeResult {
+  /** Number of photos whose tags changed */
+  updated: number;
+  /** Every tag after the change */
+  tags: TagSummary[];
+}
@@ -0,0 +1,68 @@
+/**
+ * Upload queue types for the IRM Gallery application
+ */
+
+/**
+ * Where a file is in the upload queue
+ * - queued: waiting for a free upload slot
+ * - uploaded: stored, waiting for its photo to be created
+ * - canceled: stopped by the user; can be retried
+ */
+export type UploadItemStatus = 'queued' | 'uploading' | 'uploaded' | 'error' | 'canceled';
+
+/**
+ * Details of the photo a queued file becomes
+ */
+export interface UploadMetadata {
+  title: string;
+  description?: string;
+  dateTaken?: string;
+  tags: string[];
+  isFavorite: boolean;
+}
+
+/**
+ * A file in the upload queue
+ */
+export interface UploadQueueItem {
+  /** Unique identifier within the queue */
+  id: string;
+  /** The file being uploaded */
+  file: File;
+  /** Object URL for the thumbnail */
+  previewUrl: string;
+  /** Upload status */
+  status: UploadItemStatus;
+  /** Bytes of the file sent so far */
+  loaded: number;
+  /** URL of the stored image, once uploaded */
+  imageUrl?: string;
+  /** Why the upload failed */
+  error?: string;
+  /** Details for the photo, reviewed before it is created */
+  metadata: UploadMetadata;
+}
+
+/**
+ * A chunked upload in progress, as returned by the upload session routes
+ */
+export interface UploadSession {
+  /** Unique identifier for the session */
+  id: string;
+  /** Name of the file being uploaded */
+  filename: string;
+  /** MIME type of the file */
+  contentType: string;
+  /** Size of the whole file in bytes */
+  size: number;
+  /** Size of every part but the last */
+  partSize: number;
+  /** Number of parts the file is split into */
+  totalParts: number;
+  /** Indexes of the parts stored so far, ascending */
+  receivedParts: number[];
+  /** When the session was started */
+  createdAt: string;
+  /** When the session is abandoned unless another part arrives */
+  expiresAt: string;
+}